@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeEvents } from "@/lib/realtime";
 import { useEffect } from "react";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/Landing";
@@ -18,6 +19,7 @@ import AdminDashboard from "@/pages/AdminDashboard";
 import ContractorManagement from "@/pages/ContractorManagement";
 import Profile from "@/pages/Profile";
 import SecuritySettings from "@/pages/security-settings";
+import TwoFactorEnrollment from "@/pages/two-factor-enrollment";
 import VerifyEmail from "@/pages/verify-email";
 import ApplicationDetails from "@/pages/application-details";
 import AdminFormBuilder from "@/pages/admin-form-builder";
@@ -43,6 +45,8 @@ import ContractorAssignments from "@/pages/contractor-assignments";
 import SystemNotifications from "@/pages/SystemNotifications";
 import AdminArchiveSettingsPage from "@/pages/AdminArchiveSettingsPage";
 import AdminRecognitionPage from "@/pages/AdminRecognitionPage";
+import AdminAuditLogPage from "@/pages/AdminAuditLogPage";
+import AdminEmailTemplatesPage from "@/pages/AdminEmailTemplatesPage";
 import RecognitionPage from "@/pages/RecognitionPage";
 import TermsOfUse from "@/pages/TermsOfUse";
 import Accessibility from "@/pages/Accessibility";
@@ -65,7 +69,8 @@ function AdminRedirect() {
 }
 
 function Router() {
-  const { user, isLoading, isAuthenticated } = useAuth();
+  const { user, isLoading, isAuthenticated, needsTwoFactorEnrollment } = useAuth();
+  useRealtimeEvents(isAuthenticated && !needsTwoFactorEnrollment);
 
   if (isLoading) {
     return (
@@ -91,6 +96,10 @@ function Router() {
     );
   }
 
+  if (needsTwoFactorEnrollment) {
+    return <TwoFactorEnrollment />;
+  }
+
   if (!isLoading && user?.role === 'system_admin') {
     return (
       <Layout>
@@ -117,6 +126,8 @@ function Router() {
           <Route path="/admin/system-notifications" component={SystemNotifications} />
           <Route path="/admin/recognition" component={AdminRecognitionPage} />
           <Route path="/admin/support" component={AdminSupportDashboard} />
+          <Route path="/admin/audit-log" component={AdminAuditLogPage} />
+          <Route path="/admin/email-templates" component={AdminEmailTemplatesPage} />
           <Route path="/recognition" component={RecognitionPage} />
           <Route path="/documents" component={Documents} />
           <Route path="/messages" component={ThreadedMessages} />
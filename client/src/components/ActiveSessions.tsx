@@ -0,0 +1,134 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Monitor, Smartphone, MapPin, LogOut } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  device: string;
+  ipAddress: string | null;
+  location: string | null;
+  signedInAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: string;
+}
+
+const isMobile = (device: string) => / on (iOS|Android)$/.test(device);
+
+// Every browser the user is signed in on, with remote sign-out
+export function ActiveSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+  const otherSessions = sessions.filter(session => !session.current);
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/auth/sessions/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session signed out", description: "That device will need to sign in again." });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Sign-out failed", description: error.message });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/auth/sessions/revoke-others", "POST");
+      return await res.json() as { revoked: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Other sessions signed out",
+        description: `Signed out ${data.revoked} other session${data.revoked !== 1 ? 's' : ''}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Sign-out failed", description: error.message });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y border rounded-lg">
+        {sessions.map(session => {
+          const DeviceIcon = isMobile(session.device) ? Smartphone : Monitor;
+          return (
+            <div key={session.id} className="flex items-center justify-between p-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                <DeviceIcon className="h-5 w-5 text-blue-600 shrink-0" />
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-900 truncate">{session.device}</p>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500 flex items-center">
+                    {session.ipAddress ?? "Unknown IP"}
+                    {session.location && (
+                      <>
+                        <MapPin className="h-3 w-3 ml-2 mr-0.5" />
+                        {session.location}
+                      </>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.signedInAt ? `Signed in ${format(new Date(session.signedInAt), "MMM d, yyyy h:mm a")}` : "Sign-in time unknown"}
+                    {session.lastActivityAt && !session.current && (
+                      <> · Active {formatDistanceToNow(new Date(session.lastActivityAt), { addSuffix: true })}</>
+                    )}
+                    {session.current && <> · Active now</>}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-600 hover:text-red-700 shrink-0"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(session.id)}
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Sign out
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {otherSessions.length > 0 ? (
+        <Button
+          variant="outline"
+          className="w-full text-red-600 hover:text-red-700"
+          disabled={revokeOthersMutation.isPending}
+          onClick={() => {
+            if (confirm("Sign out of every other device? They will need to sign in again.")) {
+              revokeOthersMutation.mutate();
+            }
+          }}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          {revokeOthersMutation.isPending ? "Signing out..." : "Sign Out All Other Sessions"}
+        </Button>
+      ) : (
+        <p className="text-sm text-gray-600">You are not signed in anywhere else.</p>
+      )}
+    </div>
+  );
+}
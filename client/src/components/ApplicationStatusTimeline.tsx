@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History, ArrowRight } from "lucide-react";
+import { APPLICATION_STATUS_LABELS, type ApplicationStatus } from "@shared/application-workflow";
+
+interface StatusHistoryEntry {
+  id: number;
+  applicationId: number;
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  actor: string;
+  note: string | null;
+  createdAt: string;
+  changedBy: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    role: string;
+  } | null;
+}
+
+interface ApplicationStatusTimelineProps {
+  applicationId: number | string;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  in_progress: "bg-blue-100 text-blue-800",
+  submitted: "bg-blue-100 text-blue-800",
+  under_review: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  needs_revision: "bg-orange-100 text-orange-800",
+  completed: "bg-green-100 text-green-800",
+};
+
+const formatActor = (entry: StatusHistoryEntry) => {
+  if (entry.changedBy) {
+    const name = `${entry.changedBy.firstName || ''} ${entry.changedBy.lastName || ''}`.trim();
+    return name || entry.changedBy.email || 'Unknown user';
+  }
+  return entry.actor === 'system' ? 'System' : 'Unknown user';
+};
+
+export function ApplicationStatusTimeline({ applicationId }: ApplicationStatusTimelineProps) {
+  const { data: history = [], isLoading } = useQuery<StatusHistoryEntry[]>({
+    queryKey: ['/api/applications', String(applicationId), 'status-history'],
+    queryFn: async () => {
+      const response = await fetch(`/api/applications/${applicationId}/status-history`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch status history');
+      return response.json();
+    },
+    enabled: !!applicationId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Status History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                <div className="flex items-center gap-2 flex-wrap">
+                  {entry.fromStatus && entry.fromStatus !== entry.toStatus && (
+                    <>
+                      <Badge className={STATUS_COLORS[entry.fromStatus]}>
+                        {APPLICATION_STATUS_LABELS[entry.fromStatus] || entry.fromStatus}
+                      </Badge>
+                      <ArrowRight className="h-3 w-3 text-gray-400" />
+                    </>
+                  )}
+                  <Badge className={STATUS_COLORS[entry.toStatus]}>
+                    {APPLICATION_STATUS_LABELS[entry.toStatus] || entry.toStatus}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(entry.createdAt).toLocaleString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })} by {formatActor(entry)}
+                </p>
+                {entry.note && (
+                  <p className="text-sm text-gray-700 mt-2 p-2 bg-gray-50 border border-gray-200 rounded">
+                    {entry.note}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { BookOpen, Pencil, Trash2 } from "lucide-react";
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, type TicketCategory } from "@shared/support-sla";
+
+export interface CannedResponse {
+  id: number;
+  title: string;
+  body: string;
+  category: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Replaces {{firstName}}, {{lastName}} and {{ticketNumber}} placeholders in a canned response
+export function fillCannedResponse(body: string, values: { firstName?: string | null; lastName?: string | null; ticketNumber: string }) {
+  return body
+    .replace(/\{\{\s*firstName\s*\}\}/g, values.firstName || "")
+    .replace(/\{\{\s*lastName\s*\}\}/g, values.lastName || "")
+    .replace(/\{\{\s*ticketNumber\s*\}\}/g, values.ticketNumber);
+}
+
+const EMPTY_DRAFT = { title: "", body: "", category: "any" };
+
+// Library of reusable replies for the support dashboard
+export function CannedResponsesDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  const { data: responses = [] } = useQuery<CannedResponse[]>({
+    queryKey: ["/api/admin/canned-responses"],
+    enabled: open,
+  });
+
+  const resetDraft = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        title: draft.title,
+        body: draft.body,
+        category: draft.category === "any" ? null : draft.category,
+      };
+      return editingId
+        ? apiRequest(`/api/admin/canned-responses/${editingId}`, "PATCH", payload)
+        : apiRequest("/api/admin/canned-responses", "POST", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/canned-responses"] });
+      toast({ title: editingId ? "Response updated" : "Response added" });
+      resetDraft();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save canned response.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/admin/canned-responses/${id}`, "DELETE"),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/canned-responses"] });
+      if (id === editingId) resetDraft();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete canned response.", variant: "destructive" });
+    },
+  });
+
+  const startEditing = (response: CannedResponse) => {
+    setEditingId(response.id);
+    setDraft({ title: response.title, body: response.body, category: response.category || "any" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) resetDraft(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookOpen className="h-4 w-4 mr-1" />
+          Canned Responses
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Canned Responses</DialogTitle>
+          <DialogDescription>
+            Reusable replies for support tickets. Use {"{{firstName}}"}, {"{{lastName}}"} and {"{{ticketNumber}}"} to fill in ticket details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {responses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No canned responses yet.</p>
+          ) : (
+            responses.map(response => (
+              <div key={response.id} className="flex items-start justify-between gap-2 p-2 border rounded">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{response.title}</span>
+                    {response.category && (
+                      <Badge variant="outline" className="text-xs">
+                        {TICKET_CATEGORY_LABELS[response.category as TicketCategory] || response.category}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap">{response.body}</p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" variant="ghost" onClick={() => startEditing(response)}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(response.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="canned-title">Title</Label>
+              <Input
+                id="canned-title"
+                value={draft.title}
+                onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={draft.category} onValueChange={(category) => setDraft(prev => ({ ...prev, category }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any category</SelectItem>
+                  {TICKET_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{TICKET_CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="canned-body">Response</Label>
+            <Textarea
+              id="canned-body"
+              rows={4}
+              value={draft.body}
+              onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={resetDraft}>Cancel Edit</Button>
+            )}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!draft.title.trim() || !draft.body.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : editingId ? "Save Changes" : "Add Response"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
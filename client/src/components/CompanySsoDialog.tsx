@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Copy, LogIn } from "lucide-react";
+
+interface CompanySsoConfig {
+  enabled: boolean;
+  issuerUrl: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  allowedDomains: string[];
+  defaultPermissionLevel: string;
+  redirectUri: string;
+}
+
+// OpenID Connect sign-in for a company's staff. People with an allowed email domain can sign in
+// through the company's identity provider; new ones get an account with the default permission level.
+export function CompanySsoDialog({ company }: { company: { id: number; name: string } }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(true);
+  const [issuerUrl, setIssuerUrl] = useState("");
+  const [clientId, setClientId] = useState("");
+  const [clientSecret, setClientSecret] = useState("");
+  const [clearClientSecret, setClearClientSecret] = useState(false);
+  const [allowedDomains, setAllowedDomains] = useState("");
+  const [defaultPermissionLevel, setDefaultPermissionLevel] = useState("viewer");
+
+  const queryKey = [`/api/admin/companies/${company.id}/sso`];
+  const { data: config, isLoading } = useQuery<CompanySsoConfig | null>({
+    queryKey,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open || isLoading) return;
+    setEnabled(config?.enabled ?? true);
+    setIssuerUrl(config?.issuerUrl ?? "");
+    setClientId(config?.clientId ?? "");
+    setClientSecret("");
+    setClearClientSecret(false);
+    setAllowedDomains(config?.allowedDomains.join(", ") ?? "");
+    setDefaultPermissionLevel(config?.defaultPermissionLevel ?? "viewer");
+  }, [open, isLoading, config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/admin/companies/${company.id}/sso`, "PUT", {
+        enabled,
+        issuerUrl: issuerUrl.trim(),
+        clientId: clientId.trim(),
+        // Left out to keep the saved secret
+        clientSecret: clearClientSecret ? "" : clientSecret.trim() || undefined,
+        allowedDomains: allowedDomains.split(/[\s,]+/).filter(Boolean),
+        defaultPermissionLevel,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setOpen(false);
+      toast({
+        title: "Single Sign-On Saved",
+        description: enabled
+          ? `${company.name} staff can now sign in with their organization account.`
+          : `Single sign-on is turned off for ${company.name}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, "") || "Failed to save the SSO configuration.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/admin/companies/${company.id}/sso`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setOpen(false);
+      toast({ title: "Single Sign-On Removed", description: `${company.name} staff will sign in with their passwords.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove the SSO configuration.", variant: "destructive" });
+    },
+  });
+
+  const redirectUri = config?.redirectUri ?? `${window.location.origin}/api/auth/sso/callback`;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Single sign-on">
+          <LogIn className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Single Sign-On for {company.name}</DialogTitle>
+          <DialogDescription>
+            Let staff sign in with their organization's OpenID Connect identity provider. Email and password sign-in stays available.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="sso-enabled" checked={enabled} onCheckedChange={(checked) => setEnabled(!!checked)} />
+              <Label htmlFor="sso-enabled">Enabled</Label>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sso-issuer">Issuer URL</Label>
+              <Input
+                id="sso-issuer"
+                placeholder="https://login.example.com"
+                value={issuerUrl}
+                onChange={(e) => setIssuerUrl(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sso-client-id">Client ID</Label>
+              <Input id="sso-client-id" value={clientId} onChange={(e) => setClientId(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sso-client-secret">Client Secret</Label>
+              <Input
+                id="sso-client-secret"
+                type="password"
+                autoComplete="new-password"
+                placeholder={config?.hasClientSecret ? "Saved - leave blank to keep it" : "Leave blank for a public client"}
+                value={clientSecret}
+                disabled={clearClientSecret}
+                onChange={(e) => setClientSecret(e.target.value)}
+              />
+              {config?.hasClientSecret && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="sso-clear-secret"
+                    checked={clearClientSecret}
+                    onCheckedChange={(checked) => setClearClientSecret(!!checked)}
+                  />
+                  <Label htmlFor="sso-clear-secret" className="text-sm font-normal">Remove the saved secret</Label>
+                </div>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sso-domains">Allowed Email Domains</Label>
+              <Input
+                id="sso-domains"
+                placeholder="example.com, example.ca"
+                value={allowedDomains}
+                onChange={(e) => setAllowedDomains(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Permission Level for New Users</Label>
+              <Select value={defaultPermissionLevel} onValueChange={setDefaultPermissionLevel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                  <SelectItem value="editor">Editor</SelectItem>
+                  <SelectItem value="manager">Manager</SelectItem>
+                  <SelectItem value="owner">Owner</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Redirect URI</Label>
+              <div className="flex space-x-2">
+                <Input value={redirectUri} readOnly className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  title="Copy"
+                  onClick={() => navigator.clipboard.writeText(redirectUri)}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">Register this with the identity provider.</p>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          {config && (
+            <Button
+              variant="outline"
+              className="text-red-600 hover:text-red-700 mr-auto"
+              disabled={removeMutation.isPending}
+              onClick={() => {
+                if (confirm(`Remove single sign-on for ${company.name}?`)) removeMutation.mutate();
+              }}
+            >
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || isLoading || !issuerUrl.trim() || !clientId.trim() || !allowedDomains.trim()}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
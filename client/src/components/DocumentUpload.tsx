@@ -1,5 +1,5 @@
-import { useState, useCallback } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState, useCallback, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useDropzone } from "react-dropzone";
 import {
   Dialog,
@@ -26,29 +26,36 @@ import {
   FileSpreadsheet, 
   X, 
   Check,
-  AlertCircle
+  AlertCircle,
+  Loader2,
+  ShieldAlert,
+  Pause,
+  Play,
+  RotateCcw
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useChunkedUploads } from "@/hooks/use-chunked-uploads";
 
 import { queryClient } from "@/lib/queryClient";
-import { FILE_UPLOAD_CONFIG, DOCUMENT_TYPES } from "@/lib/constants";
+import { DOCUMENT_TYPES } from "@/lib/constants";
+import { DOCUMENT_SCAN_STATUS_LABELS, type DocumentScanStatus } from "@shared/document-scan";
 
 interface DocumentUploadProps {
   onClose: () => void;
   applicationId?: number;
 }
 
-interface UploadFile {
-  id: string;
-  file: File;
-  progress: number;
-  status: 'pending' | 'uploading' | 'success' | 'error';
-  error?: string;
+interface ScanStatusResult {
+  id: number;
+  scanStatus: DocumentScanStatus;
+  scanDetail: string | null;
 }
 
 export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps) {
   const { toast } = useToast();
-  const [selectedFiles, setSelectedFiles] = useState<UploadFile[]>([]);
+  const uploads = useChunkedUploads();
+  const selectedFiles = uploads.items;
+  const [scanResults, setScanResults] = useState<Record<number, ScanStatusResult>>({});
   const [documentType, setDocumentType] = useState("other");
   const [selectedApplication, setSelectedApplication] = useState(applicationId?.toString() || "");
 
@@ -57,51 +64,74 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
     enabled: !applicationId,
   });
 
-  const uploadMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      const response = await fetch('/api/documents/upload', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(error || 'Upload failed');
-      }
+  const targetApplicationId = selectedApplication && selectedApplication !== "general" ? parseInt(selectedApplication) : null;
 
+  // Size ceiling for the chosen application's activity type
+  const { data: uploadLimits } = useQuery<{ maxBytes: number; chunkSize: number }>({
+    queryKey: ['/api/uploads/limits', targetApplicationId],
+    queryFn: async () => {
+      const response = await fetch(`/api/uploads/limits${targetApplicationId ? `?applicationId=${targetApplicationId}` : ''}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch upload limits');
       return response.json();
     },
-    onSuccess: () => {
+  });
+
+  const refreshDocuments = () => {
+    // Force refresh the documents list
+    queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    queryClient.refetchQueries({ queryKey: ['/api/documents'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/applications'] });
+  };
+
+  const getScanStatus = (file: typeof selectedFiles[number]) =>
+    file.document ? scanResults[file.document.id]?.scanStatus ?? file.document.scanStatus : undefined;
+
+  const isUploading = selectedFiles.some(file => file.status === 'uploading');
+  const uploaded = selectedFiles.length > 0 && selectedFiles.every(file => file.status === 'complete');
+  const scanningIds = selectedFiles
+    .filter(file => getScanStatus(file) === 'pending')
+    .map(file => file.document!.id);
+  const scanning = scanningIds.length > 0;
+
+  // Once every file is in: close straight away when nothing needs scanning (no virus scanner
+  // configured), otherwise stay open and show the scan results as they come in
+  useEffect(() => {
+    if (!uploaded) return;
+    refreshDocuments();
+    if (selectedFiles.every(file => file.document?.scanStatus === 'clean')) {
       toast({
         title: "Upload successful",
         description: "All documents have been uploaded successfully.",
       });
-      // Force refresh the documents list
-      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
-      queryClient.refetchQueries({ queryKey: ['/api/documents'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/applications'] });
       onClose();
+    }
+  }, [uploaded]);
+
+  const { data: polledScanResults } = useQuery<ScanStatusResult[]>({
+    queryKey: ['/api/documents/scan-status', scanningIds.join(',')],
+    queryFn: async () => {
+      const response = await fetch(`/api/documents/scan-status?ids=${scanningIds.join(',')}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch scan status');
+      return response.json();
     },
-    onError: (error: any) => {
-      toast({
-        title: "Upload failed",
-        description: error.message || "Failed to upload documents.",
-        variant: "destructive",
-      });
-    },
+    enabled: scanningIds.length > 0,
+    refetchInterval: 3000,
   });
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newFiles: UploadFile[] = acceptedFiles.map(file => ({
-      id: `${file.name}-${Date.now()}`,
-      file: file,
-      progress: 0,
-      status: 'pending',
+  useEffect(() => {
+    if (!polledScanResults?.some(result => result.scanStatus !== 'pending')) return;
+    setScanResults(prev => ({
+      ...prev,
+      ...Object.fromEntries(polledScanResults.map(result => [result.id, result])),
     }));
+    refreshDocuments();
+  }, [polledScanResults]);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    uploads.addFiles(acceptedFiles);
+  }, [uploads.addFiles]);
 
-    setSelectedFiles(prev => [...prev, ...newFiles]);
-  }, []);
+  const maxFileSize = uploadLimits?.maxBytes;
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -115,7 +145,7 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/png': ['.png'],
     },
-    maxSize: FILE_UPLOAD_CONFIG.maxFileSize,
+    maxSize: maxFileSize,
     onDropRejected: (rejectedFiles) => {
       rejectedFiles.forEach(rejection => {
         toast({
@@ -128,7 +158,7 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
   });
 
   const removeFile = (fileId: string) => {
-    setSelectedFiles(prev => prev.filter(file => file.id !== fileId));
+    uploads.remove(fileId);
   };
 
   const getFileIcon = (file: File) => {
@@ -145,7 +175,7 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
   };
 
-  const handleUpload = async () => {
+  const handleUpload = () => {
     if (selectedFiles.length === 0) {
       toast({
         title: "No files selected",
@@ -164,26 +194,28 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
       return;
     }
 
-    // Create FormData for file upload
-    const formData = new FormData();
-    selectedFiles.forEach((uploadFile, index) => {
-      // Extract the original File object from our UploadFile wrapper
-      const file = uploadFile.file || uploadFile;
-      if (file && typeof file === 'object' && file.constructor && file.constructor.name === 'File') {
-        formData.append('files', file);
-      }
-    });
-    
-    // Only include applicationId if it's a valid number (not "general")
-    if (selectedApplication && selectedApplication !== "general") {
-      formData.append('applicationId', selectedApplication);
+    const tooLarge = maxFileSize ? selectedFiles.find(file => file.file.size > maxFileSize) : undefined;
+    if (tooLarge) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.file.name} is larger than the ${formatFileSize(maxFileSize!)} limit for this application.`,
+        variant: "destructive",
+      });
+      return;
     }
-    formData.append('documentType', documentType);
 
-    uploadMutation.mutate(formData);
+    // Each file goes up in checksummed chunks; files that failed are retried
+    uploads.start(selectedFiles.filter(file => file.status === 'pending'), {
+      purpose: 'document',
+      applicationId: targetApplicationId,
+      documentType,
+    });
+    selectedFiles.filter(file => file.status === 'error').forEach(file => uploads.resume(file.id));
   };
 
-  const canUpload = selectedFiles.length > 0 && documentType && !uploadMutation.isPending;
+  const started = selectedFiles.some(file => file.status !== 'pending');
+  const canUpload = selectedFiles.length > 0 && documentType && !isUploading && !uploaded &&
+    selectedFiles.some(file => file.status === 'pending' || file.status === 'error');
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
@@ -191,7 +223,7 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
         <DialogHeader>
           <DialogTitle>Document Upload</DialogTitle>
           <DialogDescription>
-            Upload documents for your applications. Supported formats: PDF, DOC, DOCX, XLS, XLSX, CSV, JPG, PNG (Max 10MB each).
+            Upload documents for your applications. Supported formats: PDF, DOC, DOCX, XLS, XLSX, CSV, JPG, PNG{maxFileSize ? ` (Max ${formatFileSize(maxFileSize)} each)` : ''}.
           </DialogDescription>
         </DialogHeader>
 
@@ -235,8 +267,8 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setSelectedFiles([])}
-                  disabled={uploadMutation.isPending}
+                  onClick={uploads.clear}
+                  disabled={started}
                 >
                   Clear All
                 </Button>
@@ -252,27 +284,62 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
                       {getFileIcon(file.file)}
                       <div className="flex-1 min-w-0">
                         <p className="font-medium text-gray-900 truncate">{file.file.name}</p>
-                        <p className="text-xs text-gray-500">{formatFileSize(file.file.size)}</p>
+                        <p className="text-xs text-gray-500">
+                          {file.status === 'uploading' || file.status === 'paused'
+                            ? `${formatFileSize(file.uploadedBytes)} of ${formatFileSize(file.file.size)}${file.status === 'paused' ? ' (paused)' : ''}`
+                            : formatFileSize(file.file.size)}
+                        </p>
+                        {(file.status === 'uploading' || file.status === 'paused') && (
+                          <Progress value={file.progress} className="h-2 mt-1" />
+                        )}
+                        {(file.error || (file.document && scanResults[file.document.id]?.scanDetail)) && (
+                          <p className="text-xs text-red-600">{file.error || scanResults[file.document!.id]?.scanDetail}</p>
+                        )}
                       </div>
                     </div>
 
                     <div className="flex items-center space-x-2">
-                      {file.status === 'success' && (
-                        <Check className="h-4 w-4 text-green-500" />
+                      {getScanStatus(file) === 'pending' && (
+                        <Badge variant="outline" className="gap-1">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          {DOCUMENT_SCAN_STATUS_LABELS.pending}
+                        </Badge>
+                      )}
+                      {getScanStatus(file) === 'clean' && (
+                        <Badge variant="outline" className="gap-1 text-green-700 border-green-300">
+                          <Check className="h-3 w-3" />
+                          {DOCUMENT_SCAN_STATUS_LABELS.clean}
+                        </Badge>
+                      )}
+                      {getScanStatus(file) === 'infected' && (
+                        <Badge variant="destructive" className="gap-1">
+                          <ShieldAlert className="h-3 w-3" />
+                          {DOCUMENT_SCAN_STATUS_LABELS.infected}
+                        </Badge>
                       )}
                       {file.status === 'error' && (
                         <AlertCircle className="h-4 w-4 text-red-500" />
                       )}
                       {file.status === 'uploading' && (
-                        <div className="w-8">
-                          <Progress value={file.progress} className="h-2" />
-                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => uploads.pause(file.id)} title="Pause">
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {file.status === 'paused' && (
+                        <Button variant="ghost" size="sm" onClick={() => uploads.resume(file.id)} title="Resume">
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {file.status === 'error' && (
+                        <Button variant="ghost" size="sm" onClick={() => uploads.resume(file.id)} title="Retry">
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
                       )}
                       <Button
                         variant="ghost"
                         size="sm"
                         onClick={() => removeFile(file.id)}
-                        disabled={uploadMutation.isPending}
+                        disabled={file.status === 'complete'}
                       >
                         <X className="h-4 w-4" />
                       </Button>
@@ -288,7 +355,7 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
             {/* Document Type */}
             <div>
               <Label htmlFor="documentType">Document Type</Label>
-              <Select value={documentType} onValueChange={setDocumentType}>
+              <Select value={documentType} onValueChange={setDocumentType} disabled={started}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select document type" />
                 </SelectTrigger>
@@ -306,7 +373,7 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
             {!applicationId && (
               <div>
                 <Label htmlFor="application">Application (Optional)</Label>
-                <Select value={selectedApplication} onValueChange={setSelectedApplication}>
+                <Select value={selectedApplication} onValueChange={setSelectedApplication} disabled={started}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select application" />
                   </SelectTrigger>
@@ -340,24 +407,40 @@ export function DocumentUpload({ onClose, applicationId }: DocumentUploadProps)
             </div>
           )}
 
+          {uploaded && (
+            <p className="text-sm text-gray-600">
+              {scanning
+                ? "Files are uploaded and held in quarantine while they are scanned for viruses. You can close this window; they become available once the scan passes."
+                : "Scanning complete."}
+            </p>
+          )}
+
           {/* Actions */}
-          <div className="flex space-x-4 pt-4">
-            <Button 
-              variant="outline" 
-              onClick={onClose} 
-              className="flex-1"
-              disabled={uploadMutation.isPending}
-            >
-              Cancel
-            </Button>
-            <Button 
-              onClick={handleUpload}
-              disabled={!canUpload}
-              className="flex-1"
-            >
-              {uploadMutation.isPending ? 'Uploading...' : `Upload ${selectedFiles.length} File(s)`}
-            </Button>
-          </div>
+          {uploaded ? (
+            <div className="flex pt-4">
+              <Button onClick={onClose} className="flex-1">
+                {scanning ? 'Close' : 'Done'}
+              </Button>
+            </div>
+          ) : (
+            <div className="flex space-x-4 pt-4">
+              <Button 
+                variant="outline" 
+                onClick={onClose} 
+                className="flex-1"
+                disabled={isUploading}
+              >
+                Cancel
+              </Button>
+              <Button 
+                onClick={handleUpload}
+                disabled={!canUpload}
+                className="flex-1"
+              >
+                {isUploading ? 'Uploading...' : `Upload ${selectedFiles.length} File(s)`}
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
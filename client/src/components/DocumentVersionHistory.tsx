@@ -0,0 +1,218 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Download, Upload, Pause, Play, RotateCcw, Loader2, ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useChunkedUploads } from "@/hooks/use-chunked-uploads";
+import { queryClient } from "@/lib/queryClient";
+import { DOCUMENT_SCAN_STATUS_LABELS, isDocumentAvailable } from "@shared/document-scan";
+
+export interface DocumentVersion {
+  id: number;
+  documentGroupId: number;
+  version: number;
+  isCurrentVersion: boolean;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  documentType: string;
+  scanStatus: "pending" | "clean" | "infected";
+  uploadedBy: string;
+  createdAt: string;
+  supersededAt: string | null;
+  supersededBy: string | null;
+  uploader: { id: string; firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+interface DocumentVersionHistoryProps {
+  document: { id: number; originalName: string } | null;
+  onClose: () => void;
+  // Reviewers and read-only viewers see the history without the upload button
+  allowUpload?: boolean;
+}
+
+const formatUploader = (version: DocumentVersion) => {
+  if (!version.uploader) return version.uploadedBy;
+  const name = [version.uploader.firstName, version.uploader.lastName].filter(Boolean).join(" ");
+  return name || version.uploader.email || version.uploadedBy;
+};
+
+const formatFileSize = (bytes: number) => {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+// Every version of a logical document with who uploaded it and when, plus "upload new version",
+// which supersedes the current version through a chunked upload
+export function DocumentVersionHistory({ document, onClose, allowUpload = true }: DocumentVersionHistoryProps) {
+  const { toast } = useToast();
+  const uploads = useChunkedUploads();
+  const upload = uploads.items[0];
+
+  const { data, isLoading } = useQuery<{ documentGroupId: number; versions: DocumentVersion[] }>({
+    queryKey: ['/api/documents', document?.id, 'versions'],
+    queryFn: async () => {
+      const response = await fetch(`/api/documents/${document!.id}/versions`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch document versions');
+      return response.json();
+    },
+    enabled: !!document,
+  });
+  const versions = data?.versions ?? [];
+  const current = versions.find(version => version.isCurrentVersion);
+
+  useEffect(() => {
+    if (upload?.status !== 'complete') return;
+    // Version lists, application document lists and the history itself all change
+    queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/documents/application'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/applications'] });
+    toast({
+      title: "New version uploaded",
+      description: `${upload.file.name} is now the current version.`,
+    });
+    uploads.remove(upload.id);
+  }, [upload?.status]);
+
+  const handleFileSelected = (files: FileList | null) => {
+    if (!files || files.length === 0 || !current) return;
+    uploads.clear();
+    const added = uploads.addFiles([files[0]]);
+    uploads.start(added, { purpose: 'document', supersedesDocumentId: current.id });
+  };
+
+  const uploading = upload && upload.status !== 'complete';
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            {document?.originalName}. Only the current version is listed with the application's documents.
+          </DialogDescription>
+        </DialogHeader>
+
+        {allowUpload && (
+          <div className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Replace the current version. Earlier versions stay in the history below.
+              </p>
+              <input
+                type="file"
+                className="hidden"
+                id="document-new-version"
+                onChange={(e) => {
+                  handleFileSelected(e.target.files);
+                  e.target.value = "";
+                }}
+                disabled={!current || !!uploading}
+              />
+              <label
+                htmlFor="document-new-version"
+                className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 cursor-pointer whitespace-nowrap ${
+                  !current || uploading ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload New Version
+              </label>
+            </div>
+            {uploading && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span className="truncate">
+                    {upload.file.name} - {formatFileSize(upload.uploadedBytes)} of {formatFileSize(upload.file.size)}
+                    {upload.status === 'paused' ? ' (paused)' : ''}
+                  </span>
+                  <div className="flex items-center">
+                    {upload.status === 'uploading' && (
+                      <Button variant="ghost" size="sm" onClick={() => uploads.pause(upload.id)} title="Pause">
+                        <Pause className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {upload.status === 'paused' && (
+                      <Button variant="ghost" size="sm" onClick={() => uploads.resume(upload.id)} title="Resume">
+                        <Play className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {upload.status === 'error' && (
+                      <Button variant="ghost" size="sm" onClick={() => uploads.resume(upload.id)} title="Retry">
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <Progress value={upload.progress} className="h-2" />
+                {upload.error && <p className="text-xs text-red-600">{upload.error}</p>}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version, index) => {
+              // The next newer version is the one that superseded this one
+              const replacement = index > 0 ? versions[index - 1] : undefined;
+              return (
+                <div
+                  key={version.id}
+                  className={`flex items-center justify-between p-3 border rounded-lg ${version.isCurrentVersion ? 'border-blue-300 bg-blue-50' : ''}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">v{version.version}</Badge>
+                      <p className="font-medium text-sm truncate">{version.originalName}</p>
+                      {version.isCurrentVersion && <Badge className="bg-blue-600">Current</Badge>}
+                      {version.scanStatus === 'pending' && (
+                        <Badge variant="outline" className="gap-1">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          {DOCUMENT_SCAN_STATUS_LABELS.pending}
+                        </Badge>
+                      )}
+                      {version.scanStatus === 'infected' && (
+                        <Badge variant="destructive" className="gap-1">
+                          <ShieldAlert className="h-3 w-3" />
+                          {DOCUMENT_SCAN_STATUS_LABELS.infected}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatFileSize(version.size)} • Uploaded by {formatUploader(version)} on {format(new Date(version.createdAt), 'MMM dd, yyyy HH:mm')}
+                    </p>
+                    {version.supersededAt && (
+                      <p className="text-xs text-gray-400">
+                        Superseded {format(new Date(version.supersededAt), 'MMM dd, yyyy HH:mm')}
+                        {replacement ? ` by ${formatUploader(replacement)}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => window.open(`/api/documents/${version.id}/download`, '_blank')}
+                    disabled={!isDocumentAvailable(version)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
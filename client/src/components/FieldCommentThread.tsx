@@ -0,0 +1,85 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare, CheckCircle, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+export interface FieldComment {
+  id: number;
+  submissionId: number;
+  applicationId: number;
+  activityTemplateId: number;
+  fieldId: string;
+  fieldLabel: string | null;
+  comment: string;
+  createdBy: string;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  author: { id: string; firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+interface FieldCommentThreadProps {
+  comments: FieldComment[];
+  onToggleResolved?: (comment: FieldComment) => void;
+  onDelete?: (comment: FieldComment) => void;
+  isUpdating?: boolean;
+}
+
+// Reviewer comments attached to a single form answer. Shown to reviewers while reviewing
+// and to applicants next to the field they need to fix.
+export function FieldCommentThread({ comments, onToggleResolved, onDelete, isUpdating }: FieldCommentThreadProps) {
+  if (comments.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mt-2">
+      {comments.map(comment => {
+        const authorName = comment.author
+          ? `${comment.author.firstName || ''} ${comment.author.lastName || ''}`.trim() || comment.author.email
+          : 'Reviewer';
+        return (
+          <div
+            key={comment.id}
+            className={`flex items-start gap-2 rounded border p-2 text-sm ${comment.resolvedAt ? 'bg-gray-50 border-gray-200 text-gray-500' : 'bg-amber-50 border-amber-200'}`}
+          >
+            <MessageSquare className={`h-4 w-4 mt-0.5 flex-shrink-0 ${comment.resolvedAt ? 'text-gray-400' : 'text-amber-600'}`} />
+            <div className="flex-1 min-w-0">
+              <p className={`whitespace-pre-wrap break-words ${comment.resolvedAt ? 'line-through' : 'text-gray-900'}`}>{comment.comment}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {authorName} • {format(new Date(comment.createdAt), 'MMM dd, yyyy')}
+                {comment.resolvedAt && (
+                  <Badge variant="outline" className="ml-2 text-xs bg-green-50 text-green-700 border-green-200">Resolved</Badge>
+                )}
+              </p>
+            </div>
+            {onToggleResolved && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onToggleResolved(comment)}
+                disabled={isUpdating}
+              >
+                {comment.resolvedAt ? (
+                  <><RotateCcw className="h-3 w-3 mr-1" />Reopen</>
+                ) : (
+                  <><CheckCircle className="h-3 w-3 mr-1" />Mark resolved</>
+                )}
+              </Button>
+            )}
+            {onDelete && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(comment)}
+                disabled={isUpdating}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState, useCallback } from "react";
+import { useCallback, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useDropzone } from "react-dropzone";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -13,22 +14,19 @@ import {
   X,
   Paperclip,
   AlertCircle,
-  Check
+  Check,
+  Pause,
+  Play,
+  RotateCcw
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { FILE_UPLOAD_CONFIG } from "@/lib/constants";
-
-interface AttachmentFile {
-  id: string;
-  file: File;
-  progress: number;
-  status: 'pending' | 'uploading' | 'success' | 'error';
-  error?: string;
-  url?: string;
-}
+import { useChunkedUploads, type ChunkedUploadItem } from "@/hooks/use-chunked-uploads";
+import { apiRequest } from "@/lib/queryClient";
 
 interface MessageAttachmentsProps {
-  onFilesChange: (files: File[]) => void;
+  // Files upload as soon as they are added; the message is sent with the finished document ids
+  onAttachmentsChange: (documentIds: number[], uploading: boolean) => void;
+  applicationId?: number | null;
   disabled?: boolean;
   maxFiles?: number;
   compact?: boolean;
@@ -51,14 +49,32 @@ const formatFileSize = (bytes: number) => {
 };
 
 export function MessageAttachments({ 
-  onFilesChange, 
+  onAttachmentsChange, 
+  applicationId = null,
   disabled = false, 
   maxFiles = 3,
   compact = false,
   existingTicketAttachments = 0
 }: MessageAttachmentsProps) {
   const { toast } = useToast();
-  const [attachments, setAttachments] = useState<AttachmentFile[]>([]);
+  const uploads = useChunkedUploads();
+  const attachments = uploads.items;
+
+  const { data: uploadLimits } = useQuery<{ maxBytes: number; chunkSize: number }>({
+    queryKey: ['/api/uploads/limits', applicationId],
+    queryFn: async () => {
+      const response = await fetch(`/api/uploads/limits${applicationId ? `?applicationId=${applicationId}` : ''}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch upload limits');
+      return response.json();
+    },
+  });
+  const maxFileSize = uploadLimits?.maxBytes;
+
+  const documentIds = attachments.filter(att => att.document).map(att => att.document!.id).join(',');
+  const uploading = attachments.some(att => att.status !== 'complete' && att.status !== 'error');
+  useEffect(() => {
+    onAttachmentsChange(documentIds ? documentIds.split(',').map(Number) : [], uploading);
+  }, [documentIds, uploading]);
 
   const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
     // Handle rejected files
@@ -83,34 +99,34 @@ export function MessageAttachments({
       return;
     }
 
-    // Process accepted files
-    const newAttachments: AttachmentFile[] = acceptedFiles.map(file => ({
-      id: `${Date.now()}-${Math.random()}`,
-      file,
-      progress: 0,
-      status: 'pending' as const,
-    }));
-
-    const updatedAttachments = [...attachments, ...newAttachments];
-    setAttachments(updatedAttachments);
-    
-    // Pass valid files to parent
-    const validFiles = updatedAttachments
-      .filter(att => att.status !== 'error')
-      .map(att => att.file);
-    onFilesChange(validFiles);
-  }, [attachments, maxFiles, onFilesChange, toast]);
+    // Start uploading right away so large files are done by the time the message is written
+    const added = uploads.addFiles(acceptedFiles);
+    uploads.start(added, { purpose: 'message', applicationId });
+  }, [attachments, maxFiles, applicationId, toast, uploads.addFiles, uploads.start]);
 
-  const removeAttachment = (id: string) => {
-    const updatedAttachments = attachments.filter(att => att.id !== id);
-    setAttachments(updatedAttachments);
-    
-    const validFiles = updatedAttachments
-      .filter(att => att.status !== 'error')
-      .map(att => att.file);
-    onFilesChange(validFiles);
+  const removeAttachment = (attachment: ChunkedUploadItem) => {
+    uploads.remove(attachment.id);
+    // A finished upload is already a document; it is not attached to anything yet
+    if (attachment.document) {
+      apiRequest(`/api/documents/${attachment.document.id}`, 'DELETE').catch(() => undefined);
+    }
   };
 
+  const renderUploadControls = (attachment: ChunkedUploadItem, size: string) => (
+    <>
+      {attachment.status === 'uploading' && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => uploads.pause(attachment.id)} className={`${size} p-0 text-gray-400`} title="Pause">
+          <Pause className="h-3 w-3" />
+        </Button>
+      )}
+      {(attachment.status === 'paused' || attachment.status === 'error') && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => uploads.resume(attachment.id)} className={`${size} p-0 text-gray-400`} title={attachment.status === 'paused' ? 'Resume' : 'Retry'}>
+          {attachment.status === 'paused' ? <Play className="h-3 w-3" /> : <RotateCcw className="h-3 w-3" />}
+        </Button>
+      )}
+    </>
+  );
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     disabled,
@@ -124,7 +140,7 @@ export function MessageAttachments({
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/png': ['.png']
     },
-    maxSize: FILE_UPLOAD_CONFIG.maxFileSize,
+    maxSize: maxFileSize,
     multiple: true,
   });
 
@@ -164,15 +180,25 @@ export function MessageAttachments({
                   className="flex items-center gap-2 p-2 bg-gray-50 rounded-md text-sm"
                 >
                   <FileIcon className="h-4 w-4 text-gray-500" />
-                  <span className="flex-1 truncate">{attachment.file.name}</span>
+                  <div className="flex-1 min-w-0">
+                    <span className="block truncate">{attachment.file.name}</span>
+                    {(attachment.status === 'uploading' || attachment.status === 'paused') && (
+                      <Progress value={attachment.progress} className="h-1 mt-1" />
+                    )}
+                    {attachment.error && (
+                      <span className="block text-xs text-red-500">{attachment.error}</span>
+                    )}
+                  </div>
                   <span className="text-xs text-gray-500">
-                    {formatFileSize(attachment.file.size)}
+                    {attachment.status === 'paused' ? 'Paused · ' : ''}{formatFileSize(attachment.file.size)}
                   </span>
+                  {attachment.status === 'complete' && <Check className="h-3 w-3 text-green-500" />}
+                  {renderUploadControls(attachment, 'h-6 w-6')}
                   <Button
                     type="button"
                     variant="ghost"
                     size="sm"
-                    onClick={() => removeAttachment(attachment.id)}
+                    onClick={() => removeAttachment(attachment)}
                     className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
                   >
                     <X className="h-3 w-3" />
@@ -205,7 +231,7 @@ export function MessageAttachments({
             {isDragActive ? 'Drop files here...' : 'Drag & drop files or click to browse'}
           </p>
           <p className="text-xs text-gray-500 mt-1">
-            PDF, DOC, XLS, CSV, JPG, PNG (max {formatFileSize(FILE_UPLOAD_CONFIG.maxFileSize)})
+            PDF, DOC, XLS, CSV, JPG, PNG{maxFileSize ? ` (max ${formatFileSize(maxFileSize)})` : ''}
           </p>
           <Badge variant="outline" className="mt-2">
             {existingTicketAttachments + attachments.length}/{maxFiles} files attached to ticket
@@ -229,28 +255,31 @@ export function MessageAttachments({
                         {attachment.file.name}
                       </p>
                       <p className="text-xs text-gray-500">
-                        {formatFileSize(attachment.file.size)}
+                        {attachment.status === 'uploading' || attachment.status === 'paused'
+                          ? `${formatFileSize(attachment.uploadedBytes)} of ${formatFileSize(attachment.file.size)}${attachment.status === 'paused' ? ' (paused)' : ''}`
+                          : formatFileSize(attachment.file.size)}
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
-                      {attachment.status === 'success' && (
+                      {attachment.status === 'complete' && (
                         <Check className="h-4 w-4 text-green-500" />
                       )}
                       {attachment.status === 'error' && (
                         <AlertCircle className="h-4 w-4 text-red-500" />
                       )}
+                      {renderUploadControls(attachment, 'h-8 w-8')}
                       <Button
                         type="button"
                         variant="ghost"
                         size="sm"
-                        onClick={() => removeAttachment(attachment.id)}
+                        onClick={() => removeAttachment(attachment)}
                         className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
                       >
                         <X className="h-4 w-4" />
                       </Button>
                     </div>
                   </div>
-                  {attachment.status === 'uploading' && (
+                  {(attachment.status === 'uploading' || attachment.status === 'paused') && (
                     <Progress value={attachment.progress} className="mt-2" />
                   )}
                   {attachment.error && (
@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/tooltip";
 import { Card, CardContent } from "@/components/ui/card";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLivePolling } from "@/lib/realtime";
 import { format } from "date-fns";
 
 interface Notification {
@@ -48,17 +49,18 @@ interface SystemAnnouncement {
 
 export function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
+  const pollInterval = useLivePolling(30000);
 
   // Fetch regular notifications
   const { data: notifications = [], isLoading: notificationsLoading } = useQuery<Notification[]>({
     queryKey: ["/api/notifications"],
-    refetchInterval: 30000, // Refetch every 30 seconds for real-time updates
+    refetchInterval: pollInterval, // Pushed over /api/events; poll only while disconnected
   });
 
   // Fetch active system announcements
   const { data: announcements = [], isLoading: announcementsLoading } = useQuery<SystemAnnouncement[]>({
     queryKey: ["/api/announcements/active"],
-    refetchInterval: 30000, // Refetch every 30 seconds for real-time updates
+    refetchInterval: pollInterval,
   });
 
   const isLoading = notificationsLoading || announcementsLoading;
@@ -123,6 +125,12 @@ export function NotificationBell() {
         return '🚨';
       case 'info':
         return 'ℹ️';
+      case 'review_sla_approaching':
+        return '⏰';
+      case 'review_sla_breached':
+        return '🚨';
+      case 'review_assigned':
+        return '📥';
       default:
         return '📋';
     }
@@ -0,0 +1,80 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENTS,
+  type NotificationChannel,
+  type NotificationEventType,
+} from "@shared/notification-preferences";
+
+type NotificationPreferences = Partial<Record<NotificationEventType, NotificationChannel>>;
+
+// Per-event delivery channel. Each change is saved as soon as it is picked.
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: NotificationPreferences) => {
+      const response = await apiRequest("/api/notification-preferences", "PUT", update);
+      return response.json();
+    },
+    onSuccess: (updated: NotificationPreferences) => {
+      queryClient.setQueryData(["/api/notification-preferences"], updated);
+      toast({ title: "Notification preferences saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save notification preferences.", variant: "destructive" });
+    },
+  });
+
+  // The server only returns the event types this user's role can configure
+  const eventTypes = Object.keys(preferences || {}) as NotificationEventType[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of update. Daily digest notifications are emailed together once a day if you have not read them in the portal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading preferences...</p>
+        ) : (
+          eventTypes.map(eventType => (
+            <div key={eventType} className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>{NOTIFICATION_EVENTS[eventType].label}</Label>
+                <p className="text-sm text-gray-500">{NOTIFICATION_EVENTS[eventType].description}</p>
+              </div>
+              <Select
+                value={preferences?.[eventType]}
+                onValueChange={(channel) => updateMutation.mutate({ [eventType]: channel as NotificationChannel })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger className="w-56 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <SelectItem key={channel} value={channel}>{NOTIFICATION_CHANNEL_LABELS[channel]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
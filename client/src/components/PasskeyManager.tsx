@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Pencil, Trash2, Check, X, Plus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isPasskeyCancelled, passkeysSupported, registerPasskey, type PasskeySummary } from "@/lib/passkeys";
+import { RecoveryCodesDisplay } from "@/components/RecoveryCodesDisplay";
+
+// The signed-in user's passkeys: add one from this device, rename or revoke existing ones
+export function PasskeyManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const supported = passkeysSupported();
+
+  const { data: passkeys = [], isLoading } = useQuery<PasskeySummary[]>({
+    queryKey: ["/api/auth/webauthn/credentials"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/webauthn/credentials"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/recovery-codes"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => registerPasskey(newName.trim()),
+    onSuccess: (data) => {
+      refresh();
+      setNewName("");
+      if (data.recoveryCodes) setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Passkey added", description: `"${data.credential.name}" can now be used to sign in.` });
+    },
+    onError: (error: Error) => {
+      if (isPasskeyCancelled(error)) return;
+      toast({
+        variant: "destructive",
+        title: "Passkey not added",
+        description: error.message || "Failed to register the passkey",
+      });
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      return await apiRequest(`/api/auth/webauthn/credentials/${id}`, "PATCH", { name });
+    },
+    onSuccess: () => {
+      refresh();
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Rename failed", description: error.message });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/auth/webauthn/credentials/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Passkey removed", description: "It can no longer be used to sign in." });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Passkey not removed", description: error.message });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {recoveryCodes && (
+        <div className="space-y-3 p-4 border border-blue-200 rounded-lg">
+          <h3 className="font-medium text-gray-900">Your Recovery Codes</h3>
+          <RecoveryCodesDisplay codes={recoveryCodes} />
+          <Button type="button" className="w-full" onClick={() => setRecoveryCodes(null)}>
+            I've saved my recovery codes
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+      ) : passkeys.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          You have no passkeys yet. A passkey lets you sign in with your fingerprint, face, screen lock or
+          security key, and also works as your second factor after your password.
+        </p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {passkeys.map(passkey => (
+            <div key={passkey.id} className="flex items-center justify-between p-3">
+              <div className="flex items-center space-x-3 min-w-0">
+                <KeyRound className="h-5 w-5 text-blue-600 shrink-0" />
+                {editingId === passkey.id ? (
+                  <form
+                    className="flex items-center space-x-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (editName.trim()) renameMutation.mutate({ id: passkey.id, name: editName.trim() });
+                    }}
+                  >
+                    <Input value={editName} onChange={(e) => setEditName(e.target.value)} maxLength={100} autoFocus />
+                    <Button type="submit" size="sm" variant="ghost" disabled={renameMutation.isPending || !editName.trim()}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium text-gray-900 truncate">{passkey.name}</p>
+                      {passkey.backedUp && <Badge variant="secondary">Synced</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Added {format(new Date(passkey.createdAt), "MMM d, yyyy")}
+                      {" · "}
+                      {passkey.lastUsedAt ? `Last used ${format(new Date(passkey.lastUsedAt), "MMM d, yyyy h:mm a")}` : "Never used"}
+                    </p>
+                  </div>
+                )}
+              </div>
+              {editingId !== passkey.id && (
+                <div className="flex items-center space-x-1 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Rename"
+                    onClick={() => {
+                      setEditingId(passkey.id);
+                      setEditName(passkey.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Revoke"
+                    className="text-red-600 hover:text-red-700"
+                    disabled={removeMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Remove the passkey "${passkey.name}"? It will no longer work for signing in.`)) {
+                        removeMutation.mutate(passkey.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {supported ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addMutation.mutate();
+          }}
+          className="space-y-2"
+        >
+          <Label htmlFor="passkeyName">Add a passkey on this device</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="passkeyName"
+              placeholder="Name, e.g. Work laptop or YubiKey"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={100}
+            />
+            <Button type="submit" disabled={addMutation.isPending || !newName.trim()} className="whitespace-nowrap">
+              <Plus className="h-4 w-4 mr-2" />
+              {addMutation.isPending ? "Waiting..." : "Add Passkey"}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-yellow-700">This browser does not support passkeys.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Copy, Check, Download, AlertTriangle } from "lucide-react";
+
+interface RecoveryCodesDisplayProps {
+  codes: string[];
+}
+
+// Freshly generated recovery codes. The server only keeps hashes, so this is the one chance
+// to copy or download them.
+export function RecoveryCodesDisplay({ codes }: RecoveryCodesDisplayProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const content = [
+      "SEMI Program - two-factor recovery codes",
+      `Generated ${new Date().toLocaleString()}`,
+      "Each code can be used once in place of an authenticator code.",
+      "",
+      ...codes,
+    ].join("\n");
+    const url = URL.createObjectURL(new Blob([content], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "semi-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+        <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 shrink-0" />
+        <p className="text-sm text-yellow-800">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+          They will not be shown again.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border rounded-lg font-mono text-sm">
+        {codes.map(code => (
+          <span key={code} className="text-center">{code}</span>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, Circle, Download, Upload, Pause, Play, RotateCcw, X, ClipboardList } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useChunkedUploads } from "@/hooks/use-chunked-uploads";
+import { queryClient } from "@/lib/queryClient";
+import { isAcceptedFileType, type ChecklistItem, type ChecklistResult } from "@shared/document-checklist";
+
+interface RequiredDocumentsChecklistProps {
+  applicationId: number;
+  documentType: string;
+  checklist: ChecklistResult;
+  // file_download fields of the template, for slots that link a blank to fill in
+  downloadFields: any[];
+  canUpload: boolean;
+  showErrors: boolean;
+}
+
+const describeCount = (item: ChecklistItem) => {
+  const { minCount, maxCount } = item.slot;
+  if (maxCount && maxCount === minCount) return `${item.documents.length} of ${minCount}`;
+  if (maxCount) return `${item.documents.length} uploaded (${minCount}-${maxCount})`;
+  if (minCount === 0) return `${item.documents.length} uploaded (optional)`;
+  return `${item.documents.length} uploaded (at least ${minCount})`;
+};
+
+// The template's required documents, each with its uploaded files, a blank template to download
+// where the admin linked one, and an upload button that files the upload into that slot
+export function RequiredDocumentsChecklist({ applicationId, documentType, checklist, downloadFields, canUpload, showErrors }: RequiredDocumentsChecklistProps) {
+  if (checklist.items.length === 0) return null;
+
+  const completed = checklist.items.filter(item => item.satisfied).length;
+
+  return (
+    <div className="border rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-gray-600" />
+          <h3 className="font-medium">Required Documents</h3>
+        </div>
+        <Badge variant={checklist.satisfied ? "default" : "outline"} className={checklist.satisfied ? "bg-green-600" : ""}>
+          {completed} of {checklist.items.length} complete
+        </Badge>
+      </div>
+      {checklist.items.map(item => (
+        <ChecklistSlotRow
+          key={item.slot.id}
+          item={item}
+          applicationId={applicationId}
+          documentType={documentType}
+          downloadField={downloadFields.find((field: any) => field.id === item.slot.templateFieldId)}
+          canUpload={canUpload}
+          showError={showErrors}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ChecklistSlotRow({ item, applicationId, documentType, downloadField, canUpload, showError }: {
+  item: ChecklistItem;
+  applicationId: number;
+  documentType: string;
+  downloadField?: any;
+  canUpload: boolean;
+  showError: boolean;
+}) {
+  const { toast } = useToast();
+  const uploads = useChunkedUploads();
+  const { slot } = item;
+  const full = !!slot.maxCount && item.documents.length >= slot.maxCount;
+  const inputId = `checklist-upload-${slot.id}`;
+
+  const completedIds = uploads.items.filter(upload => upload.status === 'complete').map(upload => upload.id);
+  useEffect(() => {
+    if (completedIds.length === 0) return;
+    queryClient.invalidateQueries({ queryKey: ['/api/documents/application', applicationId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    completedIds.forEach(id => uploads.remove(id));
+  }, [completedIds.join(',')]);
+
+  const handleFilesSelected = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const selected = Array.from(files);
+    const rejected = selected.filter(file => !isAcceptedFileType(slot, file.name));
+    if (rejected.length > 0) {
+      toast({
+        title: "File type not accepted",
+        description: `${slot.name} accepts ${slot.acceptedTypes.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const remaining = slot.maxCount ? slot.maxCount - item.documents.length : selected.length;
+    if (selected.length > remaining) {
+      toast({
+        title: "Too many files",
+        description: `${slot.name} allows at most ${slot.maxCount} file${slot.maxCount !== 1 ? 's' : ''}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const added = uploads.addFiles(selected);
+    uploads.start(added, { purpose: 'document', applicationId, documentType, checklistSlotId: slot.id });
+  };
+
+  const active = uploads.items.filter(upload => upload.status !== 'complete');
+
+  return (
+    <div className={`border rounded-md p-3 ${showError && item.error ? 'border-red-300 bg-red-50' : ''}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2 min-w-0">
+          {item.satisfied
+            ? <CheckCircle className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+            : <Circle className="h-5 w-5 text-gray-400 shrink-0 mt-0.5" />}
+          <div className="min-w-0">
+            <p className="text-sm font-medium">
+              {slot.name}
+              {slot.minCount > 0 && <span className="text-red-500 ml-1">*</span>}
+            </p>
+            {slot.description && <p className="text-xs text-gray-500">{slot.description}</p>}
+            <p className="text-xs text-gray-500">
+              {describeCount(item)}
+              {slot.acceptedTypes.length > 0 && ` • ${slot.acceptedTypes.join(", ")}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {downloadField?.downloadUrl && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => window.open(downloadField.downloadUrl, '_blank')}
+              title={downloadField.fileName || 'Download blank template'}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Template
+            </Button>
+          )}
+          {canUpload && (
+            <>
+              <input
+                type="file"
+                multiple={slot.maxCount !== 1}
+                accept={slot.acceptedTypes.length > 0 ? slot.acceptedTypes.join(",") : undefined}
+                className="hidden"
+                id={inputId}
+                onChange={(e) => {
+                  handleFilesSelected(e.target.files);
+                  e.target.value = "";
+                }}
+                disabled={full}
+              />
+              <label
+                htmlFor={inputId}
+                className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 cursor-pointer ${
+                  full ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                Upload
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+
+      {item.documents.length > 0 && (
+        <ul className="mt-2 ml-7 space-y-1">
+          {item.documents.map(doc => (
+            <li key={doc.id} className="flex items-center gap-2 text-xs text-gray-700">
+              <span className="truncate">{doc.originalName}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1"
+                onClick={() => window.open(`/api/documents/${doc.id}/download`, '_blank')}
+                title="Download"
+              >
+                <Download className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {active.map(upload => (
+        <div key={upload.id} className="mt-2 ml-7 space-y-1">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span className="truncate">
+              {upload.file.name}{upload.status === 'paused' ? ' (paused)' : ''}
+            </span>
+            <div className="flex items-center">
+              {upload.status === 'uploading' && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => uploads.pause(upload.id)} title="Pause">
+                  <Pause className="h-3 w-3" />
+                </Button>
+              )}
+              {upload.status === 'paused' && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => uploads.resume(upload.id)} title="Resume">
+                  <Play className="h-3 w-3" />
+                </Button>
+              )}
+              {upload.status === 'error' && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => uploads.resume(upload.id)} title="Retry">
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              )}
+              <Button type="button" variant="ghost" size="sm" onClick={() => uploads.remove(upload.id)} title="Cancel">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+          <Progress value={upload.progress} className="h-1.5" />
+          {upload.error && <p className="text-xs text-red-600">{upload.error}</p>}
+        </div>
+      ))}
+
+      {showError && item.error && <p className="text-xs text-red-600 mt-2 ml-7">{item.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Settings2 } from "lucide-react";
+import { DEFAULT_REVIEW_SLA_WARNING_DAYS } from "@shared/review-sla";
+
+const ACTIVITY_TYPES = ["FRA", "SEM", "EAA", "EMIS", "CR"];
+
+interface ReviewSettingsDraft {
+  reviewSlaBusinessDays: string;
+  reviewSlaWarningBusinessDays: string;
+  autoAssignReviewers: boolean;
+}
+
+// Per-activity-type review settings: the SLA used by the approval dashboard and the
+// background SLA monitor, and whether new submissions are round-robin assigned to reviewers
+export function ReviewSettingsDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, ReviewSettingsDraft>>({});
+
+  const { data: settings = [] } = useQuery<any[]>({
+    queryKey: ["/api/activity-settings"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const initial: Record<string, ReviewSettingsDraft> = {};
+    for (const activityType of ACTIVITY_TYPES) {
+      const setting = settings.find((s: any) => s.activityType === activityType);
+      initial[activityType] = {
+        reviewSlaBusinessDays: setting?.reviewSlaBusinessDays?.toString() ?? "",
+        reviewSlaWarningBusinessDays: (setting?.reviewSlaWarningBusinessDays ?? DEFAULT_REVIEW_SLA_WARNING_DAYS).toString(),
+        autoAssignReviewers: !!setting?.autoAssignReviewers,
+      };
+    }
+    setDrafts(initial);
+  }, [open, settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const activityType of ACTIVITY_TYPES) {
+        const draft = drafts[activityType];
+        if (!draft) continue;
+        await apiRequest(`/api/admin/activity-settings/${activityType}`, "PATCH", {
+          reviewSlaBusinessDays: draft.reviewSlaBusinessDays ? parseInt(draft.reviewSlaBusinessDays) : null,
+          reviewSlaWarningBusinessDays: draft.reviewSlaWarningBusinessDays ? parseInt(draft.reviewSlaWarningBusinessDays) : DEFAULT_REVIEW_SLA_WARNING_DAYS,
+          autoAssignReviewers: draft.autoAssignReviewers,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pending-submissions"] });
+      setOpen(false);
+      toast({
+        title: "Review Settings Updated",
+        description: "Review settings have been saved for all activity types.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save review settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (activityType: string, field: keyof ReviewSettingsDraft, value: string | boolean) => {
+    setDrafts(prev => ({ ...prev, [activityType]: { ...prev[activityType], [field]: value } }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Settings2 className="h-4 w-4 mr-2" />
+          Review Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review Settings</DialogTitle>
+          <DialogDescription>
+            Business days allowed to review a submission, and how many days before the deadline it is flagged as due soon. Leave the SLA blank for no deadline.
+            With round-robin on, new submissions are assigned to active system admins in turn.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-3 text-sm font-medium text-gray-600">
+            <span>Activity</span>
+            <span>SLA (business days)</span>
+            <span>Warn before (days)</span>
+            <span>Round-robin</span>
+          </div>
+          {ACTIVITY_TYPES.map(activityType => (
+            <div key={activityType} className="grid grid-cols-4 gap-3 items-center">
+              <Label>{activityType}</Label>
+              <Input
+                type="number"
+                min={1}
+                placeholder="No SLA"
+                value={drafts[activityType]?.reviewSlaBusinessDays ?? ""}
+                onChange={(e) => updateDraft(activityType, "reviewSlaBusinessDays", e.target.value)}
+              />
+              <Input
+                type="number"
+                min={0}
+                value={drafts[activityType]?.reviewSlaWarningBusinessDays ?? ""}
+                onChange={(e) => updateDraft(activityType, "reviewSlaWarningBusinessDays", e.target.value)}
+              />
+              <Switch
+                checked={drafts[activityType]?.autoAssignReviewers ?? false}
+                onCheckedChange={(checked) => updateDraft(activityType, "autoAssignReviewers", checked)}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Users, Shuffle } from "lucide-react";
+
+export interface ReviewerWorkload {
+  reviewerId: string | null; // null row = unassigned submissions
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  openCount: number;
+  breachedCount: number;
+}
+
+export const formatReviewerName = (reviewer: { firstName: string | null; lastName: string | null; email: string | null }) =>
+  `${reviewer.firstName || ''} ${reviewer.lastName || ''}`.trim() || reviewer.email || 'Unknown reviewer';
+
+export function ReviewerWorkloadCard() {
+  const { toast } = useToast();
+
+  const { data: workload = [] } = useQuery<ReviewerWorkload[]>({
+    queryKey: ["/api/admin/reviewers/workload"],
+    refetchInterval: 30000,
+  });
+
+  const autoAssignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/admin/submissions/auto-assign", "POST");
+      return response.json();
+    },
+    onSuccess: (result: { assignedCount: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pending-submissions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reviewers/workload"] });
+      toast({
+        title: "Auto-assignment Complete",
+        description: result.assignedCount > 0
+          ? `${result.assignedCount} submission${result.assignedCount !== 1 ? 's' : ''} assigned round-robin.`
+          : "No submissions were eligible. Turn on round-robin for an activity type in Review Settings.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to auto-assign submissions.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewers = workload.filter(row => row.reviewerId !== null);
+  const unassigned = workload.find(row => row.reviewerId === null);
+  const maxOpen = Math.max(1, ...reviewers.map(row => row.openCount));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Reviewer Workload
+          </CardTitle>
+          <CardDescription>Open submissions assigned to each reviewer</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => autoAssignMutation.mutate()}
+          disabled={autoAssignMutation.isPending || !unassigned?.openCount}
+        >
+          <Shuffle className="h-4 w-4 mr-1" />
+          {autoAssignMutation.isPending ? 'Assigning...' : 'Auto-assign Unassigned'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {reviewers.map(row => (
+          <div key={row.reviewerId} className="flex items-center gap-3">
+            <span className="w-48 truncate text-sm font-medium">{formatReviewerName(row)}</span>
+            <div className="flex-1 h-2 bg-gray-100 rounded">
+              <div className="h-2 bg-blue-500 rounded" style={{ width: `${(row.openCount / maxOpen) * 100}%` }} />
+            </div>
+            <span className="w-16 text-right text-sm">{row.openCount} open</span>
+            {row.breachedCount > 0 && (
+              <Badge className="bg-red-100 text-red-800">{row.breachedCount} overdue</Badge>
+            )}
+          </div>
+        ))}
+        <div className="flex items-center justify-between border-t pt-3 text-sm">
+          <span className="text-gray-600">Unassigned</span>
+          <span className="font-medium">
+            {unassigned?.openCount ?? 0} open
+            {!!unassigned?.breachedCount && <span className="text-red-600 ml-2">({unassigned.breachedCount} overdue)</span>}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,7 +20,9 @@ import {
   Trash2,
   Bell,
   Archive,
-  Trophy
+  Trophy,
+  ScrollText,
+  Mail
 } from "lucide-react";
 import { hasPermissionLevel, canInviteUsers } from "@/lib/permissions";
 
@@ -42,7 +44,9 @@ const iconMap = {
   Trash2,
   Bell,
   Archive,
-  Trophy
+  Trophy,
+  ScrollText,
+  Mail
 };
 
 export default function Sidebar() {
@@ -200,6 +204,18 @@ export default function Sidebar() {
       href: "/admin/archive-settings",
       icon: "Archive",
       roles: ["system_admin"]
+    },
+    {
+      name: "Audit Log",
+      href: "/admin/audit-log",
+      icon: "ScrollText",
+      roles: ["system_admin"]
+    },
+    {
+      name: "Email Templates",
+      href: "/admin/email-templates",
+      icon: "Mail",
+      roles: ["system_admin"]
     }
   ];
 
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitCompare, FilePlus, FileMinus, FileDiff } from "lucide-react";
+import { format } from "date-fns";
+
+interface VersionDocument {
+  id: number;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  documentType: string;
+  documentGroupId?: number | null; // missing on snapshots taken before document versioning
+  version?: number;
+}
+
+export interface SubmissionVersion {
+  id: number;
+  submissionId: number;
+  versionNumber: number;
+  data: Record<string, unknown>;
+  documents: VersionDocument[];
+  submittedBy: string;
+  submittedAt: string;
+  submitter: { firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatVersionLabel = (version: SubmissionVersion) =>
+  `Version ${version.versionNumber} - ${format(new Date(version.submittedAt), 'MMM dd, yyyy HH:mm')}`;
+
+interface SubmissionVersionDiffProps {
+  submissionId: string;
+  getFieldLabel: (fieldId: string) => string;
+}
+
+// Side-by-side comparison of two submitted versions of the same template, so reviewers only
+// need to re-check what the applicant changed after a revision request
+export function SubmissionVersionDiff({ submissionId, getFieldLabel }: SubmissionVersionDiffProps) {
+  const [baseId, setBaseId] = useState<string>("");
+  const [compareId, setCompareId] = useState<string>("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const { data: versions = [], isLoading } = useQuery<SubmissionVersion[]>({
+    queryKey: ['/api/admin/submissions', submissionId, 'versions'],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/versions`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch submission versions');
+      return response.json();
+    },
+  });
+
+  // Default to the version under review against the one submitted before it
+  useEffect(() => {
+    if (versions.length < 2 || compareId) return;
+    const underReview = [...versions].reverse().find(version => String(version.submissionId) === submissionId) || versions[versions.length - 1];
+    const previous = versions.filter(version => version.versionNumber < underReview.versionNumber).pop();
+    setCompareId(String(underReview.id));
+    setBaseId(String((previous || versions[0]).id));
+  }, [versions, submissionId, compareId]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading version history...</p>;
+  }
+
+  if (versions.length < 2) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <GitCompare className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+        <p>{versions.length === 1 ? 'This is the first submitted version' : 'No version history recorded'}</p>
+        <p className="text-sm">Changes will appear here when the applicant resubmits</p>
+      </div>
+    );
+  }
+
+  const base = versions.find(version => String(version.id) === baseId);
+  const compare = versions.find(version => String(version.id) === compareId);
+  if (!base || !compare) return null;
+
+  const fieldIds = Array.from(new Set([...Object.keys(base.data || {}), ...Object.keys(compare.data || {})]));
+  const rows = fieldIds.map(fieldId => ({
+    fieldId,
+    before: base.data?.[fieldId],
+    after: compare.data?.[fieldId],
+    changed: JSON.stringify(base.data?.[fieldId] ?? null) !== JSON.stringify(compare.data?.[fieldId] ?? null),
+  }));
+  const changedCount = rows.filter(row => row.changed).length;
+  const visibleRows = showUnchanged ? rows : rows.filter(row => row.changed);
+
+  const baseDocumentIds = new Set((base.documents || []).map(doc => doc.id));
+  const compareDocumentIds = new Set((compare.documents || []).map(doc => doc.id));
+  const changedDocuments = (compare.documents || []).filter(doc => !baseDocumentIds.has(doc.id));
+  const goneDocuments = (base.documents || []).filter(doc => !compareDocumentIds.has(doc.id));
+
+  // A file whose logical document is in both snapshots was replaced by a new version
+  const baseByGroup = new Map(goneDocuments.filter(doc => doc.documentGroupId).map(doc => [doc.documentGroupId, doc]));
+  const replacedDocuments = changedDocuments
+    .filter(doc => doc.documentGroupId && baseByGroup.has(doc.documentGroupId))
+    .map(doc => ({ previous: baseByGroup.get(doc.documentGroupId)!, current: doc }));
+  const replacedGroups = new Set(replacedDocuments.map(({ current }) => current.documentGroupId));
+  const addedDocuments = changedDocuments.filter(doc => !replacedGroups.has(doc.documentGroupId));
+  const removedDocuments = goneDocuments.filter(doc => !replacedGroups.has(doc.documentGroupId));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Previous</Label>
+          <Select value={baseId} onValueChange={setBaseId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map(version => (
+                <SelectItem key={version.id} value={String(version.id)}>{formatVersionLabel(version)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Current</Label>
+          <Select value={compareId} onValueChange={setCompareId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map(version => (
+                <SelectItem key={version.id} value={String(version.id)}>{formatVersionLabel(version)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">
+            Field Changes <Badge variant="outline" className="ml-2">{changedCount} changed</Badge>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+            <Label htmlFor="show-unchanged" className="text-sm">Show unchanged</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleRows.length === 0 ? (
+            <p className="text-sm text-gray-500">No answers changed between these versions.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-1/4">Field</TableHead>
+                  <TableHead>Version {base.versionNumber}</TableHead>
+                  <TableHead>Version {compare.versionNumber}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(row => (
+                  <TableRow key={row.fieldId} className={row.changed ? 'bg-yellow-50' : ''}>
+                    <TableCell className="text-sm font-medium">{getFieldLabel(row.fieldId)}</TableCell>
+                    <TableCell className={`text-sm break-words ${row.changed ? 'text-red-700 line-through' : 'text-gray-600'}`}>
+                      {formatValue(row.before)}
+                    </TableCell>
+                    <TableCell className={`text-sm break-words ${row.changed ? 'text-green-700 font-medium' : 'text-gray-600'}`}>
+                      {formatValue(row.after)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">File Changes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {addedDocuments.length === 0 && removedDocuments.length === 0 && replacedDocuments.length === 0 ? (
+            <p className="text-sm text-gray-500">No files were added, replaced or removed.</p>
+          ) : (
+            <>
+              {replacedDocuments.map(({ previous, current }) => (
+                <div key={`replaced-${current.id}`} className="flex items-center gap-2 text-sm text-blue-700">
+                  <FileDiff className="h-4 w-4" />
+                  <span>{current.originalName}</span>
+                  <Badge variant="outline" className="text-xs">
+                    New version (v{previous.version ?? 1} → v{current.version ?? 1})
+                  </Badge>
+                </div>
+              ))}
+              {addedDocuments.map(doc => (
+                <div key={`added-${doc.id}`} className="flex items-center gap-2 text-sm text-green-700">
+                  <FilePlus className="h-4 w-4" />
+                  <span>{doc.originalName}</span>
+                  <Badge variant="outline" className="text-xs">Added</Badge>
+                </div>
+              ))}
+              {removedDocuments.map(doc => (
+                <div key={`removed-${doc.id}`} className="flex items-center gap-2 text-sm text-red-700">
+                  <FileMinus className="h-4 w-4" />
+                  <span className="line-through">{doc.originalName}</span>
+                  <Badge variant="outline" className="text-xs">Removed</Badge>
+                </div>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Lock } from "lucide-react";
+import { format } from "date-fns";
+
+interface TicketNote {
+  id: number;
+  ticketId: number;
+  note: string;
+  createdAt: string;
+  author: { id: string; firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+// Admin-only notes on a support ticket. They are stored apart from the message thread,
+// so nothing written here can reach the requester.
+export function TicketInternalNotes({ ticketNumber }: { ticketNumber: string }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+
+  const { data: notes = [] } = useQuery<TicketNote[]>({
+    queryKey: ['/api/admin/tickets', ticketNumber, 'notes'],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/tickets/${ticketNumber}/notes`, {
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to fetch ticket notes');
+      return response.json();
+    },
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (note: string) => {
+      return apiRequest(`/api/admin/tickets/${ticketNumber}/notes`, 'POST', { note });
+    },
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/tickets', ticketNumber, 'notes'] });
+    },
+    onError: () => {
+      toast({ title: "Failed to add note", variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          Internal Notes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {notes.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No notes yet. Notes are visible to admins only.</p>
+        ) : (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {notes.map(note => {
+              const authorName = note.author
+                ? `${note.author.firstName || ''} ${note.author.lastName || ''}`.trim() || note.author.email
+                : 'Admin';
+              return (
+                <div key={note.id} className="p-2 rounded bg-yellow-50 border border-yellow-200 text-sm">
+                  <div className="text-xs text-muted-foreground mb-1">
+                    {authorName} · {format(new Date(note.createdAt), "MMM d, HH:mm")}
+                  </div>
+                  <div className="whitespace-pre-wrap">{note.note}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <Textarea
+          placeholder="Add an internal note..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={2}
+          className="resize-none text-sm"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full"
+          onClick={() => addNoteMutation.mutate(draft.trim())}
+          disabled={!draft.trim() || addNoteMutation.isPending}
+        >
+          {addNoteMutation.isPending ? "Saving..." : "Add Note"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
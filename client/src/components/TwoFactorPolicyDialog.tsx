@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ShieldCheck } from "lucide-react";
+import { USER_ROLES } from "@/lib/constants";
+
+// Roles that must use two-factor authentication. Users in them without 2FA are sent to set
+// it up on their next login and cannot turn it off.
+export function TwoFactorPolicyDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: policy } = useQuery<{ requiredRoles: string[] }>({
+    queryKey: ["/api/admin/security/two-factor-policy"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && policy) setSelected(policy.requiredRoles);
+  }, [open, policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/admin/security/two-factor-policy", "PUT", { requiredRoles: selected });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security/two-factor-policy"] });
+      setOpen(false);
+      toast({
+        title: "Two-Factor Policy Updated",
+        description: "Users in the selected roles will set up two-factor authentication on their next login.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the two-factor policy.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, role] : prev.filter(r => r !== role));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Two-Factor Policy
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Require Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Users in these roles must use two-factor authentication. Anyone without it is asked to set it up on their next login.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {Object.entries(USER_ROLES).map(([role, { label }]) => (
+            <div key={role} className="flex items-center space-x-2">
+              <Checkbox
+                id={`require-2fa-${role}`}
+                checked={selected.includes(role)}
+                onCheckedChange={(checked) => toggleRole(role, !!checked)}
+              />
+              <Label htmlFor={`require-2fa-${role}`}>{label}</Label>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !policy}>
+            {saveMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import React from "react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import { Shield, X } from "lucide-react";
+import { Shield, KeyRound, X } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 
 interface TwoFactorPromptProps {
@@ -11,8 +11,8 @@ interface TwoFactorPromptProps {
 export default function TwoFactorPrompt({ onDismiss }: TwoFactorPromptProps) {
   const { user } = useAuth();
 
-  // Don't show if user already has 2FA enabled
-  if (user?.twoFactorEnabled) {
+  // Don't show if user already has a second factor: an authenticator app or a passkey
+  if (user?.twoFactorEnabled || user?.hasPasskeys) {
     return null;
   }
 
@@ -23,7 +23,8 @@ export default function TwoFactorPrompt({ onDismiss }: TwoFactorPromptProps) {
         <div className="flex-1">
           <AlertTitle className="text-yellow-800">Secure Your Account</AlertTitle>
           <AlertDescription className="text-yellow-700 mt-1">
-            Enable two-factor authentication to add an extra layer of security to your SEMI program account.
+            Enable two-factor authentication with an authenticator app, or add a passkey to sign in with your
+            fingerprint, face or security key instead.
           </AlertDescription>
         </div>
         <div className="flex items-center space-x-2 ml-4">
@@ -34,6 +35,15 @@ export default function TwoFactorPrompt({ onDismiss }: TwoFactorPromptProps) {
           >
             Set up 2FA
           </Button>
+          <Button 
+            size="sm" 
+            variant="outline"
+            onClick={() => window.location.href = "/security?tab=passkeys"}
+            className="border-yellow-600 text-yellow-700 hover:bg-yellow-100"
+          >
+            <KeyRound className="h-4 w-4 mr-1" />
+            Add a passkey
+          </Button>
           <Button 
             variant="ghost" 
             size="sm" 
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { HardDriveUpload } from "lucide-react";
+import { DEFAULT_MAX_UPLOAD_MB, MAX_UPLOAD_SIZE_MB } from "@shared/upload-limits";
+
+const ACTIVITY_TYPES = ["FRA", "SEM", "EAA", "EMIS", "CR"];
+
+// Per-activity-type ceiling for a single uploaded file (audit reports, interval data, site photos)
+export function UploadSettingsDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { data: settings = [] } = useQuery<any[]>({
+    queryKey: ["/api/activity-settings"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const initial: Record<string, string> = {};
+    for (const activityType of ACTIVITY_TYPES) {
+      const setting = settings.find((s: any) => s.activityType === activityType);
+      initial[activityType] = setting?.maxUploadSizeMb?.toString() ?? "";
+    }
+    setDrafts(initial);
+  }, [open, settings]);
+
+  const invalid = Object.values(drafts).some(value => {
+    if (!value) return false;
+    const parsed = Number(value);
+    return !Number.isInteger(parsed) || parsed < 1 || parsed > MAX_UPLOAD_SIZE_MB;
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const activityType of ACTIVITY_TYPES) {
+        await apiRequest(`/api/admin/activity-settings/${activityType}`, "PATCH", {
+          maxUploadSizeMb: drafts[activityType] ? parseInt(drafts[activityType]) : null,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/uploads/limits"] });
+      setOpen(false);
+      toast({
+        title: "Upload Limits Updated",
+        description: "Upload size limits have been saved for all activity types.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save upload size limits.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <HardDriveUpload className="h-4 w-4 mr-2" />
+          Upload Limits
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload Size Limits</DialogTitle>
+          <DialogDescription>
+            Largest file participants can upload to an application of each activity type, up to {MAX_UPLOAD_SIZE_MB} MB.
+            Leave blank for the default of {DEFAULT_MAX_UPLOAD_MB} MB, which also applies to uploads not tied to an application.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3 text-sm font-medium text-gray-600">
+            <span>Activity</span>
+            <span>Max file size (MB)</span>
+          </div>
+          {ACTIVITY_TYPES.map(activityType => (
+            <div key={activityType} className="grid grid-cols-2 gap-3 items-center">
+              <Label>{activityType}</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_UPLOAD_SIZE_MB}
+                placeholder={`${DEFAULT_MAX_UPLOAD_MB} (default)`}
+                value={drafts[activityType] ?? ""}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [activityType]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || invalid}>
+            {saveMutation.isPending ? "Saving..." : "Save Limits"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ChunkedUpload, type ChunkedUploadState, type ChunkedUploadTarget } from "@/lib/chunked-upload";
+
+export interface ChunkedUploadItem extends ChunkedUploadState {
+  id: string;
+  file: File;
+}
+
+// A list of files uploaded with ChunkedUpload, with per-file pause, resume/retry and remove
+export function useChunkedUploads() {
+  const [items, setItems] = useState<ChunkedUploadItem[]>([]);
+  const uploads = useRef(new Map<string, ChunkedUpload>());
+
+  // Uploads still running when the component goes away are paused, not discarded, so the
+  // same file can resume later
+  useEffect(() => () => uploads.current.forEach(upload => upload.pause()), []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map(file => ({
+      id: `${file.name}-${file.size}-${Date.now()}-${Math.random()}`,
+      file,
+      status: "pending" as const,
+      progress: 0,
+      uploadedBytes: 0,
+    }));
+    setItems(prev => [...prev, ...added]);
+    return added;
+  }, []);
+
+  const start = useCallback((toStart: { id: string; file: File }[], target: ChunkedUploadTarget) => {
+    for (const { id, file } of toStart) {
+      if (uploads.current.has(id)) continue;
+      const upload = new ChunkedUpload(file, target, state =>
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...state } : item))
+      );
+      uploads.current.set(id, upload);
+      upload.start();
+    }
+  }, []);
+
+  const pause = useCallback((id: string) => uploads.current.get(id)?.pause(), []);
+
+  const resume = useCallback((id: string) => {
+    uploads.current.get(id)?.start();
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    uploads.current.get(id)?.cancel();
+    uploads.current.delete(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    uploads.current.forEach(upload => upload.cancel());
+    uploads.current.clear();
+    setItems([]);
+  }, []);
+
+  return { items, addFiles, start, pause, resume, remove, clear };
+}
@@ -7,7 +7,9 @@ import { getQueryFn } from "../lib/queryClient";
 export function useAuth() {
   const [location, setLocation] = useLocation();
   
-  const { data: user, isLoading, isFetched, isError } = useQuery<User | undefined, Error>({
+  // twoFactorEnrollmentRequired: the user's role requires 2FA and they signed in without it
+  // hasPasskeys: at least one passkey is registered, which also counts as a second factor
+  const { data: user, isLoading, isFetched, isError } = useQuery<(User & { twoFactorEnrollmentRequired?: boolean; hasPasskeys?: boolean }) | undefined, Error>({
     queryKey: ["/api/auth/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -37,5 +39,6 @@ export function useAuth() {
     isAdmin,
     isContractor,
     isRegularUser,
+    needsTwoFactorEnrollment: !!patchedUser?.twoFactorEnrollmentRequired,
   };
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+// Resumable chunked uploads against /api/uploads (see server/chunked-uploads.ts). Each chunk is
+// sent with its SHA-256 and retried a few times before the upload stops with an error; pause
+// and retry both resume from the chunks the server already holds. The session id is kept in
+// localStorage, so the same file picked again after a reload continues where it left off.
+
+export interface ChunkedUploadTarget {
+  purpose: "document" | "message";
+  applicationId?: number | null;
+  documentType?: string;
+  supersedesDocumentId?: number; // upload as a new version of this document
+  checklistSlotId?: string; // required-document slot of the application's activity template
+}
+
+export type ChunkedUploadStatus = "pending" | "uploading" | "paused" | "error" | "complete";
+
+export interface UploadedDocument {
+  id: number;
+  originalName: string;
+  scanStatus: "pending" | "clean" | "infected";
+  [key: string]: unknown;
+}
+
+export interface ChunkedUploadState {
+  status: ChunkedUploadStatus;
+  progress: number; // 0-100
+  uploadedBytes: number;
+  error?: string;
+  document?: UploadedDocument;
+}
+
+interface UploadSessionInfo {
+  id: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number;
+  status: string;
+}
+
+const CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+class UploadRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { credentials: "include", ...init });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new UploadRequestError(response.status, body?.message || `Upload failed (${response.status})`);
+  }
+  return response.json();
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class ChunkedUpload {
+  state: ChunkedUploadState = { status: "pending", progress: 0, uploadedBytes: 0 };
+  private sessionId: string | null;
+  private controller: AbortController | null = null;
+
+  constructor(
+    readonly file: File,
+    private target: ChunkedUploadTarget,
+    private onChange: (state: ChunkedUploadState) => void,
+  ) {
+    this.sessionId = localStorage.getItem(this.storageKey);
+  }
+
+  private get storageKey() {
+    const { purpose, applicationId, documentType, supersedesDocumentId, checklistSlotId } = this.target;
+    const { name, size, lastModified } = this.file;
+    return `chunked-upload:${purpose}:${applicationId ?? ""}:${documentType ?? ""}:${supersedesDocumentId ?? ""}:${checklistSlotId ?? ""}:${name}:${size}:${lastModified}`;
+  }
+
+  private update(changes: Partial<ChunkedUploadState>) {
+    this.state = { ...this.state, ...changes };
+    this.onChange(this.state);
+  }
+
+  private async openSession(): Promise<UploadSessionInfo> {
+    if (this.sessionId) {
+      try {
+        const existing = await request<UploadSessionInfo>(`/api/uploads/${this.sessionId}`);
+        if (existing.status === "uploading") return existing;
+      } catch {
+        // Expired or unknown - start over below
+      }
+    }
+
+    const session = await request<UploadSessionInfo>("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        fileName: this.file.name,
+        mimeType: this.file.type,
+        size: this.file.size,
+        ...this.target,
+      }),
+    });
+    this.sessionId = session.id;
+    localStorage.setItem(this.storageKey, session.id);
+    return session;
+  }
+
+  private async sendChunk(session: UploadSessionInfo, index: number, signal: AbortSignal) {
+    const chunk = this.file.slice(index * session.chunkSize, (index + 1) * session.chunkSize);
+    const data = await chunk.arrayBuffer();
+    const checksum = await sha256Hex(data);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request<UploadSessionInfo>(`/api/uploads/${session.id}/chunks/${index}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/octet-stream", "X-Chunk-Checksum": checksum },
+          body: data,
+          signal,
+        });
+      } catch (error) {
+        // Only network failures and server errors are worth another attempt
+        const retryable = !(error instanceof UploadRequestError) || error.status >= 500;
+        if (signal.aborted || !retryable || attempt >= CHUNK_ATTEMPTS) throw error;
+        await wait(RETRY_DELAY_MS * attempt);
+      }
+    }
+  }
+
+  // Starts, resumes or retries the upload
+  async start(): Promise<void> {
+    if (this.state.status === "uploading" || this.state.status === "complete") return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.update({ status: "uploading", error: undefined });
+
+    try {
+      let session = await this.openSession();
+      for (let index = session.receivedChunks; index < session.totalChunks; index++) {
+        if (controller.signal.aborted) return;
+        this.update({
+          uploadedBytes: Math.min(index * session.chunkSize, this.file.size),
+          progress: Math.round((index / session.totalChunks) * 100),
+        });
+        session = await this.sendChunk(session, index, controller.signal);
+      }
+      if (controller.signal.aborted) return;
+
+      const document = await request<UploadedDocument>(`/api/uploads/${session.id}/complete`, { method: "POST" });
+      localStorage.removeItem(this.storageKey);
+      this.update({ status: "complete", progress: 100, uploadedBytes: this.file.size, document });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // A rejected file cannot be resumed; forget the session so a retry starts fresh
+      if (error instanceof UploadRequestError && error.status === 415) {
+        localStorage.removeItem(this.storageKey);
+        this.sessionId = null;
+      }
+      this.update({ status: "error", error: error instanceof Error ? error.message : "Upload failed" });
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  pause() {
+    if (this.state.status !== "uploading") return;
+    this.controller?.abort();
+    this.update({ status: "paused" });
+  }
+
+  // Stops the upload and discards what the server has received
+  async cancel() {
+    this.controller?.abort();
+    localStorage.removeItem(this.storageKey);
+    if (this.sessionId && this.state.status !== "complete") {
+      await fetch(`/api/uploads/${this.sessionId}`, { method: "DELETE", credentials: "include" }).catch(() => undefined);
+    }
+  }
+}
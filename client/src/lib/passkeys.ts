@@ -0,0 +1,34 @@
+import { startAuthentication, startRegistration, browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/browser";
+import { apiRequest } from "./queryClient";
+
+export interface PasskeySummary {
+  id: number;
+  name: string;
+  deviceType: string | null;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export const passkeysSupported = () => browserSupportsWebAuthn();
+
+// Creates a passkey on this device and saves it to the signed-in account. Recovery codes come
+// back when it is the account's first second factor.
+export async function registerPasskey(name: string): Promise<{ credential: PasskeySummary; recoveryCodes?: string[] }> {
+  const optionsRes = await apiRequest("/api/auth/webauthn/register/options", "POST");
+  const response = await startRegistration({ optionsJSON: await optionsRes.json() });
+  const res = await apiRequest("/api/auth/webauthn/register/verify", "POST", { response, name });
+  return await res.json();
+}
+
+// Asks the browser to sign a fresh challenge. With secondFactor the server only offers the
+// passkeys of the user who just entered their password.
+export async function getPasskeyAssertion(secondFactor: boolean): Promise<AuthenticationResponseJSON> {
+  const optionsRes = await apiRequest("/api/auth/webauthn/login/options", "POST", { secondFactor });
+  return await startAuthentication({ optionsJSON: await optionsRes.json() });
+}
+
+// The browser reports a cancelled or timed-out prompt as NotAllowedError
+export const isPasskeyCancelled = (error: unknown) =>
+  error instanceof Error && error.name === "NotAllowedError";
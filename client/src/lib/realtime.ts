@@ -0,0 +1,85 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { queryClient } from "./queryClient";
+
+// Live updates over server-sent events (/api/events). Each event invalidates only the React
+// Query caches it affects. While the stream is down, useLivePolling() turns interval polling
+// back on so screens keep refreshing.
+
+type RealtimeEventType = "message" | "ticket" | "notification" | "announcement";
+
+const MESSAGE_QUERY_KEYS = [["/api/messages"], ["/api/admin/messages"]];
+
+const INVALIDATIONS: Record<RealtimeEventType, () => void> = {
+  message: () => invalidateMessages(),
+  ticket: () => {
+    invalidateMessages();
+    // Ticket metadata and internal notes (["/api/admin/tickets", ticketNumber, "notes"])
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/tickets"] });
+  },
+  notification: () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  },
+  announcement: () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/announcements/active"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/announcements"] });
+  },
+};
+
+function invalidateMessages() {
+  MESSAGE_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  // Per-ticket attachment counts are keyed by URL
+  queryClient.invalidateQueries({
+    predicate: query => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/tickets/"),
+  });
+}
+
+let connected = false;
+const listeners = new Set<() => void>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useRealtimeConnected(): boolean {
+  return useSyncExternalStore(subscribe, () => connected);
+}
+
+// Polling interval for live data: off while the push channel is connected
+export function useLivePolling(intervalMs: number): number | false {
+  return useRealtimeConnected() ? false : intervalMs;
+}
+
+// Opens the event stream for the signed-in user. Mounted once at the app root.
+export function useRealtimeEvents(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+
+    const source = new EventSource("/api/events", { withCredentials: true });
+
+    source.onopen = () => {
+      setConnected(true);
+      // Catch up on anything that changed while disconnected
+      Object.values(INVALIDATIONS).forEach(invalidate => invalidate());
+    };
+    // EventSource reconnects on its own; poll until it does
+    source.onerror = () => setConnected(false);
+
+    (Object.keys(INVALIDATIONS) as RealtimeEventType[]).forEach(type => {
+      source.addEventListener(type, () => INVALIDATIONS[type]());
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+}
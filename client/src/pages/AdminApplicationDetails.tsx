@@ -1,7 +1,8 @@
 // SYSTEM ADMIN APPLICATION DETAILS - USES SAME INTERFACE AS USERS
 // ==============================================================
 // System admin should see exactly the same interface as users when viewing applications
-// This provides complete visibility into user experience with all template data and responses
+// This provides complete visibility into user experience with all template data and responses,
+// including the status history timeline on the overview tab
 
 import ApplicationDetails from "./application-details";
 
@@ -11,6 +11,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Shield, Settings, AlertTriangle, CheckCircle, XCircle, Edit2, Save, X, Download, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { ACTIVITY_TYPES } from "@/lib/constants";
+import { UploadSettingsDialog } from "@/components/UploadSettingsDialog";
 import { getNAICSDescription } from "../../../shared/naics-data";
 import * as XLSX from 'xlsx';
 
@@ -390,6 +391,7 @@ export default function AdminApplicationLimitsPage() {
           <h1 className="text-3xl font-bold text-gray-900">Application Limits</h1>
           <p className="text-gray-600">Manage application limits and activity availability</p>
         </div>
+        <UploadSettingsDialog />
       </div>
 
       {/* Stats Overview */}
@@ -11,6 +11,8 @@ import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
 import { 
   CheckCircle2, 
   XCircle, 
@@ -25,14 +27,45 @@ import {
   User,
   Calendar,
   FileText,
-  Users
+  Users,
+  AlarmClock
 } from "lucide-react";
+import { ReviewSettingsDialog } from "@/components/ReviewSettingsDialog";
+import { ReviewerWorkloadCard, formatReviewerName, type ReviewerWorkload } from "@/components/ReviewerWorkloadCard";
+import { REVIEW_SLA_STATE_LABELS, formatSlaTimeRemaining, type ReviewSlaState } from "@shared/review-sla";
+
+const SLA_BADGE_COLORS: Record<ReviewSlaState, string> = {
+  on_track: 'bg-green-100 text-green-800',
+  approaching: 'bg-amber-100 text-amber-800',
+  breached: 'bg-red-100 text-red-800',
+};
+
+const SLA_ROW_COLORS: Record<ReviewSlaState, string> = {
+  on_track: '',
+  approaching: 'bg-amber-50',
+  breached: 'bg-red-50',
+};
+
+function SlaBadge({ sla }: { sla: { state: ReviewSlaState; hoursRemaining: number; dueAt: string } | null }) {
+  if (!sla) return <span className="text-sm text-gray-400">—</span>;
+  return (
+    <div className="flex flex-col gap-1">
+      <Badge className={SLA_BADGE_COLORS[sla.state]}>{REVIEW_SLA_STATE_LABELS[sla.state]}</Badge>
+      <span className="text-xs text-gray-500" title={`Due ${new Date(sla.dueAt).toLocaleString()}`}>
+        {formatSlaTimeRemaining(sla.hoursRemaining)}
+      </span>
+    </div>
+  );
+}
 
 export default function AdminApprovalDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<"all" | "mine" | "unassigned">("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<"deadline" | "newest" | "oldest">("deadline");
   const [rejectionDialog, setRejectionDialog] = useState<{open: boolean, submissionId: number | null, rejectionNotes: string}>({
     open: false,
     submissionId: null,
@@ -48,8 +81,14 @@ export default function AdminApprovalDashboard() {
   }, []);
 
   // Fetch pending submissions with optimized auto-refresh
-  const { data: pendingSubmissions = [], isLoading, refetch: refetchSubmissions } = useQuery({
-    queryKey: ["/api/admin/pending-submissions", refreshKey],
+  const { data: pendingSubmissions = [], isLoading, refetch: refetchSubmissions } = useQuery<any[]>({
+    queryKey: ["/api/admin/pending-submissions", queue, refreshKey],
+    queryFn: async () => {
+      const assignee = queue === "mine" ? "me" : queue === "unassigned" ? "unassigned" : "";
+      const response = await fetch(`/api/admin/pending-submissions${assignee ? `?assignee=${assignee}` : ''}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch submissions');
+      return response.json();
+    },
     refetchInterval: 30000, // OPTIMIZED: Auto-refresh every 30 seconds instead of 5
     refetchOnWindowFocus: true, // Refresh when window gets focus
     refetchOnMount: true, // Always refetch when component mounts
@@ -70,6 +109,97 @@ export default function AdminApprovalDashboard() {
   }, [location, forceRefresh, refetchSubmissions]);
 
 
+  // Reviewers available for assignment come from the workload view
+  const { data: workload = [] } = useQuery<ReviewerWorkload[]>({
+    queryKey: ["/api/admin/reviewers/workload"],
+  });
+  const reviewers = workload.filter(row => row.reviewerId !== null);
+
+  const invalidateAssignments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/pending-submissions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reviewers/workload"] });
+  };
+
+  const claimMutation = useMutation({
+    mutationFn: async (submissionId: number) => {
+      return apiRequest(`/api/admin/submissions/${submissionId}/claim`, "POST");
+    },
+    onSuccess: () => {
+      invalidateAssignments();
+      toast({
+        title: "Submission Claimed",
+        description: "The submission is now in your queue.",
+      });
+    },
+    onError: () => {
+      invalidateAssignments();
+      toast({
+        title: "Error",
+        description: "Failed to claim submission. It may already be assigned.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ submissionId, reviewerId }: { submissionId: number, reviewerId: string | null }) => {
+      return apiRequest(`/api/admin/submissions/${submissionId}/assignee`, "PATCH", { reviewerId });
+    },
+    onSuccess: () => {
+      invalidateAssignments();
+      toast({
+        title: "Reviewer Updated",
+        description: "The submission assignment has been updated.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update reviewer assignment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Legacy applicationSubmissions rows can't be assigned, and decided items don't need a reviewer
+  const renderAssignee = (submission: any) => {
+    if (submission.source !== 'activityTemplateSubmissions' || submission.approvalStatus !== 'pending') {
+      return submission.assignedReviewer
+        ? <span className="text-sm">{formatReviewerName(submission.assignedReviewer)}</span>
+        : <span className="text-sm text-gray-400">—</span>;
+    }
+    return (
+      <div className="flex items-center gap-2">
+        <Select
+          value={submission.assignedReviewerId || "unassigned"}
+          onValueChange={(value) => assignMutation.mutate({ submissionId: submission.id, reviewerId: value === "unassigned" ? null : value })}
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue placeholder="Unassigned" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {reviewers.map(reviewer => (
+              <SelectItem key={reviewer.reviewerId} value={reviewer.reviewerId!}>
+                {reviewer.reviewerId === user?.id ? 'Me' : formatReviewerName(reviewer)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!submission.assignedReviewerId && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => claimMutation.mutate(submission.id)}
+            disabled={claimMutation.isPending}
+          >
+            Claim
+          </Button>
+        )}
+      </div>
+    );
+  };
+
   // Update local submissions when API data changes
   useEffect(() => {
     if (pendingSubmissions && pendingSubmissions.length >= 0) {
@@ -82,6 +212,7 @@ export default function AdminApprovalDashboard() {
   const totalPending = submissions.filter(s => s.approvalStatus === 'pending').length;
   const totalApproved = submissions.filter(s => s.approvalStatus === 'approved').length;
   const totalRejected = submissions.filter(s => s.approvalStatus === 'rejected').length;
+  const totalOverdue = submissions.filter(s => s.sla?.state === 'breached').length;
 
   // Quick approve/reject mutations
   const approveMutation = useMutation({
@@ -203,6 +334,17 @@ export default function AdminApprovalDashboard() {
       submission.template?.name?.toLowerCase().includes(searchTerm.toLowerCase());
     
     return matchesStatus && matchesSearch;
+  }).sort((a, b) => {
+    const submittedA = new Date(a.submittedAt || a.createdAt).getTime();
+    const submittedB = new Date(b.submittedAt || b.createdAt).getTime();
+    if (sortBy === "oldest") return submittedA - submittedB;
+    if (sortBy === "deadline") {
+      // Items with a running SLA clock first, least time remaining at the top
+      if (a.sla && b.sla) return a.sla.hoursRemaining - b.sla.hoursRemaining;
+      if (a.sla) return -1;
+      if (b.sla) return 1;
+    }
+    return submittedB - submittedA;
   });
 
   if (isLoading) {
@@ -219,15 +361,18 @@ export default function AdminApprovalDashboard() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold">System Admin - Submission Approvals</h1>
-        <p className="text-gray-600 mt-2">
-          Review and approve activity template submissions from all companies in the system
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">System Admin - Submission Approvals</h1>
+          <p className="text-gray-600 mt-2">
+            Review and approve activity template submissions from all companies in the system
+          </p>
+        </div>
+        <ReviewSettingsDialog />
       </div>
 
       {/* Statistics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Submissions</CardTitle>
@@ -271,8 +416,21 @@ export default function AdminApprovalDashboard() {
             <p className="text-xs text-muted-foreground">Rejected submissions</p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlarmClock className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{totalOverdue}</div>
+            <p className="text-xs text-muted-foreground">Past review SLA</p>
+          </CardContent>
+        </Card>
       </div>
 
+      <ReviewerWorkloadCard />
+
       {/* Filters and Search */}
       <Card>
         <CardHeader>
@@ -308,23 +466,45 @@ export default function AdminApprovalDashboard() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="w-full md:w-48">
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deadline">Time Remaining</SelectItem>
+                  <SelectItem value="newest">Newest First</SelectItem>
+                  <SelectItem value="oldest">Oldest First</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
 
       {/* Submissions Table */}
       <Card>
-        <CardHeader>
-          <CardTitle>Submissions for Review</CardTitle>
-          <CardDescription>
-            {filteredSubmissions.length} submission{filteredSubmissions.length !== 1 ? 's' : ''} found
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Submissions for Review</CardTitle>
+            <CardDescription>
+              {filteredSubmissions.length} submission{filteredSubmissions.length !== 1 ? 's' : ''} found
+            </CardDescription>
+          </div>
+          <Tabs value={queue} onValueChange={(value) => setQueue(value as typeof queue)}>
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              <TabsTrigger value="mine">My Queue</TabsTrigger>
+              <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </CardHeader>
         <CardContent>
           {/* Mobile Card View */}
           <div className="block md:hidden space-y-4">
             {filteredSubmissions.map((submission) => (
-              <Card key={submission.id} className="p-4">
+              <Card key={submission.id} className={`p-4 ${submission.sla ? SLA_ROW_COLORS[submission.sla.state as ReviewSlaState] : ''}`}>
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center">
@@ -369,6 +549,14 @@ export default function AdminApprovalDashboard() {
                         {submission.submittedAt ? new Date(submission.submittedAt).toLocaleDateString() : new Date(submission.createdAt).toLocaleDateString()}
                       </div>
                     </div>
+                    <div className="col-span-2">
+                      <span className="text-gray-500">Review Deadline:</span>
+                      <SlaBadge sla={submission.sla} />
+                    </div>
+                    <div className="col-span-2">
+                      <span className="text-gray-500">Reviewer:</span>
+                      {renderAssignee(submission)}
+                    </div>
                   </div>
                   
                   <div className="flex flex-col gap-2 mt-3">
@@ -422,13 +610,15 @@ export default function AdminApprovalDashboard() {
                   <TableHead>Template</TableHead>
                   <TableHead>Activity Type</TableHead>
                   <TableHead>Submitted</TableHead>
+                  <TableHead>Review Deadline</TableHead>
+                  <TableHead>Reviewer</TableHead>
                   <TableHead>Approval Status</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
               {filteredSubmissions.map((submission) => (
-                <TableRow key={submission.id}>
+                <TableRow key={submission.id} className={submission.sla ? SLA_ROW_COLORS[submission.sla.state as ReviewSlaState] : ''}>
                   <TableCell>
                     <div className="flex items-center">
                       <FileText className="h-4 w-4 mr-2 text-blue-600" />
@@ -465,6 +655,12 @@ export default function AdminApprovalDashboard() {
                       </span>
                     </div>
                   </TableCell>
+                  <TableCell>
+                    <SlaBadge sla={submission.sla} />
+                  </TableCell>
+                  <TableCell>
+                    {renderAssignee(submission)}
+                  </TableCell>
                   <TableCell>
                     <Badge 
                       variant={
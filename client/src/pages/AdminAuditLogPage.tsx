@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollText, Download, Search, ChevronLeft, ChevronRight, Eye } from "lucide-react";
+
+interface AuditLogEntry {
+  id: number;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+interface AuditLogResponse {
+  logs: AuditLogEntry[];
+  total: number;
+  actions: string[];
+  entityTypes: string[];
+  limit: number;
+  offset: number;
+}
+
+const PAGE_SIZE = 50;
+
+function getActionColor(action: string) {
+  if (action.includes('delete') || action.includes('clear')) return 'bg-red-100 text-red-800';
+  if (action.includes('create')) return 'bg-green-100 text-green-800';
+  if (action.includes('reset_password') || action.includes('deactivate')) return 'bg-orange-100 text-orange-800';
+  return 'bg-blue-100 text-blue-800';
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+// Field-by-field comparison of the before/after snapshots; non-object values are shown whole
+function AuditDiff({ before, after }: { before: unknown; after: unknown }) {
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isRecord(before) && !isRecord(after)) {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <pre className="text-xs bg-red-50 border border-red-100 rounded p-2 whitespace-pre-wrap break-all">{before == null ? '—' : JSON.stringify(before, null, 2)}</pre>
+        <pre className="text-xs bg-green-50 border border-green-100 rounded p-2 whitespace-pre-wrap break-all">{after == null ? '—' : JSON.stringify(after, null, 2)}</pre>
+      </div>
+    );
+  }
+
+  const beforeRecord = isRecord(before) ? before : {};
+  const afterRecord = isRecord(after) ? after : {};
+  const keys = Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])).sort();
+  const changedKeys = keys.filter(key => JSON.stringify(beforeRecord[key]) !== JSON.stringify(afterRecord[key]));
+  // Deletions have no "after" state, so show everything that was removed
+  const visibleKeys = isRecord(before) && isRecord(after) ? changedKeys : keys;
+
+  if (visibleKeys.length === 0) {
+    return <p className="text-sm text-gray-500">No field changes recorded.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {visibleKeys.map(key => (
+          <TableRow key={key}>
+            <TableCell className="font-mono text-xs">{key}</TableCell>
+            <TableCell className="text-xs text-red-700 break-all">{isRecord(before) ? formatValue(beforeRecord[key]) : '—'}</TableCell>
+            <TableCell className="text-xs text-green-700 break-all">{isRecord(after) ? formatValue(afterRecord[key]) : '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function AdminAuditLogPage() {
+  const [search, setSearch] = useState("");
+  const [action, setAction] = useState("all");
+  const [entityType, setEntityType] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
+
+  const filterParams = new URLSearchParams();
+  if (search.trim()) filterParams.set('search', search.trim());
+  if (action !== 'all') filterParams.set('action', action);
+  if (entityType !== 'all') filterParams.set('entityType', entityType);
+  if (from) filterParams.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) filterParams.set('to', new Date(`${to}T23:59:59`).toISOString());
+
+  const pageParams = new URLSearchParams(filterParams);
+  pageParams.set('limit', String(PAGE_SIZE));
+  pageParams.set('offset', String(page * PAGE_SIZE));
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: [`/api/admin/audit-logs?${pageParams.toString()}`],
+  });
+
+  const logs = data?.logs || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleExport = () => {
+    window.location.href = `/api/admin/audit-logs/export?${filterParams.toString()}`;
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ScrollText className="w-6 h-6" />
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+        </div>
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="md:col-span-2 space-y-1">
+              <Label htmlFor="audit-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  id="audit-search"
+                  placeholder="Actor email, entity ID, IP, changed values..."
+                  className="pl-8"
+                  value={search}
+                  onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={updateFilter(setAction)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All actions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {(data?.actions || []).map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Entity</Label>
+              <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {(data?.entityTypes || []).map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries ({total})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading audit log...</p>
+          ) : logs.length === 0 ? (
+            <p className="text-sm text-gray-500">No audit entries match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map(log => (
+                  <TableRow key={log.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{new Date(log.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{log.actorEmail || log.actorId || 'Unknown'}</TableCell>
+                    <TableCell>
+                      <Badge className={getActionColor(log.action)}>{log.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <span className="capitalize">{log.entityType.replace(/_/g, ' ')}</span>
+                      {log.entityId && <span className="text-gray-500 font-mono ml-1">#{log.entityId}</span>}
+                    </TableCell>
+                    <TableCell className="text-sm font-mono">{log.ipAddress || '—'}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedLog(log)}>
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-gray-500">Page {page + 1} of {pageCount}</p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedLog?.action}</DialogTitle>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div><span className="text-gray-500">When:</span> {new Date(selectedLog.createdAt).toLocaleString()}</div>
+                <div><span className="text-gray-500">Actor:</span> {selectedLog.actorEmail || selectedLog.actorId || 'Unknown'}</div>
+                <div><span className="text-gray-500">Target:</span> {selectedLog.entityType} {selectedLog.entityId && `#${selectedLog.entityId}`}</div>
+                <div><span className="text-gray-500">IP Address:</span> {selectedLog.ipAddress || '—'}</div>
+                <div className="col-span-2 break-all"><span className="text-gray-500">User Agent:</span> {selectedLog.userAgent || '—'}</div>
+              </div>
+              <div>
+                <h3 className="font-medium mb-2">Changes</h3>
+                <AuditDiff before={selectedLog.before} after={selectedLog.after} />
+              </div>
+              {selectedLog.metadata && (
+                <div>
+                  <h3 className="font-medium mb-2">Details</h3>
+                  <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 whitespace-pre-wrap break-all">
+                    {JSON.stringify(selectedLog.metadata, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -57,6 +57,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Link, useLocation } from "wouter";
 import AdminEnhancedFacilityForm from "@/components/AdminEnhancedFacilityForm";
+import { CompanySsoDialog } from "@/components/CompanySsoDialog";
 
 export default function AdminCompaniesPage() {
   const [searchTerm, setSearchTerm] = useState("");
@@ -878,6 +879,7 @@ export default function AdminCompaniesPage() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <CompanySsoDialog company={company} />
                       </div>
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Mail } from "lucide-react";
+
+interface EmailTemplateSummary {
+  name: string;
+  description: string;
+  variables: Record<string, string>;
+  versions: { version: number; hasTextVersion: boolean }[];
+  latestVersion: number;
+}
+
+interface EmailTemplatePreview {
+  subject: string;
+  html: string;
+  text: string;
+  template: { name: string; version: number };
+}
+
+// Read-only preview of every registered email template, rendered with sample data
+export default function AdminEmailTemplatesPage() {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplateSummary[]>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+
+  const selected = templates.find(template => template.name === selectedName) ?? templates[0];
+  const version = selectedVersion ?? selected?.latestVersion;
+
+  const { data: preview, isLoading: previewLoading } = useQuery<EmailTemplatePreview>({
+    queryKey: ["/api/admin/email-templates", selected?.name, "preview", version],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/email-templates/${selected!.name}/preview?version=${version}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to render email template");
+      return response.json();
+    },
+    enabled: !!selected && version !== undefined,
+  });
+
+  const selectTemplate = (name: string) => {
+    setSelectedName(name);
+    setSelectedVersion(null);
+  };
+
+  const selectedVersionInfo = selected?.versions.find(candidate => candidate.version === version);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Mail className="w-6 h-6" />
+        <h1 className="text-2xl font-bold">Email Templates</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading templates...</p>
+            ) : (
+              templates.map(template => (
+                <button
+                  key={template.name}
+                  type="button"
+                  onClick={() => selectTemplate(template.name)}
+                  className={cn(
+                    "w-full text-left p-2 rounded border",
+                    template.name === selected?.name ? "border-blue-500 bg-blue-50" : "border-transparent hover:bg-gray-50"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-sm">{template.name}</span>
+                    <Badge variant="outline" className="text-xs">v{template.latestVersion}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">{template.description}</p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="font-mono">{selected.name}</CardTitle>
+                    <CardDescription>{selected.description}</CardDescription>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Version</Label>
+                    <Select value={String(version)} onValueChange={(value) => setSelectedVersion(Number(value))}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selected.versions.map(candidate => (
+                          <SelectItem key={candidate.version} value={String(candidate.version)}>
+                            v{candidate.version}{candidate.version === selected.latestVersion ? " (live)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {previewLoading || !preview ? (
+                  <p className="text-sm text-gray-500">Rendering preview...</p>
+                ) : (
+                  <>
+                    <div className="text-sm">
+                      <span className="text-gray-500">Subject: </span>
+                      <span className="font-medium">{preview.subject}</span>
+                    </div>
+                    <Tabs defaultValue="html">
+                      <TabsList>
+                        <TabsTrigger value="html">HTML</TabsTrigger>
+                        <TabsTrigger value="text">
+                          Plain text{selectedVersionInfo && !selectedVersionInfo.hasTextVersion ? " (generated)" : ""}
+                        </TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="html">
+                        <iframe
+                          title={`${selected.name} preview`}
+                          srcDoc={preview.html}
+                          sandbox=""
+                          className="w-full h-[600px] border rounded bg-white"
+                        />
+                      </TabsContent>
+                      <TabsContent value="text">
+                        <pre className="text-sm bg-gray-50 border rounded p-4 whitespace-pre-wrap">{preview.text}</pre>
+                      </TabsContent>
+                    </Tabs>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Variables</CardTitle>
+                <CardDescription>Values the sending code supplies. The preview uses sample values.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Description</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selected.variables).map(([name, description]) => (
+                      <TableRow key={name}>
+                        <TableCell className="font-mono text-sm">{name}</TableCell>
+                        <TableCell className="text-sm">{description}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -29,11 +29,24 @@ import {
   Eye,
   ThumbsUp,
   ThumbsDown,
-  MessageSquare
+  MessageSquare,
+  GitCompare,
+  History
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
+import { FieldCommentThread, type FieldComment } from "@/components/FieldCommentThread";
+import { SubmissionVersionDiff } from "@/components/SubmissionVersionDiff";
+import { DocumentVersionHistory } from "@/components/DocumentVersionHistory";
+
+// Document versions pinned by the last approve/reject
+interface ReviewedDocument {
+  id: number;
+  documentGroupId: number | null;
+  version: number;
+  originalName: string;
+}
 
 interface SubmissionData {
   id: number;
@@ -49,6 +62,7 @@ interface SubmissionData {
   template: any;
   submitter: any;
   documents: any[];
+  reviewedDocuments?: ReviewedDocument[] | null;
   contractorAssignments: any[];
   teamMembers: any[];
 }
@@ -59,6 +73,9 @@ export default function AdminSubmissionReview() {
   const { toast } = useToast();
   const [reviewNotes, setReviewNotes] = useState("");
   const [activeTab, setActiveTab] = useState("overview");
+  const [commentingField, setCommentingField] = useState<string | null>(null);
+  const [commentDraft, setCommentDraft] = useState("");
+  const [versionsDocument, setVersionsDocument] = useState<{ id: number; originalName: string } | null>(null);
 
   const submissionId = params.id;
 
@@ -75,17 +92,76 @@ export default function AdminSubmissionReview() {
     enabled: !!submissionId
   });
 
+  const { data: fieldComments = [] } = useQuery<FieldComment[]>({
+    queryKey: ['/api/admin/submissions', submissionId, 'field-comments'],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/field-comments`, {
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to fetch field comments');
+      return response.json();
+    },
+    enabled: !!submissionId
+  });
+
+  const addFieldCommentMutation = useMutation({
+    mutationFn: async ({ fieldId, fieldLabel, comment }: { fieldId: string; fieldLabel: string; comment: string }) => {
+      return apiRequest(`/api/admin/submissions/${submissionId}/field-comments`, 'POST', { fieldId, fieldLabel, comment });
+    },
+    onSuccess: () => {
+      setCommentingField(null);
+      setCommentDraft("");
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/submissions', submissionId, 'field-comments'] });
+    },
+    onError: () => {
+      toast({ title: "Failed to add comment", variant: "destructive" });
+    }
+  });
+
+  const deleteFieldCommentMutation = useMutation({
+    mutationFn: async (commentId: number) => {
+      return apiRequest(`/api/admin/field-comments/${commentId}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/submissions', submissionId, 'field-comments'] });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete comment", variant: "destructive" });
+    }
+  });
+
+  const openFieldComments = fieldComments.filter(comment => !comment.resolvedAt);
+
+  // The versions listed on the Documents tab; the server refuses the decision if any has changed
+  const shownDocumentIds = submission?.documents?.filter((doc: any) => !doc.messageId).map((doc: any) => doc.id as number);
+
+  // apiRequest errors read "<status>: <body>"; the body's message is the part worth showing
+  const serverMessage = (error: Error) => {
+    try {
+      return JSON.parse(error.message.replace(/^\d+: /, '')).message as string;
+    } catch {
+      return error.message;
+    }
+  };
+
+  // The documents (or the application's status) changed under the reviewer: show why and reload
+  const showReviewConflict = (error: Error) => {
+    toast({ title: "Submission changed", description: serverMessage(error), variant: "destructive" });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/submission-details', submissionId] });
+  };
+
   // Approve submission mutation
   const approveMutation = useMutation({
     mutationFn: async ({ notes }: { notes: string }) => {
-      return apiRequest(`/api/admin/submissions/${submissionId}/approve`, 'POST', { reviewNotes: notes });
+      return apiRequest(`/api/admin/submissions/${submissionId}/approve`, 'POST', { reviewNotes: notes, documentIds: shownDocumentIds });
     },
     onSuccess: () => {
       toast({ title: "Submission approved successfully" });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/pending-submissions'] });
       setLocation('/admin/approvals');
     },
-    onError: () => {
+    onError: (error: Error) => {
+      if (error.message.startsWith('409:')) return showReviewConflict(error);
       toast({ title: "Failed to approve submission", variant: "destructive" });
     }
   });
@@ -93,15 +169,20 @@ export default function AdminSubmissionReview() {
   // Reject submission mutation
   const rejectMutation = useMutation({
     mutationFn: async ({ notes }: { notes: string }) => {
-      return apiRequest(`/api/admin/submissions/${submissionId}/reject`, 'POST', { reviewNotes: notes });
+      return apiRequest(`/api/admin/submissions/${submissionId}/reject`, 'POST', { reviewNotes: notes, documentIds: shownDocumentIds });
     },
     onSuccess: () => {
       toast({ title: "Submission rejected" });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/pending-submissions'] });
       setLocation('/admin/approvals');
     },
-    onError: () => {
-      toast({ title: "Failed to reject submission", variant: "destructive" });
+    onError: (error: Error) => {
+      if (error.message.startsWith('409:')) return showReviewConflict(error);
+      toast({
+        title: "Failed to reject submission",
+        description: error.message.startsWith('400:') ? serverMessage(error) : undefined,
+        variant: "destructive"
+      });
     }
   });
 
@@ -115,6 +196,11 @@ export default function AdminSubmissionReview() {
     }
   }, [submission?.template?.formFields]);
 
+  const getFieldLabel = (fieldId: string) => {
+    const field = templateFields.find((f: any) => f.id === fieldId);
+    return field?.label || fieldId.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+  };
+
   // Get field responses from submission data
   const getFieldResponse = (fieldId: string) => {
     if (!submission?.data) return null;
@@ -273,6 +359,14 @@ export default function AdminSubmissionReview() {
                     <FileText className="h-4 w-4 mr-2" />
                     Form Responses
                   </Button>
+                  <Button
+                    variant={activeTab === "changes" ? "default" : "ghost"}
+                    className="w-full justify-start"
+                    onClick={() => setActiveTab("changes")}
+                  >
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Changes
+                  </Button>
                   <Button
                     variant={activeTab === "documents" ? "default" : "ghost"}
                     className="w-full justify-start"
@@ -521,9 +615,24 @@ export default function AdminSubmissionReview() {
                           {Object.entries(submission.data as Record<string, any>).map(([key, value]) => (
                             <div key={key} className="border-l-4 border-blue-200 pl-4 py-3 bg-gray-50 rounded-r">
                               <div className="flex flex-col space-y-2">
-                                <Label className="text-sm font-medium text-blue-800 capitalize">
-                                  {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                                </Label>
+                                <div className="flex items-center justify-between">
+                                  <Label className="text-sm font-medium text-blue-800 capitalize">
+                                    {getFieldLabel(key)}
+                                  </Label>
+                                  {commentingField !== key && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => {
+                                        setCommentingField(key);
+                                        setCommentDraft("");
+                                      }}
+                                    >
+                                      <MessageSquare className="h-3 w-3 mr-1" />
+                                      Comment
+                                    </Button>
+                                  )}
+                                </div>
                                 <div className="bg-white p-3 rounded border">
                                   {Array.isArray(value) ? (
                                     <div className="space-y-1">
@@ -546,6 +655,34 @@ export default function AdminSubmissionReview() {
                                     <span className="break-words">{String(value)}</span>
                                   )}
                                 </div>
+                                <FieldCommentThread
+                                  comments={fieldComments.filter(comment => comment.fieldId === key)}
+                                  onDelete={(comment) => deleteFieldCommentMutation.mutate(comment.id)}
+                                  isUpdating={deleteFieldCommentMutation.isPending}
+                                />
+                                {commentingField === key && (
+                                  <div className="space-y-2">
+                                    <Textarea
+                                      value={commentDraft}
+                                      onChange={(e) => setCommentDraft(e.target.value)}
+                                      placeholder="Explain what needs to change in this answer..."
+                                      rows={2}
+                                      autoFocus
+                                    />
+                                    <div className="flex justify-end gap-2">
+                                      <Button variant="ghost" size="sm" onClick={() => setCommentingField(null)}>
+                                        Cancel
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        onClick={() => addFieldCommentMutation.mutate({ fieldId: key, fieldLabel: getFieldLabel(key), comment: commentDraft })}
+                                        disabled={!commentDraft.trim() || addFieldCommentMutation.isPending}
+                                      >
+                                        Add Comment
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
                               </div>
                             </div>
                           ))}
@@ -563,6 +700,23 @@ export default function AdminSubmissionReview() {
               </Card>
             )}
 
+            {activeTab === "changes" && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <GitCompare className="h-5 w-5 mr-2" />
+                    Changes Since Last Submission
+                  </CardTitle>
+                  <p className="text-sm text-gray-600">
+                    Compare submitted versions to see which answers and files changed
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <SubmissionVersionDiff submissionId={submissionId!} getFieldLabel={getFieldLabel} />
+                </CardContent>
+              </Card>
+            )}
+
             {activeTab === "documents" && (
               <Card>
                 <CardHeader>
@@ -577,34 +731,60 @@ export default function AdminSubmissionReview() {
                 <CardContent>
                   <div className="space-y-4">
                     {submission.documents && submission.documents.length > 0 ? (
-                      submission.documents.map((doc: any) => (
-                        <div key={doc.id} className="flex items-center justify-between p-4 border rounded-lg bg-gray-50">
-                          <div className="flex items-center space-x-3">
-                            <FileText className="h-8 w-8 text-blue-600" />
-                            <div>
-                              <p className="font-medium">{doc.filename || doc.originalName}</p>
-                              <div className="flex items-center space-x-4 text-sm text-gray-600">
-                                <span>{doc.fileSize ? `${Math.round(doc.fileSize / 1024)} KB` : 'Unknown size'}</span>
-                                <Badge variant="outline" className="text-xs">
-                                  {doc.category || doc.documentType}
-                                </Badge>
-                                <span>Uploaded {doc.createdAt ? format(new Date(doc.createdAt), 'MMM dd, yyyy') : 'Unknown date'}</span>
-                                {doc.uploadedBy && (
-                                  <span>by {doc.uploadedBy}</span>
-                                )}
+                      submission.documents.map((doc: any) => {
+                        const reviewed = submission.reviewedDocuments?.find((pinned: ReviewedDocument) => pinned.documentGroupId === doc.documentGroupId);
+                        return (
+                          <div key={doc.id} className="flex items-center justify-between p-4 border rounded-lg bg-gray-50">
+                            <div className="flex items-center space-x-3">
+                              <FileText className="h-8 w-8 text-blue-600" />
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <p className="font-medium">{doc.filename || doc.originalName}</p>
+                                  <Badge variant="outline" className="text-xs">v{doc.version ?? 1}</Badge>
+                                  {reviewed && reviewed.id === doc.id && (
+                                    <Badge variant="outline" className="text-xs text-green-700 border-green-300">Reviewed version</Badge>
+                                  )}
+                                  {reviewed && reviewed.id !== doc.id && (
+                                    <Badge variant="outline" className="text-xs text-amber-700 border-amber-300">
+                                      Changed since review (reviewed v{reviewed.version})
+                                    </Badge>
+                                  )}
+                                </div>
+                                <div className="flex items-center space-x-4 text-sm text-gray-600">
+                                  <span>{doc.fileSize ? `${Math.round(doc.fileSize / 1024)} KB` : 'Unknown size'}</span>
+                                  <Badge variant="outline" className="text-xs">
+                                    {doc.category || doc.documentType}
+                                  </Badge>
+                                  <span>Uploaded {doc.createdAt ? format(new Date(doc.createdAt), 'MMM dd, yyyy') : 'Unknown date'}</span>
+                                  {doc.uploadedBy && (
+                                    <span>by {doc.uploadedBy}</span>
+                                  )}
+                                </div>
                               </div>
                             </div>
+                            <div className="flex items-center space-x-2">
+                              {!doc.messageId && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setVersionsDocument({ id: doc.id, originalName: doc.originalName })}
+                                >
+                                  <History className="h-4 w-4 mr-2" />
+                                  History
+                                </Button>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => window.open(`/api/documents/${doc.id}/download`, '_blank')}
+                              >
+                                <Download className="h-4 w-4 mr-2" />
+                                Download
+                              </Button>
+                            </div>
                           </div>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => window.open(`/api/documents/${doc.id}/download`, '_blank')}
-                          >
-                            <Download className="h-4 w-4 mr-2" />
-                            Download
-                          </Button>
-                        </div>
-                      ))
+                        );
+                      })
                     ) : (
                       <div className="text-center py-12 text-gray-500">
                         <Download className="h-12 w-12 mx-auto mb-4 text-gray-300" />
@@ -613,6 +793,11 @@ export default function AdminSubmissionReview() {
                       </div>
                     )}
                   </div>
+                  <DocumentVersionHistory
+                    document={versionsDocument}
+                    onClose={() => setVersionsDocument(null)}
+                    allowUpload={false}
+                  />
                 </CardContent>
               </Card>
             )}
@@ -762,6 +947,12 @@ export default function AdminSubmissionReview() {
                     className="mt-1"
                     rows={4}
                   />
+                  {openFieldComments.length > 0 && (
+                    <p className="text-sm text-amber-700 mt-2 flex items-center">
+                      <AlertCircle className="h-4 w-4 mr-1" />
+                      {openFieldComments.length} open field comment{openFieldComments.length !== 1 ? 's' : ''} will be sent to the applicant if you reject.
+                    </p>
+                  )}
                 </div>
                 
                 <div className="flex space-x-3">
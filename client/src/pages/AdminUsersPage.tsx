@@ -53,11 +53,15 @@ import {
   SortAsc,
   Shuffle,
   Eye,
-  EyeOff
+  EyeOff,
+  Lock,
+  LockOpen,
+  LogOut
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { USER_ROLES, PERMISSION_LEVELS } from "@/lib/constants";
+import { TwoFactorPolicyDialog } from "@/components/TwoFactorPolicyDialog";
 
 interface User {
   id: string;
@@ -68,6 +72,8 @@ interface User {
   permission_level: string;
   companyId: number | null;
   isActive: boolean;
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
   createdAt: string;
   company?: {
     id: number;
@@ -82,6 +88,9 @@ interface Company {
   isContractor: boolean;
 }
 
+// Temporarily locked out after repeated failed sign-ins (server/login-throttle.ts)
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
 export default function AdminUsersPage() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -106,6 +115,7 @@ export default function AdminUsersPage() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
+  const [expireSessionsOnReset, setExpireSessionsOnReset] = useState(true);
   const [sortBy, setSortBy] = useState('newest'); // newest, oldest, name-asc, name-desc, company-asc, company-desc
 
   // Form states
@@ -296,8 +306,8 @@ export default function AdminUsersPage() {
 
   // Reset password mutation
   const resetPasswordMutation = useMutation({
-    mutationFn: async ({ userId, password }: { userId: string; password: string }) => {
-      return await apiRequest(`/api/admin/users/${userId}/reset-password`, "POST", { password });
+    mutationFn: async ({ userId, password, expireSessions }: { userId: string; password: string; expireSessions: boolean }) => {
+      return await apiRequest(`/api/admin/users/${userId}/reset-password`, "POST", { password, expireSessions });
     },
     onSuccess: () => {
       setShowPasswordDialog(false);
@@ -317,6 +327,48 @@ export default function AdminUsersPage() {
     },
   });
 
+  // Unlock account mutation (login lockout after repeated failed sign-ins)
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest(`/api/admin/users/${userId}/unlock`, "POST");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: "Account unlocked. The user can sign in again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock account.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sign the user out of every device
+  const revokeSessionsMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest(`/api/admin/users/${userId}/sessions/revoke`, "POST");
+      return await res.json() as { revoked: number };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: `Signed out ${data.revoked} session${data.revoked !== 1 ? 's' : ''}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out the user's sessions.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Bulk delete users mutation
   const bulkDeleteUsersMutation = useMutation({
     mutationFn: async ({ userIds }: { userIds: string[] }) => {
@@ -539,6 +591,7 @@ export default function AdminUsersPage() {
 
   const handleResetPassword = (user: User) => {
     setSelectedUser(user);
+    setExpireSessionsOnReset(true);
     setShowPasswordDialog(true);
   };
 
@@ -565,7 +618,8 @@ export default function AdminUsersPage() {
 
     resetPasswordMutation.mutate({ 
       userId: selectedUser.id, 
-      password: passwordForm.newPassword 
+      password: passwordForm.newPassword,
+      expireSessions: expireSessionsOnReset
     });
   };
 
@@ -644,6 +698,7 @@ export default function AdminUsersPage() {
             <FileSpreadsheet className="h-4 w-4 mr-2" />
             Export to Excel
           </Button>
+          <TwoFactorPolicyDialog />
           <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
             <DialogTrigger asChild>
               <Button className="bg-primary hover:bg-primary/90">
@@ -1130,6 +1185,12 @@ export default function AdminUsersPage() {
                         >
                           {user.isActive ? 'Active' : 'Inactive'}
                         </Badge>
+                        {isLocked(user) && (
+                          <Badge variant="outline" className="w-fit text-xs bg-amber-50 text-amber-800 border-amber-200">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked until {new Date(user.lockedUntil!).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          </Badge>
+                        )}
                         {user.isEmailVerified && (
                           <span className="text-xs text-green-600 flex items-center">
                             <span className="w-1.5 h-1.5 bg-green-500 rounded-full mr-1"></span>
@@ -1158,6 +1219,32 @@ export default function AdminUsersPage() {
                         >
                           <KeyRound className="h-4 w-4" />
                         </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Sign ${user.firstName} ${user.lastName} out of every device?`)) {
+                              revokeSessionsMutation.mutate(user.id);
+                            }
+                          }}
+                          disabled={revokeSessionsMutation.isPending}
+                          className="hover:bg-purple-100 hover:text-purple-700 p-2"
+                          title="Sign Out Everywhere"
+                        >
+                          <LogOut className="h-4 w-4" />
+                        </Button>
+                        {isLocked(user) && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => unlockUserMutation.mutate(user.id)}
+                            disabled={unlockUserMutation.isPending}
+                            className="hover:bg-amber-100 hover:text-amber-700 p-2"
+                            title="Unlock Account"
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -1361,6 +1448,14 @@ export default function AdminUsersPage() {
                 placeholder="Confirm new password"
               />
             </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="expireSessionsOnReset"
+                checked={expireSessionsOnReset}
+                onCheckedChange={(checked) => setExpireSessionsOnReset(!!checked)}
+              />
+              <Label htmlFor="expireSessionsOnReset">Sign the user out of all devices</Label>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowPasswordDialog(false)}>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DocumentUpload } from "@/components/DocumentUpload";
+import { DocumentVersionHistory } from "@/components/DocumentVersionHistory";
 import { 
   Upload, 
   Download, 
@@ -17,7 +18,8 @@ import {
   Filter,
   X,
   CalendarDays,
-  ArrowUpDown
+  ArrowUpDown,
+  History
 } from "lucide-react";
 import { useState, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -31,6 +33,7 @@ export default function Documents() {
   const [fileTypeFilter, setFileTypeFilter] = useState("all");
   const [documentTypeFilter, setDocumentTypeFilter] = useState("all");
   const [sortBy, setSortBy] = useState("date_desc");
+  const [versionsDocument, setVersionsDocument] = useState<{ id: number; originalName: string } | null>(null);
   const { toast } = useToast();
 
   const { data: templates = [] } = useQuery({
@@ -332,6 +335,9 @@ export default function Documents() {
                                 <span>{formatFileSize(document.size)}</span>
                                 <span>•</span>
                                 <Badge variant="outline">{document.documentType}</Badge>
+                                {document.version > 1 && (
+                                  <Badge variant="secondary">v{document.version}</Badge>
+                                )}
                                 {document.applicationId && (
                                   <>
                                     <span>•</span>
@@ -351,6 +357,16 @@ export default function Documents() {
                             >
                               <Download className="h-4 w-4" />
                             </Button>
+                            {!document.messageId && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setVersionsDocument(document)}
+                                title="Version history"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
@@ -382,6 +398,8 @@ export default function Documents() {
       {showDocumentUpload && (
         <DocumentUpload onClose={() => setShowDocumentUpload(false)} />
       )}
+
+      <DocumentVersionHistory document={versionsDocument} onClose={() => setVersionsDocument(null)} />
     </div>
   );
 }
@@ -13,6 +13,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLivePolling } from "@/lib/realtime";
 import { useToast } from "@/hooks/use-toast";
 import type { Message, Application } from "@shared/schema";
 
@@ -33,11 +34,11 @@ export default function Messages() {
   const [isReplyOpen, setIsReplyOpen] = useState(false);
   const [replyToMessage, setReplyToMessage] = useState<Message | null>(null);
   const { toast } = useToast();
+  const pollInterval = useLivePolling(3000);
 
   const { data: messages = [], isLoading: messagesLoading } = useQuery<Message[]>({
     queryKey: ["/api/messages"],
-    refetchInterval: 3000, // Refresh every 3 seconds for real-time updates
-    refetchIntervalInBackground: true, // Continue polling when tab is not active
+    refetchInterval: pollInterval, // Pushed over /api/events; poll only while disconnected
     staleTime: 0, // Consider data immediately stale to ensure fresh data
   });
 
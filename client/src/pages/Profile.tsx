@@ -9,8 +9,9 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User, Settings, Key, Shield, ExternalLink, Edit2, Save, X } from "lucide-react";
+import { User, Settings, Bell, Key, Shield, ExternalLink, Edit2, Save, X } from "lucide-react";
 import { Link } from "wouter";
+import { NotificationPreferencesCard } from "@/components/NotificationPreferencesCard";
 
 export default function Profile() {
   const { toast } = useToast();
@@ -219,6 +220,10 @@ export default function Profile() {
             <Settings className="h-4 w-4 mr-2" />
             Settings
           </TabsTrigger>
+          <TabsTrigger value="notifications">
+            <Bell className="h-4 w-4 mr-2" />
+            Notifications
+          </TabsTrigger>
         </TabsList>
 
         {/* Profile Tab */}
@@ -517,7 +522,12 @@ export default function Profile() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Notifications Tab */}
+        <TabsContent value="notifications" className="space-y-4">
+          <NotificationPreferencesCard />
+        </TabsContent>
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -25,15 +25,29 @@ import {
   RadioIcon,
   List,
   Save,
-  Eye
+  Eye,
+  EyeOff,
+  Calculator,
+  ClipboardList
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import {
+  getVisibleFieldIds,
+  VISIBILITY_OPERATOR_LABELS,
+  VALUELESS_OPERATORS,
+  type VisibilityCondition,
+  type VisibilityOperator,
+  type VisibilityRule,
+} from "@shared/form-visibility";
+import type { FieldValidationRules } from "@shared/form-validation";
+import { applyCalculatedFields, formatCalculatedValue, getFormulaError, type CalculatedFieldConfig } from "@shared/form-formulas";
+import { normalizeRequiredDocumentSlots, type RequiredDocumentSlot } from "@shared/document-checklist";
 
-interface FormField {
+interface FormField extends CalculatedFieldConfig {
   id: string;
-  type: 'text' | 'textarea' | 'number' | 'date' | 'file' | 'file_download' | 'checkbox' | 'radio' | 'select';
+  type: 'text' | 'textarea' | 'number' | 'date' | 'file' | 'file_download' | 'checkbox' | 'radio' | 'select' | 'calculated';
   label: string;
   placeholder?: string;
   required: boolean;
@@ -44,6 +58,8 @@ interface FormField {
   order: number;
   downloadUrl?: string;
   fileName?: string;
+  visibility?: VisibilityRule | null; // show only when these conditions hold
+  validation?: FieldValidationRules | null; // enforced in the applicant form and on submit
 }
 
 interface FormTemplate {
@@ -55,6 +71,7 @@ interface FormTemplate {
   order: number;
   fields: FormField[];
   form_fields?: FormField[]; // For compatibility with database structure
+  requiredDocuments?: RequiredDocumentSlot[] | null; // documents applicants must upload before submitting
   isActive: boolean;
   fieldCount?: number;
 }
@@ -69,6 +86,7 @@ const FIELD_TYPES = [
   { type: 'checkbox', label: 'Checkbox', icon: CheckSquare },
   { type: 'radio', label: 'Radio Button', icon: RadioIcon },
   { type: 'select', label: 'Dropdown', icon: List },
+  { type: 'calculated', label: 'Calculated', icon: Calculator },
 ];
 
 const ACTIVITY_TYPES = ['FRA', 'SEM', 'EAA', 'EMIS', 'CR'];
@@ -114,6 +132,7 @@ export default function AdminFormBuilder() {
         order: template.order,
         isActive: template.isActive,
         formFields: JSON.stringify(currentFields),
+        requiredDocuments: template.requiredDocuments || [],
       };
       console.log('[FORM BUILDER] Saving template:', cleanTemplate);
       const response = await fetch(url, {
@@ -197,6 +216,7 @@ export default function AdminFormBuilder() {
       ...(type === 'file' && { fileTypes: ['.pdf', '.xlsx', '.docx'], multiple: true }),
       ...(type === 'select' && { options: ['Option 1', 'Option 2'] }),
       ...(type === 'radio' && { options: ['Option 1', 'Option 2'] }),
+      ...(type === 'calculated' && { formula: '', decimals: 2 }),
     };
     const updatedFields = [...currentFields, newField];
     setSelectedTemplate({
@@ -222,7 +242,14 @@ export default function AdminFormBuilder() {
   const removeField = (fieldId: string) => {
     if (!selectedTemplate) return;
     const currentFields = selectedTemplate.fields || [];
-    const filteredFields = currentFields.filter(field => field.id !== fieldId);
+    // Drop conditions that depended on the removed field
+    const filteredFields = currentFields
+      .filter(field => field.id !== fieldId)
+      .map(field => {
+        if (!field.visibility) return field;
+        const conditions = field.visibility.conditions.filter(condition => condition.fieldId !== fieldId);
+        return { ...field, visibility: conditions.length ? { ...field.visibility, conditions } : null };
+      });
     setSelectedTemplate({
       ...selectedTemplate,
       fields: filteredFields,
@@ -253,6 +280,13 @@ export default function AdminFormBuilder() {
       toast({ title: "Error", description: "Please provide a template name", variant: "destructive" });
       return;
     }
+    let requiredDocuments: RequiredDocumentSlot[];
+    try {
+      requiredDocuments = normalizeRequiredDocumentSlots(selectedTemplate.requiredDocuments || []);
+    } catch (error) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Invalid required documents", variant: "destructive" });
+      return;
+    }
     // Always use fields as the source of truth
     const currentFields = selectedTemplate.fields || [];
     // Remove computed frontend fields to prevent database errors, but always provide fields as an array for type safety
@@ -261,6 +295,7 @@ export default function AdminFormBuilder() {
       ...rest,
       fields: currentFields, // always provide fields as an array
       formFields: JSON.stringify(currentFields),
+      requiredDocuments,
     };
     console.log('Saving template with data:', templateData);
     saveTemplateMutation.mutate(templateData);
@@ -439,6 +474,12 @@ export default function AdminFormBuilder() {
                                         </div>
                                         <Badge variant="secondary">{field.type}</Badge>
                                         {field.required && <Badge variant="destructive">Required</Badge>}
+                                        {!!field.visibility?.conditions.length && (
+                                          <Badge variant="outline">
+                                            <EyeOff className="h-3 w-3 mr-1" />
+                                            Conditional
+                                          </Badge>
+                                        )}
                                       </div>
                                       <Button
                                         size="sm"
@@ -449,7 +490,7 @@ export default function AdminFormBuilder() {
                                       </Button>
                                     </div>
                                     
-                                    <FieldEditor field={field} onUpdate={updateField} />
+                                    <FieldEditor field={field} allFields={selectedTemplate.fields || []} onUpdate={updateField} />
                                   </div>
                                 )}
                               </Draggable>
@@ -541,6 +582,12 @@ export default function AdminFormBuilder() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <RequiredDocumentsEditor
+                  slots={selectedTemplate.requiredDocuments || []}
+                  downloadFields={(selectedTemplate.fields || []).filter(field => field.type === 'file_download')}
+                  onChange={(requiredDocuments) => setSelectedTemplate({ ...selectedTemplate, requiredDocuments })}
+                />
               </div>
             </div>
           )}
@@ -585,9 +632,11 @@ export default function AdminFormBuilder() {
 // Field Editor Component
 function FieldEditor({ 
   field, 
+  allFields,
   onUpdate 
 }: { 
   field: FormField; 
+  allFields: FormField[];
   onUpdate: (fieldId: string, updates: Partial<FormField>) => void;
 }) {
   const updateOptions = (options: string[]) => {
@@ -765,6 +814,422 @@ function FieldEditor({
           </div>
         </div>
       )}
+
+      {field.type === 'calculated' && (
+        <FormulaEditor field={field} allFields={allFields} onUpdate={onUpdate} />
+      )}
+
+      <ValidationRuleEditor field={field} onUpdate={onUpdate} />
+
+      <VisibilityRuleEditor field={field} allFields={allFields} onUpdate={onUpdate} />
+    </div>
+  );
+}
+
+// Required-document checklist of the template (see shared/document-checklist.ts). Applicants
+// cannot submit the template until every slot holds between min and max accepted files.
+function RequiredDocumentsEditor({
+  slots,
+  downloadFields,
+  onChange,
+}: {
+  slots: RequiredDocumentSlot[];
+  downloadFields: FormField[];
+  onChange: (slots: RequiredDocumentSlot[]) => void;
+}) {
+  const updateSlot = (slotId: string, updates: Partial<RequiredDocumentSlot>) => {
+    onChange(slots.map(slot => slot.id === slotId ? { ...slot, ...updates } : slot));
+  };
+
+  const addSlot = () => {
+    onChange([...slots, {
+      id: `slot_${Date.now()}`,
+      name: '',
+      acceptedTypes: ['.pdf'],
+      minCount: 1,
+      maxCount: null,
+      templateFieldId: null,
+    }]);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <ClipboardList className="h-4 w-4 mr-2" />
+          Required Documents
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {slots.length === 0 && (
+          <p className="text-sm text-gray-500">No required documents. Applicants can submit without uploading files.</p>
+        )}
+        {slots.map(slot => (
+          <div key={slot.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center space-x-2">
+              <Input
+                value={slot.name}
+                onChange={(e) => updateSlot(slot.id, { name: e.target.value })}
+                placeholder="e.g. Utility bills (12 months)"
+              />
+              <Button size="sm" variant="ghost" onClick={() => onChange(slots.filter(s => s.id !== slot.id))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={slot.description || ''}
+              onChange={(e) => updateSlot(slot.id, { description: e.target.value })}
+              placeholder="Instructions for applicants (optional)"
+              rows={2}
+            />
+            <div>
+              <Label className="text-xs">Accepted File Types</Label>
+              <Input
+                value={slot.acceptedTypes.join(', ')}
+                onChange={(e) => updateSlot(slot.id, { acceptedTypes: e.target.value.split(',').map(type => type.trim()) })}
+                placeholder=".pdf, .xlsx (blank accepts any)"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs">Min files</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={slot.minCount}
+                  onChange={(e) => updateSlot(slot.id, { minCount: Math.max(0, parseInt(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Max files</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={slot.maxCount ?? ''}
+                  onChange={(e) => updateSlot(slot.id, { maxCount: e.target.value ? parseInt(e.target.value) : null })}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs">Blank Template</Label>
+              <Select
+                value={slot.templateFieldId || 'none'}
+                onValueChange={(value) => updateSlot(slot.id, { templateFieldId: value === 'none' ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {downloadFields.map(field => (
+                    <SelectItem key={field.id} value={field.id}>{field.fileName || field.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {downloadFields.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">Add a File Download field to offer a template to fill in.</p>
+              )}
+            </div>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={addSlot}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Required Document
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Formula, unit and rounding for calculated fields. Clicking a field inserts a {reference}.
+function FormulaEditor({
+  field,
+  allFields,
+  onUpdate
+}: {
+  field: FormField;
+  allFields: FormField[];
+  onUpdate: (fieldId: string, updates: Partial<FormField>) => void;
+}) {
+  const numericFields = allFields.filter(other => other.id !== field.id && (other.type === 'number' || other.type === 'calculated'));
+  const formulaError = field.formula ? getFormulaError(field.formula, field.id, allFields.map(other => other.id)) : null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor={`${field.id}-formula`}>Formula</Label>
+        <Input
+          id={`${field.id}-formula`}
+          className="font-mono"
+          value={field.formula || ''}
+          onChange={(e) => onUpdate(field.id, { formula: e.target.value })}
+          placeholder="{annualSavingsKwh} * {tariff}"
+        />
+        {formulaError ? (
+          <p className="text-xs text-red-600 mt-1">{formulaError}</p>
+        ) : (
+          <p className="text-xs text-gray-500 mt-1">
+            Use + - * / and parentheses, plus min(), max(), abs() and round(value, decimals)
+          </p>
+        )}
+        {numericFields.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {numericFields.map(other => (
+              <Button
+                key={other.id}
+                size="sm"
+                variant="outline"
+                className="h-6 text-xs"
+                onClick={() => onUpdate(field.id, { formula: `${field.formula || ''}{${other.id}}` })}
+              >
+                {other.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`${field.id}-unit`}>Unit</Label>
+          <Input
+            id={`${field.id}-unit`}
+            value={field.unit || ''}
+            onChange={(e) => onUpdate(field.id, { unit: e.target.value })}
+            placeholder="kWh, $, tCO2e"
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${field.id}-decimals`}>Decimal places</Label>
+          <Input
+            id={`${field.id}-decimals`}
+            type="number"
+            min="0"
+            max="10"
+            value={field.decimals ?? ''}
+            onChange={(e) => onUpdate(field.id, { decimals: e.target.value === '' ? null : parseInt(e.target.value) })}
+            placeholder="No rounding"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Per-type validation limits. Blank inputs clear the rule.
+function ValidationRuleEditor({
+  field,
+  onUpdate
+}: {
+  field: FormField;
+  onUpdate: (fieldId: string, updates: Partial<FormField>) => void;
+}) {
+  const rules = field.validation || {};
+
+  const setRule = (key: keyof FieldValidationRules, value: string) => {
+    const numeric = !['pattern', 'patternMessage', 'minDate', 'maxDate'].includes(key);
+    const parsed = value === '' ? null : numeric ? Number(value) : value;
+    onUpdate(field.id, { validation: { ...rules, [key]: parsed } });
+  };
+
+  const ruleInput = (key: keyof FieldValidationRules, label: string, type: string, placeholder?: string) => (
+    <div>
+      <Label htmlFor={`${field.id}-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${field.id}-${key}`}
+        className="h-8"
+        type={type}
+        value={rules[key] ?? ''}
+        onChange={(e) => setRule(key, e.target.value)}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  if (field.type === 'text' || field.type === 'textarea') {
+    return (
+      <div className="border-t pt-3 space-y-2">
+        <Label>Validation</Label>
+        <div className="grid grid-cols-2 gap-3">
+          {ruleInput('minLength', 'Min length', 'number')}
+          {ruleInput('maxLength', 'Max length', 'number')}
+          {ruleInput('pattern', 'Pattern (regex)', 'text', '[A-Z]{2}-\\d{4}')}
+          {ruleInput('patternMessage', 'Pattern error message', 'text', 'Use the format AB-1234')}
+        </div>
+      </div>
+    );
+  }
+
+  if (field.type === 'number' || field.type === 'calculated') {
+    return (
+      <div className="border-t pt-3 space-y-2">
+        <Label>Validation</Label>
+        <div className="grid grid-cols-2 gap-3">
+          {ruleInput('min', 'Minimum', 'number')}
+          {ruleInput('max', 'Maximum', 'number')}
+        </div>
+      </div>
+    );
+  }
+
+  if (field.type === 'date') {
+    return (
+      <div className="border-t pt-3 space-y-2">
+        <Label>Validation</Label>
+        <div className="grid grid-cols-2 gap-3">
+          {ruleInput('minDate', 'Earliest date', 'date')}
+          {ruleInput('maxDate', 'Latest date', 'date')}
+        </div>
+      </div>
+    );
+  }
+
+  if (field.type === 'file') {
+    return (
+      <div className="border-t pt-3 space-y-2">
+        <Label>Validation</Label>
+        <div className="grid grid-cols-2 gap-3">
+          {ruleInput('minFiles', 'Min files', 'number')}
+          {ruleInput('maxFiles', 'Max files', 'number')}
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
+
+// Show/hide rule editor. Only answerable fields can control visibility.
+const CONTROLLING_FIELD_TYPES = ['text', 'textarea', 'number', 'date', 'checkbox', 'radio', 'select', 'calculated'];
+
+function VisibilityRuleEditor({
+  field,
+  allFields,
+  onUpdate
+}: {
+  field: FormField;
+  allFields: FormField[];
+  onUpdate: (fieldId: string, updates: Partial<FormField>) => void;
+}) {
+  const candidates = allFields.filter(other => other.id !== field.id && CONTROLLING_FIELD_TYPES.includes(other.type));
+  const rule = field.visibility;
+
+  const setConditions = (conditions: VisibilityCondition[]) => {
+    onUpdate(field.id, { visibility: conditions.length ? { match: rule?.match || 'all', conditions } : null });
+  };
+
+  const updateCondition = (index: number, updates: Partial<VisibilityCondition>) => {
+    setConditions((rule?.conditions || []).map((condition, i) => i === index ? { ...condition, ...updates } : condition));
+  };
+
+  const operatorsFor = (type?: string): VisibilityOperator[] => {
+    if (type === 'checkbox') return ['checked', 'not_checked'];
+    if (type === 'number' || type === 'date' || type === 'calculated') return ['equals', 'not_equals', 'greater_than', 'less_than', 'not_empty', 'empty'];
+    return ['equals', 'not_equals', 'not_empty', 'empty'];
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="border-t pt-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Visibility</Label>
+        {rule && rule.conditions.length > 1 && (
+          <Select
+            value={rule.match}
+            onValueChange={(match) => onUpdate(field.id, { visibility: { ...rule, match: match as VisibilityRule['match'] } })}
+          >
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Match all</SelectItem>
+              <SelectItem value="any">Match any</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {!rule?.conditions.length && (
+        <p className="text-xs text-gray-500">Always shown</p>
+      )}
+      {rule?.conditions.map((condition, index) => {
+        const controlling = candidates.find(other => other.id === condition.fieldId);
+        const operators = operatorsFor(controlling?.type);
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 w-8">{index === 0 ? 'If' : rule.match === 'any' ? 'or' : 'and'}</span>
+            <Select
+              value={condition.fieldId}
+              onValueChange={(fieldId) => {
+                const type = candidates.find(other => other.id === fieldId)?.type;
+                updateCondition(index, { fieldId, operator: operatorsFor(type)[0], value: '' });
+              }}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(other => (
+                  <SelectItem key={other.id} value={other.id}>{other.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.operator}
+              onValueChange={(operator) => updateCondition(index, { operator: operator as VisibilityOperator })}
+            >
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operators.map(operator => (
+                  <SelectItem key={operator} value={operator}>{VISIBILITY_OPERATOR_LABELS[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!VALUELESS_OPERATORS.includes(condition.operator) && (
+              controlling?.options?.length ? (
+                <Select value={condition.value || ''} onValueChange={(value) => updateCondition(index, { value })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Value" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {controlling.options.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  className="h-8"
+                  type={controlling?.type === 'number' ? 'number' : controlling?.type === 'date' ? 'date' : 'text'}
+                  value={condition.value || ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  placeholder="Value"
+                />
+              )
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setConditions(rule.conditions.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => setConditions([
+          ...(rule?.conditions || []),
+          { fieldId: candidates[0].id, operator: operatorsFor(candidates[0].type)[0], value: '' }
+        ])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Condition
+      </Button>
     </div>
   );
 }
@@ -772,6 +1237,9 @@ function FieldEditor({
 // Form Preview Component
 function FormPreview({ template }: { template: FormTemplate }) {
   const [formData, setFormData] = useState<Record<string, any>>({});
+  const calculatedData = applyCalculatedFields(template.fields, formData);
+  const visibleFieldIds = getVisibleFieldIds(template.fields, calculatedData);
+  const setValue = (fieldId: string, value: any) => setFormData(prev => ({ ...prev, [fieldId]: value }));
 
   return (
     <div className="space-y-6">
@@ -785,7 +1253,7 @@ function FormPreview({ template }: { template: FormTemplate }) {
       </div>
 
       <div className="space-y-4">
-        {template.fields.map((field) => (
+        {template.fields.filter(field => visibleFieldIds.has(field.id)).map((field) => (
           <div key={field.id}>
             <Label className="text-sm font-medium">
               {field.label}
@@ -797,16 +1265,22 @@ function FormPreview({ template }: { template: FormTemplate }) {
             
             <div className="mt-2">
               {field.type === 'text' && (
-                <Input placeholder={field.placeholder} />
+                <Input placeholder={field.placeholder} value={formData[field.id] || ''} onChange={(e) => setValue(field.id, e.target.value)} />
               )}
               {field.type === 'textarea' && (
-                <Textarea placeholder={field.placeholder} />
+                <Textarea placeholder={field.placeholder} value={formData[field.id] || ''} onChange={(e) => setValue(field.id, e.target.value)} />
               )}
               {field.type === 'number' && (
-                <Input type="number" placeholder={field.placeholder} />
+                <Input type="number" placeholder={field.placeholder} value={formData[field.id] || ''} onChange={(e) => setValue(field.id, e.target.value)} />
               )}
               {field.type === 'date' && (
-                <Input type="date" />
+                <Input type="date" value={formData[field.id] || ''} onChange={(e) => setValue(field.id, e.target.value)} />
+              )}
+              {field.type === 'calculated' && (
+                <div className="flex items-center gap-2 p-2 border rounded-md bg-gray-50 font-mono">
+                  <Calculator className="h-4 w-4 text-gray-400" />
+                  {formatCalculatedValue(calculatedData[field.id], field)}
+                </div>
               )}
               {field.type === 'file' && (
                 <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center">
@@ -838,7 +1312,7 @@ function FormPreview({ template }: { template: FormTemplate }) {
               )}
               {field.type === 'checkbox' && (
                 <div className="flex items-center space-x-2">
-                  <input type="checkbox" />
+                  <input type="checkbox" checked={!!formData[field.id]} onChange={(e) => setValue(field.id, e.target.checked)} />
                   <span className="text-sm">{field.placeholder || 'Checkbox option'}</span>
                 </div>
               )}
@@ -846,14 +1320,14 @@ function FormPreview({ template }: { template: FormTemplate }) {
                 <div className="space-y-2">
                   {field.options?.map((option, index) => (
                     <div key={index} className="flex items-center space-x-2">
-                      <input type="radio" name={field.id} />
+                      <input type="radio" name={field.id} checked={formData[field.id] === option} onChange={() => setValue(field.id, option)} />
                       <span className="text-sm">{option}</span>
                     </div>
                   ))}
                 </div>
               )}
               {field.type === 'select' && (
-                <Select>
+                <Select value={formData[field.id] || ''} onValueChange={(value) => setValue(field.id, value)}>
                   <SelectTrigger>
                     <SelectValue placeholder={field.placeholder} />
                   </SelectTrigger>
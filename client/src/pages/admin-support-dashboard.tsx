@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,12 +11,17 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLivePolling } from "@/lib/realtime";
 import { 
   MessageCircle, Send, User, Clock, Building2, CheckCircle, AlertCircle,
-  FileText, MapPin, Phone, Mail, Calendar, Activity, Search, Filter
+  FileText, MapPin, Phone, Mail, Calendar, Activity, Search, Filter, AlarmClock, Link2
 } from "lucide-react";
 import { format } from "date-fns";
 import { MessageAttachmentsDisplay } from "@/components/MessageAttachmentsDisplay";
+import { TicketInternalNotes } from "@/components/TicketInternalNotes";
+import { CannedResponsesDialog, fillCannedResponse, type CannedResponse } from "@/components/CannedResponsesDialog";
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, type TicketCategory } from "@shared/support-sla";
+import { formatSlaTimeRemaining, type ReviewSlaState } from "@shared/review-sla";
 
 interface EnhancedMessage {
   id: number;
@@ -59,6 +64,34 @@ interface EnhancedMessage {
   };
 }
 
+interface TicketSlaTarget {
+  state: ReviewSlaState;
+  dueAt: string;
+  hoursRemaining: number;
+  met: boolean;
+}
+
+interface SupportAgent {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// Row from /api/admin/tickets - the conversation itself comes from /api/admin/messages
+interface SupportTicketMeta {
+  id: number;
+  ticketNumber: string;
+  assigneeId: string | null;
+  category: string;
+  firstResponseAt: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  assignee: SupportAgent | null;
+  application: EnhancedMessage['application'] | null;
+  sla: { firstResponse: TicketSlaTarget; resolution: TicketSlaTarget };
+}
+
 interface TicketThread {
   ticketNumber: string;
   subject: string;
@@ -71,26 +104,82 @@ interface TicketThread {
   application?: EnhancedMessage['application'];
   lastActivity: string;
   totalMessages: number;
+  meta?: SupportTicketMeta;
+}
+
+const SLA_BADGE_COLORS: Record<ReviewSlaState, string> = {
+  on_track: 'bg-green-100 text-green-800',
+  approaching: 'bg-amber-100 text-amber-800',
+  breached: 'bg-red-100 text-red-800',
+};
+
+const formatAgentName = (agent: SupportAgent) =>
+  `${agent.firstName || ''} ${agent.lastName || ''}`.trim() || agent.email || 'Unknown admin';
+
+// Most urgent SLA clock still running on a ticket; null when nothing needs attention
+function getOpenSlaState(meta?: SupportTicketMeta): ReviewSlaState | null {
+  if (!meta) return null;
+  const running = [meta.sla.firstResponse, meta.sla.resolution].filter(target => !target.met);
+  if (running.some(target => target.state === 'breached')) return 'breached';
+  if (running.some(target => target.state === 'approaching')) return 'approaching';
+  return null;
+}
+
+function TicketSlaRow({ label, target }: { label: string; target: TicketSlaTarget }) {
+  const breached = target.state === 'breached';
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      {target.met ? (
+        <Badge className={breached ? SLA_BADGE_COLORS.breached : SLA_BADGE_COLORS.on_track}>
+          {breached ? 'Met late' : 'Met'}
+        </Badge>
+      ) : (
+        <Badge className={SLA_BADGE_COLORS[target.state]} title={`Due ${new Date(target.dueAt).toLocaleString()}`}>
+          {formatSlaTimeRemaining(target.hoursRemaining)}
+        </Badge>
+      )}
+    </div>
+  );
 }
 
 export default function AdminSupportDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [selectedTicket, setSelectedTicket] = useState<TicketThread | null>(null);
+  const [selectedTicketNumber, setSelectedTicketNumber] = useState<string | null>(null);
   const [replyText, setReplyText] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [linkApplicationId, setLinkApplicationId] = useState("");
+
+  const pollInterval = useLivePolling(5000);
 
-  // Fetch all messages for admin dashboard with real-time polling
+  // Fetch all messages for admin dashboard; live updates arrive over /api/events
   const { data: allMessages = [], isLoading } = useQuery({
     queryKey: ["/api/admin/messages"],
     enabled: user?.role === 'system_admin',
-    refetchInterval: 5000, // Refresh every 3 seconds for real-time updates
-    refetchIntervalInBackground: true, // Continue polling when tab is not active
+    refetchInterval: pollInterval, // Pushed over /api/events; poll only while disconnected
     staleTime: 0, // Consider data immediately stale to ensure fresh data
   });
 
+  const { data: ticketMeta = [] } = useQuery<SupportTicketMeta[]>({
+    queryKey: ["/api/admin/tickets"],
+    enabled: user?.role === 'system_admin',
+    refetchInterval: pollInterval,
+  });
+
+  const { data: agents = [] } = useQuery<SupportAgent[]>({
+    queryKey: ["/api/admin/support/agents"],
+    enabled: user?.role === 'system_admin',
+  });
+
+  const { data: cannedResponses = [] } = useQuery<CannedResponse[]>({
+    queryKey: ["/api/admin/canned-responses"],
+    enabled: user?.role === 'system_admin',
+  });
+
   // Group messages into ticket threads
   const groupMessagesIntoTickets = (messages: EnhancedMessage[]): TicketThread[] => {
     const ticketMap = new Map<string, TicketThread>();
@@ -123,9 +212,10 @@ export default function AdminSupportDashboard() {
       }
     });
 
-    return Array.from(ticketMap.values()).sort((a, b) => 
-      new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime()
-    );
+    const metaByNumber = new Map(ticketMeta.map(meta => [meta.ticketNumber, meta]));
+    return Array.from(ticketMap.values())
+      .map(ticket => ({ ...ticket, meta: metaByNumber.get(ticket.ticketNumber) }))
+      .sort((a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime());
   };
 
   // Reply to ticket
@@ -177,17 +267,30 @@ export default function AdminSupportDashboard() {
     },
   });
 
-  const tickets = groupMessagesIntoTickets(allMessages as EnhancedMessage[]);
+  // Assign, categorise or link a ticket to an application
+  const updateTicketMutation = useMutation({
+    mutationFn: async ({ ticketNumber, updates }: { ticketNumber: string; updates: { assigneeId?: string | null; category?: string; applicationId?: string | null } }) => {
+      return await apiRequest(`/api/admin/tickets/${ticketNumber}`, "PATCH", updates);
+    },
+    onSuccess: (_, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tickets"] });
+      if (updates.applicationId !== undefined) setLinkApplicationId("");
+      toast({ title: "Ticket updated" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update ticket.",
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Auto-update selected ticket when new messages arrive
-  useEffect(() => {
-    if (selectedTicket && tickets.length > 0) {
-      const updatedTicket = tickets.find(t => t.ticketNumber === selectedTicket.ticketNumber);
-      if (updatedTicket) {
-        setSelectedTicket(updatedTicket);
-      }
-    }
-  }, [tickets, selectedTicket?.ticketNumber]);
+  const tickets = groupMessagesIntoTickets(allMessages as EnhancedMessage[]);
+  // Derived on every render so new messages and ticket changes show up immediately
+  const selectedTicket = tickets.find(t => t.ticketNumber === selectedTicketNumber) || null;
+  const linkedApplication = selectedTicket?.meta?.application || selectedTicket?.application;
+  const breachedCount = tickets.filter(t => !t.isResolved && getOpenSlaState(t.meta) === 'breached').length;
 
   // Filter tickets
   const filteredTickets = tickets.filter(ticket => {
@@ -199,11 +302,16 @@ export default function AdminSupportDashboard() {
     
     const matchesStatus = statusFilter === "all" || 
       (statusFilter === "open" && !ticket.isResolved) ||
-      (statusFilter === "resolved" && ticket.isResolved);
+      (statusFilter === "resolved" && ticket.isResolved) ||
+      (statusFilter === "sla_breached" && !ticket.isResolved && getOpenSlaState(ticket.meta) === 'breached');
     
     const matchesPriority = priorityFilter === "all" || ticket.priority === priorityFilter;
+
+    const matchesAssignee = assigneeFilter === "all" ||
+      (assigneeFilter === "mine" && ticket.meta?.assigneeId === user?.id) ||
+      (assigneeFilter === "unassigned" && !ticket.meta?.assigneeId);
     
-    return matchesSearch && matchesStatus && matchesPriority;
+    return matchesSearch && matchesStatus && matchesPriority && matchesAssignee;
   });
 
   const handleReply = () => {
@@ -224,6 +332,28 @@ export default function AdminSupportDashboard() {
     markResolvedMutation.mutate(selectedTicket.ticketNumber);
   };
 
+  const updateSelectedTicket = (updates: { assigneeId?: string | null; category?: string; applicationId?: string | null }) => {
+    if (!selectedTicket) return;
+    updateTicketMutation.mutate({ ticketNumber: selectedTicket.ticketNumber, updates });
+  };
+
+  const insertCannedResponse = (responseId: string) => {
+    const response = cannedResponses.find(r => r.id.toString() === responseId);
+    if (!response || !selectedTicket) return;
+    const text = fillCannedResponse(response.body, {
+      firstName: selectedTicket.user?.firstName,
+      lastName: selectedTicket.user?.lastName,
+      ticketNumber: selectedTicket.ticketNumber,
+    });
+    setReplyText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text));
+  };
+
+  // Responses for the ticket's category first
+  const sortedCannedResponses = [...cannedResponses].sort((a, b) => {
+    const category = selectedTicket?.meta?.category;
+    return Number(b.category === category) - Number(a.category === category);
+  });
+
   if (user?.role !== 'system_admin') {
     return (
       <div className="p-6">
@@ -251,6 +381,13 @@ export default function AdminSupportDashboard() {
           <Badge variant="outline">{tickets.length} Total Tickets</Badge>
           <Badge variant="destructive">{tickets.filter(t => !t.isResolved).length} Open</Badge>
           <Badge variant="secondary">{tickets.filter(t => t.isResolved).length} Resolved</Badge>
+          {breachedCount > 0 && (
+            <Badge className={SLA_BADGE_COLORS.breached}>
+              <AlarmClock className="h-3 w-3 mr-1" />
+              {breachedCount} SLA Breached
+            </Badge>
+          )}
+          <CannedResponsesDialog />
         </div>
       </div>
 
@@ -285,6 +422,7 @@ export default function AdminSupportDashboard() {
                       <SelectItem value="all">All Status</SelectItem>
                       <SelectItem value="open">Open</SelectItem>
                       <SelectItem value="resolved">Resolved</SelectItem>
+                      <SelectItem value="sla_breached">SLA Breached</SelectItem>
                     </SelectContent>
                   </Select>
                   <Select value={priorityFilter} onValueChange={setPriorityFilter}>
@@ -299,6 +437,16 @@ export default function AdminSupportDashboard() {
                     </SelectContent>
                   </Select>
                 </div>
+                <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Assignees</SelectItem>
+                    <SelectItem value="mine">Assigned to Me</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
 
               <Separator />
@@ -310,7 +458,9 @@ export default function AdminSupportDashboard() {
                 ) : filteredTickets.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">No tickets found</div>
                 ) : (
-                  filteredTickets.map((ticket) => (
+                  filteredTickets.map((ticket) => {
+                    const slaState = ticket.isResolved ? null : getOpenSlaState(ticket.meta);
+                    return (
                     <div
                       key={ticket.ticketNumber}
                       className={`p-3 rounded-lg border cursor-pointer transition-colors ${
@@ -318,7 +468,7 @@ export default function AdminSupportDashboard() {
                           ? "bg-primary/10 border-primary"
                           : "hover:bg-muted"
                       }`}
-                      onClick={() => setSelectedTicket(ticket)}
+                      onClick={() => setSelectedTicketNumber(ticket.ticketNumber)}
                     >
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
@@ -326,6 +476,11 @@ export default function AdminSupportDashboard() {
                             {ticket.ticketNumber}
                           </Badge>
                           <div className="flex items-center gap-1">
+                            {slaState && (
+                              <Badge className={`text-xs ${SLA_BADGE_COLORS[slaState]}`}>
+                                {slaState === 'breached' ? 'SLA Breached' : 'SLA Due Soon'}
+                              </Badge>
+                            )}
                             {ticket.priority === 'high' && (
                               <Badge variant="destructive" className="text-xs">High</Badge>
                             )}
@@ -350,10 +505,19 @@ export default function AdminSupportDashboard() {
                             <Clock className="h-3 w-3" />
                             <span>{format(new Date(ticket.lastActivity), "MMM d, HH:mm")}</span>
                           </div>
+                          <div className="flex items-center justify-between">
+                            <span>{ticket.meta?.assignee ? `Assigned: ${formatAgentName(ticket.meta.assignee)}` : 'Unassigned'}</span>
+                            {ticket.meta && (
+                              <Badge variant="outline" className="text-xs">
+                                {TICKET_CATEGORY_LABELS[ticket.meta.category as TicketCategory] || ticket.meta.category}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
             </CardContent>
@@ -365,7 +529,57 @@ export default function AdminSupportDashboard() {
           {selectedTicket ? (
             <div className="grid grid-cols-3 gap-6 h-full">
               {/* User & Application Context */}
-              <div className="col-span-1 space-y-4">
+              <div className="col-span-1 space-y-4 overflow-y-auto">
+                {selectedTicket.meta && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Assignment & SLA</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Assignee</Label>
+                        <Select
+                          value={selectedTicket.meta.assigneeId || "unassigned"}
+                          onValueChange={(value) => updateSelectedTicket({ assigneeId: value === "unassigned" ? null : value })}
+                          disabled={updateTicketMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="unassigned">Unassigned</SelectItem>
+                            {agents.map(agent => (
+                              <SelectItem key={agent.id} value={agent.id}>
+                                {formatAgentName(agent)}{agent.id === user?.id ? " (me)" : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Category</Label>
+                        <Select
+                          value={selectedTicket.meta.category}
+                          onValueChange={(category) => updateSelectedTicket({ category })}
+                          disabled={updateTicketMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TICKET_CATEGORIES.map(category => (
+                              <SelectItem key={category} value={category}>{TICKET_CATEGORY_LABELS[category]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Separator />
+                      <TicketSlaRow label="First response" target={selectedTicket.meta.sla.firstResponse} />
+                      <TicketSlaRow label="Resolution" target={selectedTicket.meta.sla.resolution} />
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-base">User Details</CardTitle>
@@ -422,33 +636,66 @@ export default function AdminSupportDashboard() {
                   </CardContent>
                 </Card>
 
-                {selectedTicket.application && (
+                {(linkedApplication?.id || selectedTicket.meta) && (
                   <Card>
                     <CardHeader>
                       <CardTitle className="text-base">Related Application</CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-3">
-                      <div className="space-y-2">
-                        <div className="flex items-center gap-2 text-sm">
-                          <FileText className="h-4 w-4" />
-                          <span className="font-medium">{selectedTicket.application.applicationId}</span>
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          <div>{selectedTicket.application.title}</div>
-                          <div className="flex items-center gap-2 mt-1">
-                            <Badge variant="outline" className="text-xs">{selectedTicket.application.activityType}</Badge>
-                            <Badge variant="outline" className="text-xs">{selectedTicket.application.status}</Badge>
+                      {linkedApplication?.id ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2 text-sm">
+                            <FileText className="h-4 w-4" />
+                            <span className="font-medium">{linkedApplication.applicationId}</span>
                           </div>
-                          {selectedTicket.application.facilityName && (
-                            <div className="mt-1 text-xs">
-                              Facility: {selectedTicket.application.facilityName}
+                          <div className="text-sm text-muted-foreground">
+                            <div>{linkedApplication.title}</div>
+                            <div className="flex items-center gap-2 mt-1">
+                              <Badge variant="outline" className="text-xs">{linkedApplication.activityType}</Badge>
+                              <Badge variant="outline" className="text-xs">{linkedApplication.status}</Badge>
                             </div>
+                            {linkedApplication.facilityName && (
+                              <div className="mt-1 text-xs">
+                                Facility: {linkedApplication.facilityName}
+                              </div>
+                            )}
+                          </div>
+                          {selectedTicket.meta?.application?.id && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => updateSelectedTicket({ applicationId: null })}
+                              disabled={updateTicketMutation.isPending}
+                            >
+                              Unlink
+                            </Button>
                           )}
                         </div>
-                      </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Application ID"
+                            value={linkApplicationId}
+                            onChange={(e) => setLinkApplicationId(e.target.value)}
+                            className="h-8 text-sm"
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8"
+                            onClick={() => updateSelectedTicket({ applicationId: linkApplicationId.trim() })}
+                            disabled={!linkApplicationId.trim() || updateTicketMutation.isPending}
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 )}
+
+                {selectedTicket.meta && <TicketInternalNotes ticketNumber={selectedTicket.ticketNumber} />}
               </div>
 
               {/* Conversation */}
@@ -529,7 +776,21 @@ export default function AdminSupportDashboard() {
                     {/* Reply Form - Fixed at bottom */}
                     {!selectedTicket.isResolved && (
                       <div className="border-t pt-4 space-y-3 bg-white sticky bottom-0">
-                        <Label htmlFor="admin-reply">Reply to User</Label>
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="admin-reply">Reply to User</Label>
+                          {sortedCannedResponses.length > 0 && (
+                            <Select value="" onValueChange={insertCannedResponse}>
+                              <SelectTrigger className="h-8 w-[220px] text-xs">
+                                <SelectValue placeholder="Insert canned response" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {sortedCannedResponses.map(response => (
+                                  <SelectItem key={response.id} value={response.id.toString()}>{response.title}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
                         <Textarea
                           id="admin-reply"
                           placeholder="Type your reply here..."
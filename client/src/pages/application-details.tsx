@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -17,11 +18,20 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { AlertCircle, Download, Upload, FileText, CheckCircle, Clock, ArrowLeft, Copy, Check, Users, Info } from "lucide-react";
+import { AlertCircle, Download, Upload, FileText, CheckCircle, Clock, ArrowLeft, Copy, Check, Users, Info, History } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import ContractorAssignmentDialog from "@/components/ContractorAssignmentDialog";
+import { ApplicationStatusTimeline } from "@/components/ApplicationStatusTimeline";
+import { FieldCommentThread, type FieldComment } from "@/components/FieldCommentThread";
+import { DocumentVersionHistory } from "@/components/DocumentVersionHistory";
+import { RequiredDocumentsChecklist } from "@/components/RequiredDocumentsChecklist";
 import { canCreateEdit, canContractorEdit, canContractorView } from "@/lib/permissions";
+import { canTransition, getAllowedTransitions, getStatusActor, type StatusTransition } from "@shared/application-workflow";
+import { getVisibleFieldIds, stripHiddenFieldValues } from "@shared/form-visibility";
+import { validateFormSubmission, getTemplateDocumentType } from "@shared/form-validation";
+import { applyVisibleCalculatedFields, formatCalculatedValue } from "@shared/form-formulas";
+import { evaluateDocumentChecklist, parseRequiredDocumentSlots } from "@shared/document-checklist";
 
 
 export default function ApplicationDetails() {
@@ -40,6 +50,8 @@ export default function ApplicationDetails() {
   const [phasesStarted, setPhasesStarted] = useState<{[key: string]: boolean}>({});
   const [copied, setCopied] = useState(false);
   const [showContractorAssignment, setShowContractorAssignment] = useState(false);
+  const [pendingTransition, setPendingTransition] = useState<StatusTransition | null>(null);
+  const [transitionNotes, setTransitionNotes] = useState('');
 
   // Query for assigned contractors
   const { data: contractorData = { contractors: [], allowContractorAssignment: false } } = useQuery({
@@ -246,32 +258,6 @@ export default function ApplicationDetails() {
         throw new Error('Contractors cannot submit activities. Only company admins and managers can submit.');
       }
       
-      // Get the template to check for required file uploads
-      const template = templates?.find((t: any) => t.id === templateId);
-      if (template && template.fields) {
-        const requiredFileFields = template.fields.filter((field: any) => 
-          field.type === 'file' && field.required
-        );
-        
-        if (requiredFileFields.length > 0) {
-          // Check if files have been uploaded for this application
-          const documentsResponse = await fetch(`/api/documents/application/${parseInt(id!)}`, {
-            credentials: 'include'
-          });
-          
-          if (documentsResponse.ok) {
-            const documents = await documentsResponse.json();
-            console.log('[VALIDATION] Checking required file uploads. Documents found:', documents.length);
-            
-            if (documents.length === 0) {
-              throw new Error('Please upload the required files before submitting this activity.');
-            }
-          } else {
-            console.warn('[VALIDATION] Could not verify file uploads, proceeding with submission');
-          }
-        }
-      }
-      
       console.log('Submitting template with form data:', formData);
       const response = await fetch(`/api/activity-template-submissions`, {
         method: 'POST',
@@ -311,6 +297,28 @@ export default function ApplicationDetails() {
     },
   });
 
+  // Manual status change - the server re-checks the transition table
+  const statusTransitionMutation = useMutation({
+    mutationFn: async ({ status, reviewNotes }: { status: string, reviewNotes?: string }) => {
+      const response = await apiRequest(`/api/applications/${id}/status`, "PATCH", { status, reviewNotes });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/applications', id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/applications'] });
+      toast({ title: "Success", description: "Application status updated" });
+      setPendingTransition(null);
+      setTransitionNotes('');
+    },
+    onError: (error: any) => {
+      toast({ 
+        title: "Error", 
+        description: error.message || "Failed to update application status", 
+        variant: "destructive" 
+      });
+    },
+  });
+
   // File upload for documents
   const uploadDocumentMutation = useMutation({
     mutationFn: async ({ files, documentType }: { files: FileList, documentType: string }) => {
@@ -375,7 +383,18 @@ export default function ApplicationDetails() {
   // Company admins and system admins can submit applications
   // Team members need editor permission or higher
   // Contractors with appropriate permissions can also submit
-  const canSubmitApplication = (
+  // Activities can only be submitted while the workflow allows the application to move to 'submitted'
+  const statusAllowsSubmission = !!application && canTransition(application.status, 'submitted', 'system');
+
+  // Status actions the current user may trigger from the application's current status; team
+  // members need editor permission, as on the server
+  const isStatusViewer = (user?.role === 'team_member' || user?.role === 'contractor_team_member')
+    && (user?.permissionLevel ?? 'viewer') === 'viewer';
+  const statusActions: StatusTransition[] = application && !isStatusViewer
+    ? getAllowedTransitions(application.status, getStatusActor(user?.role))
+    : [];
+
+  const canSubmitApplication = statusAllowsSubmission && (
     user?.role === 'company_admin' || 
     user?.role === 'system_admin' || 
     user?.role === 'contractor_account_owner' ||
@@ -540,7 +559,7 @@ export default function ApplicationDetails() {
         </Link>
         
         {/* Rejection Message */}
-        {(application.status === 'revision_required' || application.status === 'rejected') && (
+        {(application.status === 'needs_revision' || application.status === 'rejected') && (
           <Card className="mb-6 border-red-200 bg-red-50">
             <CardContent className="pt-6">
               <div className="flex items-start gap-3">
@@ -641,6 +660,25 @@ export default function ApplicationDetails() {
                 </div>
               )}
               
+              {/* Status Actions - only transitions legal for this user and status */}
+              {statusActions.map((transition) => (
+                <Button
+                  key={transition.to}
+                  onClick={() => {
+                    if (transition.requiresNotes) {
+                      setPendingTransition(transition);
+                    } else {
+                      statusTransitionMutation.mutate({ status: transition.to });
+                    }
+                  }}
+                  size="sm"
+                  variant={transition.to === 'rejected' || transition.to === 'needs_revision' ? 'outline' : 'default'}
+                  disabled={statusTransitionMutation.isPending}
+                >
+                  {transition.action}
+                </Button>
+              ))}
+
               {/* Assign Contractor Button - Only show for company admins/team members */}
               {['company_admin', 'team_member'].includes(user?.role || '') && allowContractorAssignment && (
                 <Button
@@ -923,6 +961,8 @@ export default function ApplicationDetails() {
               )}
             </CardContent>
           </Card>
+
+          <ApplicationStatusTimeline applicationId={id!} />
         </TabsContent>
 
         {templates?.sort((a: any, b: any) => (a.order || 0) - (b.order || 0)).map((template: any, index: number) => {
@@ -1002,6 +1042,37 @@ export default function ApplicationDetails() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Status Change Notes Dialog */}
+      <AlertDialog open={!!pendingTransition} onOpenChange={(open) => { if (!open) { setPendingTransition(null); setTransitionNotes(''); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingTransition?.action}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Please explain this decision. The applicant will see these notes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={transitionNotes}
+            onChange={(e) => setTransitionNotes(e.target.value)}
+            placeholder="Review notes"
+            rows={4}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={() => {
+                if (pendingTransition) {
+                  statusTransitionMutation.mutate({ status: pendingTransition.to, reviewNotes: transitionNotes });
+                }
+              }}
+              disabled={!transitionNotes.trim() || statusTransitionMutation.isPending}
+            >
+              {pendingTransition?.action}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* File Delete Confirmation Dialog */}
       <AlertDialog open={deleteConfirm.open} onOpenChange={(open) => setDeleteConfirm({ open, docId: null, filename: '' })}>
         <AlertDialogContent>
@@ -1163,12 +1234,60 @@ function TemplateSection({
 
   // Parse form fields from template
   const formFields = template.fields || [];
+  // Calculated fields and conditional fields are re-evaluated on every change; answers to
+  // hidden fields neither feed formulas nor are submitted (same order as the server)
+  const calculatedData = useMemo(() => applyVisibleCalculatedFields(formFields, formData || {}), [formFields, formData]);
+  const visibleFieldIds = useMemo(() => getVisibleFieldIds(formFields, calculatedData), [formFields, calculatedData]);
+
+  // Field rules are checked here and again by the server with the same validator
+  const { data: applicationDocuments = [] } = useQuery<any[]>({
+    queryKey: ['/api/documents/application', application.id],
+    queryFn: () => fetch(`/api/documents/application/${application.id}`, { credentials: 'include' }).then(res => res.json()),
+  });
+  const [showValidationErrors, setShowValidationErrors] = useState(false);
+  const fieldErrors = useMemo(() => {
+    const documentType = getTemplateDocumentType(template.name);
+    const uploadedFiles = applicationDocuments
+      .filter((doc: any) => !doc.messageId && !doc.checklistSlotId && doc.documentType === documentType)
+      .map((doc: any) => ({ name: doc.originalName }));
+    return validateFormSubmission(formFields, calculatedData, uploadedFiles);
+  }, [formFields, calculatedData, applicationDocuments, template.name]);
+
+  // Required-document slots, filled by uploads tagged with the slot id
+  const checklist = useMemo(() => evaluateDocumentChecklist(
+    parseRequiredDocumentSlots(template.requiredDocuments),
+    applicationDocuments.filter((doc: any) => !doc.messageId && doc.scanStatus !== 'infected'),
+  ), [template.requiredDocuments, applicationDocuments]);
+
+  // Reviewer comments on individual answers, carried across resubmissions until resolved
+  const { data: applicationFieldComments = [] } = useQuery<FieldComment[]>({
+    queryKey: ['/api/applications', String(application.id), 'field-comments'],
+    queryFn: async () => {
+      const response = await fetch(`/api/applications/${application.id}/field-comments`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch field comments');
+      return response.json();
+    },
+  });
+  const fieldComments = applicationFieldComments.filter(comment => comment.activityTemplateId === template.id);
+  const unresolvedCommentCount = fieldComments.filter(comment => !comment.resolvedAt).length;
+
+  const resolveCommentMutation = useMutation({
+    mutationFn: async ({ commentId, resolved }: { commentId: number; resolved: boolean }) => {
+      return apiRequest(`/api/field-comments/${commentId}/resolve`, 'PATCH', { resolved });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/applications', String(application.id), 'field-comments'] });
+    },
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isSubmitted) {
-      onSubmit(formData);
+    if (isSubmitted || unresolvedCommentCount > 0) return;
+    if (Object.keys(fieldErrors).length > 0 || !checklist.satisfied) {
+      setShowValidationErrors(true);
+      return;
     }
+    onSubmit(stripHiddenFieldValues(formFields, calculatedData));
   };
 
   // Updated permission logic for new contractor workflow
@@ -1267,13 +1386,70 @@ function TemplateSection({
             disabled={isDisabled}
           >
             <option value="">Select an option</option>
-            {field.options?.map((option: any) => (
-              <option key={option.value} value={option.value}>
-                {option.label}
-              </option>
-            ))}
+            {field.options?.map((option: any) => {
+              // Form builder stores plain strings; older templates use { value, label }
+              const value = typeof option === 'string' ? option : option.value;
+              return (
+                <option key={value} value={value}>
+                  {typeof option === 'string' ? option : option.label}
+                </option>
+              );
+            })}
           </select>
         );
+      case 'calculated':
+        return (
+          <div key={field.id} className="w-full p-2 border border-gray-200 rounded-md bg-gray-50 text-gray-900 font-mono">
+            {formatCalculatedValue(calculatedData[field.id], field)}
+          </div>
+        );
+      case 'date':
+        return (
+          <input
+            key={field.id}
+            type="date"
+            value={formData[field.id] || ''}
+            onChange={(e) => setFormData((prev: any) => ({ ...prev, [field.id]: e.target.value }))}
+            className={fieldClassName}
+            required={field.required}
+            disabled={isDisabled}
+          />
+        );
+      case 'checkbox':
+        return (
+          <label key={field.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={formData[field.id] === true || formData[field.id] === 'true'}
+              onChange={(e) => setFormData((prev: any) => ({ ...prev, [field.id]: e.target.checked }))}
+              required={field.required}
+              disabled={isDisabled}
+            />
+            <span>{field.placeholder || field.label}</span>
+          </label>
+        );
+      case 'radio':
+        return (
+          <div key={field.id} className="space-y-1">
+            {field.options?.map((option: any) => {
+              const value = typeof option === 'string' ? option : option.value;
+              return (
+                <label key={value} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name={`${template.id}-${field.id}`}
+                    value={value}
+                    checked={formData[field.id] === value}
+                    onChange={() => setFormData((prev: any) => ({ ...prev, [field.id]: value }))}
+                    required={field.required}
+                    disabled={isDisabled}
+                  />
+                  <span>{typeof option === 'string' ? option : option.label}</span>
+                </label>
+              );
+            })}
+          </div>
+        );
       case 'file_download':
         // Download buttons should always be enabled
         return (
@@ -1314,14 +1490,14 @@ function TemplateSection({
                 </div>
                 <UploadedFilesDisplay 
                   applicationId={application.id} 
-                  documentType={template.name.toLowerCase() === 'preactivity' ? 'pre_activity' : template.name.toLowerCase() === 'post' ? 'post_activity' : 'other'} 
+                  documentType={getTemplateDocumentType(template.name)} 
                 />
               </div>
             ) : (
               <SimpleFileUpload 
                 applicationId={application.id} 
                 canUpload={canSubmit || user?.role?.startsWith('contractor_')} 
-                documentType={template.name.toLowerCase() === 'preactivity' ? 'pre_activity' : template.name.toLowerCase() === 'post' ? 'post_activity' : 'other'}
+                documentType={getTemplateDocumentType(template.name)}
               />
             )}
           </div>
@@ -1354,17 +1530,46 @@ function TemplateSection({
           </div>
         )}
         
+        {!isSubmitted && unresolvedCommentCount > 0 && (
+          <div className="flex items-center gap-2 text-amber-800 bg-amber-50 border border-amber-200 p-3 rounded-lg mb-4">
+            <AlertCircle className="h-5 w-5" />
+            <span className="text-sm">
+              The reviewer left {unresolvedCommentCount} comment{unresolvedCommentCount !== 1 ? 's' : ''} on this form.
+              Update the highlighted answers and mark each comment resolved before resubmitting.
+            </span>
+          </div>
+        )}
+        
+        <RequiredDocumentsChecklist
+          applicationId={application.id}
+          documentType={getTemplateDocumentType(template.name)}
+          checklist={checklist}
+          downloadFields={formFields.filter((field: any) => field.type === 'file_download')}
+          canUpload={!isViewer && !isSubmitted}
+          showErrors={showValidationErrors}
+        />
+
         <form onSubmit={handleSubmit} className={`space-y-4 ${isSubmitted ? 'opacity-75' : ''}`}>
-          {formFields.map((field: any) => (
+          {formFields.filter((field: any) => visibleFieldIds.has(field.id)).map((field: any) => (
             <div key={field.id}>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 {field.label}
                 {field.required && <span className="text-red-500 ml-1">*</span>}
               </label>
               {renderField(field)}
+              {showValidationErrors && fieldErrors[field.id] && (
+                <p className="text-xs text-red-600 mt-1">{fieldErrors[field.id]}</p>
+              )}
               {field.description && (
                 <p className="text-xs text-gray-500 mt-1">{field.description}</p>
               )}
+              <FieldCommentThread
+                comments={fieldComments.filter(comment => comment.fieldId === field.id)}
+                onToggleResolved={!isSubmitted && !isViewer
+                  ? (comment) => resolveCommentMutation.mutate({ commentId: comment.id, resolved: !comment.resolvedAt })
+                  : undefined}
+                isUpdating={resolveCommentMutation.isPending}
+              />
             </div>
           ))}
 
@@ -1376,7 +1581,7 @@ function TemplateSection({
                 variant="outline"
                 onClick={(e) => {
                   e.preventDefault();
-                  onSave(formData, template.id);
+                  onSave(calculatedData, template.id);
                 }}
                 disabled={uploading}
               >
@@ -1385,7 +1590,7 @@ function TemplateSection({
               
               {/* Submit Button - Only for company admins/managers/system admins, not contractors */}
               {!user?.role?.startsWith('contractor_') && ['company_admin', 'team_member', 'system_admin'].includes(user?.role || '') && canSubmit && (
-                <Button type="submit" disabled={uploading}>
+                <Button type="submit" disabled={uploading || unresolvedCommentCount > 0}>
                   {uploading ? 'Submitting...' : 'Submit'}
                 </Button>
               )}
@@ -2044,6 +2249,7 @@ function PostActivitySection({
 function DocumentsSection({ applicationId, onDeleteFile }: { applicationId: string; onDeleteFile: (docId: number, filename: string) => void }) {
   const { toast } = useToast();
   const [uploading, setUploading] = useState(false);
+  const [versionsDocument, setVersionsDocument] = useState<{ id: number; originalName: string } | null>(null);
   const { data: documents = [], refetch, isLoading } = useQuery({
     queryKey: ['/api/documents/application', applicationId],
     queryFn: async () => {
@@ -2178,7 +2384,10 @@ function DocumentsSection({ applicationId, onDeleteFile }: { applicationId: stri
                   <div className="flex items-center space-x-3">
                     <FileText className="h-5 w-5 text-blue-600" />
                     <div>
-                      <p className="font-medium text-sm">{doc.originalName || doc.filename}</p>
+                      <p className="font-medium text-sm">
+                        {doc.originalName || doc.filename}
+                        {doc.version > 1 && <Badge variant="secondary" className="ml-2">v{doc.version}</Badge>}
+                      </p>
                       <p className="text-xs text-gray-500">
                         {doc.documentType.replace('_', ' ')} • {new Date(doc.createdAt).toLocaleDateString()} • {Math.round(doc.size / 1024)} KB
                         {isFormSubmissionDocument && <span className="ml-2 text-orange-600 font-medium">(Form Submission)</span>}
@@ -2193,6 +2402,16 @@ function DocumentsSection({ applicationId, onDeleteFile }: { applicationId: stri
                     >
                       <Download className="h-4 w-4" />
                     </Button>
+                    {!doc.messageId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setVersionsDocument({ id: doc.id, originalName: doc.originalName || doc.filename })}
+                        title="Version history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
                     {!isFormSubmissionDocument && (
                       <Button
                         size="sm"
@@ -2212,6 +2431,7 @@ function DocumentsSection({ applicationId, onDeleteFile }: { applicationId: stri
           </div>
         )}
       </CardContent>
+      <DocumentVersionHistory document={versionsDocument} onClose={() => setVersionsDocument(null)} />
     </Card>
   );
 }
\ No newline at end of file
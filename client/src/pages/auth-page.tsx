@@ -14,10 +14,11 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Redirect, useLocation } from "wouter";
-import { Eye, EyeOff } from "lucide-react";
+import { Eye, EyeOff, KeyRound, Building2 } from "lucide-react";
 import strategicEnergyLogo from "@/assets/strategic-energy.svg";
 import { ForgotPasswordModal } from "@/components/ForgotPasswordModal";
 import { ChangePasswordModal } from "@/components/ChangePasswordModal";
+import { getPasskeyAssertion, isPasskeyCancelled, passkeysSupported } from "@/lib/passkeys";
 
 // Base schema for registration
 const baseRegisterSchema = z.object({
@@ -208,7 +209,11 @@ export default function AuthPage() {
   const [currentStep, setCurrentStep] = useState(1);
   const [showTwoFactor, setShowTwoFactor] = useState(false);
   const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorMethods, setTwoFactorMethods] = useState<{ totp: boolean; passkey: boolean }>({ totp: true, passkey: false });
   const [loginEmail, setLoginEmail] = useState("");
+  // The second factor completes an organization sign-in rather than a password one
+  const [ssoSecondFactor, setSsoSecondFactor] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
@@ -289,6 +294,30 @@ export default function AuthPage() {
     }
   });
 
+  // Failed organization sign-ins come back here as ?ssoError=<message>
+  useEffect(() => {
+    const ssoError = urlParams.get('ssoError');
+    if (!ssoError) return;
+    toast({
+      title: "Organization sign-in failed",
+      description: ssoError,
+      variant: "destructive"
+    });
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
+
+  // Organization sign-ins of accounts with 2FA come back here as ?ssoSecondFactor=<totp,passkey>
+  useEffect(() => {
+    const methodList = urlParams.get('ssoSecondFactor');
+    if (methodList === null) return;
+    const methods = { totp: methodList.split(',').includes('totp'), passkey: methodList.split(',').includes('passkey') };
+    setSsoSecondFactor(true);
+    setShowTwoFactor(true);
+    setTwoFactorMethods(methods);
+    setUseRecoveryCode(!methods.totp && !methods.passkey);
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
+
   // Watch for country changes to update province field
   const selectedCountry = registerForm.watch("country");
   
@@ -460,11 +489,17 @@ export default function AuthPage() {
     },
     onSuccess: (data) => {
       if (data.requiresTwoFactor) {
+        const methods = data.twoFactorMethods ?? { totp: true, passkey: false };
         setShowTwoFactor(true);
+        setTwoFactorMethods(methods);
+        // Accounts with only passkeys sign in with the passkey or a recovery code
+        setUseRecoveryCode(!methods.totp && !methods.passkey);
         setLoginEmail(loginForm.getValues("email"));
         toast({
           title: "Two-Factor Authentication Required",
-          description: "Please enter your authentication code"
+          description: methods.totp
+            ? "Please enter your authentication code"
+            : "Please confirm with your passkey"
         });
       } else if (data.isTemporaryPassword) {
         setShowPasswordChangeModal(true);
@@ -507,41 +542,98 @@ export default function AuthPage() {
     }
   });
 
+  // After the second factor, or a passwordless passkey sign-in
+  const finishSignIn = (data: any) => {
+    toast({
+      title: "Login successful",
+      description: data.recoveryCodesRemaining !== undefined
+        ? `You used a recovery code. ${data.recoveryCodesRemaining} left - generate new ones under Security Settings.`
+        : "Welcome back!"
+    });
+    setShowTwoFactor(false);
+    setTwoFactorCode("");
+    setUseRecoveryCode(false);
+    // Invalidate auth query to update authentication state
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    
+    // Add a delay to ensure auth state is fully updated before redirect
+    setTimeout(() => {
+      // Redirect to appropriate dashboard based on user role
+      if (data.user?.role === 'system_admin') {
+        navigate("/admin");
+      } else if (data.user?.role === 'contractor_individual' || data.user?.role === 'contractor_team_member' || data.user?.role === 'contractor_account_owner' || data.user?.role === 'contractor_manager') {
+        navigate("/contractor-dashboard");
+      } else {
+        // For company_admin, team_member, and other roles
+        navigate("/dashboard");
+      }
+    }, 500); // Delay to ensure auth state is fully updated before redirect
+  };
+
   const twoFactorMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("/api/auth/login", "POST", {
-        email: loginEmail,
-        password: loginForm.getValues("password"),
-        twoFactorCode: twoFactorCode
+      const res = ssoSecondFactor
+        ? await apiRequest("/api/auth/sso/second-factor", "POST", { twoFactorCode })
+        : await apiRequest("/api/auth/login", "POST", {
+            email: loginEmail,
+            password: loginForm.getValues("password"),
+            twoFactorCode: twoFactorCode
+          });
+      return await res.json();
+    },
+    onSuccess: finishSignIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive"
       });
+    }
+  });
+
+  // secondFactor: confirm the password sign-in with a passkey; otherwise sign in with the passkey alone
+  const passkeyMutation = useMutation({
+    mutationFn: async (secondFactor: boolean) => {
+      const passkeyResponse = await getPasskeyAssertion(secondFactor);
+      const res = secondFactor && ssoSecondFactor
+        ? await apiRequest("/api/auth/sso/second-factor", "POST", { passkeyResponse })
+        : secondFactor
+          ? await apiRequest("/api/auth/login", "POST", {
+              email: loginEmail,
+              password: loginForm.getValues("password"),
+              passkeyResponse
+            })
+          : await apiRequest("/api/auth/webauthn/login/verify", "POST", { response: passkeyResponse });
       return await res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: finishSignIn,
+    onError: (error: Error) => {
+      if (isPasskeyCancelled(error)) return;
       toast({
-        title: "Login successful",
-        description: "Welcome back!"
+        title: "Passkey sign-in failed",
+        description: error.message,
+        variant: "destructive"
       });
-      setShowTwoFactor(false);
-      setTwoFactorCode("");
-      // Invalidate auth query to update authentication state
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      
-      // Add a delay to ensure auth state is fully updated before redirect
-      setTimeout(() => {
-        // Redirect to appropriate dashboard based on user role
-        if (data.user?.role === 'system_admin') {
-          navigate("/admin");
-        } else if (data.user?.role === 'contractor_individual' || data.user?.role === 'contractor_team_member' || data.user?.role === 'contractor_account_owner' || data.user?.role === 'contractor_manager') {
-          navigate("/contractor-dashboard");
-        } else {
-          // For company_admin, team_member, and other roles
-          navigate("/dashboard");
-        }
-      }, 500); // Delay to ensure auth state is fully updated before redirect
+    }
+  });
+
+  // Sends the browser to the identity provider of the organization that owns the email's domain
+  const ssoMutation = useMutation({
+    mutationFn: async () => {
+      const email = loginForm.getValues("email").trim();
+      if (!email.includes("@")) {
+        throw new Error("Enter your work email address first.");
+      }
+      const res = await apiRequest(`/api/auth/sso/discover?email=${encodeURIComponent(email)}`, "GET");
+      const { available } = await res.json();
+      if (!available) {
+        throw new Error("Single sign-on is not set up for this email address. Sign in with your password instead.");
+      }
+      window.location.href = `/api/auth/sso/start?email=${encodeURIComponent(email)}`;
     },
     onError: (error: Error) => {
       toast({
-        title: "Verification failed",
+        title: "Organization sign-in unavailable",
         description: error.message,
         variant: "destructive"
       });
@@ -839,9 +931,14 @@ export default function AuthPage() {
     loginMutation.mutate(data);
   };
 
+  // Authenticator codes are 6 digits; recovery codes are 10 letters and digits, usually written xxxxx-xxxxx
+  const isTwoFactorCodeComplete = useRecoveryCode
+    ? twoFactorCode.replace(/[^a-z0-9]/gi, '').length === 10
+    : twoFactorCode.length === 6;
+
   const onTwoFactorSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (twoFactorCode.length === 6) {
+    if (isTwoFactorCodeComplete) {
       twoFactorMutation.mutate();
     }
   };
@@ -1274,34 +1371,76 @@ export default function AuthPage() {
                   <form onSubmit={onTwoFactorSubmit} className="space-y-4">
                     <div className="text-center mb-4">
                       <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
-                      <p className="text-sm text-gray-600">Enter the 6-digit code from your authenticator app</p>
+                      <p className="text-sm text-gray-600">
+                        {useRecoveryCode
+                          ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+                          : twoFactorMethods.totp
+                            ? twoFactorMethods.passkey
+                              ? "Use your passkey or enter the 6-digit code from your authenticator app"
+                              : "Enter the 6-digit code from your authenticator app"
+                            : "Confirm it's you with your passkey"}
+                      </p>
                     </div>
+                    {twoFactorMethods.passkey && !useRecoveryCode && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        disabled={passkeyMutation.isPending}
+                        onClick={() => passkeyMutation.mutate(true)}
+                      >
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        {passkeyMutation.isPending ? "Waiting for passkey..." : "Use your passkey"}
+                      </Button>
+                    )}
                     <div>
-                      <Label htmlFor="twoFactorCode">Authentication Code *</Label>
-                      <Input
-                        id="twoFactorCode"
-                        type="text"
-                        placeholder="000000"
-                        value={twoFactorCode}
-                        onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
-                        maxLength={6}
-                        className="text-center text-lg tracking-widest"
-                      />
+                      {(twoFactorMethods.totp || useRecoveryCode) && (
+                        <>
+                          <Label htmlFor="twoFactorCode">{useRecoveryCode ? "Recovery Code *" : "Authentication Code *"}</Label>
+                          <Input
+                            id="twoFactorCode"
+                            type="text"
+                            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "000000"}
+                            value={twoFactorCode}
+                            onChange={(e) => setTwoFactorCode(useRecoveryCode
+                              ? e.target.value.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 11)
+                              : e.target.value.replace(/\D/g, '').slice(0, 6))}
+                            maxLength={useRecoveryCode ? 11 : 6}
+                            className="text-center text-lg tracking-widest"
+                          />
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        className="text-sm text-blue-600 hover:underline mt-2"
+                        onClick={() => {
+                          setUseRecoveryCode(!useRecoveryCode);
+                          setTwoFactorCode("");
+                        }}
+                      >
+                        {useRecoveryCode
+                          ? twoFactorMethods.totp ? "Use your authenticator app instead" : "Use your passkey instead"
+                          : "Lost your device? Use a recovery code"}
+                      </button>
                     </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full bg-blue-600 hover:bg-blue-700" 
-                      disabled={twoFactorMutation.isPending || twoFactorCode.length !== 6}
-                    >
-                      {twoFactorMutation.isPending ? "Verifying..." : "Verify Code"}
-                    </Button>
+                    {(twoFactorMethods.totp || useRecoveryCode) && (
+                      <Button 
+                        type="submit" 
+                        className="w-full bg-blue-600 hover:bg-blue-700" 
+                        disabled={twoFactorMutation.isPending || !isTwoFactorCodeComplete}
+                      >
+                        {twoFactorMutation.isPending ? "Verifying..." : "Verify Code"}
+                      </Button>
+                    )}
                     <Button 
                       type="button" 
                       variant="outline" 
                       className="w-full" 
                       onClick={() => {
                         setShowTwoFactor(false);
+                        setSsoSecondFactor(false);
                         setTwoFactorCode("");
+                        setUseRecoveryCode(false);
                       }}
                     >
                       Back to Login
@@ -1358,6 +1497,28 @@ export default function AuthPage() {
                       <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={loginMutation.isPending}>
                         {loginMutation.isPending ? "Signing in..." : "Sign In"}
                       </Button>
+                      {passkeysSupported() && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="w-full"
+                          disabled={passkeyMutation.isPending}
+                          onClick={() => passkeyMutation.mutate(false)}
+                        >
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          {passkeyMutation.isPending ? "Waiting for passkey..." : "Sign in with a passkey"}
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        disabled={ssoMutation.isPending}
+                        onClick={() => ssoMutation.mutate()}
+                      >
+                        <Building2 className="h-4 w-4 mr-2" />
+                        {ssoMutation.isPending ? "Redirecting..." : "Sign in with your organization (SSO)"}
+                      </Button>
                       
                       {/* Forgot Password Link */}
                       <div className="text-center">
@@ -252,7 +252,6 @@ export default function ContractorApplications() {
                 <SelectItem value="rejected">Rejected</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
                 <SelectItem value="needs_revision">Needs Revision</SelectItem>
-                <SelectItem value="revision_required">Revision Required</SelectItem>
               </SelectContent>
             </Select>
 
@@ -9,8 +9,11 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, Smartphone, AlertTriangle, Key, Eye, EyeOff, Check, X } from "lucide-react";
+import { Shield, Smartphone, AlertTriangle, Key, KeyRound, Monitor, Eye, EyeOff, Check, X, LifeBuoy } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { RecoveryCodesDisplay } from "@/components/RecoveryCodesDisplay";
+import { PasskeyManager } from "@/components/PasskeyManager";
+import { ActiveSessions } from "@/components/ActiveSessions";
 
 const twoFactorSchema = z.object({
   token: z.string().min(6, "Verification code must be 6 digits").max(6, "Verification code must be 6 digits"),
@@ -41,11 +44,23 @@ export default function SecuritySettings() {
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [regenerateToken, setRegenerateToken] = useState("");
+  // Links such as /security?tab=passkeys open a specific tab
+  const [initialTab] = useState(() => {
+    const tab = new URLSearchParams(window.location.search).get("tab");
+    return tab === "2fa" || tab === "passkeys" || tab === "sessions" ? tab : "password";
+  });
 
-  const { data: user } = useQuery({
+  const { data: user } = useQuery<{ twoFactorEnabled?: boolean }>({
     queryKey: ["/api/auth/user"],
   });
 
+  const { data: recoveryStatus } = useQuery<{ total: number; remaining: number; generatedAt: string | null }>({
+    queryKey: ["/api/auth/2fa/recovery-codes"],
+    enabled: !!user?.twoFactorEnabled,
+  });
+
   const twoFactorForm = useForm<TwoFactorData>({
     resolver: zodResolver(twoFactorSchema),
     defaultValues: {
@@ -94,10 +109,12 @@ export default function SecuritySettings() {
       });
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/recovery-codes"] });
       setShowSetup(false);
       setSetupData(null);
+      setRecoveryCodes(data.recoveryCodes ?? null);
       twoFactorForm.reset();
       toast({
         title: "Two-factor authentication enabled",
@@ -138,6 +155,30 @@ export default function SecuritySettings() {
     },
   });
 
+  // Regenerate recovery codes mutation - replaces every existing code
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/auth/2fa/recovery-codes", "POST", { token: regenerateToken });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/recovery-codes"] });
+      setRecoveryCodes(data.recoveryCodes);
+      setRegenerateToken("");
+      toast({
+        title: "Recovery codes regenerated",
+        description: "Your previous recovery codes no longer work.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Regeneration failed",
+        description: error.message || "Failed to regenerate recovery codes",
+      });
+    },
+  });
+
   // ========================================
   // PASSWORD CHANGE MUTATION
   // ========================================
@@ -197,11 +238,11 @@ export default function SecuritySettings() {
     <div className="max-w-4xl mx-auto p-6 space-y-6">
       <div>
         <h1 className="text-2xl font-bold text-gray-900 mb-2">Security Settings</h1>
-        <p className="text-gray-600">Manage your account security, password, and two-factor authentication.</p>
+        <p className="text-gray-600">Manage your password, two-factor authentication, passkeys and signed-in devices.</p>
       </div>
 
-      <Tabs defaultValue="password" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs defaultValue={initialTab} className="space-y-6">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="password" className="flex items-center space-x-2">
             <Key className="h-4 w-4" />
             <span>Password</span>
@@ -210,6 +251,14 @@ export default function SecuritySettings() {
             <Shield className="h-4 w-4" />
             <span>Two-Factor Auth</span>
           </TabsTrigger>
+          <TabsTrigger value="passkeys" className="flex items-center space-x-2">
+            <KeyRound className="h-4 w-4" />
+            <span>Passkeys</span>
+          </TabsTrigger>
+          <TabsTrigger value="sessions" className="flex items-center space-x-2">
+            <Monitor className="h-4 w-4" />
+            <span>Devices & Sessions</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="password">
@@ -378,6 +427,16 @@ export default function SecuritySettings() {
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              {recoveryCodes && (
+                <div className="space-y-3 p-4 border border-blue-200 rounded-lg">
+                  <h3 className="font-medium text-gray-900">Your Recovery Codes</h3>
+                  <RecoveryCodesDisplay codes={recoveryCodes} />
+                  <Button type="button" className="w-full" onClick={() => setRecoveryCodes(null)}>
+                    I've saved my recovery codes
+                  </Button>
+                </div>
+              )}
+
               {user?.twoFactorEnabled ? (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between p-4 bg-green-50 border border-green-200 rounded-lg">
@@ -390,6 +449,44 @@ export default function SecuritySettings() {
                     </div>
                   </div>
 
+                  <div className="p-4 border rounded-lg space-y-3">
+                    <div className="flex items-center space-x-3">
+                      <LifeBuoy className="h-5 w-5 text-blue-600" />
+                      <div>
+                        <p className="font-medium text-gray-900">Recovery codes</p>
+                        <p className={`text-sm ${recoveryStatus && recoveryStatus.remaining <= 2 ? 'text-red-600' : 'text-gray-600'}`}>
+                          {recoveryStatus
+                            ? recoveryStatus.total > 0
+                              ? `${recoveryStatus.remaining} of ${recoveryStatus.total} codes left. Each code signs you in once without your authenticator app.`
+                              : "You have no recovery codes. Generate a set so you can sign in if you lose your authenticator app."
+                            : "Loading..."}
+                        </p>
+                      </div>
+                    </div>
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        regenerateMutation.mutate();
+                      }}
+                      className="flex space-x-2"
+                    >
+                      <Input
+                        placeholder="6-digit code from your app"
+                        value={regenerateToken}
+                        onChange={(e) => setRegenerateToken(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                        maxLength={6}
+                      />
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        disabled={regenerateMutation.isPending || regenerateToken.length !== 6}
+                        className="whitespace-nowrap"
+                      >
+                        {regenerateMutation.isPending ? "Generating..." : "Generate New Codes"}
+                      </Button>
+                    </form>
+                  </div>
+
                   <Form {...twoFactorForm}>
                     <form onSubmit={twoFactorForm.handleSubmit(onDisable)} className="space-y-4">
                       <FormField
@@ -504,6 +601,44 @@ export default function SecuritySettings() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="passkeys">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <KeyRound className="h-6 w-6 text-blue-600" />
+                <div>
+                  <CardTitle>Passkeys</CardTitle>
+                  <CardDescription>
+                    Sign in without a password, or use a passkey instead of an authenticator code
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <PasskeyManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="sessions">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <Monitor className="h-6 w-6 text-blue-600" />
+                <div>
+                  <CardTitle>Devices & Sessions</CardTitle>
+                  <CardDescription>
+                    Where your account is signed in. Sign out anything you don't recognize and change your password.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ActiveSessions />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
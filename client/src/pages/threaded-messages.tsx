@@ -21,11 +21,19 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useLivePolling } from "@/lib/realtime";
 import { MessageCircle, Send, User, Clock, Building2, Loader2, Check, Reply, CheckCircle, Plus } from "lucide-react";
 import { format } from "date-fns";
 import { MessageAttachments } from "@/components/MessageAttachments";
 import { MessageAttachmentsDisplay } from "@/components/MessageAttachmentsDisplay";
 
+interface AttachmentUploads {
+  documentIds: number[];
+  uploading: boolean;
+}
+
+const NO_ATTACHMENTS: AttachmentUploads = { documentIds: [], uploading: false };
+
 interface Message {
   id: number;
   fromUserId: string;
@@ -82,8 +90,10 @@ export default function ThreadedMessages() {
     priority: "normal",
     applicationId: ""
   });
-  const [newMessageAttachments, setNewMessageAttachments] = useState<File[]>([]);
-  const [replyAttachments, setReplyAttachments] = useState<File[]>([]);
+  // Attachments upload ahead of the message; the key remounts the picker to clear it after sending
+  const [newMessageAttachments, setNewMessageAttachments] = useState<AttachmentUploads>(NO_ATTACHMENTS);
+  const [replyAttachments, setReplyAttachments] = useState<AttachmentUploads>(NO_ATTACHMENTS);
+  const [attachmentsResetKey, setAttachmentsResetKey] = useState(0);
 
   // Get ticket attachment count for the selected thread
   const ticketNumber = (selectedThread?.messages[0] as any)?.ticketNumber;
@@ -100,6 +110,7 @@ export default function ThreadedMessages() {
   });
 
   // Fetch messages with real-time polling
+  const pollInterval = useLivePolling(3000);
   const {
     data: messages = [],
     isLoading,
@@ -108,8 +119,7 @@ export default function ThreadedMessages() {
   } = useQuery({
     queryKey: ["/api/messages"],
     enabled: !!user,
-    refetchInterval: 3000, // Refresh every 3 seconds for real-time updates
-    refetchIntervalInBackground: true, // Continue polling when tab is not active
+    refetchInterval: pollInterval, // Pushed over /api/events; poll only while disconnected
     staleTime: 0, // Consider data immediately stale to ensure fresh data
     refetchOnMount: true,
     refetchOnReconnect: true,
@@ -181,7 +191,7 @@ export default function ThreadedMessages() {
 
   // Send message mutation - always use with-attachments endpoint for consistency
   const sendMessageMutation = useMutation({
-    mutationFn: async (messageData: typeof newMessage & { attachments?: File[] }) => {
+    mutationFn: async (messageData: typeof newMessage & { attachmentIds?: number[] }) => {
       const formData = new FormData();
       formData.append('subject', messageData.subject);
       formData.append('message', messageData.message);
@@ -190,11 +200,9 @@ export default function ThreadedMessages() {
         formData.append('applicationId', messageData.applicationId);
       }
       
-      // Add attachments (even if empty array)
-      if (messageData.attachments && messageData.attachments.length > 0) {
-        messageData.attachments.forEach((file) => {
-          formData.append(`attachments`, file);
-        });
+      // Attachments were already uploaded in chunks; link them by document id
+      if (messageData.attachmentIds && messageData.attachmentIds.length > 0) {
+        formData.append('attachmentIds', messageData.attachmentIds.join(','));
       }
 
       const response = await apiRequest("/api/messages/with-attachments", "POST", formData);
@@ -204,7 +212,8 @@ export default function ThreadedMessages() {
       console.log("ticket response:", data);
       // Clear form immediately and show ticket number
       setNewMessage({ subject: "", message: "", priority: "normal", applicationId: "" });
-      setNewMessageAttachments([]);
+      setNewMessageAttachments(NO_ATTACHMENTS);
+      setAttachmentsResetKey(key => key + 1);
       queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
       // Force immediate refetch for real-time updates
       queryClient.refetchQueries({ queryKey: ["/api/messages"] });
@@ -230,7 +239,7 @@ export default function ThreadedMessages() {
       toUserId?: string; 
       applicationId?: number; 
       ticketNumber?: string;
-      attachments?: File[];
+      attachmentIds?: number[];
     }) => {
       const formData = new FormData();
       formData.append('subject', replyData.subject);
@@ -239,11 +248,8 @@ export default function ThreadedMessages() {
       if (replyData.applicationId) formData.append('applicationId', replyData.applicationId.toString());
       if (replyData.ticketNumber) formData.append('ticketNumber', replyData.ticketNumber);
       
-      // Add attachments (even if empty array)
-      if (replyData.attachments && replyData.attachments.length > 0) {
-        replyData.attachments.forEach((file) => {
-          formData.append('attachments', file);
-        });
+      if (replyData.attachmentIds && replyData.attachmentIds.length > 0) {
+        formData.append('attachmentIds', replyData.attachmentIds.join(','));
       }
 
       const response = await apiRequest("/api/messages/with-attachments", "POST", formData);
@@ -251,7 +257,8 @@ export default function ThreadedMessages() {
     },
     onSuccess: () => {
       setReplyText("");
-      setReplyAttachments([]);
+      setReplyAttachments(NO_ATTACHMENTS);
+      setAttachmentsResetKey(key => key + 1);
       queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
       // Force immediate refetch for real-time updates
       queryClient.refetchQueries({ queryKey: ["/api/messages"] });
@@ -338,7 +345,7 @@ export default function ThreadedMessages() {
     console.log(newMessage, "attachments:", newMessageAttachments);
     sendMessageMutation.mutate({
       ...newMessage,
-      attachments: newMessageAttachments
+      attachmentIds: newMessageAttachments.documentIds
     });
   };
 
@@ -357,7 +364,7 @@ export default function ThreadedMessages() {
       toUserId: originalUserId,
       applicationId: selectedThread.messages[0]?.applicationId || undefined,
       ticketNumber: ticketNumber,
-      attachments: replyAttachments,
+      attachmentIds: replyAttachments.documentIds,
     });
   };
 
@@ -620,7 +627,9 @@ export default function ThreadedMessages() {
                         {/* Reply Attachments */}
                         <div>
                           <MessageAttachments
-                            onFilesChange={setReplyAttachments}
+                            key={`reply-${attachmentsResetKey}`}
+                            onAttachmentsChange={(documentIds, uploading) => setReplyAttachments({ documentIds, uploading })}
+                            applicationId={selectedThread.messages[0]?.applicationId}
                             disabled={replyMessageMutation.isPending}
                             maxFiles={3}
                             compact={true}
@@ -631,7 +640,7 @@ export default function ThreadedMessages() {
                         <div className="flex gap-2">
                           <Button
                             type="submit"
-                            disabled={!replyText.trim() || replyMessageMutation.isPending}
+                            disabled={!replyText.trim() || replyMessageMutation.isPending || replyAttachments.uploading}
                             size="sm"
                           >
                             {replyMessageMutation.isPending ? (
@@ -744,7 +753,9 @@ export default function ThreadedMessages() {
                 <div>
                   <Label>Attachments (optional)</Label>
                   <MessageAttachments
-                    onFilesChange={setNewMessageAttachments}
+                    key={`new-${attachmentsResetKey}`}
+                    onAttachmentsChange={(documentIds, uploading) => setNewMessageAttachments({ documentIds, uploading })}
+                    applicationId={newMessage.applicationId && newMessage.applicationId !== "none" ? parseInt(newMessage.applicationId) : null}
                     disabled={sendMessageMutation.isPending}
                     maxFiles={3}
                     compact={true}
@@ -753,7 +764,7 @@ export default function ThreadedMessages() {
 
                 <Button
                   onClick={handleSendMessage}
-                  disabled={sendMessageMutation.isPending}
+                  disabled={sendMessageMutation.isPending || newMessageAttachments.uploading}
                   className="w-full"
                 >
                   {sendMessageMutation.isPending ? (
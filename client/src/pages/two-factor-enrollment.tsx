@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Shield, LogOut, KeyRound } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { RecoveryCodesDisplay } from "@/components/RecoveryCodesDisplay";
+import { isPasskeyCancelled, passkeysSupported, registerPasskey } from "@/lib/passkeys";
+
+// Shown instead of the app when the user's role requires two-factor authentication and they
+// signed in without it. The server refuses other requests until enrollment is finished.
+export default function TwoFactorEnrollment() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passkeyName, setPasskeyName] = useState("");
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/auth/2fa/setup", "POST");
+      return await res.json() as { secret: string; qrCodeUrl: string; manualEntryKey: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Setup failed",
+        description: error.message || "Failed to start two-factor setup",
+      });
+    },
+  });
+  const setupData = setupMutation.data;
+
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/auth/2fa/verify", "POST", { token, secret: setupData?.secret });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes ?? []);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Verification failed",
+        description: error.message || "Invalid verification code",
+      });
+    },
+  });
+
+  // A passkey satisfies the requirement just as well as an authenticator app
+  const passkeyMutation = useMutation({
+    mutationFn: () => registerPasskey(passkeyName.trim()),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes ?? []);
+    },
+    onError: (error: Error) => {
+      if (isPasskeyCancelled(error)) return;
+      toast({
+        variant: "destructive",
+        title: "Passkey not added",
+        description: error.message || "Failed to register the passkey",
+      });
+    },
+  });
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
+    queryClient.clear();
+    window.location.href = "/auth";
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Shield className="h-6 w-6 text-blue-600" />
+            <div>
+              <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Your organization requires two-factor authentication for your account. Set up an authenticator app or a passkey to continue.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recoveryCodes ? (
+            <>
+              <RecoveryCodesDisplay codes={recoveryCodes} />
+              <Button
+                className="w-full"
+                onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] })}
+              >
+                I've saved my recovery codes
+              </Button>
+            </>
+          ) : setupData ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                verifyMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-blue-700 mb-4">
+                  Scan this QR code with your authenticator app (Google Authenticator, Authy, etc.)
+                </p>
+                <div className="flex justify-center mb-4">
+                  <img src={setupData.qrCodeUrl} alt="2FA QR Code" className="border rounded" />
+                </div>
+                <p className="text-xs text-blue-600 text-center">
+                  Manual entry key: <code className="bg-blue-100 px-1 py-0.5 rounded">{setupData.manualEntryKey}</code>
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="enrollmentCode">Verification Code</Label>
+                <Input
+                  id="enrollmentCode"
+                  placeholder="Enter 6-digit code from your app"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  maxLength={6}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={verifyMutation.isPending || token.length !== 6}>
+                {verifyMutation.isPending ? "Verifying..." : "Verify and Enable"}
+              </Button>
+            </form>
+          ) : (
+            <div className="text-center py-8">
+              {setupMutation.isError ? (
+                <Button variant="outline" onClick={() => setupMutation.mutate()}>Try Again</Button>
+              ) : (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              )}
+            </div>
+          )}
+          {!recoveryCodes && passkeysSupported() && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                passkeyMutation.mutate();
+              }}
+              className="space-y-2 pt-4 border-t"
+            >
+              <Label htmlFor="enrollmentPasskeyName">Or add a passkey on this device</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="enrollmentPasskeyName"
+                  placeholder="Name, e.g. Work laptop"
+                  value={passkeyName}
+                  onChange={(e) => setPasskeyName(e.target.value)}
+                  maxLength={100}
+                />
+                <Button type="submit" variant="outline" disabled={passkeyMutation.isPending || !passkeyName.trim()} className="whitespace-nowrap">
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {passkeyMutation.isPending ? "Waiting..." : "Add Passkey"}
+                </Button>
+              </div>
+            </form>
+          )}
+          <Button variant="ghost" className="w-full" onClick={handleLogout}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
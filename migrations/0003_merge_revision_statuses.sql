@@ -0,0 +1,15 @@
+-- Merge the duplicate 'revision_required' application status into 'needs_revision'
+-- Postgres cannot drop an enum value, so the type is recreated without it
+UPDATE "applications" SET "status" = 'needs_revision' WHERE "status" = 'revision_required';
+--> statement-breakpoint
+ALTER TABLE "applications" ALTER COLUMN "status" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TYPE "public"."application_status" RENAME TO "application_status_old";
+--> statement-breakpoint
+CREATE TYPE "public"."application_status" AS ENUM('draft', 'in_progress', 'submitted', 'under_review', 'approved', 'rejected', 'needs_revision', 'completed');
+--> statement-breakpoint
+ALTER TABLE "applications" ALTER COLUMN "status" TYPE "public"."application_status" USING "status"::text::"public"."application_status";
+--> statement-breakpoint
+ALTER TABLE "applications" ALTER COLUMN "status" SET DEFAULT 'draft';
+--> statement-breakpoint
+DROP TYPE "public"."application_status_old";
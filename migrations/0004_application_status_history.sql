@@ -0,0 +1,13 @@
+-- Append-only history of application status transitions
+CREATE TABLE IF NOT EXISTS "application_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"application_id" integer NOT NULL,
+	"from_status" "application_status",
+	"to_status" "application_status" NOT NULL,
+	"changed_by" varchar,
+	"actor" varchar(20) NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_application_status_history_application" ON "application_status_history" ("application_id");
@@ -0,0 +1,21 @@
+-- Platform-wide audit log for admin and security actions
+CREATE TABLE IF NOT EXISTS "audit_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" varchar,
+	"actor_email" varchar,
+	"action" varchar(100) NOT NULL,
+	"entity_type" varchar(50) NOT NULL,
+	"entity_id" varchar(100),
+	"before" jsonb,
+	"after" jsonb,
+	"metadata" jsonb,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_audit_logs_created_at" ON "audit_logs" ("created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_audit_logs_entity" ON "audit_logs" ("entity_type","entity_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_audit_logs_actor" ON "audit_logs" ("actor_id");
@@ -0,0 +1,8 @@
+-- Per-activity-type review SLAs and the SLA state flagged on each submission
+ALTER TABLE "activity_settings" ADD COLUMN IF NOT EXISTS "review_sla_business_days" integer;
+--> statement-breakpoint
+ALTER TABLE "activity_settings" ADD COLUMN IF NOT EXISTS "review_sla_warning_business_days" integer DEFAULT 2;
+--> statement-breakpoint
+ALTER TABLE "activity_template_submissions" ADD COLUMN IF NOT EXISTS "sla_state" varchar(20);
+--> statement-breakpoint
+ALTER TABLE "activity_template_submissions" ADD COLUMN IF NOT EXISTS "sla_escalated_at" timestamp;
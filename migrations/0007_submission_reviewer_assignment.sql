@@ -0,0 +1,12 @@
+-- Reviewer assignment for activity template submissions
+ALTER TABLE "activity_template_submissions" ADD COLUMN IF NOT EXISTS "assigned_reviewer_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "activity_template_submissions" ADD COLUMN IF NOT EXISTS "assigned_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "activity_template_submissions" ADD COLUMN IF NOT EXISTS "assigned_by" varchar;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_activity_template_submissions_reviewer" ON "activity_template_submissions" ("assigned_reviewer_id");
+--> statement-breakpoint
+ALTER TABLE "activity_settings" ADD COLUMN IF NOT EXISTS "auto_assign_reviewers" boolean DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE "activity_settings" ADD COLUMN IF NOT EXISTS "last_assigned_reviewer_id" varchar;
@@ -0,0 +1,18 @@
+-- Reviewer comments attached to individual fields of a template submission
+CREATE TABLE IF NOT EXISTS "submission_field_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer NOT NULL,
+	"application_id" integer NOT NULL,
+	"activity_template_id" integer NOT NULL,
+	"field_id" varchar(255) NOT NULL,
+	"field_label" varchar(255),
+	"comment" text NOT NULL,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp,
+	"resolved_by" varchar
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_submission_field_comments_submission" ON "submission_field_comments" ("submission_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_submission_field_comments_application" ON "submission_field_comments" ("application_id","activity_template_id");
@@ -0,0 +1,13 @@
+-- Immutable snapshots of each submit of a template submission, for resubmission diffs
+CREATE TABLE IF NOT EXISTS "submission_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer NOT NULL,
+	"application_id" integer NOT NULL,
+	"activity_template_id" integer NOT NULL,
+	"version_number" integer NOT NULL,
+	"data" jsonb NOT NULL,
+	"documents" jsonb NOT NULL,
+	"submitted_by" varchar NOT NULL,
+	"submitted_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "UQ_submission_versions_number" UNIQUE("application_id","activity_template_id","version_number")
+);
@@ -0,0 +1,84 @@
+-- First-class support tickets (assignee, category, SLA timestamps), a race-free ticket number
+-- sequence, internal notes and canned responses. Existing message threads are backfilled.
+CREATE TABLE IF NOT EXISTS "support_tickets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticket_number" varchar(50) NOT NULL,
+	"subject" varchar(255) NOT NULL,
+	"created_by" varchar NOT NULL,
+	"assignee_id" varchar,
+	"category" varchar(30) DEFAULT 'general' NOT NULL,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"priority" varchar(20) DEFAULT 'normal' NOT NULL,
+	"application_id" integer,
+	"first_response_at" timestamp,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "support_tickets_ticket_number_unique" UNIQUE("ticket_number")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_support_tickets_assignee" ON "support_tickets" USING btree ("assignee_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_number_sequences" (
+	"year" integer PRIMARY KEY NOT NULL,
+	"last_number" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticket_id" integer NOT NULL REFERENCES "support_tickets"("id") ON DELETE cascade,
+	"author_id" varchar NOT NULL,
+	"note" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "canned_responses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"body" text NOT NULL,
+	"category" varchar(30),
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "support_tickets" ("ticket_number", "subject", "created_by", "status", "priority", "application_id", "first_response_at", "resolved_at", "created_at", "updated_at")
+SELECT
+	first_message."ticket_number",
+	left(regexp_replace(first_message."subject", '^Re:\s*', ''), 255),
+	first_message."from_user_id",
+	CASE WHEN thread."is_resolved" THEN 'resolved' ELSE 'open' END,
+	coalesce(first_message."priority", 'normal'),
+	thread."application_id",
+	thread."first_response_at",
+	CASE WHEN thread."is_resolved" THEN thread."last_updated_at" END,
+	coalesce(first_message."created_at", now()),
+	coalesce(thread."last_updated_at", now())
+FROM (
+	SELECT DISTINCT ON ("ticket_number") *
+	FROM "messages"
+	WHERE "ticket_number" IS NOT NULL
+	ORDER BY "ticket_number", "created_at", "id"
+) first_message
+JOIN (
+	SELECT
+		"ticket_number",
+		bool_or("is_resolved") AS "is_resolved",
+		max("application_id") AS "application_id",
+		min("created_at") FILTER (WHERE "is_admin_message") AS "first_response_at",
+		max("updated_at") AS "last_updated_at"
+	FROM "messages"
+	WHERE "ticket_number" IS NOT NULL
+	GROUP BY "ticket_number"
+) thread ON thread."ticket_number" = first_message."ticket_number"
+ON CONFLICT ("ticket_number") DO NOTHING;
+--> statement-breakpoint
+-- Continue numbering after the highest existing TKT-YY-NNNN for each year
+INSERT INTO "ticket_number_sequences" ("year", "last_number")
+SELECT
+	2000 + substring("ticket_number" from '^TKT-(\d{2})-')::integer,
+	max(substring("ticket_number" from '^TKT-\d{2}-(\d+)$')::integer)
+FROM "messages"
+WHERE "ticket_number" ~ '^TKT-\d{2}-\d+$'
+GROUP BY 1
+ON CONFLICT ("year") DO UPDATE SET "last_number" = GREATEST("ticket_number_sequences"."last_number", EXCLUDED."last_number");
@@ -0,0 +1,14 @@
+-- Per-user notification channels (in-app, immediate email, daily digest, off) and the
+-- delivery state the digest job works from.
+CREATE TABLE IF NOT EXISTS "notification_preferences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"channel" varchar(20) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "UQ_notification_preferences_user_event" UNIQUE("user_id","event_type")
+);
+--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN IF NOT EXISTS "delivery_channel" varchar(20) DEFAULT 'in_app' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN IF NOT EXISTS "emailed_at" timestamp;
@@ -0,0 +1,7 @@
+-- Upload scanning: new uploads are quarantined as "pending" until the virus scan passes.
+-- Existing documents predate scanning and default to "clean".
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "scan_status" varchar(20) DEFAULT 'clean' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "scan_detail" text;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "scanned_at" timestamp;
@@ -0,0 +1,23 @@
+-- Resumable chunked uploads and a per-activity-type upload size ceiling.
+CREATE TABLE IF NOT EXISTS "upload_sessions" (
+	"id" varchar(32) PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"purpose" varchar(20) NOT NULL,
+	"application_id" integer,
+	"company_id" integer,
+	"document_type" "document_type" NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"mime_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"chunk_size" integer NOT NULL,
+	"chunk_checksums" text[] DEFAULT '{}' NOT NULL,
+	"checksum" varchar(64),
+	"status" varchar(20) DEFAULT 'uploading' NOT NULL,
+	"document_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_upload_sessions_status_updated" ON "upload_sessions" ("status","updated_at");
+--> statement-breakpoint
+ALTER TABLE "activity_settings" ADD COLUMN IF NOT EXISTS "max_upload_size_mb" integer;
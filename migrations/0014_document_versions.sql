@@ -0,0 +1,18 @@
+-- Document versions grouped under a logical document, and the versions a review saw.
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "document_group_id" integer;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "is_current_version" boolean DEFAULT true NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "superseded_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "superseded_by" varchar;
+--> statement-breakpoint
+UPDATE "documents" SET "document_group_id" = "id" WHERE "document_group_id" IS NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_documents_group" ON "documents" ("document_group_id","version");
+--> statement-breakpoint
+ALTER TABLE "activity_template_submissions" ADD COLUMN IF NOT EXISTS "reviewed_documents" jsonb;
+--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD COLUMN IF NOT EXISTS "supersedes_document_id" integer;
@@ -0,0 +1,6 @@
+-- Required-document checklists on activity (form builder) templates.
+ALTER TABLE "form_templates" ADD COLUMN IF NOT EXISTS "required_documents" jsonb;
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "checklist_slot_id" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "upload_sessions" ADD COLUMN IF NOT EXISTS "checklist_slot_id" varchar(64);
@@ -0,0 +1,32 @@
+-- Login throttling, temporary account lockout and new-device login alerts.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "failed_login_attempts" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "last_failed_login_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "locked_until" timestamp;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "login_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"user_id" varchar,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"successful" boolean NOT NULL,
+	"failure_reason" varchar(50),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_login_attempts_email" ON "login_attempts" ("email","created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_login_attempts_ip" ON "login_attempts" ("ip_address","created_at");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "known_login_devices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"device_id" varchar(64) NOT NULL,
+	"ip_address" varchar(64) NOT NULL,
+	"user_agent" text,
+	"first_seen_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "known_login_devices_user_id_device_id_ip_address_unique" UNIQUE("user_id","device_id","ip_address")
+);
@@ -0,0 +1,17 @@
+-- 2FA recovery codes and per-role two-factor requirements.
+CREATE TABLE IF NOT EXISTS "two_factor_recovery_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"code_hash" varchar(64) NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_two_factor_recovery_codes_user" ON "two_factor_recovery_codes" ("user_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "role_security_policies" (
+	"role" "role" PRIMARY KEY NOT NULL,
+	"require_two_factor" boolean DEFAULT false NOT NULL,
+	"updated_by" varchar,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
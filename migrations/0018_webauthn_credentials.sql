@@ -0,0 +1,17 @@
+-- WebAuthn passkeys for second-factor and passwordless sign-in.
+CREATE TABLE IF NOT EXISTS "webauthn_credentials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"credential_id" varchar(512) NOT NULL,
+	"public_key" text NOT NULL,
+	"counter" integer DEFAULT 0 NOT NULL,
+	"transports" text[],
+	"name" varchar(100) NOT NULL,
+	"device_type" varchar(20),
+	"backed_up" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp,
+	CONSTRAINT "webauthn_credentials_credential_id_unique" UNIQUE("credential_id")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_webauthn_credentials_user" ON "webauthn_credentials" ("user_id");
@@ -0,0 +1,28 @@
+-- Per-company OpenID Connect single sign-on.
+CREATE TABLE IF NOT EXISTS "company_sso_configs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"issuer_url" varchar(500) NOT NULL,
+	"client_id" varchar(255) NOT NULL,
+	"client_secret" text,
+	"allowed_domains" text[] NOT NULL,
+	"default_permission_level" "permission_level" DEFAULT 'viewer' NOT NULL,
+	"updated_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "company_sso_configs_company_id_unique" UNIQUE("company_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_sso_identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"issuer" varchar(500) NOT NULL,
+	"subject" varchar(255) NOT NULL,
+	"email" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_login_at" timestamp,
+	CONSTRAINT "user_sso_identities_issuer_subject_unique" UNIQUE("issuer","subject")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_user_sso_identities_user" ON "user_sso_identities" ("user_id");
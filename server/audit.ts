@@ -0,0 +1,107 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+// ============================================================================
+// AUDIT LOG - records who did what to which entity for admin and security actions
+// ============================================================================
+
+export interface AuditEntry {
+  action: string; // '<entity>.<verb>', e.g. 'user.delete', 'company.bulk_delete'
+  entityType: string;
+  entityId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+const SENSITIVE_KEY = /password|secret|token|recovery/i;
+
+// Strip credentials from anything we persist; audit rows are readable by every system admin
+export function redactForAudit(value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(redactForAudit);
+  if (typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = SENSITIVE_KEY.test(key) ? (val ? "[REDACTED]" : val) : redactForAudit(val);
+    }
+    return result;
+  }
+  return value;
+}
+
+// Write an audit entry for the current request. Failures are logged and swallowed so an
+// audit problem never breaks the action being audited.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const actor = (req as any).user;
+  (req as any).auditRecorded = true;
+
+  try {
+    await storage.createAuditLog({
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId !== undefined && entry.entityId !== null ? String(entry.entityId) : null,
+      before: redactForAudit(entry.before) ?? null,
+      after: redactForAudit(entry.after) ?? null,
+      metadata: (redactForAudit(entry.metadata) as Record<string, unknown>) ?? null,
+      ipAddress: req.ip || req.socket?.remoteAddress || null,
+      userAgent: req.get("user-agent") || null,
+    });
+  } catch (error) {
+    console.error(`[AUDIT] Failed to record ${entry.action}:`, error);
+  }
+}
+
+const METHOD_VERBS: Record<string, string> = {
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+// Safety net for /api/admin: any successful mutating request that did not record its own,
+// more detailed entry still gets one, with the (redacted) request body as the "after" state
+export function auditAdminRequests(req: Request, res: Response, next: NextFunction) {
+  const verb = METHOD_VERBS[req.method];
+  if (!verb) return next();
+
+  res.on("finish", () => {
+    if ((req as any).auditRecorded || res.statusCode >= 400) return;
+
+    // /api/admin/<entity>/<id>/<sub-action>
+    const segments = req.originalUrl.split("?")[0].split("/").filter(Boolean).slice(2);
+    const entityType = (segments[0] || "admin").replace(/-/g, "_");
+    const entityId = segments[1] && /^[\w-]+$/.test(segments[1]) ? segments[1] : null;
+    const subAction = segments.slice(2).join("_").replace(/-/g, "_");
+
+    recordAudit(req, {
+      action: `${entityType}.${subAction || verb}`,
+      entityType,
+      entityId,
+      after: req.body && Object.keys(req.body).length > 0 ? req.body : null,
+      metadata: { method: req.method, path: req.originalUrl, statusCode: res.statusCode },
+    });
+  });
+
+  next();
+}
+
+const CSV_COLUMNS = ["createdAt", "actorEmail", "actorId", "action", "entityType", "entityId", "ipAddress", "userAgent", "before", "after", "metadata"] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas, so they are kept as text
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditLogsToCsv(logs: Record<string, unknown>[]): string {
+  const rows = logs.map(log => CSV_COLUMNS.map(column => csvCell(log[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
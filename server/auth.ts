@@ -5,8 +5,25 @@ import { promisify } from "util";
 import { storage } from "./storage";
 import connectPg from "connect-pg-simple";
 import { nanoid } from "nanoid";
-import { generateTwoFactorSecret, verifyTwoFactorToken, generateQRCodeDataURL } from "./twoFactorAuth";
-import { sendEmailVerificationEmail } from "./sendgrid";
+import { generateTwoFactorSecret, verifyTwoFactorToken, generateQRCodeDataURL, generateRecoveryCodes, hashRecoveryCode, isTotpCode } from "./twoFactorAuth";
+import { sendEmailVerificationEmail } from "./email";
+import type { User, WebauthnCredential } from "@shared/schema";
+import { recordAudit } from "./audit";
+import { checkLoginThrottle, recordLoginFailure, recordLoginSuccess, sendThrottleResponse } from "./login-throttle";
+import {
+  createRegistrationOptions,
+  verifyRegistration,
+  createAuthenticationOptions,
+  verifyAuthentication,
+  getPasskeyOwner,
+  hasPasskeys,
+  setPendingSecondFactor,
+  clearPendingSecondFactor,
+  getPendingSecondFactorUserId,
+  WebauthnVerificationError,
+} from "./webauthn";
+import { startSessionTracking, trackSessionActivity, guardRevokedSessions, listUserSessions, revokeUserSession, revokeAllUserSessions } from "./user-sessions";
+import { beginSsoLogin, completeSsoLogin, emailDomain, SsoError } from "./oidc-sso";
 
 const scryptAsync = promisify(scrypt);
 
@@ -148,6 +165,7 @@ export async function setupAuth(app: Express) {
         }
       }
     });
+    guardRevokedSessions(sessionSettings.store);
     console.log('[AUTH] Using PostgreSQL session store for production');
   } else {
     if (process.env.NODE_ENV === 'production') {
@@ -158,6 +176,7 @@ export async function setupAuth(app: Express) {
 
   app.set("trust proxy", 1);
   app.use(session(sessionSettings));
+  app.use(trackSessionActivity);
 
   // Register endpoint
   app.post("/api/auth/register", async (req: Request, res: Response) => {
@@ -292,7 +311,7 @@ export async function setupAuth(app: Express) {
         // Send notification email to team member about pending approval
         // Note: This is different from email verification - it's a notification about what to expect
         try {
-          const { sendTeamMemberPendingEmail } = await import('./sendgrid');
+          const { sendTeamMemberPendingEmail } = await import('./email');
           await sendTeamMemberPendingEmail(email, firstName, existingCompany.name);
         } catch (error) {
           console.error("Failed to send team member notification email:", error);
@@ -651,7 +670,7 @@ export async function setupAuth(app: Express) {
       });
 
       // Send password reset email
-      const { sendPasswordResetEmail } = await import('./sendgrid');
+      const { sendPasswordResetEmail } = await import('./email');
       const emailSent = await sendPasswordResetEmail(email, resetToken);
       
       if (!emailSent) {
@@ -748,6 +767,7 @@ export async function setupAuth(app: Express) {
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
+      const userHasPasskeys = await hasPasskeys(user.id);
 
       res.json({
         id: user.id,
@@ -760,7 +780,9 @@ export async function setupAuth(app: Express) {
         profileImageUrl: user.profileImageUrl,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
-        twoFactorEnabled: user.twoFactorEnabled
+        twoFactorEnabled: user.twoFactorEnabled,
+        hasPasskeys: userHasPasskeys,
+        twoFactorEnrollmentRequired: !!(req.session as any).twoFactorEnrollmentRequired && !user.twoFactorEnabled && !userHasPasskeys
       });
     } catch (error) {
       console.error("Get user error:", error);
@@ -1045,7 +1067,12 @@ export async function setupAuth(app: Express) {
         twoFactorEnabled: true
       });
 
-      res.json({ message: "Two-factor authentication enabled successfully" });
+      // Shown once; only the hashes are kept
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+      delete (req.session as any).twoFactorEnrollmentRequired;
+
+      res.json({ message: "Two-factor authentication enabled successfully", recoveryCodes });
     } catch (error) {
       console.error("2FA verification error:", error);
       res.status(500).json({ message: "Failed to enable two-factor authentication" });
@@ -1062,6 +1089,12 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ message: "Two-factor authentication is not enabled" });
       }
 
+      // Passkeys still count as a second factor once the authenticator app is gone
+      const userHasPasskeys = await hasPasskeys(user.id);
+      if (!userHasPasskeys && await storage.isTwoFactorRequiredForRole(user.role)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role and cannot be turned off" });
+      }
+
       if (!token) {
         return res.status(400).json({ message: "Verification code is required" });
       }
@@ -1076,6 +1109,9 @@ export async function setupAuth(app: Express) {
         twoFactorSecret: null,
         twoFactorEnabled: false
       });
+      if (!userHasPasskeys) {
+        await storage.deleteRecoveryCodes(user.id);
+      }
 
       res.json({ message: "Two-factor authentication disabled successfully" });
     } catch (error) {
@@ -1083,8 +1119,427 @@ export async function setupAuth(app: Express) {
       res.status(500).json({ message: "Failed to disable two-factor authentication" });
     }
   });
+
+  // How many recovery codes are left (the codes themselves are only shown when generated)
+  app.get("/api/auth/2fa/recovery-codes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      if (!user.twoFactorEnabled && !await hasPasskeys(user.id)) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      res.json(await storage.getRecoveryCodeStatus(user.id));
+    } catch (error) {
+      console.error("Recovery code status error:", error);
+      res.status(500).json({ message: "Failed to load recovery codes" });
+    }
+  });
+
+  // Replace all recovery codes; needs a current authenticator code
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const { token } = req.body;
+
+      if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!token || !verifyTwoFactorToken(token, user.twoFactorSecret)) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Recovery code regeneration error:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // ============================================================================
+  // PASSKEYS (WebAuthn) - see webauthn.ts
+  // ============================================================================
+
+  app.post("/api/auth/webauthn/register/options", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await createRegistrationOptions(req, (req as any).user));
+    } catch (error) {
+      console.error("Passkey registration options error:", error);
+      res.status(500).json({ message: "Failed to start passkey registration" });
+    }
+  });
+
+  app.post("/api/auth/webauthn/register/verify", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const { response } = req.body;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim().slice(0, 100) : '';
+
+      if (!response || !name) {
+        return res.status(400).json({ message: "A passkey response and a name are required" });
+      }
+
+      // The first second factor on the account comes with recovery codes, as with the authenticator app
+      const isFirstSecondFactor = !user.twoFactorEnabled && !await hasPasskeys(user.id);
+      const credential = await verifyRegistration(req, user, response, name);
+      let recoveryCodes: string[] | undefined;
+      if (isFirstSecondFactor) {
+        recoveryCodes = generateRecoveryCodes();
+        await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+      }
+      delete (req.session as any).twoFactorEnrollmentRequired;
+
+      await recordAudit(req, {
+        action: 'user.passkey_added',
+        entityType: 'user',
+        entityId: user.id,
+        metadata: { credentialId: credential.id, name: credential.name },
+      });
+      res.json({ credential: toPasskeySummary(credential), recoveryCodes });
+    } catch (error) {
+      if (error instanceof WebauthnVerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Passkey registration error:", error);
+      res.status(500).json({ message: "Failed to register passkey" });
+    }
+  });
+
+  app.get("/api/auth/webauthn/credentials", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const credentials = await storage.getWebauthnCredentials((req as any).user.id);
+      res.json(credentials.map(toPasskeySummary));
+    } catch (error) {
+      console.error("Passkey list error:", error);
+      res.status(500).json({ message: "Failed to load passkeys" });
+    }
+  });
+
+  app.patch("/api/auth/webauthn/credentials/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const name = typeof req.body.name === 'string' ? req.body.name.trim().slice(0, 100) : '';
+      if (!name) {
+        return res.status(400).json({ message: "Name is required" });
+      }
+
+      const updated = await storage.renameWebauthnCredential((req as any).user.id, parseInt(req.params.id), name);
+      if (!updated) {
+        return res.status(404).json({ message: "Passkey not found" });
+      }
+      res.json(toPasskeySummary(updated));
+    } catch (error) {
+      console.error("Passkey rename error:", error);
+      res.status(500).json({ message: "Failed to rename passkey" });
+    }
+  });
+
+  app.delete("/api/auth/webauthn/credentials/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const id = parseInt(req.params.id);
+      const credentials = await storage.getWebauthnCredentials(user.id);
+      const credential = credentials.find(c => c.id === id);
+      if (!credential) {
+        return res.status(404).json({ message: "Passkey not found" });
+      }
+
+      const isLastSecondFactor = !user.twoFactorEnabled && credentials.length === 1;
+      if (isLastSecondFactor && await storage.isTwoFactorRequiredForRole(user.role)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role. Set up an authenticator app or another passkey before removing this one." });
+      }
+
+      await storage.deleteWebauthnCredential(user.id, id);
+      if (isLastSecondFactor) {
+        await storage.deleteRecoveryCodes(user.id);
+      }
+      await recordAudit(req, {
+        action: 'user.passkey_removed',
+        entityType: 'user',
+        entityId: user.id,
+        metadata: { credentialId: credential.id, name: credential.name },
+      });
+      res.json({ message: "Passkey removed" });
+    } catch (error) {
+      console.error("Passkey removal error:", error);
+      res.status(500).json({ message: "Failed to remove passkey" });
+    }
+  });
+
+  // Options for either the passkey step after a password or a passwordless sign-in
+  app.post("/api/auth/webauthn/login/options", async (req: Request, res: Response) => {
+    try {
+      res.json(await createAuthenticationOptions(req, req.body?.secondFactor === true));
+    } catch (error) {
+      if (error instanceof WebauthnVerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Passkey sign-in options error:", error);
+      res.status(500).json({ message: "Failed to start passkey sign-in" });
+    }
+  });
+
+  // Passwordless sign-in. The passkey step after a password goes through /api/auth/login instead.
+  app.post("/api/auth/webauthn/login/verify", async (req: Request, res: Response) => {
+    try {
+      const { response } = req.body;
+      if (!response?.id) {
+        return res.status(400).json({ message: "A passkey response is required" });
+      }
+
+      const user = await getPasskeyOwner(response);
+      if (!user) {
+        delete (req.session as any).webauthnChallenge;
+        return res.status(401).json({ message: "This passkey is not registered. Sign in with your password instead." });
+      }
+
+      const email = user.email || '';
+      const throttled = await checkLoginThrottle(req, email, user);
+      if (throttled) {
+        await recordLoginFailure(req, email, user, throttled.status === 423 ? 'locked' : 'throttled');
+        return sendThrottleResponse(res, throttled);
+      }
+      if (user.isActive === false) {
+        await recordLoginFailure(req, email, user, 'deactivated');
+        return res.status(403).json({ message: "Your account has been deactivated. Please contact support." });
+      }
+
+      try {
+        await verifyAuthentication(req, response, null);
+      } catch (error) {
+        if (!(error instanceof WebauthnVerificationError)) throw error;
+        await recordLoginFailure(req, email, user, 'invalid_passkey');
+        return res.status(401).json({ message: error.message });
+      }
+
+      await recordLoginSuccess(req, res, user);
+      (req.session as any).userId = user.id;
+      startSessionTracking(req);
+
+      res.json({
+        user: { ...user, password: undefined, twoFactorSecret: undefined },
+        isTemporaryPassword: user.isTemporaryPassword || false,
+        twoFactorEnrollmentRequired: false
+      });
+    } catch (error) {
+      console.error("Passkey sign-in error:", error);
+      res.status(500).json({ message: "Passkey sign-in failed" });
+    }
+  });
+
+  // ============================================================================
+  // ACTIVE SESSIONS - see user-sessions.ts
+  // ============================================================================
+
+  app.get("/api/auth/sessions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await listUserSessions(req, (req as any).user.id));
+    } catch (error) {
+      console.error("Session list error:", error);
+      res.status(500).json({ message: "Failed to load sessions" });
+    }
+  });
+
+  // Sign out every other device; the session making the request stays signed in
+  app.post("/api/auth/sessions/revoke-others", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const revoked = await revokeAllUserSessions(user.id, req.sessionID);
+      await recordAudit(req, {
+        action: 'user.sessions_revoked',
+        entityType: 'user',
+        entityId: user.id,
+        metadata: { revoked, keptCurrent: true },
+      });
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Session revocation error:", error);
+      res.status(500).json({ message: "Failed to sign out other sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const result = await revokeUserSession(req, user.id, req.params.id);
+      if (result === 'not_found') {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (result === 'current') {
+        return res.status(400).json({ message: "Use Sign out to end the session you are using" });
+      }
+
+      await recordAudit(req, {
+        action: 'user.session_revoked',
+        entityType: 'user',
+        entityId: user.id,
+        metadata: { sessionId: req.params.id },
+      });
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error("Session revocation error:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // ============================================================================
+  // SINGLE SIGN-ON (OpenID Connect) - see oidc-sso.ts
+  // ============================================================================
+  // start and callback are browser navigations, so failures go back to the login page
+  // as ?ssoError=<message> rather than JSON.
+
+  const ssoFailureRedirect = (res: Response, error: unknown) => {
+    const message = error instanceof SsoError ? error.message : "Sign-in with your organization failed. Please try again.";
+    res.redirect(`/auth?ssoError=${encodeURIComponent(message)}`);
+  };
+
+  // Whether the email's domain signs in through an organization's identity provider
+  app.get("/api/auth/sso/discover", async (req: Request, res: Response) => {
+    try {
+      const email = typeof req.query.email === 'string' ? req.query.email : '';
+      const domain = emailDomain(email);
+      const config = domain ? await storage.getSsoConfigForEmailDomain(domain) : undefined;
+      res.json({ available: !!config });
+    } catch (error) {
+      console.error("SSO discovery error:", error);
+      res.status(500).json({ message: "Failed to check single sign-on" });
+    }
+  });
+
+  app.get("/api/auth/sso/start", async (req: Request, res: Response) => {
+    try {
+      const email = typeof req.query.email === 'string' ? req.query.email : '';
+      if (!email.includes('@')) {
+        throw new SsoError('Enter your work email address to sign in with your organization.');
+      }
+      const authorizationUrl = await beginSsoLogin(req, email);
+      res.redirect(authorizationUrl.href);
+    } catch (error) {
+      if (!(error instanceof SsoError)) console.error("SSO start error:", error);
+      ssoFailureRedirect(res, error);
+    }
+  });
+
+  // Signs in a user the identity provider vouched for, once any second factor is done. Roles that
+  // require 2FA can only enroll until they have it, as after a password sign-in.
+  const finishSsoSignIn = async (req: Request, res: Response, user: User, hasSecondFactor: boolean) => {
+    await recordLoginSuccess(req, res, user);
+    (req.session as any).userId = user.id;
+    startSessionTracking(req);
+    if (!hasSecondFactor && await storage.isTwoFactorRequiredForRole(user.role)) {
+      (req.session as any).twoFactorEnrollmentRequired = true;
+    }
+    console.log(`[SSO] Signed in user ${user.id}`);
+  };
+
+  app.get("/api/auth/sso/callback", async (req: Request, res: Response) => {
+    try {
+      const user = await completeSsoLogin(req);
+      if (user.isActive === false) {
+        await recordLoginFailure(req, user.email || '', user, 'deactivated');
+        throw new SsoError("Your account has been deactivated. Please contact support.");
+      }
+
+      // The identity provider's own checks are invisible here, so an account with an authenticator
+      // app or passkey confirms it on the login page (?ssoSecondFactor=<methods>) before signing in
+      const userHasPasskeys = await hasPasskeys(user.id);
+      if (user.twoFactorEnabled || userHasPasskeys) {
+        setPendingSecondFactor(req, user.id, 'sso');
+        const methods = [user.twoFactorEnabled && 'totp', userHasPasskeys && 'passkey'].filter(Boolean).join(',');
+        return res.redirect(`/auth?ssoSecondFactor=${methods}`);
+      }
+
+      await finishSsoSignIn(req, res, user, false);
+      res.redirect('/');
+    } catch (error) {
+      if (!(error instanceof SsoError)) console.error("SSO callback error:", error);
+      ssoFailureRedirect(res, error);
+    }
+  });
+
+  // The second factor after an organization sign-in: an authenticator or recovery code, or a passkey
+  app.post("/api/auth/sso/second-factor", async (req: Request, res: Response) => {
+    try {
+      const { twoFactorCode, passkeyResponse } = req.body;
+      const pendingUserId = getPendingSecondFactorUserId(req, 'sso');
+      const user = pendingUserId ? await storage.getUser(pendingUserId) : undefined;
+      if (!user || user.isActive === false) {
+        clearPendingSecondFactor(req);
+        return res.status(401).json({ message: "Your sign-in has expired. Please sign in with your organization again." });
+      }
+
+      const email = user.email || '';
+      const throttled = await checkLoginThrottle(req, email, user);
+      if (throttled) {
+        await recordLoginFailure(req, email, user, throttled.status === 423 ? 'locked' : 'throttled');
+        return sendThrottleResponse(res, throttled);
+      }
+
+      let recoveryCodesRemaining: number | undefined;
+      if (passkeyResponse) {
+        try {
+          await verifyAuthentication(req, passkeyResponse, user.id);
+        } catch (error) {
+          if (!(error instanceof WebauthnVerificationError)) throw error;
+          await recordLoginFailure(req, email, user, 'invalid_passkey');
+          return res.status(401).json({ message: error.message });
+        }
+      } else if (twoFactorCode) {
+        // A six digit code comes from the authenticator app; anything else is a recovery code
+        const usingRecoveryCode = !isTotpCode(String(twoFactorCode));
+        const isValidTwoFactor = usingRecoveryCode
+          ? await storage.consumeRecoveryCode(user.id, hashRecoveryCode(String(twoFactorCode)))
+          : user.twoFactorEnabled && await storage.verifyTwoFactorCode(user.id, twoFactorCode);
+        if (!isValidTwoFactor) {
+          await recordLoginFailure(req, email, user, 'invalid_2fa');
+          return res.status(401).json({ message: usingRecoveryCode ? "Invalid or already used recovery code" : "Invalid two-factor code" });
+        }
+        if (usingRecoveryCode) {
+          recoveryCodesRemaining = (await storage.getRecoveryCodeStatus(user.id)).remaining;
+          await recordAudit(req, {
+            action: 'user.2fa_recovery_code_used',
+            entityType: 'user',
+            entityId: user.id,
+            metadata: { email: user.email, recoveryCodesRemaining },
+          });
+        }
+      } else {
+        return res.status(400).json({ message: "A two-factor code or passkey is required" });
+      }
+
+      clearPendingSecondFactor(req);
+      await finishSsoSignIn(req, res, user, true);
+      res.json({
+        user: { ...user, password: undefined, twoFactorSecret: undefined },
+        isTemporaryPassword: false,
+        twoFactorEnrollmentRequired: false,
+        recoveryCodesRemaining
+      });
+    } catch (error) {
+      console.error("SSO second factor error:", error);
+      res.status(500).json({ message: "Sign-in failed" });
+    }
+  });
 }
 
+// What the client sees of a passkey; the key material stays on the server
+const toPasskeySummary = (credential: WebauthnCredential) => ({
+  id: credential.id,
+  name: credential.name,
+  deviceType: credential.deviceType,
+  backedUp: credential.backedUp,
+  createdAt: credential.createdAt,
+  lastUsedAt: credential.lastUsedAt,
+});
+
+// Reachable during forced two-factor enrollment
+const TWO_FACTOR_ENROLLMENT_PATHS = new Set([
+  '/api/auth/user',
+  '/api/auth/2fa/setup',
+  '/api/auth/2fa/verify',
+  '/api/auth/webauthn/register/options',
+  '/api/auth/webauthn/register/verify',
+]);
+
 // Authentication middleware
 export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -1118,6 +1573,15 @@ export const requireAuth = async (req: Request, res: Response, next: NextFunctio
       return res.status(403).json({ message: "Your account has been deactivated. Please contact support." });
     }
 
+    // Users whose role requires 2FA and who signed in without it can only enroll until they do
+    if ((req.session as any).twoFactorEnrollmentRequired) {
+      if (user.twoFactorEnabled || await hasPasskeys(user.id)) {
+        delete (req.session as any).twoFactorEnrollmentRequired;
+      } else if (!TWO_FACTOR_ENROLLMENT_PATHS.has(req.originalUrl.split('?')[0])) {
+        return res.status(403).json({ message: "Set up two-factor authentication to continue.", twoFactorEnrollmentRequired: true });
+      }
+    }
+
     (req as any).user = user;
     next();
   } catch (error) {
@@ -0,0 +1,257 @@
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+import { storage } from './storage';
+import { fileStore } from './file-store';
+import { inspectFileName, saveStreamedDocumentUpload, UploadRejectedError } from './upload-pipeline';
+import { UPLOAD_CHUNK_SIZE } from '@shared/upload-limits';
+import type { Document, UploadSession } from '@shared/schema';
+
+// ============================================================================
+// CHUNKED UPLOADS - resumable uploads for files above the single-request limit
+// ============================================================================
+// 1. POST /api/uploads opens a session for one file (size checked against the activity's ceiling).
+// 2. PUT /api/uploads/:id/chunks/:index sends each UPLOAD_CHUNK_SIZE piece with its SHA-256 in
+//    X-Chunk-Checksum. Chunks are stored in the file store as they arrive, so a paused or
+//    interrupted upload resumes from GET /api/uploads/:id's receivedChunks.
+// 3. POST /api/uploads/:id/complete moves the session to 'completing' (one request wins), then
+//    streams the re-verified chunks through the upload pipeline (content checks, quarantine,
+//    virus scan) into a normal document without holding the whole file in memory.
+// A session with supersedesDocumentId completes as a new version of that document.
+// Sessions untouched for UPLOAD_SESSION_TTL_HOURS are aborted and their chunks deleted.
+
+export class ChunkedUploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ChunkedUploadError';
+  }
+}
+
+const chunkPrefix = (sessionId: string) => `upload-sessions/${sessionId}/`;
+const chunkKey = (sessionId: string, index: number) => `${chunkPrefix(sessionId)}${String(index).padStart(6, '0')}`;
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+export const getTotalChunks = (session: Pick<UploadSession, 'size' | 'chunkSize'>) =>
+  Math.max(1, Math.ceil(session.size / session.chunkSize));
+
+// What the client needs to resume: which chunks the server already holds
+export function describeUploadSession(session: UploadSession) {
+  const receivedChunks = session.chunkChecksums.length;
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    totalChunks: getTotalChunks(session),
+    receivedChunks,
+    receivedBytes: Math.min(receivedChunks * session.chunkSize, session.size),
+    status: session.status,
+    documentId: session.documentId,
+  };
+}
+
+export async function createUploadSession(params: {
+  userId: string;
+  purpose: 'document' | 'message';
+  applicationId: number | null;
+  companyId: number | null;
+  documentType: UploadSession['documentType'];
+  supersedesDocumentId: number | null;
+  checklistSlotId: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  maxBytes: number;
+}): Promise<UploadSession> {
+  const { maxBytes, ...fields } = params;
+  inspectFileName(fields.fileName);
+  if (!Number.isInteger(fields.size) || fields.size <= 0) {
+    throw new ChunkedUploadError(400, 'File size is required');
+  }
+  if (fields.size > maxBytes) {
+    const limitMb = Math.round(maxBytes / (1024 * 1024));
+    throw new ChunkedUploadError(413, `${fields.fileName} is larger than the ${limitMb} MB limit for this upload`);
+  }
+
+  return storage.createUploadSession({
+    ...fields,
+    id: nanoid(24),
+    mimeType: fields.mimeType || 'application/octet-stream',
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    chunkChecksums: [],
+  });
+}
+
+// Chunks must arrive in order, but any chunk already received may be sent again (a retry after
+// a lost response); it simply replaces the stored copy.
+export async function receiveChunk(session: UploadSession, index: number, body: Buffer, checksum: string | undefined): Promise<UploadSession> {
+  if (session.status !== 'uploading') {
+    throw new ChunkedUploadError(409, `Upload is ${session.status}`);
+  }
+
+  const totalChunks = getTotalChunks(session);
+  const received = session.chunkChecksums.length;
+  if (!Number.isInteger(index) || index < 0 || index >= totalChunks || index > received) {
+    throw new ChunkedUploadError(409, `Expected chunk ${received}`);
+  }
+
+  const expectedSize = index === totalChunks - 1 ? session.size - index * session.chunkSize : session.chunkSize;
+  if (body.length !== expectedSize) {
+    throw new ChunkedUploadError(400, `Chunk ${index} should be ${expectedSize} bytes, got ${body.length}`);
+  }
+
+  const actual = sha256(body);
+  if (!checksum || checksum.toLowerCase() !== actual) {
+    throw new ChunkedUploadError(422, `Checksum mismatch for chunk ${index}`);
+  }
+
+  // Stored under the file's own type so stores that restrict content types (Supabase) accept it
+  await fileStore.put(chunkKey(session.id, index), body, { contentType: session.mimeType });
+
+  const chunkChecksums = [...session.chunkChecksums];
+  chunkChecksums[index] = actual;
+  return storage.updateUploadSession(session.id, { chunkChecksums });
+}
+
+async function readChunk(session: UploadSession, index: number): Promise<Buffer> {
+  const { body } = await fileStore.get(chunkKey(session.id, index));
+  const parts: Buffer[] = [];
+  for await (const part of body) parts.push(Buffer.from(part));
+  const chunk = Buffer.concat(parts);
+  if (sha256(chunk) !== session.chunkChecksums[index]) {
+    throw new ChunkedUploadError(422, `Stored chunk ${index} is corrupt; upload the file again`);
+  }
+  return chunk;
+}
+
+// One chunk in memory at a time
+async function* readChunks(session: UploadSession) {
+  const totalChunks = getTotalChunks(session);
+  for (let index = 0; index < totalChunks; index++) {
+    yield await readChunk(session, index);
+  }
+}
+
+async function deleteChunks(sessionId: string) {
+  for await (const key of fileStore.list(chunkPrefix(sessionId))) {
+    await fileStore.delete(key).catch(error =>
+      console.error(`[CHUNKED UPLOAD] Failed to delete chunk ${key}:`, error));
+  }
+}
+
+// Assembles the file and runs it through the same pipeline as a single-request upload.
+// Completing an already completed session returns its document.
+export async function completeUploadSession(session: UploadSession): Promise<Document> {
+  if (session.status === 'complete' && session.documentId) {
+    const existing = await storage.getDocumentById(session.documentId);
+    if (existing) return existing;
+  }
+  if (session.status !== 'uploading') {
+    throw new ChunkedUploadError(409, `Upload is ${session.status}`);
+  }
+
+  const totalChunks = getTotalChunks(session);
+  if (session.chunkChecksums.length !== totalChunks) {
+    throw new ChunkedUploadError(409, `Received ${session.chunkChecksums.length} of ${totalChunks} chunks`);
+  }
+
+  const folderPath = session.purpose === 'message'
+    ? `messages/uploads/${session.userId}`
+    : session.applicationId
+      ? `applications/${session.applicationId}`
+      : session.companyId ? `companies/${session.companyId}` : 'general';
+
+  const previous = session.supersedesDocumentId ? await storage.getDocumentById(session.supersedesDocumentId) : undefined;
+  if (session.supersedesDocumentId && !previous) {
+    throw new ChunkedUploadError(409, 'The document this upload replaces no longer exists');
+  }
+
+  // Claimed before any chunk is read, so a second complete request cannot create a second document
+  const claimed = await storage.updateUploadSessionIfStatus(session.id, 'uploading', { status: 'completing' });
+  if (!claimed) {
+    throw new ChunkedUploadError(409, 'Upload is already being completed');
+  }
+
+  let saved: Awaited<ReturnType<typeof saveStreamedDocumentUpload>>;
+  try {
+    saved = await saveStreamedDocumentUpload({
+      fieldname: session.purpose === 'message' ? 'attachments' : 'files',
+      originalname: session.fileName,
+      mimetype: session.mimeType,
+      size: session.size,
+      chunks: readChunks(claimed),
+    }, folderPath, {
+      applicationId: session.applicationId,
+      companyId: session.companyId,
+      documentType: session.documentType,
+      checklistSlotId: session.checklistSlotId,
+      uploadedBy: session.userId,
+      ...(previous ? {
+        documentGroupId: previous.documentGroupId ?? previous.id,
+        isTemplate: previous.isTemplate,
+        isGlobal: previous.isGlobal,
+      } : {}),
+    });
+  } catch (error) {
+    // A file refused by the content checks cannot be fixed by resuming; anything else can be retried
+    if (error instanceof UploadRejectedError) await abortUploadSession(claimed);
+    else await storage.updateUploadSessionIfStatus(session.id, 'completing', { status: 'uploading' });
+    throw error;
+  }
+
+  const { document, checksum } = saved;
+  await storage.updateUploadSession(session.id, {
+    status: 'complete',
+    checksum,
+    documentId: document.id,
+  });
+  await deleteChunks(session.id);
+  console.log(`[CHUNKED UPLOAD] Session ${session.id} completed as document ${document.id} (${session.fileName}, ${session.size} bytes)`);
+  return document;
+}
+
+// Also aborts a 'completing' session, for rejected files and completions that never finished
+export async function abortUploadSession(session: UploadSession): Promise<void> {
+  if (session.status !== 'uploading' && session.status !== 'completing') return;
+  const aborted = await storage.updateUploadSessionIfStatus(session.id, session.status, { status: 'aborted' });
+  if (!aborted) return;
+  await deleteChunks(session.id);
+}
+
+// ============================================================================
+// SESSION CLEANUP - aborts uploads that were abandoned part way
+// ============================================================================
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_SESSION_TTL_HOURS = 24;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+export async function expireStaleUploadSessions(now: Date = new Date()): Promise<{ expired: number }> {
+  const ttlHours = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '', 10) || DEFAULT_SESSION_TTL_HOURS;
+  const stale = await storage.getStaleUploadSessions(new Date(now.getTime() - ttlHours * 60 * 60 * 1000));
+
+  for (const session of stale) {
+    await abortUploadSession(session);
+  }
+  return { expired: stale.length };
+}
+
+export function startUploadSessionCleanup() {
+  if (cleanupTimer) return;
+
+  const tick = async () => {
+    try {
+      const { expired } = await expireStaleUploadSessions();
+      if (expired > 0) {
+        console.log(`[CHUNKED UPLOAD] Expired ${expired} abandoned upload sessions`);
+      }
+    } catch (error) {
+      console.error('[CHUNKED UPLOAD] Session cleanup failed:', error);
+    }
+  };
+
+  cleanupTimer = setInterval(tick, DEFAULT_INTERVAL_MS);
+  cleanupTimer.unref();
+  tick();
+}
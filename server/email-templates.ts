@@ -0,0 +1,629 @@
+// ============================================================================
+// EMAIL TEMPLATES - versioned registry of every email the portal sends
+// ============================================================================
+// Each template declares its variables (with descriptions and sample values for the admin
+// preview) and one or more versions. Sending always uses the latest version; older versions
+// stay registered so the preview can compare them. Templates without a text() renderer get
+// a plain-text part derived from their HTML.
+
+export interface EmailTemplateVersion<V> {
+  version: number;
+  subject: (variables: V) => string;
+  html: (variables: V) => string;
+  text?: (variables: V) => string;
+}
+
+export interface EmailTemplate<V> {
+  description: string;
+  variables: Record<keyof V & string, string>;
+  sample: V;
+  versions: EmailTemplateVersion<V>[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  template: { name: string; version: number };
+}
+
+// Inbound replies are cut at this line, so only the new text is added to the ticket
+export const REPLY_ABOVE_MARKER = 'Reply above this line';
+
+const PERMISSION_LABELS: Record<string, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  manager: 'Team Manager',
+};
+
+// ----------------------------------------------------------------------------
+// Shared building blocks
+// ----------------------------------------------------------------------------
+
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const e = escapeHtml;
+const multiline = (value: string) => e(value).replace(/\n/g, '<br>');
+
+const DEFAULT_FOOTER = 'SEMI Program - Strategic Energy Management Initiative<br>If you have any questions, please contact support.';
+
+function layout(content: string, footer: string = DEFAULT_FOOTER) {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f8f9fa; padding: 20px;">
+      <div style="background-color: white; padding: 30px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #2563eb; margin: 0; font-size: 28px;">SEMI Program</h1>
+          <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 16px;">Strategic Energy Management Initiative</p>
+        </div>
+        ${content}
+        <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+          <p style="color: #6b7280; font-size: 14px; margin: 0;">${footer}</p>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+const heading = (text: string) => `<h2 style="color: #333; margin-bottom: 20px;">${text}</h2>`;
+
+const paragraph = (html: string) => `<p style="color: #555; line-height: 1.6; margin-bottom: 15px;">${html}</p>`;
+
+const button = (url: string, label: string) => `
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="${e(url)}" style="background-color: #2563eb; color: white; padding: 14px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">${label}</a>
+  </div>`;
+
+const CALLOUT_STYLES = {
+  info: 'background-color: #dbeafe; border: 1px solid #3b82f6; color: #1e40af;',
+  warning: 'background-color: #fef3c7; border: 1px solid #f59e0b; color: #92400e;',
+  neutral: 'background-color: #f9fafb; border: 1px solid #e5e7eb; color: #6b7280;',
+};
+
+const callout = (html: string, tone: keyof typeof CALLOUT_STYLES = 'neutral') =>
+  `<div style="${CALLOUT_STYLES[tone]} border-radius: 6px; padding: 16px 20px; margin: 25px 0; line-height: 1.6;">${html}</div>`;
+
+const quote = (html: string) =>
+  `<div style="background-color: white; border-left: 4px solid #2563eb; padding: 12px 16px; margin: 16px 0; color: #333; line-height: 1.6;">${html}</div>`;
+
+const greeting = (firstName: string | null | undefined) => firstName || 'there';
+
+// Plain-text part for templates that do not define their own
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) => `${label.trim()}: ${href}`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|h\d|li|ul|ol)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const defineTemplate = <V>(template: EmailTemplate<V>) => template;
+
+// ----------------------------------------------------------------------------
+// Templates
+// ----------------------------------------------------------------------------
+
+const passwordReset = defineTemplate<{ resetUrl: string }>({
+  description: 'Password reset link requested from the login page.',
+  variables: { resetUrl: 'Link to the reset password page, including the reset token' },
+  sample: { resetUrl: 'https://portal.example.com/reset-password?token=sample-token' },
+  versions: [{
+    version: 1,
+    subject: () => 'SEMI Program - Password Reset Request',
+    html: ({ resetUrl }) => layout(`
+      ${heading('Password Reset Request')}
+      ${paragraph('You have requested to reset your password for the SEMI Program portal.')}
+      ${paragraph('Click the button below to reset your password:')}
+      ${button(resetUrl, 'Reset Password')}
+      ${callout('If you did not request this password reset, please ignore this email. This link will expire in 1 hour for security reasons.')}
+    `),
+    text: ({ resetUrl }) => [
+      'You have requested to reset your password for the SEMI Program portal.',
+      '',
+      'Use the link below to reset your password:',
+      resetUrl,
+      '',
+      'If you did not request this password reset, please ignore this email.',
+      'This link will expire in 1 hour for security reasons.',
+    ].join('\n'),
+  }],
+});
+
+const temporaryPassword = defineTemplate<{ tempPassword: string; loginUrl: string }>({
+  description: 'Temporary password sent by the forgot password form.',
+  variables: {
+    tempPassword: 'Generated temporary password',
+    loginUrl: 'Link to the login page',
+  },
+  sample: { tempPassword: 'K7QX2M9P', loginUrl: 'https://portal.example.com/auth' },
+  versions: [{
+    version: 1,
+    subject: () => 'SEMI Program - Temporary Password',
+    html: ({ tempPassword, loginUrl }) => layout(`
+      ${heading('Temporary Password Request')}
+      ${paragraph('You requested a password reset for your SEMI Program account.')}
+      ${callout(`<strong>Your temporary password:</strong> <span style="font-family: monospace; font-size: 20px;">${e(tempPassword)}</span>`, 'warning')}
+      ${paragraph("Use this temporary password to log in and you'll be prompted to set a new password.")}
+      ${button(loginUrl, 'Log In to SEMI Program')}
+      ${callout("<strong>Important:</strong> This temporary password will be replaced once you set a new one. If you didn't request this password reset, please contact support.")}
+    `),
+  }],
+});
+
+const accountCreated = defineTemplate<{ email: string; tempPassword: string; loginUrl: string }>({
+  description: 'Login details for an account created by a system administrator.',
+  variables: {
+    email: "The new user's login email",
+    tempPassword: 'Temporary password set by the administrator',
+    loginUrl: 'Link to the login page',
+  },
+  sample: { email: 'jane.doe@example.com', tempPassword: 'Welcome-2024', loginUrl: 'https://portal.example.com/auth' },
+  versions: [{
+    version: 1,
+    subject: () => 'SEMI Program - Your Account Setup Instructions',
+    html: ({ email, tempPassword, loginUrl }) => layout(`
+      ${heading('Welcome to SEMI Program')}
+      ${paragraph('Your account has been created by a system administrator. You can now log in to the SEMI Program platform using the credentials below:')}
+      ${callout(`
+        <strong>Email:</strong> ${e(email)}<br>
+        <strong>Temporary Password:</strong> <span style="font-family: monospace;">${e(tempPassword)}</span>
+      `)}
+      ${callout("<strong>Password change required.</strong> This is a temporary password. You'll be required to change it when you first log in.", 'warning')}
+      ${button(loginUrl, 'Log In to SEMI Program')}
+    `),
+  }],
+});
+
+const teamInvitation = defineTemplate<{ firstName: string; inviterName: string; acceptUrl: string }>({
+  description: 'Invitation to join a company team.',
+  variables: {
+    firstName: "Invitee's first name",
+    inviterName: 'Name of the team member who sent the invitation',
+    acceptUrl: 'Link to accept the invitation and set a password',
+  },
+  sample: { firstName: 'Jane', inviterName: 'Alex', acceptUrl: 'https://portal.example.com/accept-invite/sample-token' },
+  versions: [{
+    version: 1,
+    subject: () => 'Team Invitation - SEMI Program',
+    html: ({ firstName, inviterName, acceptUrl }) => layout(`
+      ${heading("You're Invited to Join SEMI Program!")}
+      ${paragraph(`Hi <strong>${e(firstName)}</strong>,`)}
+      ${paragraph(`${e(inviterName)} has invited you to join their company in the SEMI Program Portal.`)}
+      ${paragraph('Click the button below to accept your invitation and set your password:')}
+      ${button(acceptUrl, 'Accept Invitation')}
+      ${paragraph('If you did not expect this invitation, you can ignore this email.')}
+    `),
+  }],
+});
+
+const contractorTeamInvitation = defineTemplate<{
+  to: string;
+  firstName: string;
+  invitedBy: string;
+  invitedByEmail: string;
+  contractorCompany: string;
+  permissionLevel: string;
+  acceptUrl: string;
+  customMessage?: string;
+}>({
+  description: 'Invitation to join a contractor team.',
+  variables: {
+    to: "Invitee's email address",
+    firstName: "Invitee's first name",
+    invitedBy: 'Name of the person who sent the invitation',
+    invitedByEmail: 'Email of the person who sent the invitation',
+    contractorCompany: 'Contractor company name',
+    permissionLevel: 'viewer, editor or manager',
+    acceptUrl: 'Link to accept the invitation and set a password',
+    customMessage: 'Optional personal message from the inviter',
+  },
+  sample: {
+    to: 'sam.lee@example.com',
+    firstName: 'Sam',
+    invitedBy: 'Alex Morgan',
+    invitedByEmail: 'alex@contractor.example.com',
+    contractorCompany: 'Northwind Energy Services',
+    permissionLevel: 'editor',
+    acceptUrl: 'https://portal.example.com/accept-contractor-invite/sample-token',
+    customMessage: 'Looking forward to working with you on the upcoming projects.',
+  },
+  versions: [{
+    version: 1,
+    subject: ({ contractorCompany }) => `Contractor Team Invitation - ${contractorCompany} | SEMI Program`,
+    html: (v) => {
+      const permission = PERMISSION_LABELS[v.permissionLevel] || v.permissionLevel;
+      const abilities = v.permissionLevel === 'manager'
+        ? ['View and manage assigned applications', 'Invite and manage other team members', 'Update contractor services and regions', 'Access all contractor team features']
+        : v.permissionLevel === 'editor'
+          ? ['View and edit assigned applications', 'Upload documents and complete forms', 'Access contractor dashboard features']
+          : ['View assigned applications', 'Access contractor dashboard', 'Download required documents'];
+
+      return layout(`
+        ${heading("You're Invited to Join Our Contractor Team!")}
+        ${paragraph(`Hi <strong>${e(v.firstName)}</strong>,`)}
+        ${paragraph(`<strong>${e(v.invitedBy)}</strong> (${e(v.invitedByEmail)}) has invited you to join the contractor team at <strong>${e(v.contractorCompany)}</strong> in the SEMI Program Portal.`)}
+        ${callout(`
+          <strong>Invitation Details</strong>
+          <ul style="margin: 8px 0 0 0; padding-left: 20px;">
+            <li><strong>Contractor Company:</strong> ${e(v.contractorCompany)}</li>
+            <li><strong>Your Role:</strong> Contractor Team Member</li>
+            <li><strong>Permission Level:</strong> ${e(permission)}</li>
+            <li><strong>Invited By:</strong> ${e(v.invitedBy)}</li>
+          </ul>
+        `)}
+        ${v.customMessage ? quote(`<strong>Personal message from ${e(v.invitedBy)}:</strong><br><em>"${multiline(v.customMessage)}"</em>`) : ''}
+        ${paragraph('Click the button below to accept your invitation and set up your account:')}
+        ${button(v.acceptUrl, 'Accept Invitation & Set Password')}
+        ${callout('<strong>Important:</strong> This invitation will expire in 7 days. Please accept it promptly to join the contractor team.', 'warning')}
+        ${paragraph(`As a contractor team member with <strong>${e(permission)}</strong> access, you'll be able to:`)}
+        <ul style="color: #4b5563; margin: 0 0 20px 20px; line-height: 1.6;">
+          ${abilities.map(ability => `<li>${ability}</li>`).join('')}
+        </ul>
+        ${paragraph(`If you have any questions about this invitation or need assistance, please contact ${e(v.invitedByEmail)} or our support team.`)}
+      `, `Strategic Energy Management Initiative (SEMI)<br>Powered by Enerva Energy Solutions<br>This invitation was sent to ${e(v.to)}`);
+    },
+    text: (v) => [
+      "You're Invited to Join Our Contractor Team - SEMI Program",
+      '',
+      `Hi ${v.firstName},`,
+      '',
+      `${v.invitedBy} (${v.invitedByEmail}) has invited you to join the contractor team at ${v.contractorCompany} in the SEMI Program Portal.`,
+      '',
+      'Invitation Details:',
+      `- Contractor Company: ${v.contractorCompany}`,
+      '- Your Role: Contractor Team Member',
+      `- Permission Level: ${PERMISSION_LABELS[v.permissionLevel] || v.permissionLevel}`,
+      `- Invited By: ${v.invitedBy}`,
+      '',
+      ...(v.customMessage ? [`Personal Message: "${v.customMessage}"`, ''] : []),
+      'To accept your invitation and set up your account, visit:',
+      v.acceptUrl,
+      '',
+      'This invitation will expire in 7 days. Please accept it promptly to join the contractor team.',
+      '',
+      `If you have any questions, please contact ${v.invitedByEmail} or our support team.`,
+      '',
+      'Strategic Energy Management Initiative (SEMI)',
+      'Powered by Enerva Energy Solutions',
+    ].join('\n'),
+  }],
+});
+
+const teamMemberPending = defineTemplate<{ firstName: string; companyName: string }>({
+  description: 'Confirmation that a request to join an existing company is awaiting approval.',
+  variables: {
+    firstName: "Registrant's first name",
+    companyName: 'Company the registrant asked to join',
+  },
+  sample: { firstName: 'Jane', companyName: 'Acme Manufacturing' },
+  versions: [{
+    version: 1,
+    subject: () => 'SEMI Program - Registration Submitted for Approval',
+    html: ({ firstName, companyName }) => layout(`
+      ${heading('Registration Submitted Successfully')}
+      ${paragraph(`Hi ${e(firstName)},`)}
+      ${paragraph(`Your request to join <strong>${e(companyName)}</strong> has been submitted to the SEMI Program Portal.`)}
+      ${callout(`
+        <strong>Next Steps:</strong>
+        <ol style="margin: 8px 0 0 0; padding-left: 20px;">
+          <li>Your registration is now pending approval from the company administrator of ${e(companyName)}</li>
+          <li>You will receive an email notification once your request has been reviewed</li>
+          <li>Once approved, you'll be able to log in and access the portal with the permissions assigned to you</li>
+        </ol>
+      `, 'info')}
+      ${callout('<strong>Need assistance?</strong> If you have questions about your registration, please reach out to your company administrator directly or contact SEMI Program support.')}
+    `, 'Thank you for your interest in the SEMI Program!'),
+  }],
+});
+
+const emailVerification = defineTemplate<{ firstName: string; verificationCode: string }>({
+  description: 'Verification code sent during registration.',
+  variables: {
+    firstName: "Registrant's first name",
+    verificationCode: 'Six digit verification code',
+  },
+  sample: { firstName: 'Jane', verificationCode: '482913' },
+  versions: [{
+    version: 1,
+    subject: () => 'Your Verification Code - SEMI Program Portal',
+    html: ({ firstName, verificationCode }) => layout(`
+      ${heading('Verify Your Email Address')}
+      ${paragraph(`Hi ${e(firstName)},`)}
+      ${paragraph('Thank you for registering with the SEMI Program Portal. To complete your registration and access your account, please enter the verification code below on the registration page.')}
+      <div style="text-align: center; margin: 30px 0;">
+        <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; border: 2px dashed #2563eb;">
+          <p style="margin: 0 0 10px 0; font-size: 14px; color: #6b7280;">Your verification code is:</p>
+          <div style="font-size: 32px; font-weight: bold; color: #2563eb; font-family: monospace; letter-spacing: 8px;">${e(verificationCode)}</div>
+        </div>
+      </div>
+      ${callout("<strong>Important:</strong> This verification code will expire in 10 minutes. If you didn't create an account, please ignore this email.", 'warning')}
+    `),
+    text: ({ verificationCode }) =>
+      `Welcome to SEMI Program Portal! Your verification code is: ${verificationCode}. This code will expire in 10 minutes. Enter this code on the registration page to complete your account setup.`,
+  }],
+});
+
+const ticketReply = defineTemplate<{
+  firstName: string | null;
+  ticketNumber: string;
+  subject: string;
+  message: string;
+  replyByEmail: boolean;
+  ticketUrl: string;
+}>({
+  description: 'An admin reply on a support ticket, sent to the requester.',
+  variables: {
+    firstName: "Requester's first name",
+    ticketNumber: 'Ticket number, e.g. TKT-24-0012',
+    subject: 'Ticket subject',
+    message: 'The reply text',
+    replyByEmail: 'Whether replying to the email posts back to the ticket (inbound email configured)',
+    ticketUrl: 'Link to the ticket in the portal',
+  },
+  sample: {
+    firstName: 'Jane',
+    ticketNumber: 'TKT-24-0012',
+    subject: 'Question about the baseline report',
+    message: 'Thanks for reaching out. The baseline report template is now attached to your application.',
+    replyByEmail: true,
+    ticketUrl: 'https://portal.example.com/messages',
+  },
+  versions: [{
+    version: 1,
+    subject: ({ ticketNumber, subject }) => `[${ticketNumber}] ${subject}`,
+    html: (v) => `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        ${v.replyByEmail ? `<p style="color: #9ca3af; font-size: 12px; margin: 0 0 20px 0;">--- ${REPLY_ABOVE_MARKER} ---</p>` : ''}
+        <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+          ${paragraph(`Hi ${e(greeting(v.firstName))},`)}
+          ${paragraph(`SEMI Program support replied to your ticket <strong>${e(v.ticketNumber)}</strong>:`)}
+          ${quote(multiline(v.message))}
+          <p style="color: #6b7280; font-size: 14px;">${ticketReplyHint(v.replyByEmail)}</p>
+          ${button(v.ticketUrl, 'View Ticket')}
+        </div>
+      </div>
+    `,
+    // The marker must stay the first line so extractReplyText() cuts the quoted email
+    text: (v) => [
+      ...(v.replyByEmail ? [`--- ${REPLY_ABOVE_MARKER} ---`, ''] : []),
+      `Hi ${greeting(v.firstName)},`,
+      '',
+      `SEMI Program support replied to your ticket ${v.ticketNumber}:`,
+      '',
+      v.message,
+      '',
+      ticketReplyHint(v.replyByEmail),
+      v.ticketUrl,
+    ].join('\n'),
+  }],
+});
+
+function ticketReplyHint(replyByEmail: boolean) {
+  return replyByEmail
+    ? 'You can reply to this email directly, or respond in the portal.'
+    : 'Please respond in the portal - replies to this email are not monitored.';
+}
+
+const notificationSettingsNote = (settingsUrl: string) =>
+  `<p style="color: #6b7280; font-size: 12px;">You can change which notifications are emailed to you in your <a href="${e(settingsUrl)}">profile</a>.</p>`;
+
+const notification = defineTemplate<{
+  firstName: string | null;
+  title: string;
+  message: string;
+  portalUrl: string;
+  settingsUrl: string;
+}>({
+  description: 'A single notification, for event types set to immediate email.',
+  variables: {
+    firstName: "Recipient's first name",
+    title: 'Notification title',
+    message: 'Notification text',
+    portalUrl: 'Link to the portal',
+    settingsUrl: 'Link to the notification preferences',
+  },
+  sample: {
+    firstName: 'Jane',
+    title: 'Ticket resolved',
+    message: 'Your support ticket TKT-24-0012 has been marked as resolved.',
+    portalUrl: 'https://portal.example.com/dashboard',
+    settingsUrl: 'https://portal.example.com/profile',
+  },
+  versions: [{
+    version: 1,
+    subject: ({ title }) => `SEMI Program - ${title}`,
+    html: (v) => layout(`
+      ${paragraph(`Hi ${e(greeting(v.firstName))},`)}
+      ${quote(`<strong>${e(v.title)}</strong><br>${multiline(v.message)}`)}
+      ${button(v.portalUrl, 'Open the Portal')}
+      ${notificationSettingsNote(v.settingsUrl)}
+    `),
+    text: (v) => [
+      `Hi ${greeting(v.firstName)},`,
+      '',
+      v.title,
+      v.message,
+      '',
+      v.portalUrl,
+      '',
+      `You can change which notifications are emailed to you in your profile: ${v.settingsUrl}`,
+    ].join('\n'),
+  }],
+});
+
+const notificationDigest = defineTemplate<{
+  firstName: string | null;
+  notifications: { title: string; message: string; createdAt: string }[];
+  portalUrl: string;
+  settingsUrl: string;
+}>({
+  description: 'Daily roll-up of unread notifications for event types set to daily digest.',
+  variables: {
+    firstName: "Recipient's first name",
+    notifications: 'Unread notifications, each with title, message and createdAt',
+    portalUrl: 'Link to the portal',
+    settingsUrl: 'Link to the notification preferences',
+  },
+  sample: {
+    firstName: 'Jane',
+    notifications: [
+      { title: 'Review SLA approaching', message: 'APP-0042 - Energy Assessment must be reviewed by Friday.', createdAt: 'Mar 4, 2024, 9:15 a.m.' },
+      { title: 'Ticket resolved', message: 'Your support ticket TKT-24-0012 has been marked as resolved.', createdAt: 'Mar 4, 2024, 2:40 p.m.' },
+    ],
+    portalUrl: 'https://portal.example.com/dashboard',
+    settingsUrl: 'https://portal.example.com/profile',
+  },
+  versions: [{
+    version: 1,
+    subject: ({ notifications }) => `SEMI Program - ${notifications.length} unread notification${notifications.length === 1 ? '' : 's'}`,
+    html: (v) => layout(`
+      ${paragraph(`Hi ${e(greeting(v.firstName))},`)}
+      ${paragraph(`You have <strong>${v.notifications.length}</strong> unread notification${v.notifications.length === 1 ? '' : 's'} in the SEMI Program portal:`)}
+      ${v.notifications.map(item => quote(`
+        <strong>${e(item.title)}</strong>
+        <span style="color: #9ca3af; font-size: 12px;"> &middot; ${e(item.createdAt)}</span><br>
+        ${multiline(item.message)}
+      `)).join('')}
+      ${button(v.portalUrl, 'Open the Portal')}
+      ${notificationSettingsNote(v.settingsUrl)}
+    `),
+    text: (v) => [
+      `Hi ${greeting(v.firstName)},`,
+      '',
+      `You have ${v.notifications.length} unread notification${v.notifications.length === 1 ? '' : 's'} in the SEMI Program portal:`,
+      '',
+      ...v.notifications.map(item => `- ${item.title} (${item.createdAt})\n  ${item.message}`),
+      '',
+      v.portalUrl,
+      '',
+      `You can change which notifications are emailed to you in your profile: ${v.settingsUrl}`,
+    ].join('\n'),
+  }],
+});
+
+const newLoginAlert = defineTemplate<{ firstName: string | null; loginTime: string; ipAddress: string; device: string; securityUrl: string }>({
+  description: 'Security alert for a sign-in from a device or IP address not used by the account before.',
+  variables: {
+    firstName: "User's first name",
+    loginTime: 'When the sign-in happened',
+    ipAddress: 'IP address the sign-in came from',
+    device: 'Browser and operating system reported by the device',
+    securityUrl: 'Link to the security settings page',
+  },
+  sample: {
+    firstName: 'Jane',
+    loginTime: 'Mar 4, 2025 9:12 AM',
+    ipAddress: '203.0.113.24',
+    device: 'Chrome on Windows',
+    securityUrl: 'https://portal.example.com/security',
+  },
+  versions: [{
+    version: 1,
+    subject: () => 'SEMI Program - New sign-in to your account',
+    html: ({ firstName, loginTime, ipAddress, device, securityUrl }) => layout(`
+      ${heading('New Sign-in Detected')}
+      ${paragraph(`Hi ${e(greeting(firstName))},`)}
+      ${paragraph('Your SEMI Program account was just signed in to from a device or location we have not seen before.')}
+      ${callout(`
+        <strong>Time:</strong> ${e(loginTime)}<br>
+        <strong>IP address:</strong> ${e(ipAddress)}<br>
+        <strong>Device:</strong> ${e(device)}
+      `)}
+      ${paragraph('If this was you, there is nothing else to do.')}
+      ${callout("<strong>Don't recognize this sign-in?</strong> Change your password right away and turn on two-factor authentication.", 'warning')}
+      ${button(securityUrl, 'Review Security Settings')}
+    `),
+  }],
+});
+
+// ----------------------------------------------------------------------------
+// Registry
+// ----------------------------------------------------------------------------
+
+export const EMAIL_TEMPLATES = {
+  password_reset: passwordReset,
+  temporary_password: temporaryPassword,
+  account_created: accountCreated,
+  team_invitation: teamInvitation,
+  contractor_team_invitation: contractorTeamInvitation,
+  team_member_pending: teamMemberPending,
+  email_verification: emailVerification,
+  ticket_reply: ticketReply,
+  notification,
+  notification_digest: notificationDigest,
+  new_login_alert: newLoginAlert,
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+export type EmailTemplateVariables<N extends EmailTemplateName> =
+  N extends EmailTemplateName ? (typeof EMAIL_TEMPLATES[N] extends EmailTemplate<infer V> ? V : never) : never;
+
+export function isEmailTemplateName(value: string): value is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, value);
+}
+
+// The registry as a mapping TypeScript can index with a generic name
+const TEMPLATES_BY_NAME: { [N in EmailTemplateName]: EmailTemplate<EmailTemplateVariables<N>> } = EMAIL_TEMPLATES;
+
+function getTemplate<N extends EmailTemplateName>(name: N): EmailTemplate<EmailTemplateVariables<N>> {
+  return TEMPLATES_BY_NAME[name];
+}
+
+function getLatestVersion<V>(template: EmailTemplate<V>): EmailTemplateVersion<V> {
+  return template.versions.reduce((latest, candidate) => candidate.version > latest.version ? candidate : latest);
+}
+
+// Renders the latest version of a template, or a specific one for the admin preview.
+// Returns null when the requested version does not exist.
+export function renderEmailTemplate<N extends EmailTemplateName>(
+  name: N,
+  variables: EmailTemplateVariables<N>,
+  version?: number
+): RenderedEmail | null {
+  const template = getTemplate(name);
+  const selected = version === undefined
+    ? getLatestVersion(template)
+    : template.versions.find(candidate => candidate.version === version);
+  if (!selected) return null;
+
+  const html = selected.html(variables);
+  return {
+    subject: selected.subject(variables),
+    html,
+    text: selected.text ? selected.text(variables) : htmlToPlainText(html),
+    template: { name, version: selected.version },
+  };
+}
+
+// Summary of every template for the admin preview page
+export function listEmailTemplates() {
+  return (Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[]).map(name => {
+    const template = getTemplate(name);
+    return {
+      name,
+      description: template.description,
+      variables: template.variables,
+      versions: template.versions.map(version => ({ version: version.version, hasTextVersion: !!version.text })),
+      latestVersion: getLatestVersion(template).version,
+    };
+  });
+}
+
+// Renders a template with its sample variables
+export function renderEmailTemplatePreview(name: EmailTemplateName, version?: number): RenderedEmail | null {
+  return renderEmailTemplate(name, getTemplate(name).sample, version);
+}
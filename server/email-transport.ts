@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import { MailService } from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+
+// ============================================================================
+// EMAIL TRANSPORT - where rendered emails are delivered
+// ============================================================================
+// EMAIL_TRANSPORT picks the transport: "sendgrid", "smtp" or "outbox". When unset it is
+// inferred - SendGrid if SENDGRID_API_KEY is set, SMTP if SMTP_HOST is set, otherwise the
+// local outbox outside production. The outbox writes each email to EMAIL_OUTBOX_DIR
+// (default .email-outbox) as JSON plus an .html file, so development needs no network.
+
+export interface OutgoingEmail {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  template?: { name: string; version: number };
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export const EMAIL_TRANSPORT_NAMES = ["sendgrid", "smtp", "outbox"] as const;
+export type EmailTransportName = typeof EMAIL_TRANSPORT_NAMES[number];
+
+class SendGridTransport implements EmailTransport {
+  readonly name = "sendgrid" as const;
+  private mailService = new MailService();
+
+  constructor(apiKey: string) {
+    this.mailService.setApiKey(apiKey);
+  }
+
+  async send(email: OutgoingEmail) {
+    await this.mailService.send({
+      to: email.to,
+      from: email.from,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      replyTo: email.replyTo,
+    });
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  readonly name = "smtp" as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor(host: string) {
+    const port = parseInt(process.env.SMTP_PORT || "", 10) || 587;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail) {
+    await this.transporter.sendMail({
+      to: email.to,
+      from: email.from,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      replyTo: email.replyTo,
+    });
+  }
+}
+
+class OutboxTransport implements EmailTransport {
+  readonly name = "outbox" as const;
+
+  constructor(private directory: string) {}
+
+  async send(email: OutgoingEmail) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const recipient = email.to.replace(/[^a-z0-9@._-]/gi, "_");
+    const basename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${recipient}`;
+
+    await fs.promises.writeFile(
+      path.join(this.directory, `${basename}.json`),
+      JSON.stringify({ ...email, sentAt: new Date().toISOString() }, null, 2)
+    );
+    if (email.html) {
+      await fs.promises.writeFile(path.join(this.directory, `${basename}.html`), email.html);
+    }
+    console.log(`[EMAIL OUTBOX] "${email.subject}" to ${email.to} -> ${path.join(this.directory, basename)}.json`);
+  }
+}
+
+function resolveTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT?.toLowerCase();
+  if (configured) {
+    if (!(EMAIL_TRANSPORT_NAMES as readonly string[]).includes(configured)) {
+      throw new Error(`EMAIL_TRANSPORT must be one of ${EMAIL_TRANSPORT_NAMES.join(", ")} (got "${configured}")`);
+    }
+    return configured as EmailTransportName;
+  }
+  if (process.env.SENDGRID_API_KEY) return "sendgrid";
+  if (process.env.SMTP_HOST) return "smtp";
+  if (process.env.NODE_ENV !== "production") return "outbox";
+  throw new Error("No email transport configured: set SENDGRID_API_KEY, SMTP_HOST or EMAIL_TRANSPORT");
+}
+
+export function createEmailTransport(name: EmailTransportName = resolveTransportName()): EmailTransport {
+  switch (name) {
+    case "sendgrid":
+      if (!process.env.SENDGRID_API_KEY) throw new Error("SENDGRID_API_KEY environment variable must be set");
+      return new SendGridTransport(process.env.SENDGRID_API_KEY);
+    case "smtp":
+      if (!process.env.SMTP_HOST) throw new Error("SMTP_HOST environment variable must be set");
+      return new SmtpTransport(process.env.SMTP_HOST);
+    case "outbox":
+      return new OutboxTransport(path.resolve(process.env.EMAIL_OUTBOX_DIR || ".email-outbox"));
+  }
+}
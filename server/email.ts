@@ -0,0 +1,197 @@
+import { createEmailTransport } from './email-transport';
+import {
+  renderEmailTemplate,
+  REPLY_ABOVE_MARKER,
+  type EmailTemplateName,
+  type EmailTemplateVariables,
+} from './email-templates';
+
+export { REPLY_ABOVE_MARKER };
+
+// Resolved at startup so a production deploy without a configured transport fails fast
+const transport = createEmailTransport();
+console.log(`[EMAIL] Using ${transport.name} transport`);
+
+const DEFAULT_FROM = process.env.EMAIL_FROM || process.env.SENDGRID_FROM_EMAIL || 'donotreply@enerva.ca';
+
+// Base URL for links in emails
+export function getAppBaseUrl(): string {
+  if (process.env.FRONTEND_URL) return process.env.FRONTEND_URL;
+  if (process.env.REPLIT_DEV_DOMAIN) return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  if (process.env.REPL_SLUG && process.env.REPL_OWNER) return `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.replit.app`;
+  // Generic production environment - use Render deployment URL
+  if (process.env.NODE_ENV === 'production') return 'https://semi-portal.onrender.com';
+  return 'http://localhost:5000';
+}
+
+// Renders the latest version of a template and hands it to the configured transport.
+// Failures are logged and reported as false so callers can decide whether they matter.
+export async function sendTemplatedEmail<N extends EmailTemplateName>(
+  name: N,
+  to: string,
+  variables: EmailTemplateVariables<N>,
+  options: { replyTo?: string } = {}
+): Promise<boolean> {
+  try {
+    const rendered = renderEmailTemplate(name, variables);
+    if (!rendered) {
+      console.error(`[EMAIL] Template ${name} has no version to send`);
+      return false;
+    }
+    await transport.send({
+      to,
+      from: DEFAULT_FROM,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+      replyTo: options.replyTo,
+      template: rendered.template,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[EMAIL] Failed to send ${name} email via ${transport.name}:`, error);
+    return false;
+  }
+}
+
+export async function sendPasswordResetEmail(email: string, resetToken: string): Promise<boolean> {
+  return sendTemplatedEmail('password_reset', email, {
+    resetUrl: `${getAppBaseUrl()}/reset-password?token=${resetToken}`,
+  });
+}
+
+export async function sendTemporaryPasswordEmail(email: string, tempPassword: string): Promise<boolean> {
+  return sendTemplatedEmail('temporary_password', email, {
+    tempPassword,
+    loginUrl: `${getAppBaseUrl()}/auth`,
+  });
+}
+
+export async function sendAccountCreatedEmail(email: string, tempPassword: string): Promise<boolean> {
+  return sendTemplatedEmail('account_created', email, {
+    email,
+    tempPassword,
+    loginUrl: `${getAppBaseUrl()}/auth`,
+  });
+}
+
+export async function sendTeamInvitationEmail(params: {
+  to: string;
+  firstName: string;
+  inviterName: string;
+  acceptUrl: string;
+}): Promise<boolean> {
+  const { to, ...variables } = params;
+  return sendTemplatedEmail('team_invitation', to, variables);
+}
+
+interface ContractorTeamInvitationParams {
+  to: string;
+  invitedBy: string;
+  invitedByEmail: string;
+  contractorCompany: string;
+  firstName: string;
+  lastName: string;
+  permissionLevel: string;
+  invitationToken: string;
+  customMessage?: string;
+}
+
+export async function sendContractorTeamInvitationEmail(params: ContractorTeamInvitationParams): Promise<boolean> {
+  return sendTemplatedEmail('contractor_team_invitation', params.to, {
+    to: params.to,
+    firstName: params.firstName,
+    invitedBy: params.invitedBy,
+    invitedByEmail: params.invitedByEmail,
+    contractorCompany: params.contractorCompany,
+    permissionLevel: params.permissionLevel,
+    acceptUrl: `${getAppBaseUrl()}/accept-contractor-invite/${params.invitationToken}`,
+    customMessage: params.customMessage,
+  });
+}
+
+export async function sendTeamMemberPendingEmail(email: string, firstName: string, companyName: string): Promise<boolean> {
+  return sendTemplatedEmail('team_member_pending', email, { firstName, companyName });
+}
+
+export async function sendEmailVerificationEmail(email: string, firstName: string, verificationCode: string): Promise<boolean> {
+  return sendTemplatedEmail('email_verification', email, { firstName, verificationCode });
+}
+
+export async function sendTicketReplyEmail(params: {
+  to: string;
+  firstName: string | null;
+  ticketNumber: string;
+  subject: string;
+  message: string;
+  replyTo?: string;
+}): Promise<boolean> {
+  return sendTemplatedEmail('ticket_reply', params.to, {
+    firstName: params.firstName,
+    ticketNumber: params.ticketNumber,
+    subject: params.subject,
+    message: params.message,
+    replyByEmail: !!params.replyTo,
+    ticketUrl: `${getAppBaseUrl()}/messages`,
+  }, { replyTo: params.replyTo });
+}
+
+interface NotificationEmailItem {
+  title: string;
+  message: string;
+  createdAt: Date | null;
+}
+
+const formatNotificationDate = (date: Date | null) =>
+  date ? date.toLocaleString('en-CA', { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+// A single notification, sent right away to users who chose immediate email for its event type
+export async function sendNotificationEmail(params: {
+  to: string;
+  firstName: string | null;
+  notification: NotificationEmailItem;
+}): Promise<boolean> {
+  const baseUrl = getAppBaseUrl();
+  return sendTemplatedEmail('notification', params.to, {
+    firstName: params.firstName,
+    title: params.notification.title,
+    message: params.notification.message,
+    portalUrl: `${baseUrl}/dashboard`,
+    settingsUrl: `${baseUrl}/profile`,
+  });
+}
+
+// Daily roll-up of a user's unread notifications for event types set to "daily digest"
+export async function sendNotificationDigestEmail(params: {
+  to: string;
+  firstName: string | null;
+  notifications: NotificationEmailItem[];
+}): Promise<boolean> {
+  const baseUrl = getAppBaseUrl();
+  return sendTemplatedEmail('notification_digest', params.to, {
+    firstName: params.firstName,
+    notifications: params.notifications.map(item => ({
+      title: item.title,
+      message: item.message,
+      createdAt: formatNotificationDate(item.createdAt),
+    })),
+    portalUrl: `${baseUrl}/dashboard`,
+    settingsUrl: `${baseUrl}/profile`,
+  });
+}
+
+export async function sendNewLoginAlertEmail(params: {
+  to: string;
+  firstName: string | null;
+  loginTime: Date;
+  ipAddress: string;
+  device: string;
+}): Promise<boolean> {
+  return sendTemplatedEmail('new_login_alert', params.to, {
+    firstName: params.firstName,
+    loginTime: formatNotificationDate(params.loginTime),
+    ipAddress: params.ipAddress,
+    device: params.device,
+    securityUrl: `${getAppBaseUrl()}/security`,
+  });
+}
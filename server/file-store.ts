@@ -0,0 +1,404 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl as getS3SignedUrl } from '@aws-sdk/s3-request-presigner';
+import { MAX_UPLOAD_SIZE_MB } from '@shared/upload-limits';
+
+// ============================================================================
+// FILE STORE - where uploaded files live
+// ============================================================================
+// FILE_STORE_DRIVER picks the backend: "supabase", "s3" (any S3-compatible service) or
+// "local". When unset it is inferred - Supabase if SUPABASE_URL is set, S3 if S3_BUCKET is
+// set, otherwise the local disk under FILE_STORE_LOCAL_DIR (default storage/). That directory
+// is private - unlike uploads/, which is served statically for legacy files.
+//
+// Keys are the relative paths stored in documents.file_path, e.g. applications/12/files-1712-42.pdf.
+// Documents uploaded before Supabase stored a disk path (uploads/... or absolute); those are
+// always read from the local disk. server/scripts/migrate-file-store.ts copies objects
+// between backends.
+
+export const FILE_STORE_DRIVERS = ['supabase', 's3', 'local'] as const;
+export type FileStoreDriver = typeof FILE_STORE_DRIVERS[number];
+
+export interface StoredObject {
+  body: Readable;
+  contentType?: string;
+  size?: number;
+}
+
+// A stream body must come with its size (S3 needs the length up front)
+export interface PutOptions {
+  contentType?: string;
+  size?: number;
+}
+
+export interface FileStore {
+  readonly driver: FileStoreDriver;
+  put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<StoredObject>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // Time-limited URL the browser can fetch directly
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  list(prefix?: string): AsyncIterable<string>;
+}
+
+export class FileNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`File not found: ${key}`);
+    this.name = 'FileNotFoundError';
+  }
+}
+
+const DEFAULT_SIGNED_URL_SECONDS = 60 * 60;
+
+async function collect(body: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+// ----------------------------------------------------------------------------
+// Supabase Storage
+// ----------------------------------------------------------------------------
+
+class SupabaseFileStore implements FileStore {
+  readonly driver = 'supabase' as const;
+  private client: SupabaseClient;
+  private bucketReady: Promise<void> | null = null;
+
+  constructor(url: string, serviceKey: string, private bucketName: string) {
+    this.client = createClient(url, serviceKey);
+  }
+
+  private get bucket() {
+    return this.client.storage.from(this.bucketName);
+  }
+
+  private ensureBucketExists(): Promise<void> {
+    this.bucketReady ??= (async () => {
+      const { data: buckets } = await this.client.storage.listBuckets();
+      if (buckets?.some(bucket => bucket.name === this.bucketName)) return;
+
+      const { error } = await this.client.storage.createBucket(this.bucketName, {
+        public: false, // Files are private by default
+        allowedMimeTypes: [
+          'image/*',
+          'application/pdf',
+          'application/msword',
+          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          'application/vnd.ms-excel',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'text/csv',
+          'text/plain',
+        ],
+        fileSizeLimit: MAX_UPLOAD_SIZE_MB * 1024 * 1024, // Largest per-activity upload ceiling
+      });
+      if (error) throw error;
+      console.log(`[FILE STORE] Created Supabase bucket: ${this.bucketName}`);
+    })().catch(error => {
+      this.bucketReady = null;
+      throw error;
+    });
+    return this.bucketReady;
+  }
+
+  // Supabase uploads take a whole body, so streams are collected first
+  async put(key: string, body: Buffer | Readable, options: PutOptions = {}) {
+    await this.ensureBucketExists();
+    const { error } = await this.bucket.upload(key, Buffer.isBuffer(body) ? body : await collect(body), {
+      contentType: options.contentType,
+      cacheControl: '3600',
+      upsert: true,
+    });
+    if (error) throw error;
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const { data, error } = await this.bucket.download(key);
+    if (error || !data) throw new FileNotFoundError(key);
+    const buffer = Buffer.from(await data.arrayBuffer());
+    return { body: Readable.from(buffer), contentType: data.type || undefined, size: buffer.length };
+  }
+
+  async exists(key: string) {
+    const directory = path.posix.dirname(key);
+    const { data } = await this.bucket.list(directory === '.' ? '' : directory, { search: path.posix.basename(key) });
+    return !!data?.some(entry => entry.name === path.posix.basename(key));
+  }
+
+  async delete(key: string) {
+    const { error } = await this.bucket.remove([key]);
+    if (error) throw error;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_SECONDS) {
+    const { data, error } = await this.bucket.createSignedUrl(key, expiresInSeconds);
+    if (error) throw error;
+    return data.signedUrl;
+  }
+
+  // Supabase lists one folder at a time; entries without an id are sub-folders
+  async *list(prefix = ''): AsyncIterable<string> {
+    const pageSize = 1000;
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.bucket.list(prefix.replace(/\/$/, ''), { limit: pageSize, offset });
+      if (error) throw error;
+      for (const entry of data) {
+        const key = prefix ? `${prefix.replace(/\/$/, '')}/${entry.name}` : entry.name;
+        if (entry.id) {
+          yield key;
+        } else {
+          yield* this.list(key);
+        }
+      }
+      if (data.length < pageSize) return;
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// S3-compatible object storage (AWS S3, MinIO, R2, ...)
+// ----------------------------------------------------------------------------
+
+class S3FileStore implements FileStore {
+  readonly driver = 's3' as const;
+  private client: S3Client;
+
+  constructor(private bucketName: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '' }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutOptions = {}) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ContentLength: Buffer.isBuffer(body) ? body.length : options.size,
+    }));
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return {
+        body: response.Body as Readable,
+        contentType: response.ContentType,
+        size: response.ContentLength,
+      };
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey') throw new FileNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_SECONDS) {
+    return getS3SignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucketName, Key: key }), { expiresIn: expiresInSeconds });
+  }
+
+  async *list(prefix = ''): AsyncIterable<string> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents || []) {
+        if (object.Key) yield object.Key;
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Local disk
+// ----------------------------------------------------------------------------
+
+function getSigningSecret(): string {
+  return process.env.FILE_STORE_SIGNING_SECRET || process.env.SESSION_SECRET || 'dev-secret-key-change-in-production';
+}
+
+const signLocalFile = (key: string, expires: number) =>
+  createHmac('sha256', getSigningSecret()).update(`${key}:${expires}`).digest('hex');
+
+// Checks a /api/files/signed link issued by LocalFileStore.getSignedUrl()
+export function verifyLocalFileSignature(key: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+  const expected = Buffer.from(signLocalFile(key, expires));
+  const supplied = Buffer.from(signature);
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+class LocalFileStore implements FileStore {
+  readonly driver = 'local' as const;
+
+  constructor(private root: string) {}
+
+  // Keys are relative paths; anything resolving outside the root is rejected
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    const relative = path.relative(this.root, resolved);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new FileNotFoundError(key);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer | Readable) {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+      return;
+    }
+    try {
+      await pipeline(body, fs.createWriteStream(filePath));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (!stats?.isFile()) throw new FileNotFoundError(key);
+    return { body: fs.createReadStream(filePath), size: stats.size };
+  }
+
+  async exists(key: string) {
+    const stats = await fs.promises.stat(this.resolve(key)).catch(() => null);
+    return !!stats?.isFile();
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Served by GET /api/files/signed, which checks the signature before streaming
+  async getSignedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_SECONDS) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({ key, expires: String(expires), signature: signLocalFile(key, expires) });
+    return `/api/files/signed?${params}`;
+  }
+
+  async *list(prefix = ''): AsyncIterable<string> {
+    const walk = async function* (directory: string, relative: string): AsyncIterable<string> {
+      const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const key = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          yield* walk(path.join(directory, entry.name), key);
+        } else if (entry.isFile()) {
+          yield key;
+        }
+      }
+    };
+    for await (const key of walk(this.root, '')) {
+      if (key.startsWith(prefix)) yield key;
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Configuration
+// ----------------------------------------------------------------------------
+
+function resolveDriver(): FileStoreDriver {
+  const configured = process.env.FILE_STORE_DRIVER?.toLowerCase();
+  if (configured) {
+    if (!(FILE_STORE_DRIVERS as readonly string[]).includes(configured)) {
+      throw new Error(`FILE_STORE_DRIVER must be one of ${FILE_STORE_DRIVERS.join(', ')} (got "${configured}")`);
+    }
+    return configured as FileStoreDriver;
+  }
+  if (process.env.SUPABASE_URL) return 'supabase';
+  if (process.env.S3_BUCKET) return 's3';
+  return 'local';
+}
+
+export function createFileStore(driver: FileStoreDriver = resolveDriver()): FileStore {
+  switch (driver) {
+    case 'supabase': {
+      const url = process.env.SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY; // Service role key for server-side operations
+      if (!url || !serviceKey) {
+        throw new Error('Missing Supabase credentials. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in your environment variables.');
+      }
+      return new SupabaseFileStore(url, serviceKey, process.env.SUPABASE_BUCKET || 'user-uploads');
+    }
+    case 's3':
+      if (!process.env.S3_BUCKET) throw new Error('S3_BUCKET environment variable must be set');
+      return new S3FileStore(process.env.S3_BUCKET);
+    case 'local':
+      return new LocalFileStore(path.resolve(process.env.FILE_STORE_LOCAL_DIR || 'storage'));
+  }
+}
+
+export const fileStore = createFileStore();
+console.log(`[FILE STORE] Using ${fileStore.driver} driver`);
+
+// Pre-Supabase documents stored a disk path, relative to the working directory or absolute
+const diskRoot = path.parse(process.cwd()).root;
+const legacyDiskStore = new LocalFileStore(diskRoot);
+
+export const isLegacyDiskPath = (filePath: string) => filePath.startsWith('uploads/') || path.isAbsolute(filePath);
+
+// Store holding a documents.file_path value, with the key to use in it
+export function locateFile(filePath: string): { store: FileStore; key: string } {
+  if (!isLegacyDiskPath(filePath)) return { store: fileStore, key: filePath };
+  return { store: legacyDiskStore, key: path.relative(diskRoot, path.resolve(filePath)) };
+}
+
+// A unique key in folderPath for an uploaded file
+export function newUploadKey(file: { fieldname: string; originalname: string }, folderPath = ''): string {
+  const timestamp = Date.now();
+  const random = Math.round(Math.random() * 1E9);
+  const extension = path.extname(file.originalname);
+  const uniqueFilename = `${file.fieldname}-${timestamp}-${random}${extension}`;
+  return folderPath ? `${folderPath}/${uniqueFilename}` : uniqueFilename;
+}
+
+// Saves a multer upload under a unique name in folderPath and returns its key
+export async function storeUpload(file: Express.Multer.File, folderPath = ''): Promise<string> {
+  const key = newUploadKey(file, folderPath);
+
+  await fileStore.put(key, file.buffer, { contentType: file.mimetype });
+  console.log(`[FILE STORE] Stored ${file.originalname} as ${key} (${fileStore.driver})`);
+  return key;
+}
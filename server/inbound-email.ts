@@ -0,0 +1,306 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { saveDocumentUpload } from "./upload-pipeline";
+import { sendTicketReplyEmail, REPLY_ABOVE_MARKER } from "./email";
+import type { Message, User } from "@shared/schema";
+
+// ============================================================================
+// INBOUND EMAIL - replies to ticket emails, posted by SendGrid Inbound Parse
+// ============================================================================
+// Ticket emails go out with a Reply-To of reply+<ticket number>.<signature>@INBOUND_EMAIL_DOMAIN.
+// The signature is an HMAC of the ticket number and the recipient's user id, so a reply is
+// only accepted from the user the address was issued to. Mail without a valid token falls
+// back to a ticket number in the subject or address, which is only accepted from ticket
+// participants and admins, and only when the envelope sender is exactly the From address and
+// SendGrid's DKIM or SPF check passed for it - the From header alone is trivially forged.
+//
+// Set INBOUND_EMAIL_RECORD_DIR to save every post as JSON; server/scripts/replay-inbound-email.ts
+// replays those recordings (or the bundled fixtures) against a local server.
+
+// Multipart fields SendGrid posts (attachments arrive as files attachment1..N)
+export interface InboundEmailFields {
+  to?: string;
+  cc?: string;
+  from?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  envelope?: string; // JSON: { to: string[], from: string }
+  SPF?: string; // "pass", "fail", "softfail", ...
+  dkim?: string; // e.g. "{@example.com : pass}", one entry per signature
+}
+
+export type InboundEmailResult =
+  | { status: "created"; message: Message; ticketNumber: string; matchedBy: "token" | "ticket_number"; attachmentCount: number }
+  | { status: "ignored"; reason: string };
+
+// Recorded payload format, shared with the replay script
+export interface RecordedInboundEmail {
+  fields: Record<string, string>;
+  attachments: { fieldname: string; originalname: string; mimetype: string; contentBase64: string }[];
+}
+
+const TICKET_NUMBER_PATTERN = /\b(TKT-\d{2}-\d+)\b/i;
+const REPLY_ADDRESS_PATTERN = /reply\+(tkt-\d{2}-\d+)\.([0-9a-f]{16})@/gi;
+
+function getReplySecret(): string {
+  return process.env.INBOUND_EMAIL_SECRET || process.env.SESSION_SECRET || "dev-secret-key-change-in-production";
+}
+
+export function signReplyToken(ticketNumber: string, userId: string): string {
+  return createHmac("sha256", getReplySecret())
+    .update(`${ticketNumber.toUpperCase()}:${userId}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Reply-To address for a ticket email; undefined when inbound mail is not configured
+export function getReplyToAddress(ticketNumber: string, userId: string): string | undefined {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN;
+  if (!domain) return undefined;
+  return `reply+${ticketNumber.toLowerCase()}.${signReplyToken(ticketNumber, userId)}@${domain}`;
+}
+
+function isValidToken(ticketNumber: string, userId: string, signature: string): boolean {
+  const expected = Buffer.from(signReplyToken(ticketNumber, userId));
+  const supplied = Buffer.from(signature.toLowerCase());
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+// "Jane Doe <jane@example.com>" -> "jane@example.com"
+export function parseEmailAddress(value: string | undefined): string | null {
+  if (!value) return null;
+  const bracketed = /<([^>]+)>/.exec(value);
+  const address = (bracketed ? bracketed[1] : value).trim().toLowerCase();
+  return address.includes("@") ? address : null;
+}
+
+const domainOf = (address: string | null | undefined) => address?.split("@")[1]?.toLowerCase() ?? "";
+
+// Whether the sender is who the From header claims: the SMTP envelope sender must be exactly the
+// From address, and a check aligned with the From domain (DMARC-style) must pass - a DKIM signature
+// from that domain, or SPF for the envelope sender. Domain checks alone are not enough on shared
+// domains (gmail.com, a tenant's Office 365 domain), where any user could claim another's address.
+function isSenderAuthenticated(fields: InboundEmailFields, senderEmail: string): boolean {
+  let envelopeFrom: string | null = null;
+  try {
+    envelopeFrom = parseEmailAddress(fields.envelope ? String(JSON.parse(fields.envelope).from || "") : undefined);
+  } catch {
+    return false;
+  }
+  if (!envelopeFrom || envelopeFrom !== senderEmail.toLowerCase()) return false;
+
+  const domain = domainOf(senderEmail);
+  const dkimPass = Array.from((fields.dkim || "").matchAll(/@([^\s:{},]+)\s*:\s*pass\b/gi))
+    .some(match => match[1].toLowerCase() === domain);
+  return dkimPass || fields.SPF?.trim().toLowerCase() === "pass";
+}
+
+function getRecipients(fields: InboundEmailFields): string {
+  let envelopeTo = "";
+  if (fields.envelope) {
+    try {
+      const envelope = JSON.parse(fields.envelope);
+      envelopeTo = Array.isArray(envelope.to) ? envelope.to.join(", ") : String(envelope.to || "");
+    } catch {
+      // Malformed envelope - the To and Cc headers are still checked
+    }
+  }
+  return [fields.to, fields.cc, envelopeTo].filter(Boolean).join(", ");
+}
+
+const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h\d)>/gi, "\n")
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+// Lines that start the quoted original in common mail clients
+const QUOTE_SEPARATORS = [
+  new RegExp(`^-*\\s*${REPLY_ABOVE_MARKER}`, "i"),
+  /^On\s.+wrote:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^From:\s.+/i,
+];
+
+const isSignatureDelimiter = (line: string) => line === "-- " || line === "--";
+
+// Keeps only the new text of a reply: everything before the first quote separator, minus
+// ">"-quoted lines. Gmail wraps "On <date>, <name> wrote:" over two lines, so pairs are checked too.
+export function extractReplyText(text: string | undefined, html: string | undefined): string {
+  const source = (text?.trim() ? text : html ? htmlToText(html) : "").replace(/\r\n?/g, "\n");
+  const lines = source.split("\n");
+  const kept: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    const joined = `${trimmed} ${lines[index + 1]?.trim() ?? ""}`;
+    if (isSignatureDelimiter(line) || QUOTE_SEPARATORS.some(pattern => pattern.test(trimmed) || pattern.test(joined))) {
+      break;
+    }
+    if (line.trimStart().startsWith(">")) continue;
+    kept.push(line);
+  }
+
+  return kept.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Notifies the requester of an admin reply. With the admin_reply preference on immediate
+// email, the reply itself is emailed with a signed Reply-To, so answering the email lands
+// back on the ticket.
+export async function notifyTicketReply(message: Message): Promise<void> {
+  if (!message.isAdminMessage || !message.toUserId || !message.ticketNumber) return;
+  const recipient = await storage.getUser(message.toUserId);
+  if (!recipient) return;
+
+  const ticket = await storage.getSupportTicket(message.ticketNumber);
+  const notification = await storage.createNotification({
+    userId: recipient.id,
+    title: `Support replied to ${message.ticketNumber}`,
+    message: ticket?.subject || message.subject.replace(/^Re:\s*/, ""),
+    type: "admin_reply",
+    applicationId: message.applicationId,
+    messageId: message.id,
+  }, { immediateEmail: false });
+  if (notification?.deliveryChannel !== "email" || !recipient.email) return;
+
+  const sent = await sendTicketReplyEmail({
+    to: recipient.email,
+    firstName: recipient.firstName,
+    ticketNumber: message.ticketNumber,
+    subject: ticket?.subject || message.subject.replace(/^Re:\s*/, ""),
+    message: message.message,
+    replyTo: getReplyToAddress(message.ticketNumber, recipient.id),
+  });
+  if (sent) await storage.markNotificationsEmailed([notification.id]);
+}
+
+async function matchTicket(fields: InboundEmailFields, sender: User): Promise<{ ticketNumber: string; matchedBy: "token" | "ticket_number" } | null> {
+  const recipients = getRecipients(fields);
+
+  for (const match of Array.from(recipients.matchAll(REPLY_ADDRESS_PATTERN))) {
+    const ticketNumber = match[1].toUpperCase();
+    if (isValidToken(ticketNumber, sender.id, match[2])) {
+      return { ticketNumber, matchedBy: "token" };
+    }
+  }
+
+  // Without a token, the sender is only who the From header claims if the envelope and SPF or DKIM agree
+  if (!isSenderAuthenticated(fields, sender.email || "")) return null;
+
+  const numberMatch = TICKET_NUMBER_PATTERN.exec(fields.subject || "") || TICKET_NUMBER_PATTERN.exec(recipients);
+  if (!numberMatch) return null;
+
+  const ticketNumber = numberMatch[1].toUpperCase();
+  if (sender.role === "system_admin") return { ticketNumber, matchedBy: "ticket_number" };
+  const participants = await storage.getTicketParticipantIds(ticketNumber);
+  return participants.includes(sender.id) ? { ticketNumber, matchedBy: "ticket_number" } : null;
+}
+
+// Appends an inbound email to its ticket thread. Mail that cannot be matched is ignored
+// rather than rejected, so the provider does not keep retrying it.
+export async function processInboundEmail(
+  fields: InboundEmailFields,
+  attachments: Express.Multer.File[] = []
+): Promise<InboundEmailResult> {
+  const senderEmail = parseEmailAddress(fields.from);
+  const sender = senderEmail ? await storage.getUserByEmail(senderEmail) : undefined;
+  if (!sender || sender.isActive === false) {
+    return { status: "ignored", reason: "unknown_sender" };
+  }
+
+  const match = await matchTicket(fields, sender);
+  if (!match) return { status: "ignored", reason: "no_matching_ticket" };
+
+  const ticket = await storage.getSupportTicket(match.ticketNumber);
+  if (!ticket) return { status: "ignored", reason: "no_matching_ticket" };
+
+  const body = extractReplyText(fields.text, fields.html);
+  if (!body && attachments.length === 0) return { status: "ignored", reason: "empty_body" };
+
+  const isAdmin = sender.role === "system_admin";
+  const message = await storage.createMessage({
+    fromUserId: sender.id,
+    toUserId: isAdmin ? ticket.createdBy : null,
+    subject: `Re: ${ticket.subject}`,
+    message: body || "(Attachments sent by email)",
+    applicationId: ticket.applicationId,
+    parentMessageId: null,
+    isAdminMessage: isAdmin,
+    isRead: false,
+  }, ticket.ticketNumber);
+
+  let attachmentCount = 0;
+  for (const file of attachments) {
+    try {
+      await saveDocumentUpload(file, `messages/${message.id}`, {
+        documentType: "supporting",
+        companyId: sender.companyId || null,
+        applicationId: ticket.applicationId,
+        uploadedBy: sender.id,
+        messageId: message.id,
+      });
+      attachmentCount++;
+    } catch (error) {
+      // Keep the message even if one attachment fails or is rejected by the upload checks
+      console.error(`[INBOUND EMAIL] Failed to store attachment ${file.originalname}:`, error);
+    }
+  }
+
+  console.log(`[INBOUND EMAIL] ${senderEmail} replied to ${ticket.ticketNumber} (matched by ${match.matchedBy}, ${attachmentCount} attachments)`);
+  return { status: "created", message, ticketNumber: ticket.ticketNumber, matchedBy: match.matchedBy, attachmentCount };
+}
+
+// Saves a raw post for later replay when INBOUND_EMAIL_RECORD_DIR is set
+export function recordInboundEmail(fields: Record<string, string>, attachments: Express.Multer.File[] = []) {
+  const directory = process.env.INBOUND_EMAIL_RECORD_DIR;
+  if (!directory) return;
+
+  const recording: RecordedInboundEmail = {
+    fields,
+    attachments: attachments.map(file => ({
+      fieldname: file.fieldname,
+      originalname: file.originalname,
+      mimetype: file.mimetype,
+      contentBase64: file.buffer.toString("base64"),
+    })),
+  };
+
+  try {
+    fs.mkdirSync(directory, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    fs.writeFileSync(path.join(directory, filename), JSON.stringify(recording, null, 2));
+  } catch (error) {
+    console.error("[INBOUND EMAIL] Failed to record payload:", error);
+  }
+}
+
+// Inbound Parse has no request signing, so the webhook URL carries a shared key:
+// /api/inbound-email?key=<INBOUND_EMAIL_WEBHOOK_KEY>. Without a key configured the endpoint
+// is open in development (for replaying recordings) and disabled in production.
+export function requireInboundEmailKey(req: Request, res: Response, next: NextFunction) {
+  const configuredKey = process.env.INBOUND_EMAIL_WEBHOOK_KEY;
+  if (!configuredKey) {
+    if (process.env.NODE_ENV === "production") {
+      return res.status(503).json({ message: "Inbound email is not configured" });
+    }
+    return next();
+  }
+
+  const expected = Buffer.from(configuredKey);
+  const supplied = Buffer.from(typeof req.query.key === "string" ? req.query.key : "");
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return res.status(401).json({ message: "Invalid inbound email key" });
+  }
+  next();
+}
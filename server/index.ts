@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReviewSlaMonitor } from "./review-sla-monitor";
+import { startNotificationDigest } from "./notification-digest";
+import { startQuarantineRescan } from "./upload-pipeline";
+import { startUploadSessionCleanup } from "./chunked-uploads";
+import { startLoginAttemptCleanup } from "./login-throttle";
 
 const app = express();
 app.use(express.json());
@@ -104,4 +109,11 @@ app.use((req, res, next) => {
       console.log('🛠️  Development mode: Vite HMR enabled');
     }
   });
+
+  // Background jobs
+  startReviewSlaMonitor();
+  startNotificationDigest();
+  startQuarantineRescan();
+  startUploadSessionCleanup();
+  startLoginAttemptCleanup();
 })();
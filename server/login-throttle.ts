@@ -0,0 +1,254 @@
+import type { Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import { sendNewLoginAlertEmail } from "./email";
+import type { User } from "@shared/schema";
+
+// ============================================================================
+// LOGIN THROTTLING - progressive backoff, temporary lockout and new-device alerts
+// ============================================================================
+// Every failed password, 2FA code or passkey counts against the account (users.failedLoginAttempts)
+// and the client IP (login_attempts). An account's attempt is counted when it starts, under a row
+// lock, and taken back if it succeeds. After a few failures each further attempt has to wait
+// longer; every LOCKOUT_THRESHOLD failures lock the account, for twice as long each time.
+// Emails without an account get the same treatment from login_attempts, so the responses do
+// not reveal which emails are registered.
+
+const BACKOFF_AFTER = 3; // failures allowed before the first delay
+const MAX_BACKOFF_SECONDS = 60;
+const LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '', 10) || 10;
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '', 10) || 15;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+// A failure older than this no longer counts towards the next one
+const FAILURE_RESET_MS = 24 * 60 * 60 * 1000;
+
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const IP_MAX_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || '', 10) || 30;
+
+const ATTEMPT_RETENTION_DAYS = 30;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEVICE_COOKIE = 'semi_device';
+const DEVICE_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+export type LoginFailureReason = 'unknown_email' | 'invalid_password' | 'invalid_2fa' | 'invalid_passkey' | 'deactivated' | 'throttled' | 'locked';
+
+export interface LoginThrottleResult {
+  status: 423 | 429;
+  message: string;
+  retryAfterSeconds: number;
+}
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+// The attempt each in-flight sign-in claimed in checkLoginThrottle, settled by recordLoginFailure,
+// recordLoginSuccess or releaseLoginAttempt
+interface ClaimedAttempt {
+  failedLoginAttempts: number; // including this attempt
+  previousFailureAt: Date | null;
+}
+const claimedAttempts = new WeakMap<Request, ClaimedAttempt>();
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const getClientIp = (req: Request) => req.ip || req.socket?.remoteAddress || 'unknown';
+
+const backoffSeconds = (failures: number) =>
+  failures < BACKOFF_AFTER ? 0 : Math.min(2 ** (failures - BACKOFF_AFTER), MAX_BACKOFF_SECONDS);
+
+const lockoutMinutes = (failures: number) =>
+  Math.min(LOCKOUT_MINUTES * 2 ** (Math.floor(failures / LOCKOUT_THRESHOLD) - 1), MAX_LOCKOUT_MINUTES);
+
+const lockedResult = (until: Date, now: Date): LoginThrottleResult => {
+  const retryAfterSeconds = Math.ceil((until.getTime() - now.getTime()) / 1000);
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return {
+    status: 423,
+    message: `Too many failed sign-in attempts. This account is locked for ${minutes} minute${minutes !== 1 ? 's' : ''}. Contact support if you need it unlocked sooner.`,
+    retryAfterSeconds,
+  };
+};
+
+// Lockout or backoff in effect for a failure count and the time of the last failure
+function evaluate(failures: number, lastFailureAt: Date | null, lockedUntil: Date | null, now: Date): LoginThrottleResult | null {
+  if (lockedUntil && lockedUntil > now) return lockedResult(lockedUntil, now);
+  if (!lastFailureAt || now.getTime() - lastFailureAt.getTime() > FAILURE_RESET_MS) return null;
+
+  const waitUntil = lastFailureAt.getTime() + backoffSeconds(failures) * 1000;
+  if (waitUntil <= now.getTime()) return null;
+  const retryAfterSeconds = Math.ceil((waitUntil - now.getTime()) / 1000);
+  return {
+    status: 429,
+    message: `Too many sign-in attempts. Please wait ${retryAfterSeconds} second${retryAfterSeconds !== 1 ? 's' : ''} and try again.`,
+    retryAfterSeconds,
+  };
+}
+
+// Checked before the password, so a locked account cannot be probed with the right one. For an
+// account, an allowed attempt is counted here; settle it with recordLoginFailure,
+// recordLoginSuccess or releaseLoginAttempt.
+export async function checkLoginThrottle(req: Request, email: string, user: User | undefined, now: Date = new Date()): Promise<LoginThrottleResult | null> {
+  const ip = await storage.getRecentFailedLogins({ ipAddress: getClientIp(req) }, new Date(now.getTime() - IP_WINDOW_MS));
+  if (ip.count >= IP_MAX_FAILURES) {
+    return {
+      status: 429,
+      message: 'Too many failed sign-in attempts from your network. Please try again later.',
+      retryAfterSeconds: Math.ceil(IP_WINDOW_MS / 1000),
+    };
+  }
+
+  if (user) {
+    // Decided from the locked row rather than the user read earlier, so a burst of parallel
+    // guesses is throttled as if the guesses came one after another
+    let throttled: LoginThrottleResult | null = null;
+    const claimed = await storage.claimLoginAttempt(user.id, new Date(now.getTime() - FAILURE_RESET_MS), current => {
+      throttled = evaluate(current.failedLoginAttempts, current.lastFailedLoginAt, current.lockedUntil, now);
+      return !throttled;
+    });
+    if (claimed) {
+      claimedAttempts.set(req, {
+        failedLoginAttempts: claimed.after.failedLoginAttempts,
+        previousFailureAt: claimed.before.lastFailedLoginAt,
+      });
+    }
+    return throttled;
+  }
+
+  const recent = await storage.getRecentFailedLogins({ email: normalizeEmail(email) }, new Date(now.getTime() - FAILURE_RESET_MS));
+  const lockedUntil = recent.lastAttemptAt && recent.count >= LOCKOUT_THRESHOLD
+    ? new Date(recent.lastAttemptAt.getTime() + lockoutMinutes(recent.count) * 60 * 1000)
+    : null;
+  return evaluate(recent.count, recent.lastAttemptAt, lockedUntil, now);
+}
+
+export function sendThrottleResponse(res: Response, result: LoginThrottleResult) {
+  res.setHeader('Retry-After', String(result.retryAfterSeconds));
+  return res.status(result.status).json({ message: result.message, retryAfter: result.retryAfterSeconds });
+}
+
+const recordAttempt = (req: Request, email: string, userId: string | null, failureReason: LoginFailureReason | null) =>
+  storage.recordLoginAttempt({
+    email: normalizeEmail(email).slice(0, 255),
+    userId,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('user-agent') || null,
+    successful: !failureReason,
+    failureReason,
+  });
+
+export async function recordLoginFailure(req: Request, email: string, user: User | undefined, reason: LoginFailureReason): Promise<void> {
+  await recordAttempt(req, email, user?.id ?? null, reason);
+  // Rejections by the throttle itself were never counted
+  if (!user || reason === 'throttled' || reason === 'locked') return;
+  if (reason === 'deactivated') return releaseLoginAttempt(req, user);
+
+  // Already counted when claimed; the attempt that reaches the threshold locks the account
+  const claimed = claimedAttempts.get(req);
+  claimedAttempts.delete(req);
+  if (!claimed || claimed.failedLoginAttempts % LOCKOUT_THRESHOLD !== 0) return;
+
+  const minutes = lockoutMinutes(claimed.failedLoginAttempts);
+  const lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+  await storage.lockUserAccount(user.id, lockedUntil);
+  await recordAudit(req, {
+    action: 'user.lockout',
+    entityType: 'user',
+    entityId: user.id,
+    metadata: { email: user.email, failedLoginAttempts: claimed.failedLoginAttempts, lockedUntil, lockoutMinutes: minutes, lastReason: reason },
+  });
+  console.warn(`[LOGIN] Locked user ${user.id} for ${minutes} minutes after ${claimed.failedLoginAttempts} failed attempts`);
+}
+
+// For a sign-in whose password was right and that now waits for its second factor: the claimed
+// attempt no longer counts as a failure
+export async function releaseLoginAttempt(req: Request, user: User): Promise<void> {
+  const claimed = claimedAttempts.get(req);
+  claimedAttempts.delete(req);
+  if (claimed) await storage.releaseLoginAttempt(user.id, claimed);
+}
+
+// "Chrome on Windows" from a user agent string, for alerts and device lists
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Unknown browser';
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /CrOS/.test(userAgent) ? 'ChromeOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'Unknown OS';
+  return `${browser} on ${os}`;
+}
+
+function readDeviceCookie(req: Request): string | null {
+  const match = (req.headers.cookie || '').match(new RegExp(`(?:^|;\\s*)${DEVICE_COOKIE}=([a-f0-9]{32})(?:;|$)`));
+  return match ? match[1] : null;
+}
+
+// Clears the failure count, remembers the device and IP, and emails the user when either is
+// new. The very first recorded login only establishes the baseline.
+export async function recordLoginSuccess(req: Request, res: Response, user: User): Promise<void> {
+  await recordAttempt(req, user.email || '', user.id, null);
+  const claimed = claimedAttempts.delete(req);
+  if (claimed || user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await storage.clearFailedLogins(user.id);
+  }
+
+  let deviceId = readDeviceCookie(req);
+  if (!deviceId) {
+    deviceId = randomBytes(16).toString('hex');
+  }
+  res.cookie(DEVICE_COOKIE, deviceId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: DEVICE_COOKIE_MAX_AGE_MS,
+  });
+
+  const ipAddress = getClientIp(req);
+  const userAgent = req.get('user-agent') || null;
+  const seen = await storage.recordLoginDevice(user.id, { deviceId, ipAddress, userAgent });
+  if (seen.firstLogin || (!seen.newDevice && !seen.newIpAddress) || !user.email) return;
+
+  // Not awaited: the alert must not hold up the login
+  sendNewLoginAlertEmail({
+    to: user.email,
+    firstName: user.firstName,
+    loginTime: new Date(),
+    ipAddress,
+    device: describeUserAgent(userAgent),
+  });
+}
+
+export async function pruneLoginAttempts(now: Date = new Date()): Promise<{ pruned: number }> {
+  const pruned = await storage.pruneLoginAttempts(new Date(now.getTime() - ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  return { pruned };
+}
+
+export function startLoginAttemptCleanup() {
+  if (cleanupTimer) return;
+
+  const tick = async () => {
+    try {
+      const { pruned } = await pruneLoginAttempts();
+      if (pruned > 0) {
+        console.log(`[LOGIN] Pruned ${pruned} login attempts older than ${ATTEMPT_RETENTION_DAYS} days`);
+      }
+    } catch (error) {
+      console.error('[LOGIN] Login attempt cleanup failed:', error);
+    }
+  };
+
+  cleanupTimer = setInterval(tick, CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref();
+  tick();
+}
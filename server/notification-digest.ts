@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import { sendNotificationDigestEmail } from "./email";
+
+// ============================================================================
+// NOTIFICATION DIGEST - one daily email per user of unread "daily digest" notifications
+// ============================================================================
+// Checks on an interval and sends once a day, after NOTIFICATION_DIGEST_HOUR (server local
+// time, default 8). Each notification is stamped emailedAt when sent, so a restart later the
+// same day only picks up notifications that arrived since, and read ones are never sent.
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+const DEFAULT_DIGEST_HOUR = 8;
+
+let digestTimer: NodeJS.Timeout | null = null;
+let lastDigestDay: string | null = null;
+
+export async function runNotificationDigest(): Promise<{ users: number; sent: number; notifications: number }> {
+  const pending = await storage.getPendingDigestNotifications();
+  let sent = 0;
+  let notificationCount = 0;
+
+  for (const { user, notifications } of pending) {
+    if (!user.email || user.isActive === false) continue;
+
+    const delivered = await sendNotificationDigestEmail({
+      to: user.email,
+      firstName: user.firstName,
+      notifications,
+    });
+    if (!delivered) continue;
+
+    await storage.markNotificationsEmailed(notifications.map(notification => notification.id));
+    sent++;
+    notificationCount += notifications.length;
+  }
+
+  return { users: pending.length, sent, notifications: notificationCount };
+}
+
+export function startNotificationDigest() {
+  if (digestTimer) return;
+
+  const intervalMs = parseInt(process.env.NOTIFICATION_DIGEST_CHECK_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS;
+  const parsedHour = parseInt(process.env.NOTIFICATION_DIGEST_HOUR || '', 10);
+  const digestHour = parsedHour >= 0 && parsedHour <= 23 ? parsedHour : DEFAULT_DIGEST_HOUR;
+
+  const tick = async () => {
+    const now = new Date();
+    const today = now.toDateString();
+    if (now.getHours() < digestHour || lastDigestDay === today) return;
+
+    lastDigestDay = today;
+    try {
+      const { sent, notifications } = await runNotificationDigest();
+      if (sent > 0) {
+        console.log(`[NOTIFICATION DIGEST] Sent ${sent} digests covering ${notifications} notifications`);
+      }
+    } catch (error) {
+      console.error('[NOTIFICATION DIGEST] Digest run failed:', error);
+    }
+  };
+
+  digestTimer = setInterval(tick, intervalMs);
+  digestTimer.unref();
+  tick();
+  console.log(`[NOTIFICATION DIGEST] Scheduled daily after ${digestHour}:00 (checking every ${Math.round(intervalMs / 1000)}s)`);
+}
@@ -0,0 +1,196 @@
+import type { Request } from "express";
+import * as oidc from "openid-client";
+import { nanoid } from "nanoid";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import { getAppBaseUrl } from "./email";
+import type { Company, CompanySsoConfig, User } from "@shared/schema";
+
+// ============================================================================
+// OPENID CONNECT SINGLE SIGN-ON - per-company identity providers
+// ============================================================================
+// The email domain picks the company's configuration. Sign-in uses the authorization code flow
+// with PKCE, state and nonce kept in the session. A returning identity (issuer + subject) signs
+// straight in; otherwise an existing account in the same company is linked by email, or a new
+// one is created in the company with the configuration's default permission level.
+
+const SSO_LOGIN_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+
+interface PendingSsoLogin {
+  configId: number;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+export class SsoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+// Keyed by configuration id and update time, so saving a configuration drops its old entry
+const discoveryCache = new Map<string, { config: oidc.Configuration; expiresAt: number }>();
+
+export const getSsoRedirectUri = () => `${getAppBaseUrl()}/api/auth/sso/callback`;
+
+export const emailDomain = (email: string) => email.trim().toLowerCase().split('@')[1] ?? '';
+
+// What admins see of a configuration; the client secret is write-only
+export const toSsoConfigSummary = (config: CompanySsoConfig) => ({
+  ...config,
+  clientSecret: undefined,
+  hasClientSecret: !!config.clientSecret,
+  redirectUri: getSsoRedirectUri(),
+});
+
+// Plain http issuers are only accepted outside production, for a local mock IdP
+export const allowsInsecureIssuer = (issuerUrl: string) =>
+  issuerUrl.startsWith('http://') && process.env.NODE_ENV !== 'production';
+
+async function getProviderConfiguration(ssoConfig: CompanySsoConfig): Promise<oidc.Configuration> {
+  const key = `${ssoConfig.id}:${ssoConfig.updatedAt.getTime()}`;
+  const cached = discoveryCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.config;
+
+  try {
+    const config = await oidc.discovery(
+      new URL(ssoConfig.issuerUrl),
+      ssoConfig.clientId,
+      ssoConfig.clientSecret ?? undefined,
+      ssoConfig.clientSecret ? undefined : oidc.None(),
+      allowsInsecureIssuer(ssoConfig.issuerUrl) ? { execute: [oidc.allowInsecureRequests] } : undefined,
+    );
+    discoveryCache.set(key, { config, expiresAt: Date.now() + DISCOVERY_CACHE_MS });
+    return config;
+  } catch (error) {
+    console.error(`[SSO] Discovery failed for ${ssoConfig.issuerUrl}:`, error);
+    throw new SsoError("Your organization's sign-in service could not be reached. Please try again later.");
+  }
+}
+
+// The authorization URL to send the browser to
+export async function beginSsoLogin(req: Request, email: string): Promise<URL> {
+  const ssoConfig = await storage.getSsoConfigForEmailDomain(emailDomain(email));
+  if (!ssoConfig) {
+    throw new SsoError('Single sign-on is not set up for this email address.');
+  }
+
+  const config = await getProviderConfiguration(ssoConfig);
+  const codeVerifier = oidc.randomPKCECodeVerifier();
+  const pending: PendingSsoLogin = {
+    configId: ssoConfig.id,
+    state: oidc.randomState(),
+    nonce: oidc.randomNonce(),
+    codeVerifier,
+    expiresAt: Date.now() + SSO_LOGIN_TTL_MS,
+  };
+  (req.session as any).ssoLogin = pending;
+
+  return oidc.buildAuthorizationUrl(config, {
+    redirect_uri: getSsoRedirectUri(),
+    scope: 'openid email profile',
+    code_challenge: await oidc.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    state: pending.state,
+    nonce: pending.nonce,
+    login_hint: email.trim(),
+  });
+}
+
+// Exchanges the callback's code and returns the signed-in user, creating them if needed
+export async function completeSsoLogin(req: Request): Promise<User> {
+  const pending: PendingSsoLogin | undefined = (req.session as any).ssoLogin;
+  delete (req.session as any).ssoLogin;
+  if (!pending || pending.expiresAt < Date.now()) {
+    throw new SsoError('Your sign-in has expired. Please try again.');
+  }
+  if (typeof req.query.error === 'string') {
+    throw new SsoError(`Your organization's sign-in service refused the request (${req.query.error}).`);
+  }
+
+  const ssoConfig = await storage.getCompanySsoConfigById(pending.configId);
+  if (!ssoConfig || !ssoConfig.enabled) {
+    throw new SsoError('Single sign-on is no longer set up for your organization.');
+  }
+  const config = await getProviderConfiguration(ssoConfig);
+
+  let claims: oidc.IDToken | undefined;
+  try {
+    const tokens = await oidc.authorizationCodeGrant(config, new URL(req.originalUrl, getAppBaseUrl()), {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: pending.state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+    claims = tokens.claims();
+  } catch (error) {
+    console.error('[SSO] Code exchange failed:', error);
+    throw new SsoError('Sign-in with your organization could not be completed. Please try again.');
+  }
+  if (!claims) {
+    throw new SsoError('Sign-in with your organization could not be completed. Please try again.');
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+  if (!email || claims.email_verified === false) {
+    throw new SsoError('Your organization did not confirm your email address.');
+  }
+  if (!ssoConfig.allowedDomains.includes(emailDomain(email))) {
+    throw new SsoError(`${email} is not allowed to sign in through this organization.`);
+  }
+
+  const identity = { issuer: claims.iss, subject: claims.sub, email };
+  const linked = await storage.getUserBySsoIdentity(identity.issuer, identity.subject);
+  // The identity provider may be shared with another company, or the user may have moved since
+  // the identity was linked; either way this company's configuration cannot sign them in
+  if (linked) assertSameCompany(linked, ssoConfig);
+  const user = linked ?? await linkOrProvisionUser(req, ssoConfig, claims, email);
+  await storage.linkSsoIdentity({ userId: user.id, ...identity });
+  return user;
+}
+
+// Never sign into an account of another organization through this one's identity provider
+function assertSameCompany(user: User, ssoConfig: CompanySsoConfig) {
+  if (user.companyId !== ssoConfig.companyId) {
+    throw new SsoError('This email belongs to an account in another organization. Sign in with your password instead.');
+  }
+}
+
+async function linkOrProvisionUser(req: Request, ssoConfig: CompanySsoConfig, claims: oidc.IDToken, email: string): Promise<User> {
+  const existing = await storage.getUserByEmail(email);
+  if (existing) {
+    assertSameCompany(existing, ssoConfig);
+    return existing;
+  }
+
+  const company: Company | undefined = await storage.getCompanyById(ssoConfig.companyId);
+  if (!company) {
+    throw new SsoError('Single sign-on is no longer set up for your organization.');
+  }
+
+  const user = await storage.createUser({
+    id: nanoid(),
+    email,
+    password: null,
+    firstName: typeof claims.given_name === 'string' ? claims.given_name : null,
+    lastName: typeof claims.family_name === 'string' ? claims.family_name : null,
+    companyId: company.id,
+    role: company.isContractor ? 'contractor_team_member' : 'team_member',
+    permissionLevel: ssoConfig.defaultPermissionLevel,
+    isEmailVerified: true,
+    emailVerifiedAt: new Date(),
+  });
+  await recordAudit(req, {
+    action: 'user.sso_provisioned',
+    entityType: 'user',
+    entityId: user.id,
+    after: { email, companyId: company.id, role: user.role, permissionLevel: user.permissionLevel },
+    metadata: { issuer: claims.iss },
+  });
+  console.log(`[SSO] Provisioned user ${user.id} (${email}) in company ${company.id}`);
+  return user;
+}
@@ -0,0 +1,102 @@
+import type { Request, Response } from "express";
+
+// ============================================================================
+// REALTIME - server-sent events pushed to signed-in browsers
+// ============================================================================
+// Events only say *what* changed; clients invalidate the matching React Query caches and
+// refetch through the normal authenticated endpoints. Connections live in this process's
+// memory, so a multi-instance deployment needs sticky sessions (clients fall back to
+// polling whenever the stream is down).
+
+export type RealtimeEvent =
+  | { type: "message"; ticketNumber: string | null }
+  | { type: "ticket"; ticketNumber: string; status?: string; priority?: string }
+  | { type: "notification" }
+  | { type: "announcement" };
+
+interface RealtimeClient {
+  userId: string;
+  role: string;
+  sessionId: string;
+  res: Response;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// setTimeout cannot schedule further ahead than ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const clients = new Set<RealtimeClient>();
+
+// GET /api/events - keeps the response open and writes one SSE frame per event
+export function openEventStream(req: Request & { user?: any }, res: Response) {
+  const user = req.user;
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // disable proxy buffering (nginx)
+  });
+  res.write("retry: 5000\n\n");
+
+  const client: RealtimeClient = { userId: user.id, role: user.role, sessionId: req.sessionID, res };
+  clients.add(client);
+
+  // Comment frames keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+}
+
+// Ends the user's streams when their sessions are signed out remotely or the user is deactivated.
+// The browser's reconnect is then refused by requireAuth. With sessionId only that session's
+// streams close; with exceptSessionId every other one does.
+export function closeEventStreams(userId: string, options: { sessionId?: string; exceptSessionId?: string } = {}) {
+  clients.forEach(client => {
+    if (client.userId !== userId) return;
+    if (options.sessionId && client.sessionId !== options.sessionId) return;
+    if (options.exceptSessionId && client.sessionId === options.exceptSessionId) return;
+    clients.delete(client);
+    client.res.end();
+  });
+}
+
+function send(client: RealtimeClient, event: RealtimeEvent) {
+  try {
+    client.res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  } catch (error) {
+    console.error("[REALTIME] Failed to write event, dropping client:", error);
+    clients.delete(client);
+  }
+}
+
+// Sends the event once to every connection of the listed users and of users in the listed roles
+export function publish(event: RealtimeEvent, audience: { userIds?: (string | null | undefined)[]; roles?: string[] }) {
+  const userIds = new Set((audience.userIds || []).filter(Boolean));
+  const roles = new Set(audience.roles || []);
+  clients.forEach(client => {
+    if (userIds.has(client.userId) || roles.has(client.role)) send(client, event);
+  });
+}
+
+export function publishToUsers(userIds: (string | null | undefined)[], event: RealtimeEvent) {
+  publish(event, { userIds });
+}
+
+export function broadcast(event: RealtimeEvent) {
+  clients.forEach(client => send(client, event));
+}
+
+// Scheduled announcements become active (or expire) without any write, so push at that moment
+export function scheduleAnnouncementBroadcast(...moments: (Date | string | null | undefined)[]) {
+  const now = Date.now();
+  for (const moment of moments) {
+    if (!moment) continue;
+    const delay = new Date(moment).getTime() - now;
+    if (delay <= 0 || delay > MAX_TIMER_DELAY_MS) continue;
+    setTimeout(() => broadcast({ type: "announcement" }), delay).unref();
+  }
+}
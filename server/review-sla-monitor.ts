@@ -0,0 +1,82 @@
+import { storage } from "./storage";
+import { getReviewSlaStatus, REVIEW_SLA_STATE_RANK, type ReviewSlaState } from "@shared/review-sla";
+
+// ============================================================================
+// REVIEW SLA MONITOR - flags submissions approaching or past their review SLA
+// ============================================================================
+// Runs on an interval inside the web process. The stored state follows the SLA both ways, but
+// reviewers are only notified when it moves up (approaching, then breached), not on every pass.
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+let monitorTimer: NodeJS.Timeout | null = null;
+
+export async function runReviewSlaCheck(now: Date = new Date()): Promise<{ checked: number; escalated: number }> {
+  const [pending, settings] = await Promise.all([
+    storage.getSubmissionsAwaitingReview(),
+    storage.getActivitySettings(),
+  ]);
+  const settingsByActivity = new Map(settings.map(setting => [setting.activityType as string, setting]));
+
+  let reviewers: { id: string }[] | null = null;
+  let escalated = 0;
+
+  for (const submission of pending) {
+    const sla = getReviewSlaStatus(submission.submittedAt, settingsByActivity.get(submission.activityType), now);
+    if (!sla) continue;
+
+    const previous = submission.slaState as ReviewSlaState | null;
+    if (sla.state === previous) continue;
+
+    // A longer SLA (or a recalculated one) can move the state back down, so a later escalation
+    // notifies again; only moves up notify
+    const isEscalation = !previous || REVIEW_SLA_STATE_RANK[sla.state] > REVIEW_SLA_STATE_RANK[previous];
+    await storage.updateSubmissionSlaState(submission.id, sla.state, isEscalation);
+    if (!isEscalation || sla.state === 'on_track') continue;
+
+    // Notify the assigned reviewer, or the whole admin review pool when unassigned
+    const recipients = submission.assignedReviewerId
+      ? [{ id: submission.assignedReviewerId }]
+      : (reviewers ??= await storage.getActiveSystemAdmins());
+
+    const label = `${submission.applicationDisplayId} - ${submission.templateName || 'Activity submission'}`;
+    const title = sla.state === 'breached' ? 'Review SLA breached' : 'Review SLA approaching';
+    const message = sla.state === 'breached'
+      ? `${label} was due for review on ${sla.dueAt.toLocaleDateString()} and is now overdue.`
+      : `${label} must be reviewed by ${sla.dueAt.toLocaleDateString()} (${sla.businessDaysAllowed} business day SLA).`;
+
+    for (const reviewer of recipients) {
+      await storage.createNotification({
+        userId: reviewer.id,
+        title,
+        message,
+        type: `review_sla_${sla.state}`,
+        applicationId: submission.applicationId,
+      });
+    }
+    escalated++;
+  }
+
+  return { checked: pending.length, escalated };
+}
+
+export function startReviewSlaMonitor() {
+  if (monitorTimer) return;
+
+  const intervalMs = parseInt(process.env.REVIEW_SLA_CHECK_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS;
+  const tick = async () => {
+    try {
+      const { checked, escalated } = await runReviewSlaCheck();
+      if (escalated > 0) {
+        console.log(`[REVIEW SLA] Checked ${checked} pending submissions, escalated ${escalated}`);
+      }
+    } catch (error) {
+      console.error('[REVIEW SLA] SLA check failed:', error);
+    }
+  };
+
+  monitorTimer = setInterval(tick, intervalMs);
+  monitorTimer.unref();
+  tick();
+  console.log(`[REVIEW SLA] Monitor started (every ${Math.round(intervalMs / 1000)}s)`);
+}
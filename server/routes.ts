@@ -1,5 +1,5 @@
 import express, { type Express, type Request, Response } from "express";
-import { storage as dbStorage } from "./storage";
+import { storage as dbStorage, ReviewedDocumentsChangedError } from "./storage";
 import { requireAuth, setupAuth } from "./auth";
 import { createServer } from "http";
 import multer from "multer";
@@ -8,16 +8,124 @@ import fs from "fs";
 import archiver from "archiver";
 import { v4 as uuidv4 } from 'uuid';
 import { canInviteUsers, canEditPermissions, canCreateEdit, hasPermissionLevel } from './permissions';
-import { storageService } from './storage-service';
-
-// Configure multer for memory storage (files will be uploaded to Supabase)
+import { fileStore, locateFile, storeUpload, verifyLocalFileSignature, FileNotFoundError } from './file-store';
+import { canTransition, getAllowedTransitions, getStatusActor, InvalidStatusTransitionError, TransitionNotesRequiredError } from '@shared/application-workflow';
+import { recordAudit, auditAdminRequests, auditLogsToCsv } from './audit';
+import { checkLoginThrottle, recordLoginFailure, recordLoginSuccess, releaseLoginAttempt, sendThrottleResponse } from './login-throttle';
+import { hashRecoveryCode, isTotpCode } from './twoFactorAuth';
+import { setPendingSecondFactor, clearPendingSecondFactor, verifyAuthentication, hasPasskeys, WebauthnVerificationError } from './webauthn';
+import { startSessionTracking, revokeAllUserSessions } from './user-sessions';
+import { allowsInsecureIssuer, toSsoConfigSummary } from './oidc-sso';
+import { stripHiddenFieldValues } from '@shared/form-visibility';
+import { validateFormSubmission, getTemplateDocumentType } from '@shared/form-validation';
+import { applyVisibleCalculatedFields } from '@shared/form-formulas';
+import { TICKET_CATEGORIES } from '@shared/support-sla';
+import { getNotificationEventsForRole, isNotificationChannel, resolveNotificationPreferences, type NotificationChannel, type NotificationEventType } from '@shared/notification-preferences';
+import { roleEnum, permissionLevelEnum, type Document, type Message } from '@shared/schema';
+import { openEventStream, publish, broadcast, scheduleAnnouncementBroadcast } from './realtime';
+import { listEmailTemplates, renderEmailTemplatePreview, isEmailTemplateName } from './email-templates';
+import { processInboundEmail, recordInboundEmail, requireInboundEmailKey, notifyTicketReply } from './inbound-email';
+import { inspectUpload, isInlineSafeMimeType, saveDocumentUpload, UploadRejectedError } from './upload-pipeline';
+import {
+  ChunkedUploadError,
+  createUploadSession,
+  describeUploadSession,
+  receiveChunk,
+  completeUploadSession,
+  abortUploadSession,
+} from './chunked-uploads';
+import { getMaxUploadBytes, MAX_UPLOAD_SIZE_MB, UPLOAD_CHUNK_SIZE } from '@shared/upload-limits';
+import { isDocumentAvailable } from '@shared/document-scan';
+import { evaluateDocumentChecklist, isAcceptedFileType, normalizeRequiredDocumentSlots, parseRequiredDocumentSlots } from '@shared/document-checklist';
+
+// Configure multer for memory storage (files are then written to the file store). This caps what
+// one request may hold in memory; the per-activity ceiling (getUploadLimit) is checked after it,
+// and larger files go through the chunked uploads in chunked-uploads.ts.
+const SINGLE_REQUEST_UPLOAD_MB = 10;
 const upload = multer({ 
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
+    fileSize: SINGLE_REQUEST_UPLOAD_MB * 1024 * 1024
   }
 });
 
+// Shared access check for application-scoped endpoints: system admins, the owning company
+// and contractor companies currently assigned to the application
+async function canAccessApplication(user: any, application: { id: number; companyId: number }): Promise<boolean> {
+  if (user.role === 'system_admin') return true;
+  if (user.companyId && application.companyId === user.companyId) return true;
+  if (user.role?.startsWith('contractor_') && user.companyId) {
+    const contractorApplications = await dbStorage.getContractorApplications(user.companyId);
+    return contractorApplications.some((app: any) => app.id === application.id);
+  }
+  return false;
+}
+
+// Who may upload a new version of a document or browse its history. Message attachments are
+// not versioned, and only admins version shared templates.
+async function canManageDocument(user: any, document: Document): Promise<boolean> {
+  if (document.messageId) return false;
+  if (user.role === 'system_admin') return true;
+  if (document.isTemplate) return false;
+  if (document.applicationId) {
+    const application = await dbStorage.getApplicationById(document.applicationId);
+    return !!application && await canAccessApplication(user, application);
+  }
+  if (document.companyId) return !!user.companyId && document.companyId === user.companyId;
+  if (document.uploadedBy === user.id) return true;
+  const uploader = await dbStorage.getUserById(document.uploadedBy);
+  return !!user.companyId && uploader?.companyId === user.companyId;
+}
+
+// Support messages are visible to both parties and to every admin on the support dashboard
+function publishMessageEvent(message: { fromUserId: string; toUserId: string | null; ticketNumber: string | null }) {
+  publish({ type: 'message', ticketNumber: message.ticketNumber }, {
+    userIds: [message.fromUserId, message.toUserId],
+    roles: ['system_admin'],
+  });
+}
+
+// Admin replies are emailed to the requester; a failed send must not fail the reply itself
+function notifyAdminReply(message: Message) {
+  notifyTicketReply(message).catch(error => console.error('[MESSAGES API] Failed to notify ticket reply:', error));
+}
+
+// Upload size ceiling for an application's activity type, or the default for other uploads
+async function getUploadLimit(applicationId: number | null): Promise<number> {
+  if (!applicationId) return getMaxUploadBytes();
+  const application = await dbStorage.getApplicationById(applicationId);
+  if (!application) return getMaxUploadBytes();
+  const settings = await dbStorage.getActivitySettings();
+  return getMaxUploadBytes(settings.find(setting => setting.activityType === application.activityType));
+}
+
+// Checklist slots sent with a form template save, validated and normalised. Undefined when the
+// request does not touch them, so a partial update keeps the stored checklist.
+function parseTemplateChecklist(body: any): { requiredDocuments?: ReturnType<typeof normalizeRequiredDocumentSlots>; error?: string } {
+  if (!body || !('requiredDocuments' in body)) return {};
+  try {
+    return { requiredDocuments: normalizeRequiredDocumentSlots(body.requiredDocuments) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid required documents' };
+  }
+}
+
+function sendUploadError(res: Response, error: unknown, context: string) {
+  if (error instanceof ChunkedUploadError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error instanceof UploadRejectedError) {
+    return res.status(415).json({ message: error.message, file: error.fileName });
+  }
+  console.error(`[CHUNKED UPLOAD] ${context}:`, error);
+  res.status(500).json({ message: `Failed to ${context.toLowerCase()}` });
+}
+
+async function publishTicketEvent(ticketNumber: string, change: { status?: string; priority?: string }) {
+  const participantIds = await dbStorage.getTicketParticipantIds(ticketNumber);
+  publish({ type: 'ticket', ticketNumber, ...change }, { userIds: participantIds, roles: ['system_admin'] });
+}
+
 export async function registerRoutes(app: Express) {
   await setupAuth(app);
   const server = createServer(app);
@@ -83,6 +191,20 @@ export async function registerRoutes(app: Express) {
     }
   }));
 
+  // Badge and recognition images are public and linked as /uploads/<key>; anything not on
+  // the local disk above is streamed from the file store
+  app.get(/^\/uploads\/((?:badges|recognition-content)\/[^/]+)$/, async (req, res) => {
+    try {
+      const { body, contentType } = await fileStore.get(req.params[0]);
+      res.setHeader('Content-Type', contentType || 'application/octet-stream');
+      res.setHeader('Cache-Control', process.env.NODE_ENV === 'production' ? 'public, max-age=3600' : 'no-cache');
+      body.pipe(res);
+    } catch (error) {
+      if (!(error instanceof FileNotFoundError)) console.error('[UPLOADS] File store error:', error);
+      res.status(404).end();
+    }
+  });
+
   // ============================================================================
   // CRITICAL: API ROUTE PROTECTION FROM VITE MIDDLEWARE INTERFERENCE
   // ============================================================================
@@ -93,6 +215,31 @@ export async function registerRoutes(app: Express) {
     next();
   });
 
+  // Time-limited links issued by the local file store driver (fileStore.getSignedUrl)
+  app.get('/api/files/signed', async (req, res) => {
+    const key = String(req.query.key || '');
+    const expires = Number(req.query.expires);
+    if (!key || !verifyLocalFileSignature(key, expires, String(req.query.signature || ''))) {
+      return res.status(403).json({ message: "Invalid or expired link" });
+    }
+
+    try {
+      const { body, contentType, size } = await fileStore.get(key);
+      res.setHeader('Content-Type', contentType || 'application/octet-stream');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      if (!isInlineSafeMimeType(contentType)) res.setHeader('Content-Disposition', 'attachment');
+      if (size !== undefined) res.setHeader('Content-Length', size);
+      body.pipe(res);
+    } catch (error) {
+      if (!(error instanceof FileNotFoundError)) console.error('[FILES] File store error:', error);
+      res.status(404).json({ message: "File not found" });
+    }
+  });
+
+  // Every successful mutating admin request lands in the audit log; routes that record
+  // their own entry with before/after state are skipped by the middleware
+  app.use('/api/admin', auditAdminRequests);
+
   // ========================================
   // CRITICAL AUTHENTICATION ENDPOINT: USER LOGIN
   // DO NOT REMOVE - REQUIRED FOR ALL USER AUTHENTICATION
@@ -100,7 +247,7 @@ export async function registerRoutes(app: Express) {
   // ========================================
   app.post('/api/auth/login', async (req: Request, res: Response) => {
     try {
-      const { email, password, twoFactorCode } = req.body;
+      const { email, password, twoFactorCode, passkeyResponse } = req.body;
       
       if (!email || !password) {
         console.log(`[LOGIN] Missing credentials - Email: ${!!email}, Password: ${!!password}`);
@@ -109,51 +256,105 @@ export async function registerRoutes(app: Express) {
 
       console.log(`[LOGIN] Attempting login for email: ${email}`);
       const user = await dbStorage.getUserByEmail(email);
+
+      // Backoff and lockout apply before anything about the account is revealed
+      const throttled = await checkLoginThrottle(req, email, user);
+      if (throttled) {
+        await recordLoginFailure(req, email, user, throttled.status === 423 ? 'locked' : 'throttled');
+        return sendThrottleResponse(res, throttled);
+      }
+
       if (!user) {
         console.log(`[LOGIN] User not found: ${email}`);
+        await recordLoginFailure(req, email, undefined, 'unknown_email');
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
-      console.log(`[LOGIN] User found: ${user.id}, role: ${user.role}, isActive: ${user.isActive}, passwordLength: ${user.password?.length || 0}`);
-      console.log(`[LOGIN] Stored hash starts with: ${user.password?.substring(0, 15) || 'NULL'}...`);
+      console.log(`[LOGIN] User found: ${user.id}, role: ${user.role}, isActive: ${user.isActive}`);
       
       // Check if user account is active
       if (user.isActive === false) {
         console.log(`[LOGIN] Login rejected - user account is deactivated: ${email}`);
+        await recordLoginFailure(req, email, user, 'deactivated');
         return res.status(403).json({ message: "Your account has been deactivated. Please contact support." });
       }
       
       const isValidPassword = await dbStorage.verifyPassword(password, user.password || '');
       if (!isValidPassword) {
         console.log(`[LOGIN] Password validation failed for: ${email}`);
-        console.log(`[LOGIN] Supplied: "${password}" vs Stored hash: ${user.password?.substring(0, 20) || 'NULL'}...`);
+        await recordLoginFailure(req, email, user, 'invalid_password');
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
-      if (user.twoFactorEnabled && !twoFactorCode) {
-        return res.status(200).json({ requiresTwoFactor: true });
+      // A registered passkey is a second factor just like the authenticator app
+      const userHasPasskeys = await hasPasskeys(user.id);
+      const hasSecondFactor = user.twoFactorEnabled || userHasPasskeys;
+      if (hasSecondFactor && !twoFactorCode && !passkeyResponse) {
+        await releaseLoginAttempt(req, user);
+        setPendingSecondFactor(req, user.id);
+        return res.status(200).json({
+          requiresTwoFactor: true,
+          twoFactorMethods: { totp: !!user.twoFactorEnabled, passkey: userHasPasskeys }
+        });
       }
 
-      if (user.twoFactorEnabled && twoFactorCode) {
+      let recoveryCodesRemaining: number | undefined;
+      if (hasSecondFactor && passkeyResponse) {
+        console.log(`[LOGIN] Verifying passkey for user: ${user.id}`);
+        try {
+          await verifyAuthentication(req, passkeyResponse, user.id);
+        } catch (error) {
+          if (!(error instanceof WebauthnVerificationError)) throw error;
+          console.log(`[LOGIN] Passkey verification failed for user: ${user.id}`);
+          await recordLoginFailure(req, email, user, 'invalid_passkey');
+          return res.status(401).json({ message: error.message });
+        }
+      } else if (hasSecondFactor && twoFactorCode) {
         console.log(`[LOGIN] Verifying 2FA code for user: ${user.id}`);
-        const isValidTwoFactor = await dbStorage.verifyTwoFactorCode(user.id, twoFactorCode);
+        // A six digit code comes from the authenticator app; anything else is a recovery code
+        const usingRecoveryCode = !isTotpCode(String(twoFactorCode));
+        const isValidTwoFactor = usingRecoveryCode
+          ? await dbStorage.consumeRecoveryCode(user.id, hashRecoveryCode(String(twoFactorCode)))
+          : user.twoFactorEnabled && await dbStorage.verifyTwoFactorCode(user.id, twoFactorCode);
         if (!isValidTwoFactor) {
           console.log(`[LOGIN] 2FA verification failed for user: ${user.id}`);
-          return res.status(401).json({ message: "Invalid two-factor code" });
+          await recordLoginFailure(req, email, user, 'invalid_2fa');
+          return res.status(401).json({ message: usingRecoveryCode ? "Invalid or already used recovery code" : "Invalid two-factor code" });
+        }
+        if (usingRecoveryCode) {
+          recoveryCodesRemaining = (await dbStorage.getRecoveryCodeStatus(user.id)).remaining;
+          await recordAudit(req, {
+            action: 'user.2fa_recovery_code_used',
+            entityType: 'user',
+            entityId: user.id,
+            metadata: { email: user.email, recoveryCodesRemaining },
+          });
         }
         console.log(`[LOGIN] 2FA verification successful for user: ${user.id}`);
       }
 
+      await recordLoginSuccess(req, res, user);
+      clearPendingSecondFactor(req);
+
       // Set session
       console.log(`[LOGIN] Setting session for user: ${user.id}`);
       (req as any).session.userId = user.id;
+      startSessionTracking(req);
+
+      // Roles that require 2FA can only enroll until it is set up (see requireAuth)
+      const twoFactorEnrollmentRequired = !hasSecondFactor && await dbStorage.isTwoFactorRequiredForRole(user.role);
+      if (twoFactorEnrollmentRequired) {
+        (req as any).session.twoFactorEnrollmentRequired = true;
+      }
       
       // Check if user has a temporary password
       const isTemporaryPassword = user.isTemporaryPassword || false;
       
       res.json({ 
-        user: { ...user, password: undefined },
-        isTemporaryPassword
+        user: { ...user, password: undefined, twoFactorSecret: undefined },
+        isTemporaryPassword,
+        twoFactorEnrollmentRequired,
+        recoveryCodesRemaining
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -210,77 +411,8 @@ export async function registerRoutes(app: Express) {
       // Set temporary password in database
       await dbStorage.setTemporaryPassword(email, tempPassword);
 
-      // Send email via SendGrid with proper login URL
-      const { sendEmail } = await import('./sendgrid');
-      
-      // Get the correct base URL for login links
-      let baseUrl = process.env.FRONTEND_URL;
-      if (!baseUrl) {
-        if (process.env.REPLIT_DEV_DOMAIN) {
-          baseUrl = `https://${process.env.REPLIT_DEV_DOMAIN}`;
-        } else if (process.env.REPL_SLUG && process.env.REPL_OWNER) {
-          baseUrl = `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.replit.app`;
-        } else if (process.env.NODE_ENV === 'production') {
-          // Generic production environment - use Render deployment URL
-          baseUrl = 'https://semi-portal.onrender.com';
-        } else {
-          baseUrl = 'http://localhost:5000';
-        }
-      }
-      
-      const loginUrl = `${baseUrl}/auth`;
-      console.log(`[FORGOT PASSWORD] Using login URL: ${loginUrl}`);
-      
-      const emailSent = await sendEmail({
-        to: email,
-        from: process.env.SENDGRID_FROM_EMAIL || 'donotreply@enerva.ca',
-        subject: 'SEMI Program - Temporary Password',
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f8f9fa; padding: 20px;">
-            <div style="background-color: white; padding: 30px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-              <div style="text-align: center; margin-bottom: 30px;">
-                <h1 style="color: #2563eb; margin: 0; font-size: 28px;">SEMI Program</h1>
-                <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 16px;">Strategic Energy Management Initiative</p>
-              </div>
-              
-              <h2 style="color: #333; margin-bottom: 20px;">Temporary Password Request</h2>
-              <p style="color: #555; line-height: 1.6; margin-bottom: 15px;">
-                You requested a password reset for your SEMI Program account.
-              </p>
-              
-              <div style="background-color: #fef3c7; border: 1px solid #f59e0b; border-radius: 6px; padding: 20px; margin: 25px 0;">
-                <h3 style="color: #92400e; margin: 0 0 15px 0; font-size: 18px;">Your Temporary Password</h3>
-                <p style="margin: 5px 0; color: #92400e; font-size: 20px; font-family: monospace;">
-                  <strong>${tempPassword}</strong>
-                </p>
-              </div>
-              
-              <p style="color: #555; line-height: 1.6; margin-bottom: 20px;">
-                Use this temporary password to log in and you'll be prompted to set a new password.
-              </p>
-              
-              <div style="text-align: center; margin: 30px 0;">
-                <a href="${loginUrl}" style="background-color: #2563eb; color: white; padding: 14px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">
-                  Log In to SEMI Program
-                </a>
-              </div>
-              
-              <div style="background-color: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 15px; margin: 25px 0;">
-                <p style="margin: 0; color: #6b7280; font-size: 14px;">
-                  <strong>Important:</strong> This temporary password will be replaced once you set a new one. If you didn't request this password reset, please contact support.
-                </p>
-              </div>
-              
-              <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
-                <p style="color: #6b7280; font-size: 14px; margin: 0;">
-                  SEMI Program - Strategic Energy Management Initiative<br>
-                  If you have any questions, please contact support.
-                </p>
-              </div>
-            </div>
-          </div>
-        `,
-      });
+      const { sendTemporaryPasswordEmail } = await import('./email');
+      const emailSent = await sendTemporaryPasswordEmail(email, tempPassword);
 
       if (!emailSent) {
         console.error('[FORGOT PASSWORD] Failed to send email');
@@ -400,7 +532,15 @@ export async function registerRoutes(app: Express) {
       
       console.log(`[ADMIN] Toggling company ${companyId} status to: ${isActive}`);
       
+      const before = await dbStorage.getCompanyById(companyId);
       await dbStorage.updateCompanyStatus(companyId, isActive);
+      await recordAudit(req, {
+        action: 'company.toggle_status',
+        entityType: 'company',
+        entityId: companyId,
+        before: { isActive: before?.isActive },
+        after: { isActive },
+      });
       res.json({ message: "Company status updated successfully" });
     } catch (error: any) {
       console.error("Error updating company status:", error);
@@ -433,6 +573,15 @@ export async function registerRoutes(app: Express) {
       console.log(`[USER DEACTIVATION] Deactivating user ${userId} by ${user.id}`);
       
       await dbStorage.deactivateUser(userId);
+      const sessionsRevoked = await revokeAllUserSessions(userId);
+      await recordAudit(req, {
+        action: 'user.deactivate',
+        entityType: 'user',
+        entityId: userId,
+        before: { isActive: true },
+        after: { isActive: false },
+        metadata: { sessionsRevoked },
+      });
       res.json({ message: "User deactivated successfully" });
     } catch (error: any) {
       console.error("Error deactivating user:", error);
@@ -674,7 +823,15 @@ export async function registerRoutes(app: Express) {
       
       console.log(`[ADMIN] Updating company ${companyId} with:`, updates);
       
+      const before = await dbStorage.getCompanyById(companyId);
       const updatedCompany = await dbStorage.updateAdminCompany(companyId, updates);
+      await recordAudit(req, {
+        action: 'company.update',
+        entityType: 'company',
+        entityId: companyId,
+        before,
+        after: updatedCompany,
+      });
       res.json(updatedCompany);
     } catch (error: any) {
       console.error("Error updating company:", error);
@@ -707,6 +864,104 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // GET /api/admin/companies/:id/sso - OpenID Connect sign-in for the company's staff (see oidc-sso.ts)
+  app.get('/api/admin/companies/:id/sso', requireAuth, async (req: any, res: Response) => {
+    try {
+      if (req.user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const config = await dbStorage.getCompanySsoConfig(parseInt(req.params.id));
+      res.json(config ? toSsoConfigSummary(config) : null);
+    } catch (error) {
+      console.error("Error fetching company SSO configuration:", error);
+      res.status(500).json({ message: "Failed to fetch SSO configuration" });
+    }
+  });
+
+  // PUT /api/admin/companies/:id/sso - Create or update; omit clientSecret to keep the saved one
+  app.put('/api/admin/companies/:id/sso', requireAuth, async (req: any, res: Response) => {
+    try {
+      if (req.user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const companyId = parseInt(req.params.id);
+      if (!await dbStorage.getCompanyById(companyId)) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      const { enabled = true, issuerUrl, clientId, clientSecret, allowedDomains, defaultPermissionLevel = 'viewer' } = req.body;
+      let issuer: URL;
+      try {
+        issuer = new URL(String(issuerUrl));
+      } catch {
+        return res.status(400).json({ message: "Issuer URL must be a valid URL" });
+      }
+      if (issuer.protocol !== 'https:' && !allowsInsecureIssuer(issuer.href)) {
+        return res.status(400).json({ message: "Issuer URL must use https" });
+      }
+      if (typeof clientId !== 'string' || !clientId.trim()) {
+        return res.status(400).json({ message: "Client ID is required" });
+      }
+      const domains: string[] = Array.isArray(allowedDomains)
+        ? Array.from(new Set(allowedDomains.map((domain: unknown) => String(domain).trim().toLowerCase().replace(/^@/, '')).filter(Boolean)))
+        : [];
+      if (domains.length === 0 || domains.some(domain => !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain))) {
+        return res.status(400).json({ message: "Allowed email domains must be a list of domains such as example.com" });
+      }
+      if (!(permissionLevelEnum.enumValues as readonly unknown[]).includes(defaultPermissionLevel)) {
+        return res.status(400).json({ message: "Invalid default permission level" });
+      }
+      const conflicts = await dbStorage.getSsoDomainConflicts(domains, companyId);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: `Already used by another company's single sign-on: ${conflicts.join(', ')}` });
+      }
+
+      const before = await dbStorage.getCompanySsoConfig(companyId);
+      const config = await dbStorage.upsertCompanySsoConfig(companyId, {
+        enabled: enabled !== false,
+        issuerUrl: issuer.href.replace(/\/$/, ''),
+        clientId: clientId.trim(),
+        // undefined keeps the saved secret, an empty string clears it
+        clientSecret: clientSecret === undefined ? before?.clientSecret ?? null : String(clientSecret).trim() || null,
+        allowedDomains: domains,
+        defaultPermissionLevel,
+        updatedBy: req.user.id,
+      });
+      await recordAudit(req, {
+        action: 'company.sso_update',
+        entityType: 'company',
+        entityId: companyId,
+        before,
+        after: config,
+      });
+      res.json(toSsoConfigSummary(config));
+    } catch (error) {
+      console.error("Error saving company SSO configuration:", error);
+      res.status(500).json({ message: "Failed to save SSO configuration" });
+    }
+  });
+
+  // DELETE /api/admin/companies/:id/sso - Staff go back to signing in with passwords only
+  app.delete('/api/admin/companies/:id/sso', requireAuth, async (req: any, res: Response) => {
+    try {
+      if (req.user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const companyId = parseInt(req.params.id);
+      const before = await dbStorage.getCompanySsoConfig(companyId);
+      if (!before || !await dbStorage.deleteCompanySsoConfig(companyId)) {
+        return res.status(404).json({ message: "SSO configuration not found" });
+      }
+      await recordAudit(req, { action: 'company.sso_delete', entityType: 'company', entityId: companyId, before });
+      res.json({ message: "SSO configuration removed" });
+    } catch (error) {
+      console.error("Error removing company SSO configuration:", error);
+      res.status(500).json({ message: "Failed to remove SSO configuration" });
+    }
+  });
+
   // DELETE /api/admin/companies/:id - Delete company (admin only)
   app.delete('/api/admin/companies/:id', requireAuth, async (req: any, res: Response) => {
     try {
@@ -719,7 +974,9 @@ export async function registerRoutes(app: Express) {
       
       console.log(`[ADMIN] Deleting company ${companyId} by admin ${user.email}`);
       
+      const before = await dbStorage.getCompanyById(companyId);
       await dbStorage.deleteAdminCompany(companyId);
+      await recordAudit(req, { action: 'company.delete', entityType: 'company', entityId: companyId, before });
       res.json({ success: true });
     } catch (error: any) {
       console.error("Error deleting company:", error);
@@ -762,7 +1019,20 @@ export async function registerRoutes(app: Express) {
       }
       
       const userId = req.params.id;
+      const before = await dbStorage.getUser(userId);
       const result = await dbStorage.updateUser(userId, req.body);
+      // Deactivating signs the user out everywhere
+      const sessionsRevoked = before?.isActive !== false && result.isActive === false
+        ? await revokeAllUserSessions(userId)
+        : undefined;
+      await recordAudit(req, {
+        action: 'user.update',
+        entityType: 'user',
+        entityId: userId,
+        before,
+        after: result,
+        metadata: sessionsRevoked !== undefined ? { sessionsRevoked } : undefined,
+      });
       res.json(result);
     } catch (error) {
       console.error("Error updating user:", error);
@@ -783,7 +1053,9 @@ export async function registerRoutes(app: Express) {
       }
       
       const userId = req.params.id;
+      const before = await dbStorage.getUser(userId);
       await dbStorage.deleteAdminUser(userId);
+      await recordAudit(req, { action: 'user.delete', entityType: 'user', entityId: userId, before });
       res.json({ message: "User deleted successfully" });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -805,7 +1077,15 @@ export async function registerRoutes(app: Express) {
       
       const { userIds } = req.body;
       for (const userId of userIds) {
+        const before = await dbStorage.getUser(userId);
         await dbStorage.deleteAdminUser(userId);
+        await recordAudit(req, {
+          action: 'user.bulk_delete',
+          entityType: 'user',
+          entityId: userId,
+          before,
+          metadata: { batchSize: userIds.length },
+        });
       }
       res.json({ message: `${userIds.length} users deleted successfully` });
     } catch (error) {
@@ -830,12 +1110,15 @@ export async function registerRoutes(app: Express) {
       }
       
       const userId = req.params.id;
-      const { password } = req.body;
+      const { password, expireSessions = true } = req.body;
       
-      console.log(`[ADMIN RESET] Resetting password for user: ${userId} with raw password: "${password}"`);
+      console.log(`[ADMIN RESET] Resetting password for user: ${userId}`);
       
       // Pass raw password to storage method - it will handle the hashing
       await dbStorage.resetUserPassword(userId, password);
+      // Unless the admin opts out, sessions signed in with the old password end too
+      const sessionsRevoked = expireSessions !== false ? await revokeAllUserSessions(userId) : 0;
+      await recordAudit(req, { action: 'user.reset_password', entityType: 'user', entityId: userId, metadata: { sessionsRevoked } });
       
       console.log(`[ADMIN RESET] Password reset completed for user: ${userId}`);
       res.json({ message: "Password reset successfully" });
@@ -849,6 +1132,104 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // Roles that must use two-factor authentication; users in them enroll on their next login
+  app.get('/api/admin/security/two-factor-policy', requireAuth, async (req: any, res: Response) => {
+    try {
+      if (req.user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const policies = await dbStorage.getRoleSecurityPolicies();
+      res.json({ requiredRoles: policies.filter(policy => policy.requireTwoFactor).map(policy => policy.role) });
+    } catch (error) {
+      console.error("Error fetching two-factor policy:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor policy" });
+    }
+  });
+
+  app.put('/api/admin/security/two-factor-policy', requireAuth, async (req: any, res: Response) => {
+    try {
+      if (req.user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const { requiredRoles } = req.body;
+      if (!Array.isArray(requiredRoles) || requiredRoles.some((role: unknown) => !(roleEnum.enumValues as readonly unknown[]).includes(role))) {
+        return res.status(400).json({ message: "requiredRoles must be a list of user roles" });
+      }
+
+      const before = (await dbStorage.getRoleSecurityPolicies()).filter(policy => policy.requireTwoFactor).map(policy => policy.role);
+      const policies = await dbStorage.setTwoFactorRequiredRoles(requiredRoles, req.user.id);
+      const after = policies.filter(policy => policy.requireTwoFactor).map(policy => policy.role);
+      await recordAudit(req, {
+        action: 'security_policy.two_factor_update',
+        entityType: 'security_policy',
+        entityId: 'two_factor',
+        before: { requiredRoles: before },
+        after: { requiredRoles: after },
+      });
+      res.json({ requiredRoles: after });
+    } catch (error) {
+      console.error("Error updating two-factor policy:", error);
+      res.status(500).json({ message: "Failed to update two-factor policy" });
+    }
+  });
+
+  // Sign a user out of every device
+  app.post('/api/admin/users/:id/sessions/revoke', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const userId = req.params.id;
+      if (!await dbStorage.getUser(userId)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // An admin signing themselves out keeps the session they are using
+      const revoked = await revokeAllUserSessions(userId, userId === user.id ? req.sessionID : undefined);
+      await recordAudit(req, {
+        action: 'user.sessions_revoked',
+        entityType: 'user',
+        entityId: userId,
+        metadata: { revoked, byAdmin: true },
+      });
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Failed to sign out user sessions" });
+    }
+  });
+
+  // Clear a login lockout and the failed-attempt count before it expires
+  app.post('/api/admin/users/:id/unlock', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const userId = req.params.id;
+      const before = await dbStorage.getUser(userId);
+      if (!before) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await dbStorage.clearFailedLogins(userId);
+      await recordAudit(req, {
+        action: 'user.unlock',
+        entityType: 'user',
+        entityId: userId,
+        before: { failedLoginAttempts: before.failedLoginAttempts, lockedUntil: before.lockedUntil },
+        after: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+      res.json({ message: "Account unlocked" });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
   // ============================================================================
   // CRITICAL ADMIN APPLICATION MANAGEMENT ENDPOINTS
   // ============================================================================
@@ -866,7 +1247,9 @@ export async function registerRoutes(app: Express) {
       }
       
       const applicationId = parseInt(req.params.id);
+      const before = await dbStorage.getApplication(applicationId);
       await dbStorage.deleteApplication(applicationId);
+      await recordAudit(req, { action: 'application.delete', entityType: 'application', entityId: applicationId, before });
       res.json({ message: "Application deleted successfully" });
     } catch (error) {
       console.error("Error deleting application:", error);
@@ -931,7 +1314,15 @@ export async function registerRoutes(app: Express) {
       
       const { companyIds } = req.body;
       for (const companyId of companyIds) {
+        const before = await dbStorage.getCompanyById(companyId);
         await dbStorage.deleteAdminCompany(companyId);
+        await recordAudit(req, {
+          action: 'company.bulk_delete',
+          entityType: 'company',
+          entityId: companyId,
+          before,
+          metadata: { batchSize: companyIds.length },
+        });
       }
       res.json({ message: `${companyIds.length} companies deleted successfully` });
     } catch (error) {
@@ -982,6 +1373,12 @@ export async function registerRoutes(app: Express) {
       }
       
       await dbStorage.clearGhostApplicationId(applicationId);
+      await recordAudit(req, {
+        action: 'ghost_application_id.clear',
+        entityType: 'ghost_application_id',
+        entityId: applicationId,
+        before: { applicationId },
+      });
       console.log(`[GHOST API] Successfully cleared ghost ID: ${applicationId}`);
       res.json({ 
         message: `Ghost ID ${applicationId} cleared successfully`
@@ -1009,6 +1406,12 @@ export async function registerRoutes(app: Express) {
       }
       
       const clearedCount = await dbStorage.clearGhostApplicationIds(applicationIds);
+      await recordAudit(req, {
+        action: 'ghost_application_id.bulk_clear',
+        entityType: 'ghost_application_id',
+        before: { applicationIds },
+        metadata: { clearedCount },
+      });
       console.log(`[GHOST API] Successfully cleared ${clearedCount} ghost IDs:`, applicationIds);
       res.json({ 
         message: `${clearedCount} ghost IDs cleared successfully`,
@@ -1089,13 +1492,144 @@ export async function registerRoutes(app: Express) {
       if (user.role !== 'system_admin') {
         return res.status(403).json({ message: "Access denied" });
       }
-      const submissions = await dbStorage.getPendingSubmissions();
+      // ?assignee=me | unassigned | <reviewer id>, ?activityType=FRA
+      const { assignee, activityType } = req.query;
+      const submissions = await dbStorage.getPendingSubmissions({
+        assignedReviewerId: assignee === 'me' ? user.id : assignee === 'unassigned' ? null : assignee || undefined,
+        activityType: activityType || undefined,
+      });
       res.json(submissions);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch pending submissions" });
     }
   });
 
+  // ============================================================================
+  // REVIEWER ASSIGNMENT ENDPOINTS
+  // ============================================================================
+
+  // POST /api/admin/submissions/:id/claim - Take ownership of an unassigned submission
+  app.post('/api/admin/submissions/:id/claim', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const submissionId = parseInt(req.params.id);
+      const claimed = await dbStorage.claimSubmission(submissionId, user.id);
+      if (!claimed) {
+        return res.status(409).json({ message: "Submission is already assigned to a reviewer" });
+      }
+
+      await recordAudit(req, {
+        action: 'submission.claim',
+        entityType: 'submission',
+        entityId: submissionId,
+        before: { assignedReviewerId: null },
+        after: { assignedReviewerId: user.id },
+      });
+      res.json(claimed);
+    } catch (error: any) {
+      console.error("Error claiming submission:", error);
+      res.status(500).json({ message: "Failed to claim submission" });
+    }
+  });
+
+  // PATCH /api/admin/submissions/:id/assignee - Assign, reassign or unassign a reviewer
+  app.patch('/api/admin/submissions/:id/assignee', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const submissionId = parseInt(req.params.id);
+      const reviewerId: string | null = req.body.reviewerId || null;
+
+      if (reviewerId) {
+        const reviewer = await dbStorage.getUser(reviewerId);
+        if (!reviewer || reviewer.role !== 'system_admin' || !reviewer.isActive) {
+          return res.status(400).json({ message: "Reviewer must be an active system admin" });
+        }
+      }
+
+      const before = await dbStorage.getActivityTemplateSubmissionById(submissionId);
+      if (!before) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      const updated = await dbStorage.assignSubmissionReviewer(submissionId, reviewerId, user.id);
+
+      if (reviewerId && reviewerId !== user.id && reviewerId !== before.assignedReviewerId) {
+        const application = await dbStorage.getApplication(updated.applicationId);
+        await dbStorage.createNotification({
+          userId: reviewerId,
+          title: 'Submission assigned to you',
+          message: `${application?.applicationId || `Application ${updated.applicationId}`} has been assigned to you for review.`,
+          type: 'review_assigned',
+          applicationId: updated.applicationId,
+        });
+      }
+
+      await recordAudit(req, {
+        action: reviewerId ? 'submission.assign' : 'submission.unassign',
+        entityType: 'submission',
+        entityId: submissionId,
+        before: { assignedReviewerId: before.assignedReviewerId },
+        after: { assignedReviewerId: reviewerId },
+      });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error assigning submission reviewer:", error);
+      res.status(500).json({ message: "Failed to assign reviewer" });
+    }
+  });
+
+  // POST /api/admin/submissions/auto-assign - Round-robin every unassigned pending submission
+  // whose activity type has auto-assignment switched on
+  app.post('/api/admin/submissions/auto-assign', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const unassigned = await dbStorage.getPendingSubmissions({ assignedReviewerId: null }, 1000);
+      let assignedCount = 0;
+      for (const submission of unassigned) {
+        if (submission.source !== 'activityTemplateSubmissions' || submission.approvalStatus !== 'pending') continue;
+        if (await dbStorage.autoAssignSubmissionReviewer(submission.id)) assignedCount++;
+      }
+
+      await recordAudit(req, {
+        action: 'submission.auto_assign',
+        entityType: 'submission',
+        metadata: { assignedCount },
+      });
+      res.json({ assignedCount });
+    } catch (error: any) {
+      console.error("Error auto-assigning submissions:", error);
+      res.status(500).json({ message: "Failed to auto-assign submissions" });
+    }
+  });
+
+  // GET /api/admin/reviewers/workload - Open submissions per reviewer
+  app.get('/api/admin/reviewers/workload', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const workload = await dbStorage.getReviewerWorkload();
+      res.json(workload);
+    } catch (error: any) {
+      console.error("Error fetching reviewer workload:", error);
+      res.status(500).json({ message: "Failed to fetch reviewer workload" });
+    }
+  });
+
   // System Announcements API Routes
   app.get('/api/admin/announcements', requireAuth, async (req: any, res: Response) => {
     try {
@@ -1136,6 +1670,8 @@ export async function registerRoutes(app: Express) {
       };
 
       const announcement = await dbStorage.createSystemAnnouncement(announcementData);
+      broadcast({ type: 'announcement' });
+      scheduleAnnouncementBroadcast(announcement.scheduledStart, announcement.scheduledEnd);
       res.json(announcement);
     } catch (error) {
       console.error("Error creating announcement:", error);
@@ -1152,6 +1688,8 @@ export async function registerRoutes(app: Express) {
 
       const { id } = req.params;
       const announcement = await dbStorage.updateSystemAnnouncement(parseInt(id), req.body);
+      broadcast({ type: 'announcement' });
+      scheduleAnnouncementBroadcast(announcement.scheduledStart, announcement.scheduledEnd);
       res.json(announcement);
     } catch (error) {
       console.error("Error updating announcement:", error);
@@ -1168,6 +1706,7 @@ export async function registerRoutes(app: Express) {
 
       const { id } = req.params;
       await dbStorage.deleteSystemAnnouncement(parseInt(id));
+      broadcast({ type: 'announcement' });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting announcement:", error);
@@ -1206,6 +1745,9 @@ export async function registerRoutes(app: Express) {
   // ============================================================================
   // DO NOT REMOVE - Required for notification bell functionality
 
+  // Server-sent events for live updates (messages, tickets, notifications, announcements)
+  app.get('/api/events', requireAuth, openEventStream);
+
   // GET user notifications
   app.get('/api/notifications', requireAuth, async (req: any, res: Response) => {
     try {
@@ -1253,6 +1795,44 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // GET the current user's notification channel for each event type (defaults filled in)
+  app.get('/api/notification-preferences', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const stored = await dbStorage.getNotificationPreferences(user.id);
+      res.json(resolveNotificationPreferences(stored, user.role));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  // PUT notification channels, as { [eventType]: channel }
+  app.put('/api/notification-preferences', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const allowedEvents = getNotificationEventsForRole(user.role) as string[];
+      const updates: Partial<Record<NotificationEventType, NotificationChannel>> = {};
+
+      for (const [eventType, channel] of Object.entries(req.body || {})) {
+        if (!allowedEvents.includes(eventType)) {
+          return res.status(400).json({ message: `Unknown notification event: ${eventType}` });
+        }
+        if (!isNotificationChannel(channel)) {
+          return res.status(400).json({ message: `Invalid channel for ${eventType}` });
+        }
+        updates[eventType as NotificationEventType] = channel;
+      }
+
+      await dbStorage.setNotificationPreferences(user.id, updates);
+      const stored = await dbStorage.getNotificationPreferences(user.id);
+      res.json(resolveNotificationPreferences(stored, user.role));
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
   app.get('/api/admin/announcements/:id/stats', requireAuth, async (req: any, res: Response) => {
     try {
       const user = req.user;
@@ -1741,8 +2321,17 @@ export async function registerRoutes(app: Express) {
       
       console.log('Admin updating facility activity:', { facilityId, activityType, isEnabled });
       
+      const existingSettings = await dbStorage.getFacilityActivitySettings(facilityId);
+      const before = existingSettings.find((setting: any) => setting.activityType === activityType);
       const updatedSetting = await dbStorage.updateFacilityActivitySetting(facilityId, activityType, isEnabled);
       console.log('Facility activity setting updated:', updatedSetting);
+      await recordAudit(req, {
+        action: 'facility_activity.toggle',
+        entityType: 'facility_activity',
+        entityId: `${facilityId}:${activityType}`,
+        before: { isEnabled: before?.isEnabled ?? null },
+        after: { isEnabled },
+      });
       
       res.json(updatedSetting);
     } catch (error) {
@@ -2550,7 +3139,7 @@ export async function registerRoutes(app: Express) {
 
       // Send SendGrid email invitation
       console.log('[ROUTE] Sending contractor team invitation email...');
-      const { sendContractorTeamInvitationEmail } = await import('./sendgrid');
+      const { sendContractorTeamInvitationEmail } = await import('./email');
       const emailSuccess = await sendContractorTeamInvitationEmail({
         to: email,
         invitedBy: `${user.firstName} ${user.lastName}`,
@@ -2964,7 +3553,7 @@ export async function registerRoutes(app: Express) {
       }
       
       // Check if application is in a state where contractor removal is allowed
-      const allowedStatuses = ['draft', 'submitted', 'under_review', 'revision_required'];
+      const allowedStatuses = ['draft', 'submitted', 'under_review', 'needs_revision'];
       if (!allowedStatuses.includes(application.status)) {
         console.warn('[CONTRACTOR REMOVAL] Application status does not allow contractor removal:', { 
           applicationId, 
@@ -3016,7 +3605,9 @@ export async function registerRoutes(app: Express) {
       if (user.role === 'system_admin' || 
           (user.companyId && application.companyId === user.companyId) ||
           user.role?.startsWith('contractor_')) {
-        const documents = await dbStorage.getDocumentsByApplication(applicationId);
+        const documents = await dbStorage.getDocumentsByApplication(applicationId, {
+          includeSuperseded: req.query.versions === 'all',
+        });
         console.log(`[API DEBUG] /api/applications/${applicationId}/documents returning:`, documents.length, 'documents:', documents.map(d => ({ id: d.id, originalName: d.originalName, size: d.size })));
         res.json(documents);
       } else {
@@ -3035,38 +3626,119 @@ export async function registerRoutes(app: Express) {
       const { phase } = req.body;
       const user = req.user;
       
-      const result = await dbStorage.startApplicationPhase(applicationId, phase, user.id);
+      const result = await dbStorage.startApplicationPhase(applicationId, phase, user.id, getStatusActor(user.role));
       res.json(result);
     } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error starting application phase:", error);
       res.status(500).json({ message: "Failed to start application phase" });
     }
   });
 
-  // ============================================================================
-  // CRITICAL DOCUMENT MANAGEMENT ENDPOINTS - DO NOT REMOVE
-  // ============================================================================
-  // These endpoints handle file uploads and document management for applications
-  // ESSENTIAL for file upload functionality in template forms
-  
-  // Upload documents endpoint
-  app.post('/api/documents/upload', requireAuth, (req: any, res: Response, next: any) => {
-    console.log('[UPLOAD] Starting upload process...');
-    upload.array('files', 10)(req, res, (err: any) => {
-      if (err) {
-        console.log('[UPLOAD] Multer error:', err);
-        return res.status(500).json({ message: 'Upload middleware error', error: err.message });
-      }
-      console.log('[UPLOAD] Multer processing complete');
-      next();
-    });
-  }, async (req: any, res: Response) => {
+  // GET application status history - timeline of every status transition
+  app.get('/api/applications/:id/status-history', requireAuth, async (req: any, res: Response) => {
     try {
-      const user = req.user;
-      const { applicationId, documentType = 'other' } = req.body;
-      
-      if (!req.files || req.files.length === 0) {
-        return res.status(400).json({ message: "No files uploaded" });
+      const applicationId = parseInt(req.params.id);
+      const application = await dbStorage.getApplicationById(applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (!(await canAccessApplication(req.user, application))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const history = await dbStorage.getApplicationStatusHistory(applicationId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching application status history:", error);
+      res.status(500).json({ message: "Failed to fetch application status history" });
+    }
+  });
+
+  // PATCH application status - manual transitions allowed by shared/application-workflow.ts
+  app.patch('/api/applications/:id/status', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const applicationId = parseInt(req.params.id);
+      const { status, reviewNotes } = req.body;
+
+      if (!status) {
+        return res.status(400).json({ message: "Status is required" });
+      }
+
+      const application = await dbStorage.getApplicationById(applicationId);
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (!(await canAccessApplication(user, application))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const actor = getStatusActor(user.role);
+      // Viewers can see an application but not move it through the workflow
+      if (actor !== 'admin' && (user.role === 'team_member' || user.role === 'contractor_team_member') && !hasPermissionLevel(user, 'editor')) {
+        return res.status(403).json({ message: "Editor permission is required to change the application's status" });
+      }
+      if (!canTransition(application.status, status, actor)) {
+        return res.status(409).json({ message: `Cannot move application from '${application.status}' to '${status}'` });
+      }
+
+      const transition = getAllowedTransitions(application.status, actor).find(t => t.to === status);
+      if (transition?.requiresNotes && !String(reviewNotes ?? '').trim()) {
+        return res.status(400).json({ message: `Notes are required to ${transition.action.toLowerCase()}` });
+      }
+
+      const isReview = actor === 'admin';
+      const updated = await dbStorage.updateApplicationStatus(applicationId, {
+        status,
+        reviewNotes: isReview ? reviewNotes : undefined,
+        reviewedBy: isReview ? user.id : undefined,
+        reviewedAt: isReview ? new Date() : undefined,
+        changedBy: user.id,
+        note: reviewNotes
+      }, actor);
+
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating application status:", error);
+      res.status(500).json({ message: "Failed to update application status" });
+    }
+  });
+
+  // ============================================================================
+  // CRITICAL DOCUMENT MANAGEMENT ENDPOINTS - DO NOT REMOVE
+  // ============================================================================
+  // These endpoints handle file uploads and document management for applications
+  // ESSENTIAL for file upload functionality in template forms
+  
+  // Upload documents endpoint
+  app.post('/api/documents/upload', requireAuth, (req: any, res: Response, next: any) => {
+    console.log('[UPLOAD] Starting upload process...');
+    upload.array('files', 10)(req, res, (err: any) => {
+      if (err?.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: `Files over ${SINGLE_REQUEST_UPLOAD_MB} MB must be sent as a resumable upload` });
+      }
+      if (err) {
+        console.log('[UPLOAD] Multer error:', err);
+        return res.status(500).json({ message: 'Upload middleware error', error: err.message });
+      }
+      console.log('[UPLOAD] Multer processing complete');
+      next();
+    });
+  }, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const { applicationId, documentType = 'other' } = req.body;
+      
+      if (!req.files || req.files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
       }
       
       console.log(`[UPLOAD] User ${user.id} uploading ${req.files.length} files for application ${applicationId}`);
@@ -3092,6 +3764,23 @@ export async function registerRoutes(app: Express) {
         }
       }
       
+      // The same per-activity ceiling as chunked uploads
+      const maxBytes = await getUploadLimit(applicationId ? parseInt(applicationId) : null);
+      const oversized = req.files.find((file: Express.Multer.File) => file.size > maxBytes);
+      if (oversized) {
+        const limitMb = Math.round(maxBytes / (1024 * 1024));
+        return res.status(413).json({ message: `${oversized.originalname} is larger than the ${limitMb} MB limit for this upload`, file: oversized.originalname });
+      }
+      
+      // Refuse the whole batch if any file fails the content checks, before storing anything
+      try {
+        req.files.forEach((file: Express.Multer.File) => inspectUpload(file));
+      } catch (inspectError) {
+        if (!(inspectError instanceof UploadRejectedError)) throw inspectError;
+        console.log(`[UPLOAD] Rejected: ${inspectError.message}`);
+        return res.status(415).json({ message: inspectError.message, file: inspectError.fileName });
+      }
+      
       const uploadedDocuments = [];
       
       for (const file of req.files) {
@@ -3108,26 +3797,15 @@ export async function registerRoutes(app: Express) {
             folderPath = 'general';
           }
           
-          // Upload file to Supabase storage
-          console.log(`[SUPABASE UPLOAD] Uploading to folder: ${folderPath}`);
-          const { filePath, publicUrl } = await storageService.uploadFile(file, folderPath);
-          
-          console.log(`[SUPABASE UPLOAD] File uploaded successfully: ${filePath}`);
-          
-          const document = await dbStorage.createDocument({
+          const document = await saveDocumentUpload(file, folderPath, {
             applicationId: applicationId ? parseInt(applicationId) : null,
             companyId: applicationId ? null : (user.companyId || null),
             documentType,
-            originalName: file.originalname,
-            filename: path.basename(filePath), // Extract filename from full path
-            filePath: filePath, // This now contains the Supabase storage path
-            size: file.size,
-            mimeType: file.mimetype,
             uploadedBy: user.id
           });
           
           uploadedDocuments.push(document);
-          console.log(`[UPLOAD] Document created: ${document.id} - ${file.originalname} stored at ${filePath}`);
+          console.log(`[UPLOAD] Document created: ${document.id} - ${file.originalname} stored at ${document.filePath} (${document.scanStatus})`);
           
         } catch (uploadError) {
           console.error(`[UPLOAD ERROR] Failed to upload ${file.originalname}:`, uploadError);
@@ -3164,7 +3842,9 @@ export async function registerRoutes(app: Express) {
       if (user.role === 'system_admin' || 
           (user.companyId && application.companyId === user.companyId) ||
           user.role?.startsWith('contractor_')) {
-        const documents = await dbStorage.getDocumentsByApplication(applicationId);
+        const documents = await dbStorage.getDocumentsByApplication(applicationId, {
+          includeSuperseded: req.query.versions === 'all',
+        });
         console.log(`[DOCS] Found ${documents.length} documents for application ${applicationId}`);
         res.json(documents);
       } else {
@@ -3177,6 +3857,29 @@ export async function registerRoutes(app: Express) {
     }
   });
   
+  // Scan status of recently uploaded documents - polled by the upload dialog while files are quarantined
+  app.get('/api/documents/scan-status', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const ids = String(req.query.ids || '')
+        .split(',')
+        .map(id => parseInt(id))
+        .filter(id => !isNaN(id))
+        .slice(0, 50);
+
+      const statuses = [];
+      for (const id of ids) {
+        const document = await dbStorage.getDocumentById(id);
+        if (!document || (document.uploadedBy !== user.id && user.role !== 'system_admin')) continue;
+        statuses.push({ id: document.id, scanStatus: document.scanStatus, scanDetail: document.scanDetail });
+      }
+      res.json(statuses);
+    } catch (error) {
+      console.error('Error fetching document scan status:', error);
+      res.status(500).json({ message: 'Failed to fetch scan status' });
+    }
+  });
+  
   // Download document endpoint
   app.get('/api/documents/:id/download', requireAuth, async (req: any, res: Response) => {
     try {
@@ -3234,10 +3937,21 @@ export async function registerRoutes(app: Express) {
         }
       }
       
-      // Check if this is a preview request (query parameter)
-      const isPreview = req.query.preview === 'true';
+      // Quarantined and infected files are never served
+      if (!isDocumentAvailable(document)) {
+        return res.status(423).json({
+          message: document.scanStatus === 'pending'
+            ? "This file is still being scanned. Try again in a moment."
+            : "This file was blocked by the virus scan.",
+          scanStatus: document.scanStatus,
+        });
+      }
+      
+      // Check if this is a preview request (query parameter); only PDFs and images are shown inline
+      const isPreview = req.query.preview === 'true' && isInlineSafeMimeType(document.mimeType);
       
       // Set appropriate headers
+      res.setHeader('X-Content-Type-Options', 'nosniff');
       if (isPreview) {
         // For preview, use inline disposition to display in browser
         res.setHeader('Content-Disposition', `inline; filename="${document.originalName}"`);
@@ -3247,53 +3961,32 @@ export async function registerRoutes(app: Express) {
       }
       res.setHeader('Content-Type', document.mimeType || 'application/octet-stream');
       
-      // Check if this is a Supabase storage path or local file path
       const filePath = document.filePath;
       console.log(`[DOWNLOAD] Attempting to download file: ${filePath}`);
-      
-      if (filePath.startsWith('uploads/') || path.isAbsolute(filePath)) {
-        // Legacy local file system path
-        let localFilePath = filePath;
-        if (!path.isAbsolute(localFilePath)) {
-          localFilePath = path.resolve(localFilePath);
-        }
-        
-        if (fs.existsSync(localFilePath)) {
-          console.log(`[DOWNLOAD] Serving local file: ${localFilePath}`);
-          res.sendFile(localFilePath);
-        } else {
-          console.error(`[DOWNLOAD] Local file not found: ${localFilePath}`);
-          res.status(404).json({ message: "File not found on disk", filePath: localFilePath });
-        }
-      } else {
-        // Supabase storage path
-        try {
-          console.log(`[DOWNLOAD] Downloading from Supabase storage: ${filePath}`);
-          
-          if (isPreview) {
-            // For preview, redirect to Supabase signed URL
-            const signedUrl = await storageService.getSignedUrl(filePath, 3600); // 1 hour expiry
-            console.log(`[DOWNLOAD] Redirecting to Supabase URL for preview`);
-            res.redirect(signedUrl);
-          } else {
-            // For download, stream the file with proper headers
-            const { data } = await storageService.downloadFile(filePath);
-            
-            // Convert blob to buffer and stream
-            const arrayBuffer = await data.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-            
-            console.log(`[DOWNLOAD] Streaming file from Supabase, size: ${buffer.length} bytes`);
-            res.send(buffer);
-          }
-        } catch (supabaseError) {
-          console.error(`[DOWNLOAD] Supabase download error:`, supabaseError);
-          res.status(404).json({ 
-            message: "File not found in storage", 
-            filePath: filePath,
-            error: supabaseError instanceof Error ? supabaseError.message : 'Unknown error'
-          });
+
+      try {
+        const { store, key } = locateFile(filePath);
+
+        // Remote stores serve previews straight from a signed URL
+        if (isPreview && store.driver !== 'local') {
+          res.redirect(await store.getSignedUrl(key, 3600)); // 1 hour expiry
+          return;
         }
+
+        const { body, size } = await store.get(key);
+        if (size !== undefined) res.setHeader('Content-Length', size);
+        body.on('error', (streamError) => {
+          console.error(`[DOWNLOAD] Stream error for ${filePath}:`, streamError);
+          res.destroy(streamError);
+        });
+        body.pipe(res);
+      } catch (storeError) {
+        console.error(`[DOWNLOAD] File store error:`, storeError);
+        res.status(404).json({
+          message: "File not found in storage",
+          filePath: filePath,
+          error: storeError instanceof Error ? storeError.message : 'Unknown error'
+        });
       }
     } catch (error: any) {
       console.error('Error downloading document:', error);
@@ -3301,6 +3994,26 @@ export async function registerRoutes(app: Express) {
     }
   });
   
+  // Version history of the logical document a version belongs to
+  app.get('/api/documents/:id/versions', requireAuth, async (req: any, res: Response) => {
+    try {
+      const document = await dbStorage.getDocumentById(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!(await canManageDocument(req.user, document))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const documentGroupId = document.documentGroupId ?? document.id;
+      const versions = await dbStorage.getDocumentVersions(documentGroupId);
+      res.json({ documentGroupId, versions });
+    } catch (error) {
+      console.error("Error fetching document versions:", error);
+      res.status(500).json({ message: "Failed to fetch document versions" });
+    }
+  });
+
   // Delete document endpoint
   app.delete('/api/documents/:id', requireAuth, async (req: any, res: Response) => {
     try {
@@ -3321,13 +4034,12 @@ export async function registerRoutes(app: Express) {
         }
       }
       
-      // Delete file from disk
+      // Delete the stored file
       try {
-        if (fs.existsSync(document.filePath)) {
-          fs.unlinkSync(document.filePath);
-        }
+        const { store, key } = locateFile(document.filePath);
+        await store.delete(key);
       } catch (fileError) {
-        console.error('Error deleting file from disk:', fileError);
+        console.error('Error deleting file from storage:', fileError);
       }
       
       // Delete from database
@@ -3377,7 +4089,9 @@ export async function registerRoutes(app: Express) {
       }
       
       console.log(`[DOCUMENTS API] Fetching documents for company ${user.companyId}`);
-      const documents = await dbStorage.getDocumentsByCompany(user.companyId);
+      const documents = await dbStorage.getDocumentsByCompany(user.companyId, {
+        includeSuperseded: req.query.versions === 'all',
+      });
       console.log(`[DOCUMENTS API] Found ${documents.length} documents for company ${user.companyId}`);
       
       res.json(documents);
@@ -3400,6 +4114,157 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // ============================================================================
+  // CHUNKED UPLOADS - resumable uploads with per-chunk checksums (see server/chunked-uploads.ts)
+  // ============================================================================
+
+  // Size ceiling and chunk size for uploads to an application (or general uploads)
+  app.get('/api/uploads/limits', requireAuth, async (req: any, res: Response) => {
+    try {
+      const applicationId = req.query.applicationId ? parseInt(req.query.applicationId) : null;
+      res.json({ maxBytes: await getUploadLimit(applicationId), chunkSize: UPLOAD_CHUNK_SIZE });
+    } catch (error) {
+      sendUploadError(res, error, 'Fetch upload limits');
+    }
+  });
+
+  app.post('/api/uploads', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const { fileName, mimeType, size, purpose = 'document' } = req.body;
+      let documentType = req.body.documentType;
+      let applicationId = req.body.applicationId ? parseInt(req.body.applicationId) : null;
+      let companyId = purpose === 'message' || !applicationId ? (user.companyId || null) : null;
+      const supersedesDocumentId = req.body.supersedesDocumentId ? parseInt(req.body.supersedesDocumentId) : null;
+      let checklistSlotId: string | null = typeof req.body.checklistSlotId === 'string' ? req.body.checklistSlotId : null;
+
+      if (!fileName || typeof fileName !== 'string') {
+        return res.status(400).json({ message: 'File name is required' });
+      }
+      if (purpose !== 'document' && purpose !== 'message') {
+        return res.status(400).json({ message: 'Invalid upload purpose' });
+      }
+
+      // A new version keeps the application, company and type of the document it supersedes
+      if (supersedesDocumentId) {
+        const previous = await dbStorage.getDocumentById(supersedesDocumentId);
+        if (!previous) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        if (purpose !== 'document' || !(await canManageDocument(user, previous))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        if (!previous.isCurrentVersion) {
+          return res.status(409).json({ message: "A newer version of this document has already been uploaded" });
+        }
+        applicationId = previous.applicationId;
+        companyId = previous.companyId;
+        documentType = previous.documentType;
+        checklistSlotId = previous.checklistSlotId;
+      } else if (applicationId) {
+        const application = await dbStorage.getApplicationById(applicationId);
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+        if (!(await canAccessApplication(user, application))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        // Uploads into a required-document slot must match the slot's accepted types
+        if (checklistSlotId) {
+          const templates = await dbStorage.getActivityTemplates(application.activityType);
+          const slot = templates
+            .flatMap(template => parseRequiredDocumentSlots((template as any).requiredDocuments))
+            .find(candidate => candidate.id === checklistSlotId);
+          if (!slot) {
+            return res.status(400).json({ message: 'Unknown required document' });
+          }
+          if (!isAcceptedFileType(slot, fileName)) {
+            return res.status(415).json({
+              message: `${slot.name} accepts ${slot.acceptedTypes.join(', ')} files only`,
+              file: fileName,
+            });
+          }
+        }
+      } else {
+        checklistSlotId = null;
+      }
+
+      const session = await createUploadSession({
+        userId: user.id,
+        purpose,
+        applicationId,
+        companyId,
+        documentType: purpose === 'message' ? 'supporting' : (documentType || 'other'),
+        supersedesDocumentId,
+        checklistSlotId,
+        fileName: fileName.slice(0, 255),
+        mimeType: typeof mimeType === 'string' ? mimeType.slice(0, 100) : '',
+        size: Number(size),
+        maxBytes: await getUploadLimit(applicationId),
+      });
+      res.status(201).json(describeUploadSession(session));
+    } catch (error) {
+      sendUploadError(res, error, 'Create upload session');
+    }
+  });
+
+  app.get('/api/uploads/:id', requireAuth, async (req: any, res: Response) => {
+    try {
+      const session = await dbStorage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      res.json(describeUploadSession(session));
+    } catch (error) {
+      sendUploadError(res, error, 'Fetch upload session');
+    }
+  });
+
+  app.put('/api/uploads/:id/chunks/:index', requireAuth,
+    express.raw({ type: () => true, limit: UPLOAD_CHUNK_SIZE + 1024 }),
+    async (req: any, res: Response) => {
+      try {
+        const session = await dbStorage.getUploadSession(req.params.id);
+        if (!session || session.userId !== req.user.id) {
+          return res.status(404).json({ message: 'Upload not found' });
+        }
+        const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const updated = await receiveChunk(session, parseInt(req.params.index), body, req.get('X-Chunk-Checksum'));
+        res.json(describeUploadSession(updated));
+      } catch (error) {
+        sendUploadError(res, error, 'Store upload chunk');
+      }
+    });
+
+  app.post('/api/uploads/:id/complete', requireAuth, async (req: any, res: Response) => {
+    try {
+      const session = await dbStorage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      res.json(await completeUploadSession(session));
+    } catch (error) {
+      sendUploadError(res, error, 'Complete upload');
+    }
+  });
+
+  app.delete('/api/uploads/:id', requireAuth, async (req: any, res: Response) => {
+    try {
+      const session = await dbStorage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+      if (session.status === 'completing') {
+        return res.status(409).json({ message: 'Upload is being completed' });
+      }
+      await abortUploadSession(session);
+      res.json({ success: true });
+    } catch (error) {
+      sendUploadError(res, error, 'Cancel upload');
+    }
+  });
+
   // ============================================================================
   // ACTIVITY SETTINGS ENDPOINTS
   // ============================================================================ 
@@ -3435,11 +4300,31 @@ export async function registerRoutes(app: Express) {
       }
       
       const { activityType } = req.params;
-      const updates = { ...req.body, updatedBy: user.id };
+      // Contractor assignment has its own endpoint below
+      const updatableFields = ['isEnabled', 'requiresFRA', 'maxApplications', 'description', 'reviewSlaBusinessDays',
+        'reviewSlaWarningBusinessDays', 'autoAssignReviewers', 'maxUploadSizeMb'] as const;
+      const updates: Record<string, any> = { updatedBy: user.id };
+      for (const field of updatableFields) {
+        if (req.body[field] !== undefined) updates[field] = req.body[field];
+      }
+
+      if (updates.reviewSlaBusinessDays !== undefined && updates.reviewSlaBusinessDays !== null &&
+          (!Number.isInteger(updates.reviewSlaBusinessDays) || updates.reviewSlaBusinessDays < 1)) {
+        return res.status(400).json({ message: "Review SLA must be a whole number of business days, at least 1" });
+      }
+      if (updates.reviewSlaWarningBusinessDays !== undefined && updates.reviewSlaWarningBusinessDays !== null &&
+          (!Number.isInteger(updates.reviewSlaWarningBusinessDays) || updates.reviewSlaWarningBusinessDays < 0)) {
+        return res.status(400).json({ message: "Review SLA warning must be a whole number of business days" });
+      }
+
+      if (updates.maxUploadSizeMb !== undefined && updates.maxUploadSizeMb !== null &&
+          (!Number.isInteger(updates.maxUploadSizeMb) || updates.maxUploadSizeMb < 1 || updates.maxUploadSizeMb > MAX_UPLOAD_SIZE_MB)) {
+        return res.status(400).json({ message: `Upload size limit must be between 1 and ${MAX_UPLOAD_SIZE_MB} MB` });
+      }
       
       console.log('Updating activity settings for:', activityType, 'with:', updates);
       
-      const updatedSetting = await dbStorage.updateActivitySetting(activityType, updates);
+      const updatedSetting = await dbStorage.updateActivitySetting(activityType, updates as { updatedBy: string });
       
       console.log('Activity setting updated successfully:', updatedSetting);
       res.json(updatedSetting);
@@ -3541,9 +4426,15 @@ export async function registerRoutes(app: Express) {
       }
       
       console.log('[FORM TEMPLATE API] Creating template with data:', req.body);
+
+      const checklist = parseTemplateChecklist(req.body);
+      if (checklist.error) {
+        return res.status(400).json({ message: checklist.error });
+      }
       
       const templateData = {
         ...req.body,
+        requiredDocuments: checklist.requiredDocuments ?? [],
         createdBy: user.id,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -3576,9 +4467,15 @@ export async function registerRoutes(app: Express) {
       
       console.log('[FORM TEMPLATE API] Updating template:', req.params.id, 'with data:', req.body);
       
+      const checklist = parseTemplateChecklist(req.body);
+      if (checklist.error) {
+        return res.status(400).json({ message: checklist.error });
+      }
+
       const templateId = parseInt(req.params.id);
       const updates = {
         ...req.body,
+        ...(checklist.requiredDocuments ? { requiredDocuments: checklist.requiredDocuments } : {}),
         updatedAt: new Date(),
         // Ensure formFields is properly set and not null
         formFields: req.body.formFields || '[]'
@@ -3607,9 +4504,15 @@ export async function registerRoutes(app: Express) {
       
       // Filter out read-only fields and frontend-only fields that cause database errors
       const { id, createdAt, updatedAt, fields, form_fields, fieldCount, ...cleanData } = req.body;
+
+      const checklist = parseTemplateChecklist(req.body);
+      if (checklist.error) {
+        return res.status(400).json({ message: checklist.error });
+      }
       
       const updates = {
         ...cleanData,
+        ...(checklist.requiredDocuments ? { requiredDocuments: checklist.requiredDocuments } : {}),
         // Ensure formFields is properly serialized
         formFields: typeof req.body.formFields === 'string' 
           ? req.body.formFields 
@@ -3676,6 +4579,31 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // Every submitted version of the same application template, oldest first, for resubmission diffs
+  app.get('/api/admin/submissions/:id/versions', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const submission = await dbStorage.getActivityTemplateSubmissionById(parseInt(req.params.id));
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      const versions = await dbStorage.getSubmissionVersions(submission.applicationId, submission.activityTemplateId);
+      res.json(versions);
+    } catch (error: any) {
+      console.error('Error fetching submission versions:', error);
+      res.status(500).json({ message: 'Failed to fetch submission versions' });
+    }
+  });
+
+  // The document versions the review page showed; optional, since quick decisions show none
+  const invalidDocumentIds = (documentIds: unknown) =>
+    documentIds !== undefined && !(Array.isArray(documentIds) && documentIds.every(id => Number.isInteger(id)));
+
   // Approve submission
   app.post('/api/admin/submissions/:id/approve', requireAuth, async (req: any, res: Response) => {
     try {
@@ -3685,11 +4613,17 @@ export async function registerRoutes(app: Express) {
       }
       
       const submissionId = parseInt(req.params.id);
-      const { reviewNotes } = req.body;
+      const { reviewNotes, documentIds } = req.body;
+      if (invalidDocumentIds(documentIds)) {
+        return res.status(400).json({ message: 'documentIds must be a list of document ids' });
+      }
       
-      const submission = await dbStorage.approveSubmission(submissionId, user.id, reviewNotes);
+      const submission = await dbStorage.approveSubmission(submissionId, user.id, reviewNotes, documentIds);
       res.json(submission);
     } catch (error: any) {
+      if (error instanceof InvalidStatusTransitionError || error instanceof ReviewedDocumentsChangedError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Error approving submission:', error);
       res.status(500).json({ message: 'Error approving submission', error: error.message });
     }
@@ -3761,6 +4695,61 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ message: "Insufficient permissions to submit templates. Only company admins and team members can submit." });
       }
       
+      // Same workflow gate the applicant form uses to offer the Submit button
+      if (isSubmission) {
+        const application = await dbStorage.getApplicationById(applicationId);
+        if (!application) {
+          return res.status(404).json({ message: "Application not found" });
+        }
+        if (!canTransition(application.status, 'submitted', 'system')) {
+          return res.status(409).json({ message: `Activities cannot be submitted while the application is '${application.status}'` });
+        }
+      }
+      
+      // Reviewer comments on individual fields must all be resolved before resubmitting
+      if (isSubmission) {
+        const unresolvedComments = await dbStorage.getUnresolvedFieldCommentCount(applicationId, activityTemplateId);
+        if (unresolvedComments > 0) {
+          return res.status(409).json({
+            message: `Please resolve all ${unresolvedComments} reviewer comment${unresolvedComments !== 1 ? 's' : ''} before resubmitting.`,
+            unresolvedComments
+          });
+        }
+      }
+      
+      // Recompute calculated fields and re-evaluate show/hide rules rather than trusting the client
+      let answers = typeof submissionData === 'string' ? JSON.parse(submissionData) : (submissionData || formData || {});
+      if (isSubmission) {
+        const formTemplate = await dbStorage.getFormTemplateById(activityTemplateId);
+        if (formTemplate?.formFields) {
+          const templateFields = JSON.parse(formTemplate.formFields);
+          answers = stripHiddenFieldValues(templateFields, applyVisibleCalculatedFields(templateFields, answers));
+
+          // Same validator the applicant form runs before submitting
+          const documentType = getTemplateDocumentType(formTemplate.name);
+          const uploadedFiles = (await dbStorage.getDocumentsByApplication(applicationId))
+            .filter(doc => !doc.messageId && !doc.checklistSlotId && doc.documentType === documentType)
+            .map(doc => ({ name: doc.originalName }));
+          const fieldErrors = validateFormSubmission(templateFields, answers, uploadedFiles);
+          if (Object.keys(fieldErrors).length > 0) {
+            return res.status(400).json({ message: 'Please correct the highlighted fields before submitting.', fieldErrors });
+          }
+        }
+
+        // Every required-document slot of the template must be filled (blocked files do not count)
+        const checklist = evaluateDocumentChecklist(
+          parseRequiredDocumentSlots(formTemplate?.requiredDocuments),
+          (await dbStorage.getDocumentsByApplication(applicationId))
+            .filter(doc => !doc.messageId && doc.scanStatus !== 'infected')
+        );
+        if (!checklist.satisfied) {
+          return res.status(400).json({
+            message: 'Please upload all required documents before submitting.',
+            checklistErrors: checklist.errors,
+          });
+        }
+      }
+      
       console.log(`[SUBMISSION] === TEMPLATE SUBMISSION DEBUG ===`);
       console.log(`[SUBMISSION] User: ${user.email} (${user.role})`);
       console.log(`[SUBMISSION] Application ID: ${applicationId}`);
@@ -3773,7 +4762,7 @@ export async function registerRoutes(app: Express) {
       const submission = await dbStorage.createActivityTemplateSubmission({
         applicationId,
         activityTemplateId,
-        submissionData: submissionData || JSON.stringify(formData),
+        submissionData: JSON.stringify(answers),
         templateSnapshot: templateSnapshot || '{}',
         submittedBy: user.id,
         status,
@@ -3798,9 +4787,10 @@ export async function registerRoutes(app: Express) {
               console.log(`[SUBMISSION] Recalculated status for ${applicationId}: "${updatedApp.detailedStatus}"`);
               
               // Update application with the new detailed status information
-              await dbStorage.updateApplication(applicationId, {
-                status: 'in_progress' // Keep basic status as in_progress for workflow
-              });
+              await dbStorage.updateApplicationStatus(applicationId, {
+                status: 'in_progress', // Keep basic status as in_progress for workflow
+                changedBy: user.id
+              }, 'system');
               
               console.log(`[SUBMISSION] Successfully updated application ${applicationId} status`);
             }
@@ -3827,16 +4817,163 @@ export async function registerRoutes(app: Express) {
       }
       
       const submissionId = parseInt(req.params.id);
-      const { reviewNotes } = req.body;
+      let { reviewNotes } = req.body;
+      const { documentIds } = req.body;
+      if (invalidDocumentIds(documentIds)) {
+        return res.status(400).json({ message: 'documentIds must be a list of document ids' });
+      }
+      
+      // Field comments can stand in for overall notes
+      if (!reviewNotes?.trim()) {
+        const fieldComments = await dbStorage.getSubmissionFieldComments(submissionId);
+        const openComments = fieldComments.filter(comment => !comment.resolvedAt).length;
+        if (openComments > 0) {
+          reviewNotes = `${openComments} field${openComments !== 1 ? 's' : ''} need${openComments === 1 ? 's' : ''} attention - see the comments next to each answer.`;
+        }
+      }
       
-      const submission = await dbStorage.rejectSubmission(submissionId, user.id, reviewNotes);
+      const submission = await dbStorage.rejectSubmission(submissionId, user.id, reviewNotes, documentIds);
       res.json(submission);
     } catch (error: any) {
+      // No notes and no open field comments to stand in for them
+      if (error instanceof TransitionNotesRequiredError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof InvalidStatusTransitionError || error instanceof ReviewedDocumentsChangedError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Error rejecting submission:', error);
       res.status(500).json({ message: 'Error rejecting submission', error: error.message });
     }
   });
 
+  // ============================================================================
+  // FIELD-LEVEL REVIEW COMMENTS
+  // ============================================================================
+  // Reviewers attach comments to individual answers; applicants resolve them before resubmitting
+
+  // GET /api/admin/submissions/:id/field-comments - Comments on one submission
+  app.get('/api/admin/submissions/:id/field-comments', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const comments = await dbStorage.getSubmissionFieldComments(parseInt(req.params.id));
+      res.json(comments);
+    } catch (error: any) {
+      console.error('Error fetching field comments:', error);
+      res.status(500).json({ message: 'Failed to fetch field comments' });
+    }
+  });
+
+  // POST /api/admin/submissions/:id/field-comments - Comment on a field
+  app.post('/api/admin/submissions/:id/field-comments', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const { fieldId, fieldLabel, comment } = req.body;
+      if (!fieldId || !comment?.trim()) {
+        return res.status(400).json({ message: 'Field and comment are required' });
+      }
+
+      const submission = await dbStorage.getActivityTemplateSubmissionById(parseInt(req.params.id));
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      const created = await dbStorage.createSubmissionFieldComment({
+        submissionId: submission.id,
+        applicationId: submission.applicationId,
+        activityTemplateId: submission.activityTemplateId,
+        fieldId,
+        fieldLabel: fieldLabel || null,
+        comment: comment.trim(),
+        createdBy: user.id,
+      });
+      res.json(created);
+    } catch (error: any) {
+      console.error('Error creating field comment:', error);
+      res.status(500).json({ message: 'Failed to create field comment' });
+    }
+  });
+
+  // DELETE /api/admin/field-comments/:id - Withdraw a comment
+  app.delete('/api/admin/field-comments/:id', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const comment = await dbStorage.getSubmissionFieldComment(parseInt(req.params.id));
+      if (!comment) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
+      await dbStorage.deleteSubmissionFieldComment(comment.id);
+      await recordAudit(req, { action: 'field_comment.delete', entityType: 'field_comment', entityId: comment.id, before: comment });
+      res.json({ message: 'Comment deleted' });
+    } catch (error: any) {
+      console.error('Error deleting field comment:', error);
+      res.status(500).json({ message: 'Failed to delete field comment' });
+    }
+  });
+
+  // GET /api/applications/:id/field-comments - All reviewer comments for an application
+  app.get('/api/applications/:id/field-comments', requireAuth, async (req: any, res: Response) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await dbStorage.getApplicationById(applicationId);
+      if (!application) {
+        return res.status(404).json({ message: 'Application not found' });
+      }
+      if (!(await canAccessApplication(req.user, application))) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      const comments = await dbStorage.getApplicationFieldComments(applicationId);
+      res.json(comments);
+    } catch (error: any) {
+      console.error('Error fetching application field comments:', error);
+      res.status(500).json({ message: 'Failed to fetch field comments' });
+    }
+  });
+
+  // PATCH /api/field-comments/:id/resolve - Mark a comment resolved (or reopen it)
+  app.patch('/api/field-comments/:id/resolve', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      const comment = await dbStorage.getSubmissionFieldComment(parseInt(req.params.id));
+      if (!comment) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
+      const application = await dbStorage.getApplicationById(comment.applicationId);
+      if (!application || !(await canAccessApplication(user, application))) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      // Same roles that may submit the template may resolve its comments
+      const canResolve = user.role === 'system_admin' ||
+                         user.role === 'company_admin' ||
+                         (user.permissionLevel && ['editor', 'manager', 'owner'].includes(user.permissionLevel));
+      if (!canResolve) {
+        return res.status(403).json({ message: 'Insufficient permissions to resolve review comments' });
+      }
+
+      const resolved = req.body.resolved !== false;
+      const updated = await dbStorage.setSubmissionFieldCommentResolved(comment.id, resolved ? user.id : null);
+      res.json(updated);
+    } catch (error: any) {
+      console.error('Error resolving field comment:', error);
+      res.status(500).json({ message: 'Failed to update comment' });
+    }
+  });
+
   // ============================================================================
   // COMPANY INFORMATION ENDPOINTS - CRITICAL FOR DASHBOARD AND PROFILE FUNCTIONALITY
   // ============================================================================
@@ -3980,8 +5117,7 @@ export async function registerRoutes(app: Express) {
         applicationId: doc.applicationId,
         filename: doc.filename,
         originalName: doc.original_name || doc.originalName,
-        filePath: doc.filePath,
-        exists: doc.filePath ? fs.existsSync(path.join(process.cwd(), doc.filePath)) : false
+        filePath: doc.filePath
       })));
 
       if (allDocuments.length === 0) {
@@ -4008,8 +5144,6 @@ export async function registerRoutes(app: Express) {
       console.log('[EXPORT] Adding files to archive...');
       let filesAdded = 0;
       for (const doc of allDocuments) {
-        const filePath = path.join(process.cwd(), doc.filePath || '');
-        console.log(`[EXPORT] Checking file: ${filePath}`);
         console.log(`[EXPORT] Document details:`, {
           id: doc.id,
           filename: doc.filename,
@@ -4020,8 +5154,21 @@ export async function registerRoutes(app: Express) {
           facilityName: doc.facilityName,
           applicationId: doc.applicationId
         });
-        
-        if (doc.filePath && fs.existsSync(filePath)) {
+
+        if (!doc.filePath) {
+          console.warn(`[EXPORT] Document ${doc.id} has no file path`);
+          continue;
+        }
+
+        if (!isDocumentAvailable(doc)) {
+          console.warn(`[EXPORT] Skipping document ${doc.id} (scan status ${doc.scanStatus})`);
+          continue;
+        }
+
+        try {
+          const { store, key } = locateFile(doc.filePath);
+          const { body } = await store.get(key);
+
           // Create folder structure: Company (SHORTNAME)/Facility/Application/filename
           const companyFolder = `${doc.companyName} (${doc.companyShortName})`;
           const facilityFolder = doc.facilityName;
@@ -4031,10 +5178,11 @@ export async function registerRoutes(app: Express) {
           const archivePath = `${companyFolder}/${facilityFolder}/${applicationFolder}/${filename}`;
           
           console.log(`[EXPORT] Adding file to ZIP: ${archivePath}`);
-          archive.file(filePath, { name: archivePath });
+          archive.append(body, { name: archivePath });
           filesAdded++;
-        } else {
-          console.warn(`[EXPORT] File not found or path missing: ${filePath} (doc.filePath: ${doc.filePath})`);
+        } catch (storeError) {
+          if (!(storeError instanceof FileNotFoundError)) throw storeError;
+          console.warn(`[EXPORT] File not found in storage: ${doc.filePath}`);
         }
       }
 
@@ -4070,6 +5218,7 @@ export async function registerRoutes(app: Express) {
       console.log(`[TICKETS] Marking ticket ${ticketNumber} as resolved by admin ${user.email}`);
       
       await dbStorage.resolveTicket(ticketNumber);
+      await publishTicketEvent(ticketNumber, { status: 'resolved' });
       
       console.log(`[TICKETS] Ticket ${ticketNumber} marked as resolved successfully`);
       res.json({ success: true, message: "Ticket marked as resolved" });
@@ -4097,6 +5246,7 @@ export async function registerRoutes(app: Express) {
       console.log(`[TICKETS] Updating ticket ${ticketNumber} priority to ${priority} by admin ${user.email}`);
       
       await dbStorage.updateTicketPriority(ticketNumber, priority);
+      await publishTicketEvent(ticketNumber, { priority });
       
       console.log(`[TICKETS] Ticket ${ticketNumber} priority updated to ${priority} successfully`);
       res.json({ success: true, message: "Ticket priority updated" });
@@ -4136,6 +5286,7 @@ export async function registerRoutes(app: Express) {
       };
 
       await dbStorage.createMessage(notificationMessage, ticketNumber);
+      await publishTicketEvent(ticketNumber, { status: 'resolved' });
       
       console.log(`[TICKETS] Ticket ${ticketNumber} marked as resolved by user ${user.email} and admin notification sent`);
       res.json({ 
@@ -4149,6 +5300,255 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // ============================================================================
+  // HELP DESK - ticket assignment, internal notes and canned responses
+  // ============================================================================
+
+  // GET /api/admin/tickets - Ticket metadata (assignee, category, SLA) for the support dashboard
+  app.get('/api/admin/tickets', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const tickets = await dbStorage.getSupportTickets();
+      res.json(tickets);
+    } catch (error: any) {
+      console.error("Error fetching support tickets:", error);
+      res.status(500).json({ message: "Failed to fetch support tickets" });
+    }
+  });
+
+  // GET /api/admin/support/agents - Admins a ticket can be assigned to
+  app.get('/api/admin/support/agents', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const admins = await dbStorage.getActiveSystemAdmins();
+      res.json(admins.map(admin => ({
+        id: admin.id,
+        email: admin.email,
+        firstName: admin.firstName,
+        lastName: admin.lastName,
+      })));
+    } catch (error: any) {
+      console.error("Error fetching support agents:", error);
+      res.status(500).json({ message: "Failed to fetch support agents" });
+    }
+  });
+
+  // PATCH /api/admin/tickets/:ticketNumber - Assign, categorise or link a ticket to an application
+  // Body: { assigneeId?: string | null, category?: string, applicationId?: string | null (e.g. "ACME-001-FRA-001") }
+  app.patch('/api/admin/tickets/:ticketNumber', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { ticketNumber } = req.params;
+      const before = await dbStorage.getSupportTicket(ticketNumber);
+      if (!before) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const updates: { assigneeId?: string | null; category?: string; applicationId?: number | null } = {};
+
+      if (req.body.assigneeId !== undefined) {
+        const assigneeId: string | null = req.body.assigneeId || null;
+        if (assigneeId) {
+          const assignee = await dbStorage.getUser(assigneeId);
+          if (!assignee || assignee.role !== 'system_admin' || !assignee.isActive) {
+            return res.status(400).json({ message: "Assignee must be an active system admin" });
+          }
+        }
+        updates.assigneeId = assigneeId;
+      }
+
+      if (req.body.category !== undefined) {
+        if (!(TICKET_CATEGORIES as readonly string[]).includes(req.body.category)) {
+          return res.status(400).json({ message: "Invalid ticket category" });
+        }
+        updates.category = req.body.category;
+      }
+
+      if (req.body.applicationId !== undefined) {
+        if (req.body.applicationId) {
+          const application = await dbStorage.getApplicationByApplicationId(String(req.body.applicationId).trim());
+          if (!application) {
+            return res.status(400).json({ message: "Application not found" });
+          }
+          updates.applicationId = application.id;
+        } else {
+          updates.applicationId = null;
+        }
+      }
+
+      const updated = await dbStorage.updateSupportTicket(ticketNumber, updates);
+
+      if (updates.assigneeId && updates.assigneeId !== user.id && updates.assigneeId !== before.assigneeId) {
+        await dbStorage.createNotification({
+          userId: updates.assigneeId,
+          title: 'Ticket assigned to you',
+          message: `Support ticket "${before.subject}" (${ticketNumber}) has been assigned to you.`,
+          type: 'ticket_updated',
+        });
+      }
+
+      await recordAudit(req, {
+        action: 'ticket.update',
+        entityType: 'support_ticket',
+        entityId: before.id,
+        before: { assigneeId: before.assigneeId, category: before.category, applicationId: before.applicationId },
+        after: updates,
+      });
+      await publishTicketEvent(ticketNumber, {});
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error updating support ticket:", error);
+      res.status(500).json({ message: "Failed to update ticket" });
+    }
+  });
+
+  // GET /api/admin/tickets/:ticketNumber/notes - Internal notes (never shown to the requester)
+  app.get('/api/admin/tickets/:ticketNumber/notes', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const ticket = await dbStorage.getSupportTicket(req.params.ticketNumber);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const notes = await dbStorage.getTicketNotes(ticket.id);
+      res.json(notes);
+    } catch (error: any) {
+      console.error("Error fetching ticket notes:", error);
+      res.status(500).json({ message: "Failed to fetch ticket notes" });
+    }
+  });
+
+  // POST /api/admin/tickets/:ticketNumber/notes - Add an internal note
+  app.post('/api/admin/tickets/:ticketNumber/notes', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+      if (!note) {
+        return res.status(400).json({ message: "Note is required" });
+      }
+
+      const ticket = await dbStorage.getSupportTicket(req.params.ticketNumber);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const created = await dbStorage.createTicketNote({ ticketId: ticket.id, authorId: user.id, note });
+      // Notes are internal, so only admins hear about them
+      publish({ type: 'ticket', ticketNumber: ticket.ticketNumber }, { roles: ['system_admin'] });
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Error creating ticket note:", error);
+      res.status(500).json({ message: "Failed to add note" });
+    }
+  });
+
+  // GET /api/admin/canned-responses - Reusable replies
+  app.get('/api/admin/canned-responses', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const responses = await dbStorage.getCannedResponses();
+      res.json(responses);
+    } catch (error: any) {
+      console.error("Error fetching canned responses:", error);
+      res.status(500).json({ message: "Failed to fetch canned responses" });
+    }
+  });
+
+  // POST /api/admin/canned-responses - Body: { title, body, category? }
+  app.post('/api/admin/canned-responses', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { title, body, category } = req.body;
+      if (!title?.trim() || !body?.trim()) {
+        return res.status(400).json({ message: "Title and body are required" });
+      }
+
+      const created = await dbStorage.createCannedResponse({
+        title: title.trim(),
+        body: body.trim(),
+        category: category || null,
+        createdBy: user.id,
+      });
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Error creating canned response:", error);
+      res.status(500).json({ message: "Failed to create canned response" });
+    }
+  });
+
+  // PATCH /api/admin/canned-responses/:id
+  app.patch('/api/admin/canned-responses/:id', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { title, body, category } = req.body;
+      if ((title !== undefined && !title.trim()) || (body !== undefined && !body.trim())) {
+        return res.status(400).json({ message: "Title and body cannot be empty" });
+      }
+
+      const updated = await dbStorage.updateCannedResponse(parseInt(req.params.id), {
+        ...(title !== undefined ? { title: title.trim() } : {}),
+        ...(body !== undefined ? { body: body.trim() } : {}),
+        ...(category !== undefined ? { category: category || null } : {}),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Canned response not found" });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error updating canned response:", error);
+      res.status(500).json({ message: "Failed to update canned response" });
+    }
+  });
+
+  // DELETE /api/admin/canned-responses/:id
+  app.delete('/api/admin/canned-responses/:id', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await dbStorage.deleteCannedResponse(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting canned response:", error);
+      res.status(500).json({ message: "Failed to delete canned response" });
+    }
+  });
+
   // ============================================================================
   // ARCHIVE MANAGEMENT API ENDPOINTS
   // ============================================================================
@@ -4343,6 +5743,7 @@ export async function registerRoutes(app: Express) {
       }
 
       await dbStorage.deleteGhostApplicationId(ghostId);
+      await recordAudit(req, { action: 'ghost_application_id.delete', entityType: 'ghost_application_id', entityId: ghostId });
       res.json({ message: "Ghost application ID deleted successfully" });
     } catch (error: any) {
       console.error("Error deleting ghost application ID:", error);
@@ -4358,7 +5759,14 @@ export async function registerRoutes(app: Express) {
         return res.status(403).json({ message: "Admin access required" });
       }
 
+      const existingGhostIds = await dbStorage.getAllGhostApplicationIds();
       await dbStorage.clearAllGhostApplicationIds();
+      await recordAudit(req, {
+        action: 'ghost_application_id.clear_all',
+        entityType: 'ghost_application_id',
+        before: existingGhostIds.map((ghost: any) => ghost.applicationId),
+        metadata: { clearedCount: existingGhostIds.length },
+      });
       res.json({ message: "All ghost application IDs cleared successfully" });
     } catch (error: any) {
       console.error("Error clearing all ghost application IDs:", error);
@@ -4366,6 +5774,113 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // ============================================================================
+  // AUDIT LOG ENDPOINTS
+  // ============================================================================
+
+  const parseAuditLogFilters = (query: any) => ({
+    search: query.search ? String(query.search) : undefined,
+    action: query.action && query.action !== 'all' ? String(query.action) : undefined,
+    entityType: query.entityType && query.entityType !== 'all' ? String(query.entityType) : undefined,
+    actorId: query.actorId ? String(query.actorId) : undefined,
+    from: query.from ? new Date(String(query.from)) : undefined,
+    to: query.to ? new Date(String(query.to)) : undefined,
+  });
+
+  // The first of from/to that is not a date, if any
+  const invalidAuditDateFilter = (query: any) =>
+    (['from', 'to'] as const).find(key => query[key] && isNaN(new Date(String(query[key])).getTime()));
+
+  // GET /api/admin/audit-logs - Searchable, paginated audit log
+  app.get('/api/admin/audit-logs', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const invalidDate = invalidAuditDateFilter(req.query);
+      if (invalidDate) {
+        return res.status(400).json({ message: `Invalid '${invalidDate}' date` });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+      const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+      const [result, facets] = await Promise.all([
+        dbStorage.getAuditLogs({ ...parseAuditLogFilters(req.query), limit, offset }),
+        dbStorage.getAuditLogFacets(),
+      ]);
+
+      res.json({ ...result, ...facets, limit, offset });
+    } catch (error: any) {
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  // GET /api/admin/audit-logs/export - CSV export of the filtered audit log
+  app.get('/api/admin/audit-logs/export', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const invalidDate = invalidAuditDateFilter(req.query);
+      if (invalidDate) {
+        return res.status(400).json({ message: `Invalid '${invalidDate}' date` });
+      }
+
+      const { logs } = await dbStorage.getAuditLogs(parseAuditLogFilters(req.query));
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(auditLogsToCsv(logs));
+    } catch (error: any) {
+      console.error("Error exporting audit logs:", error);
+      res.status(500).json({ message: "Failed to export audit logs" });
+    }
+  });
+
+  // ============================================================================
+  // EMAIL TEMPLATES
+  // ============================================================================
+
+  // GET /api/admin/email-templates - Registered templates with their variables and versions
+  app.get('/api/admin/email-templates', requireAuth, async (req: any, res: Response) => {
+    const user = req.user;
+    if (user.role !== 'system_admin') {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    res.json(listEmailTemplates());
+  });
+
+  // GET /api/admin/email-templates/:name/preview?version=N - Renders a template with sample data
+  app.get('/api/admin/email-templates/:name/preview', requireAuth, async (req: any, res: Response) => {
+    try {
+      const user = req.user;
+      if (user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { name } = req.params;
+      if (!isEmailTemplateName(name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      const version = req.query.version ? parseInt(String(req.query.version), 10) : undefined;
+      const preview = renderEmailTemplatePreview(name, version);
+      if (!preview) {
+        return res.status(404).json({ message: `Version ${req.query.version} of ${name} not found` });
+      }
+      res.json(preview);
+    } catch (error: any) {
+      console.error("Error rendering email template preview:", error);
+      res.status(500).json({ message: "Failed to render email template" });
+    }
+  });
+
   // ============================================================================
   // RECOGNITION SYSTEM API ROUTES
   // ============================================================================
@@ -4414,11 +5929,11 @@ export async function registerRoutes(app: Express) {
 
       let imageFile = null;
       
-      // Handle file upload to Supabase if file is provided
+      // Handle file upload to the file store if file is provided
       if (req.file) {
         try {
           console.log(`[BADGE UPLOAD] Uploading badge image: ${req.file.originalname}`);
-          const { filePath } = await storageService.uploadFile(req.file, 'badges');
+          const filePath = await storeUpload(req.file, 'badges');
           imageFile = filePath;
           console.log(`[BADGE UPLOAD] Badge image uploaded successfully: ${filePath}`);
         } catch (uploadError) {
@@ -4456,11 +5971,11 @@ export async function registerRoutes(app: Express) {
       const { name, description, imageUrl } = req.body;
       const updates: any = { name, description, imageUrl };
       
-      // Handle file upload to Supabase if file is provided
+      // Handle file upload to the file store if file is provided
       if (req.file) {
         try {
           console.log(`[BADGE UPDATE] Uploading badge image: ${req.file.originalname}`);
-          const { filePath } = await storageService.uploadFile(req.file, 'badges');
+          const filePath = await storeUpload(req.file, 'badges');
           updates.imageFile = filePath;
           console.log(`[BADGE UPDATE] Badge image uploaded successfully: ${filePath}`);
         } catch (uploadError) {
@@ -4584,11 +6099,11 @@ export async function registerRoutes(app: Express) {
 
       let imageFile = '';
       
-      // Handle file upload to Supabase if file is provided
+      // Handle file upload to the file store if file is provided
       if (req.file) {
         try {
           console.log(`[CONTENT UPLOAD] Uploading content image: ${req.file.originalname}`);
-          const { filePath } = await storageService.uploadFile(req.file, 'recognition-content');
+          const filePath = await storeUpload(req.file, 'recognition-content');
           imageFile = filePath;
           console.log(`[CONTENT UPLOAD] Content image uploaded successfully: ${filePath}`);
         } catch (uploadError) {
@@ -4650,11 +6165,11 @@ export async function registerRoutes(app: Express) {
         updates.displayOrder = parseInt(displayOrder);
       }
       
-      // Handle file upload to Supabase if file is provided
+      // Handle file upload to the file store if file is provided
       if (req.file) {
         try {
           console.log(`[CONTENT UPDATE] Uploading content image: ${req.file.originalname}`);
-          const { filePath } = await storageService.uploadFile(req.file, 'recognition-content');
+          const filePath = await storeUpload(req.file, 'recognition-content');
           updates.imageFile = filePath;
           console.log(`[CONTENT UPDATE] Content image uploaded successfully: ${filePath}`);
         } catch (uploadError) {
@@ -4918,23 +6433,12 @@ export async function registerRoutes(app: Express) {
         const protocol = req.protocol;
         const host = req.get('host');
         const acceptUrl = `${protocol}://${host}/accept-invite/${invitationRecord.invitationToken}`;
-        const { sendTeamInvitationEmail } = await import('./sendgrid');
+        const { sendTeamInvitationEmail } = await import('./email');
         await sendTeamInvitationEmail({
           to: email,
-          html: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f8f9fa; padding: 20px;">
-              <div style="background-color: white; padding: 30px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-                <h2 style="color: #2563eb;">You're Invited to Join SEMI Program!</h2>
-                <p>Hi <strong>${firstName}</strong>,</p>
-                <p>${user.firstName || 'A manager'} has invited you to join their company in the SEMI Program Portal.</p>
-                <p>Click the button below to accept your invitation and set your password:</p>
-                <div style="text-align: center; margin: 30px 0;">
-                  <a href="${acceptUrl}" style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">Accept Invitation</a>
-                </div>
-                <p>If you did not expect this invitation, you can ignore this email.</p>
-              </div>
-            </div>
-          `
+          firstName,
+          inviterName: user.firstName || 'A manager',
+          acceptUrl,
         });
       }
 
@@ -5245,6 +6749,34 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // Inbound email - SendGrid Inbound Parse posts replies to ticket emails here (no session;
+  // see requireInboundEmailKey). Unmatched mail gets a 200 so the provider does not retry it.
+  app.post('/api/inbound-email', requireInboundEmailKey, upload.any(), async (req: any, res: Response) => {
+    try {
+      const files = (req.files as Express.Multer.File[]) || [];
+      recordInboundEmail(req.body, files);
+
+      const result = await processInboundEmail(req.body, files);
+      if (result.status === 'ignored') {
+        console.log(`[INBOUND EMAIL] Ignored email from ${req.body.from}: ${result.reason}`);
+        return res.json(result);
+      }
+
+      publishMessageEvent(result.message);
+      notifyAdminReply(result.message);
+      res.json({
+        status: result.status,
+        messageId: result.message.id,
+        ticketNumber: result.ticketNumber,
+        matchedBy: result.matchedBy,
+        attachmentCount: result.attachmentCount,
+      });
+    } catch (error: any) {
+      console.error('[INBOUND EMAIL] Error processing inbound email:', error);
+      res.status(500).json({ message: 'Failed to process inbound email' });
+    }
+  });
+
   // Create new message
   app.post('/api/messages', requireAuth, async (req: any, res: Response) => {
     try {
@@ -5294,6 +6826,8 @@ export async function registerRoutes(app: Express) {
 
       const createdMessage = await dbStorage.createMessage(messageData, finalTicketNumber);
       console.log(`[MESSAGES API] Message created successfully with ID: ${createdMessage.id}, ticket: ${createdMessage.ticketNumber}`);
+      publishMessageEvent(createdMessage);
+      notifyAdminReply(createdMessage);
       
       res.status(201).json(createdMessage);
     } catch (error: any) {
@@ -5316,6 +6850,13 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ message: 'Subject and message are required' });
       }
 
+      try {
+        attachments?.forEach(file => inspectUpload(file));
+      } catch (inspectError) {
+        if (!(inspectError instanceof UploadRejectedError)) throw inspectError;
+        return res.status(415).json({ message: inspectError.message, file: inspectError.fileName });
+      }
+
       // For replies, use the existing ticket number or find it from parent message
       let finalTicketNumber = ticketNumber;
       if (parentMessageId && !finalTicketNumber) {
@@ -5356,28 +6897,14 @@ export async function registerRoutes(app: Express) {
             // Determine folder path for message attachments
             const folderPath = `messages/${createdMessage.id}`;
             
-            // Upload file to Supabase storage
-            console.log(`[SUPABASE UPLOAD] Uploading message attachment to folder: ${folderPath}`);
-            const { filePath, publicUrl } = await storageService.uploadFile(file, folderPath);
-            
-            console.log(`[SUPABASE UPLOAD] Message attachment uploaded successfully: ${filePath}`);
-            
             // Create document record linked to the message
-            const documentData = {
-              filename: path.basename(filePath), // Extract filename from full path
-              originalName: file.originalname,
-              mimeType: file.mimetype,
-              size: file.size,
-              documentType: 'supporting' as const,
+            const document = await saveDocumentUpload(file, folderPath, {
+              documentType: 'supporting',
               companyId: user.companyId || null,
               applicationId: applicationId ? parseInt(applicationId) : null,
               uploadedBy: user.id,
               messageId: createdMessage.id, // Link to message
-              filePath: filePath, // This now contains the Supabase storage path
-            };
-            
-            console.log(`[MESSAGES API] Creating document with data:`, documentData);
-            const document = await dbStorage.createDocument(documentData);
+            });
             uploadedAttachments.push(document);
             console.log(`[MESSAGES API] Document created with ID: ${document.id}, attachment: ${file.originalname} (${file.size} bytes)`);
           } catch (uploadError) {
@@ -5387,7 +6914,19 @@ export async function registerRoutes(app: Express) {
         }
       }
 
+      // Attachments sent ahead through chunked uploads
+      const attachmentIds = String(req.body.attachmentIds || '')
+        .split(',')
+        .map((id: string) => parseInt(id))
+        .filter((id: number) => !isNaN(id))
+        .slice(0, 5);
+      if (attachmentIds.length > 0) {
+        uploadedAttachments.push(...await dbStorage.linkDocumentsToMessage(attachmentIds, createdMessage.id, user.id));
+      }
+
       console.log(`[MESSAGES API] Message with ${uploadedAttachments.length} attachments created successfully`);
+      publishMessageEvent(createdMessage);
+      notifyAdminReply(createdMessage);
       
       res.status(201).json({
         ...createdMessage,
@@ -0,0 +1,79 @@
+import { buffer } from "stream/consumers";
+import { createFileStore, FILE_STORE_DRIVERS, type FileStoreDriver } from "../file-store";
+
+// Copies every object from one file store backend to another, keeping keys unchanged so
+// documents.file_path values stay valid. Run it before switching FILE_STORE_DRIVER.
+//
+//   npm run files:migrate -- --from supabase --to s3 [--prefix applications/] [--dry-run] [--overwrite]
+//
+// Both backends are configured from the usual environment variables (SUPABASE_*, S3_*,
+// FILE_STORE_LOCAL_DIR). Objects already present in the target are skipped unless
+// --overwrite is given, so an interrupted run can simply be started again. Legacy documents
+// stored as uploads/... disk paths are not part of any backend and stay on the local disk.
+
+const BOOLEAN_FLAGS = new Set(["dry-run", "overwrite"]);
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const flags = new Set<string>();
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) continue;
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags.add(name);
+    } else {
+      options[name] = argv[++index] ?? "";
+    }
+  }
+  return { options, flags };
+}
+
+const isDriver = (value: string | undefined): value is FileStoreDriver =>
+  !!value && (FILE_STORE_DRIVERS as readonly string[]).includes(value);
+
+async function main() {
+  const { options, flags } = parseArgs(process.argv.slice(2));
+  if (!isDriver(options.from) || !isDriver(options.to) || options.from === options.to) {
+    console.error(`Usage: npm run files:migrate -- --from <${FILE_STORE_DRIVERS.join("|")}> --to <${FILE_STORE_DRIVERS.join("|")}> [--prefix <key prefix>] [--dry-run] [--overwrite]`);
+    process.exit(1);
+  }
+
+  const source = createFileStore(options.from);
+  const target = createFileStore(options.to);
+  const dryRun = flags.has("dry-run");
+  const overwrite = flags.has("overwrite");
+  const counts = { copied: 0, skipped: 0, failed: 0 };
+
+  console.log(`Copying ${options.prefix ? `"${options.prefix}*"` : "all objects"} from ${source.driver} to ${target.driver}${dryRun ? " (dry run)" : ""}`);
+
+  for await (const key of source.list(options.prefix)) {
+    try {
+      if (!overwrite && await target.exists(key)) {
+        counts.skipped++;
+        continue;
+      }
+      if (dryRun) {
+        console.log(`  would copy ${key}`);
+        counts.copied++;
+        continue;
+      }
+
+      const object = await source.get(key);
+      await target.put(key, await buffer(object.body), { contentType: object.contentType });
+      console.log(`  copied ${key}`);
+      counts.copied++;
+    } catch (error) {
+      console.error(`  failed ${key}:`, error instanceof Error ? error.message : error);
+      counts.failed++;
+    }
+  }
+
+  console.log(`${dryRun ? "Would copy" : "Copied"} ${counts.copied}, skipped ${counts.skipped} already present, ${counts.failed} failed`);
+  if (counts.failed > 0) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
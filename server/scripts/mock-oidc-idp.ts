@@ -0,0 +1,171 @@
+import express from "express";
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+
+// A minimal OpenID Connect identity provider for trying company single sign-on locally. It signs
+// in whoever types an email address on its login page - never point a real deployment at it.
+//
+//   npm run sso:mock-idp -- [--port 9400] [--client-id semi-local] [--client-secret <secret>]
+//
+// Then in Admin > Companies > Single sign-on set the issuer URL to http://localhost:9400 (plain
+// http issuers are only accepted outside production), the same client ID, and an allowed domain.
+// Subjects are derived from the email, so signing in again with an address reuses the identity.
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg.startsWith("--")) options[arg.slice(2)] = argv[++index] ?? "";
+  }
+  return options;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  givenName: string;
+  familyName: string;
+  expiresAt: number;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString("base64url");
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[char]!));
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const port = parseInt(options.port || "9400");
+  const issuer = `http://localhost:${port}`;
+  const clientId = options["client-id"] || "semi-local";
+  const clientSecret = options["client-secret"];
+
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = randomBytes(8).toString("hex");
+  const codes = new Map<string, PendingCode>();
+
+  const signIdToken = (claims: Record<string, unknown>) => {
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid }));
+    const payload = base64url(JSON.stringify(claims));
+    const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+    return `${header}.${payload}.${base64url(signature)}`;
+  };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: clientSecret ? ["client_secret_basic", "client_secret_post"] : ["none"],
+      scopes_supported: ["openid", "email", "profile"],
+      claims_supported: ["sub", "email", "email_verified", "given_name", "family_name"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, alg: "RS256", use: "sig" }] });
+  });
+
+  // The login page; the form posts back here with the authorization request in hidden fields
+  app.get("/authorize", (req, res) => {
+    const query = req.query as Record<string, string>;
+    if (query.client_id !== clientId || query.response_type !== "code" || !query.redirect_uri) {
+      return res.status(400).send("Unknown client or unsupported authorization request");
+    }
+    if (query.code_challenge_method !== "S256" || !query.code_challenge) {
+      return res.status(400).send("PKCE with S256 is required");
+    }
+    const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+      .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(query[name] ?? "")}">`)
+      .join("");
+    res.send(`<!doctype html><title>Mock identity provider</title>
+<form method="post" style="font-family:sans-serif;max-width:320px;margin:4rem auto;display:grid;gap:.5rem">
+<h2>Mock identity provider</h2>${hidden}
+<label>Email <input name="email" type="email" required value="${escapeHtml(query.login_hint ?? "")}"></label>
+<label>First name <input name="given_name" value="Test"></label>
+<label>Last name <input name="family_name" value="User"></label>
+<button>Sign in</button>
+</form>`);
+  });
+
+  app.post("/authorize", (req, res) => {
+    const body = req.body as Record<string, string>;
+    const code = randomBytes(24).toString("base64url");
+    codes.set(code, {
+      clientId: body.client_id,
+      redirectUri: body.redirect_uri,
+      codeChallenge: body.code_challenge,
+      nonce: body.nonce || undefined,
+      email: body.email.trim().toLowerCase(),
+      givenName: body.given_name,
+      familyName: body.family_name,
+      expiresAt: Date.now() + 60 * 1000,
+    });
+    const redirect = new URL(body.redirect_uri);
+    redirect.searchParams.set("code", code);
+    if (body.state) redirect.searchParams.set("state", body.state);
+    redirect.searchParams.set("iss", issuer);
+    res.redirect(redirect.href);
+  });
+
+  app.post("/token", (req, res) => {
+    const body = req.body as Record<string, string>;
+    const basic = req.get("authorization")?.match(/^Basic (.+)$/);
+    const [basicId, basicSecret] = basic
+      ? Buffer.from(basic[1], "base64").toString().split(":").map(decodeURIComponent)
+      : [];
+    const requestClientId = basicId ?? body.client_id;
+    const requestSecret = basicSecret ?? body.client_secret;
+    if (requestClientId !== clientId || (clientSecret && requestSecret !== clientSecret)) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+
+    const pending = codes.get(body.code);
+    codes.delete(body.code);
+    if (body.grant_type !== "authorization_code" || !pending || pending.expiresAt < Date.now()
+      || pending.clientId !== requestClientId || pending.redirectUri !== body.redirect_uri) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+    const challenge = createHash("sha256").update(body.code_verifier ?? "").digest("base64url");
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = signIdToken({
+      iss: issuer,
+      sub: createHash("sha256").update(pending.email).digest("hex").slice(0, 24),
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: pending.nonce,
+      email: pending.email,
+      email_verified: true,
+      given_name: pending.givenName,
+      family_name: pending.familyName,
+    });
+    console.log(`Signed in ${pending.email}`);
+    res.json({
+      access_token: randomBytes(24).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: 300,
+      id_token: idToken,
+    });
+  });
+
+  app.listen(port, () => {
+    console.log(`Mock OpenID Connect provider at ${issuer} (client ID "${clientId}"${clientSecret ? ", with a client secret" : ", public client"})`);
+  });
+}
+
+main();
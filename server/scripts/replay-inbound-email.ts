@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import type { RecordedInboundEmail } from "../inbound-email";
+
+// Replays a recorded SendGrid Inbound Parse post against a running server, so inbound email
+// can be exercised locally without the live service.
+//
+//   npm run inbound:replay -- <recording.json> [--url http://localhost:5000] [--key <webhook key>]
+//                                              [--from <address>] [--to <address>] [--subject <subject>]
+//
+// Recordings come from INBOUND_EMAIL_RECORD_DIR or server/scripts/fixtures/inbound-email.
+// --from/--to/--subject override the recorded headers, e.g. to aim a fixture at a local
+// user and ticket ("--subject 'Re: [TKT-25-0001] Help'").
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg.startsWith("--")) {
+      options[arg.slice(2)] = argv[++index] ?? "";
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { options, positional };
+}
+
+async function main() {
+  const { options, positional } = parseArgs(process.argv.slice(2));
+  const recordingPath = positional[0];
+  if (!recordingPath) {
+    console.error("Usage: npm run inbound:replay -- <recording.json> [--url <base url>] [--key <webhook key>] [--from <address>] [--to <address>] [--subject <subject>]");
+    process.exit(1);
+  }
+
+  const recording: RecordedInboundEmail = JSON.parse(fs.readFileSync(path.resolve(recordingPath), "utf8"));
+  const fields = { ...recording.fields };
+  for (const header of ["from", "to", "subject"]) {
+    if (options[header]) fields[header] = options[header];
+  }
+  if (options.to) fields.envelope = JSON.stringify({ to: [options.to], from: fields.from });
+
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  for (const attachment of recording.attachments) {
+    const blob = new Blob([Buffer.from(attachment.contentBase64, "base64")], { type: attachment.mimetype });
+    form.append(attachment.fieldname, blob, attachment.originalname);
+  }
+
+  const baseUrl = options.url || process.env.INBOUND_EMAIL_REPLAY_URL || "http://localhost:5000";
+  const key = options.key || process.env.INBOUND_EMAIL_WEBHOOK_KEY;
+  const url = `${baseUrl.replace(/\/$/, "")}/api/inbound-email${key ? `?key=${encodeURIComponent(key)}` : ""}`;
+
+  console.log(`Replaying ${path.basename(recordingPath)} from ${fields.from} to ${url}`);
+  const response = await fetch(url, { method: "POST", body: form });
+  const body = await response.text();
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(body);
+  if (!response.ok) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import {
   facilities,
   applications,
   documents,
+  uploadSessions,
   contractorDetails,
   applicationAssignments,
   activitySettings,
@@ -26,6 +27,23 @@ import {
   companyBadges,
   recognitionContent,
   recognitionPageSettings,
+  applicationStatusHistory,
+  auditLogs,
+  loginAttempts,
+  knownLoginDevices,
+  twoFactorRecoveryCodes,
+  roleSecurityPolicies,
+  webauthnCredentials,
+  companySsoConfigs,
+  userSsoIdentities,
+  roleEnum,
+  submissionFieldComments,
+  submissionVersions,
+  supportTickets,
+  ticketNumberSequences,
+  ticketNotes,
+  cannedResponses,
+  notificationPreferences,
 
   type User,
   type UpsertUser,
@@ -37,6 +55,8 @@ import {
   type InsertApplication,
   type Document,
   type InsertDocument,
+  type UploadSession,
+  type InsertUploadSession,
   type ContractorDetails,
   type InsertContractorDetails,
   type ApplicationAssignment,
@@ -55,6 +75,7 @@ import {
   type InsertMessage,
   type Notification,
   type InsertNotification,
+  type NotificationPreference,
   type TeamInvitation,
   type InsertTeamInvitation,
   type ContractorJoinRequest,
@@ -73,11 +94,45 @@ import {
   type InsertAnnouncementAcknowledgment,
   type AnnouncementRead,
   type InsertAnnouncementRead,
+  type AuditLog,
+  type InsertAuditLog,
+  type InsertLoginAttempt,
+  type RoleSecurityPolicy,
+  type WebauthnCredential,
+  type InsertWebauthnCredential,
+  type CompanySsoConfig,
+  type InsertCompanySsoConfig,
+  type SubmissionFieldComment,
+  type InsertSubmissionFieldComment,
+  type SubmissionVersion,
+  type SupportTicket,
+  type TicketNote,
+  type InsertTicketNote,
+  type CannedResponse,
+  type InsertCannedResponse,
 } from "@shared/schema";
+import { assertTransition, assertTransitionNotes, type StatusActor } from "@shared/application-workflow";
+import { getReviewSlaStatus } from "@shared/review-sla";
+import { getTicketSlaStatus } from "@shared/support-sla";
+import { NOTIFICATION_EVENTS, getNotificationEventType, isNotificationChannel, type NotificationChannel, type NotificationEventType } from "@shared/notification-preferences";
+import type { DocumentScanStatus } from "@shared/document-scan";
+import { parseRequiredDocumentSlots } from "@shared/document-checklist";
 import { db } from "./db";
-import { eq, and, desc, sql, inArray, or, isNull, isNotNull, like, ilike, exists, ne, count, lte, gte, leftJoin } from "drizzle-orm";
+import { eq, and, asc, desc, sql, inArray, notInArray, or, isNull, isNotNull, like, ilike, exists, ne, count, lte, lt, gte, leftJoin } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { hashPassword } from './auth';
+import { publishToUsers } from './realtime';
+
+// Lets a write join a caller's transaction instead of opening its own
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A review decision was made against document versions that are no longer the current ones
+export class ReviewedDocumentsChangedError extends Error {
+  constructor() {
+    super('The application\'s documents changed while you were reviewing. Reload the submission and check them again.');
+    this.name = 'ReviewedDocumentsChangedError';
+  }
+}
 
 // Add at the top of the file or near the facility methods:
 const PROCESS_SYSTEMS_MAP = [
@@ -111,6 +166,26 @@ function buildProcessAndSystemsSummary(facility: any): string[] {
     .map(({ label }) => label);
 }
 
+export interface AuditLogFilters {
+  search?: string;
+  action?: string;
+  entityType?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DocumentListOptions {
+  includeSuperseded?: boolean; // all versions instead of only the current one of each document
+}
+
+export interface PendingSubmissionFilters {
+  assignedReviewerId?: string | null; // null = unassigned only
+  activityType?: string;
+}
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -150,12 +225,23 @@ export interface IStorage {
   
   // Document operations
   createDocument(document: InsertDocument): Promise<Document>;
-  getDocumentsByApplication(applicationId: number): Promise<Document[]>;
-  getDocumentsByCompany(companyId: number): Promise<Document[]>;
+  getDocumentsByApplication(applicationId: number, options?: DocumentListOptions): Promise<Document[]>;
+  getDocumentsByCompany(companyId: number, options?: DocumentListOptions): Promise<Document[]>;
   getAllDocuments(): Promise<Document[]>;
   getGlobalTemplates(): Promise<Document[]>;
   getDocumentById(id: number): Promise<Document | undefined>;
   deleteDocument(id: number): Promise<void>;
+  updateDocumentScanResult(id: number, scanStatus: DocumentScanStatus, scanDetail?: string | null): Promise<Document | undefined>;
+  getQuarantinedDocuments(createdBefore: Date): Promise<Document[]>;
+  linkDocumentsToMessage(documentIds: number[], messageId: number, userId: string): Promise<Document[]>;
+  getDocumentVersions(documentGroupId: number): Promise<any[]>;
+  
+  // Chunked upload sessions
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  updateUploadSession(id: string, updates: Partial<InsertUploadSession>): Promise<UploadSession>;
+  updateUploadSessionIfStatus(id: string, status: string, updates: Partial<InsertUploadSession>): Promise<UploadSession | undefined>;
+  getStaleUploadSessions(updatedBefore: Date): Promise<UploadSession[]>;
   
   // Team management
   getUsersByCompany(companyId: number): Promise<User[]>;
@@ -239,11 +325,31 @@ export interface IStorage {
   createActivityTemplateSubmission(submission: InsertActivityTemplateSubmission): Promise<ActivityTemplateSubmission>;
   getActivityTemplateSubmissions(applicationId: number): Promise<ActivityTemplateSubmission[]>;
   updateActivityTemplateSubmission(id: number, updates: Partial<InsertActivityTemplateSubmission>): Promise<ActivityTemplateSubmission>;
+  getActivityTemplateSubmissionById(id: number): Promise<ActivityTemplateSubmission | undefined>;
+  
+  // Field-level review comments
+  createSubmissionFieldComment(comment: InsertSubmissionFieldComment): Promise<SubmissionFieldComment>;
+  getSubmissionFieldComment(id: number): Promise<SubmissionFieldComment | undefined>;
+  getSubmissionFieldComments(submissionId: number): Promise<any[]>;
+  getApplicationFieldComments(applicationId: number): Promise<any[]>;
+  getUnresolvedFieldCommentCount(applicationId: number, activityTemplateId: number): Promise<number>;
+  setSubmissionFieldCommentResolved(id: number, resolvedBy: string | null): Promise<SubmissionFieldComment>;
+  deleteSubmissionFieldComment(id: number): Promise<void>;
+  
+  // Submission version history
+  getSubmissionVersions(applicationId: number, activityTemplateId: number): Promise<any[]>;
   
   // Approval operations
-  getPendingSubmissions(): Promise<any[]>;
-  approveSubmission(submissionId: number, reviewedBy: string, reviewNotes?: string): Promise<ActivityTemplateSubmission>;
-  rejectSubmission(submissionId: number, reviewedBy: string, reviewNotes: string): Promise<ActivityTemplateSubmission>;
+  getPendingSubmissions(filters?: PendingSubmissionFilters): Promise<any[]>;
+  getSubmissionsAwaitingReview(): Promise<any[]>;
+  claimSubmission(submissionId: number, reviewerId: string): Promise<ActivityTemplateSubmission | undefined>;
+  assignSubmissionReviewer(submissionId: number, reviewerId: string | null, assignedBy: string): Promise<ActivityTemplateSubmission>;
+  autoAssignSubmissionReviewer(submissionId: number): Promise<string | null>;
+  getReviewerWorkload(): Promise<any[]>;
+  updateSubmissionSlaState(submissionId: number, slaState: string, escalated: boolean): Promise<void>;
+  getActiveSystemAdmins(): Promise<User[]>;
+  approveSubmission(submissionId: number, reviewedBy: string, reviewNotes?: string, shownDocumentIds?: number[]): Promise<ActivityTemplateSubmission>;
+  rejectSubmission(submissionId: number, reviewedBy: string, reviewNotes: string, shownDocumentIds?: number[]): Promise<ActivityTemplateSubmission>;
   getSubmissionDetails(submissionId: number): Promise<any>;
   getApplicationWithFullDetails(applicationId: number): Promise<any>;
   
@@ -287,16 +393,79 @@ export interface IStorage {
   generateTicketNumber(): Promise<string>;
   resolveTicket(ticketNumber: string): Promise<void>;
   updateTicketPriority(ticketNumber: string, priority: string): Promise<void>;
+  getTicketParticipantIds(ticketNumber: string): Promise<string[]>;
+  getSupportTickets(): Promise<any[]>;
+  getSupportTicket(ticketNumber: string): Promise<SupportTicket | undefined>;
+  updateSupportTicket(ticketNumber: string, updates: Partial<Pick<SupportTicket, 'assigneeId' | 'category' | 'applicationId'>>): Promise<SupportTicket | undefined>;
+  getTicketNotes(ticketId: number): Promise<any[]>;
+  createTicketNote(note: InsertTicketNote): Promise<TicketNote>;
+  getCannedResponses(): Promise<CannedResponse[]>;
+  createCannedResponse(response: InsertCannedResponse & { createdBy: string }): Promise<CannedResponse>;
+  updateCannedResponse(id: number, updates: Partial<InsertCannedResponse>): Promise<CannedResponse | undefined>;
+  deleteCannedResponse(id: number): Promise<void>;
   getAllMessagesForAdmin(): Promise<any[]>;
   getMessagesByUser(userId: string): Promise<any[]>;
   
   // Notification operations
-  createNotification(notification: InsertNotification): Promise<Notification>;
+  createNotification(notification: InsertNotification, options?: { immediateEmail?: boolean }): Promise<Notification | null>;
   getUserNotifications(userId: string): Promise<Notification[]>;
   markNotificationAsRead(notificationId: number, userId: string): Promise<void>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  setNotificationPreferences(userId: string, preferences: Partial<Record<NotificationEventType, NotificationChannel>>): Promise<void>;
+  getPendingDigestNotifications(): Promise<{ user: User; notifications: Notification[] }[]>;
+  markNotificationsEmailed(notificationIds: number[]): Promise<void>;
   
   // Enhanced application operations
-  updateApplicationStatus(applicationId: number, updates: { status: string; reviewNotes?: string; reviewedBy?: string; reviewedAt?: Date }): Promise<Application>;
+  updateApplicationStatus(applicationId: number, updates: { status: string; reviewNotes?: string; reviewedBy?: string; reviewedAt?: Date; changedBy?: string; note?: string }, actor?: StatusActor): Promise<Application>;
+  getApplicationStatusHistory(applicationId: number): Promise<any[]>;
+  
+  // Audit log
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters: AuditLogFilters): Promise<{ logs: AuditLog[]; total: number }>;
+  getAuditLogFacets(): Promise<{ actions: string[]; entityTypes: string[] }>;
+  
+  // Login throttling
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void>;
+  getRecentFailedLogins(filter: { email: string } | { ipAddress: string }, since: Date): Promise<{ count: number; lastAttemptAt: Date | null }>;
+  claimLoginAttempt(userId: string, resetBefore: Date, canAttempt: (user: User) => boolean): Promise<{ before: User; after: User } | undefined>;
+  releaseLoginAttempt(userId: string, claimed: { failedLoginAttempts: number; previousFailureAt: Date | null }): Promise<void>;
+  lockUserAccount(userId: string, lockedUntil: Date): Promise<void>;
+  clearFailedLogins(userId: string): Promise<void>;
+  recordLoginDevice(userId: string, device: { deviceId: string; ipAddress: string; userAgent: string | null }): Promise<{ firstLogin: boolean; newDevice: boolean; newIpAddress: boolean }>;
+  pruneLoginAttempts(before: Date): Promise<number>;
+  
+  // Two-factor recovery codes and per-role requirements
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  getRecoveryCodeStatus(userId: string): Promise<{ total: number; remaining: number; generatedAt: Date | null }>;
+  deleteRecoveryCodes(userId: string): Promise<void>;
+  getRoleSecurityPolicies(): Promise<RoleSecurityPolicy[]>;
+  setTwoFactorRequiredRoles(roles: string[], updatedBy: string): Promise<RoleSecurityPolicy[]>;
+  isTwoFactorRequiredForRole(role: string): Promise<boolean>;
+  
+  // WebAuthn passkeys
+  getWebauthnCredentials(userId: string): Promise<WebauthnCredential[]>;
+  getWebauthnCredentialByCredentialId(credentialId: string): Promise<WebauthnCredential | undefined>;
+  createWebauthnCredential(credential: InsertWebauthnCredential): Promise<WebauthnCredential>;
+  renameWebauthnCredential(userId: string, id: number, name: string): Promise<WebauthnCredential | undefined>;
+  recordWebauthnCredentialUse(id: number, counter: number): Promise<void>;
+  deleteWebauthnCredential(userId: string, id: number): Promise<boolean>;
+  
+  // Signed-in sessions (the express-session user_sessions table)
+  getUserSessions(userId: string): Promise<{ sid: string; sess: Record<string, any>; expire: Date }[]>;
+  deleteUserSession(userId: string, sid: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<string[]>;
+
+  
+  // Company single sign-on (OpenID Connect)
+  getCompanySsoConfig(companyId: number): Promise<CompanySsoConfig | undefined>;
+  getCompanySsoConfigById(id: number): Promise<CompanySsoConfig | undefined>;
+  getSsoConfigForEmailDomain(domain: string): Promise<CompanySsoConfig | undefined>;
+  getSsoDomainConflicts(domains: string[], companyId: number): Promise<string[]>;
+  upsertCompanySsoConfig(companyId: number, config: Omit<InsertCompanySsoConfig, 'companyId'>): Promise<CompanySsoConfig>;
+  deleteCompanySsoConfig(companyId: number): Promise<boolean>;
+  getUserBySsoIdentity(issuer: string, subject: string): Promise<User | undefined>;
+  linkSsoIdentity(identity: { userId: string; issuer: string; subject: string; email: string | null }): Promise<void>;
   
   // Message attachments
   getMessageAttachments(messageId: number, messageTimestamp: Date, applicationId?: number, companyId?: number): Promise<any[]>;
@@ -1592,16 +1761,72 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Document operations
+  // A document with a documentGroupId is a new version of that logical document and supersedes
+  // its current version; otherwise it starts a group of its own.
   async createDocument(document: InsertDocument): Promise<Document> {
-    const [newDocument] = await db.insert(documents).values(document).returning();
-    return newDocument;
+    const documentGroupId = document.documentGroupId;
+    if (!documentGroupId) {
+      const [newDocument] = await db.insert(documents).values(document).returning();
+      const [grouped] = await db
+        .update(documents)
+        .set({ documentGroupId: newDocument.id })
+        .where(eq(documents.id, newDocument.id))
+        .returning();
+      return grouped;
+    }
+
+    return await db.transaction(async (tx) => {
+      // Lock the group so concurrent uploads cannot claim the same version number
+      const versions = await tx
+        .select({ version: documents.version })
+        .from(documents)
+        .where(eq(documents.documentGroupId, documentGroupId))
+        .for('update');
+      const latestVersion = Math.max(0, ...versions.map(v => v.version));
+
+      await tx
+        .update(documents)
+        .set({ isCurrentVersion: false, supersededAt: new Date(), supersededBy: document.uploadedBy })
+        .where(and(eq(documents.documentGroupId, documentGroupId), eq(documents.isCurrentVersion, true)));
+
+      const [newVersion] = await tx
+        .insert(documents)
+        .values({ ...document, version: latestVersion + 1, isCurrentVersion: true })
+        .returning();
+      return newVersion;
+    });
+  }
+
+  // Makes the newest remaining version of a group current again, e.g. after the current version
+  // was deleted or blocked by the virus scan
+  private async restorePreviousVersion(document: Document): Promise<void> {
+    if (!document.documentGroupId) return;
+    const [previous] = await db
+      .select()
+      .from(documents)
+      .where(and(
+        eq(documents.documentGroupId, document.documentGroupId),
+        ne(documents.id, document.id),
+        ne(documents.scanStatus, 'infected')
+      ))
+      .orderBy(desc(documents.version))
+      .limit(1);
+    if (!previous) return;
+
+    await db
+      .update(documents)
+      .set({ isCurrentVersion: true, supersededAt: null, supersededBy: null })
+      .where(eq(documents.id, previous.id));
   }
 
-  async getDocumentsByApplication(applicationId: number): Promise<Document[]> {
+  async getDocumentsByApplication(applicationId: number, options: DocumentListOptions = {}): Promise<Document[]> {
     const docs = await db
       .select()
       .from(documents)
-      .where(eq(documents.applicationId, applicationId))
+      .where(and(
+        eq(documents.applicationId, applicationId),
+        options.includeSuperseded ? undefined : eq(documents.isCurrentVersion, true)
+      ))
       .orderBy(desc(documents.createdAt));
     
     console.log(`[STORAGE DEBUG] getDocumentsByApplication(${applicationId}) returning ${docs.length} documents:`, docs.map(d => ({ id: d.id, originalName: d.originalName, size: d.size })));
@@ -1609,14 +1834,15 @@ export class DatabaseStorage implements IStorage {
     return docs;
   }
 
-  async getDocumentsByCompany(companyId: number): Promise<Document[]> {
+  async getDocumentsByCompany(companyId: number, options: DocumentListOptions = {}): Promise<Document[]> {
     console.log(`[STORAGE DEBUG] getDocumentsByCompany fetching documents for company ${companyId}`);
+    const currentOnly = options.includeSuperseded ? undefined : eq(documents.isCurrentVersion, true);
     
     // Get documents directly associated with the company (general uploads)
     const companyDocuments = await db
       .select()
       .from(documents)
-      .where(eq(documents.companyId, companyId))
+      .where(and(eq(documents.companyId, companyId), currentOnly))
       .orderBy(desc(documents.createdAt));
 
     console.log(`[STORAGE DEBUG] Found ${companyDocuments.length} direct company documents`);
@@ -1636,11 +1862,19 @@ export class DatabaseStorage implements IStorage {
         isGlobal: documents.isGlobal,
         uploadedBy: documents.uploadedBy,
         filePath: documents.filePath,
+        checklistSlotId: documents.checklistSlotId,
+        scanStatus: documents.scanStatus,
+        scanDetail: documents.scanDetail,
+        documentGroupId: documents.documentGroupId,
+        version: documents.version,
+        isCurrentVersion: documents.isCurrentVersion,
+        supersededAt: documents.supersededAt,
+        supersededBy: documents.supersededBy,
         createdAt: documents.createdAt
       })
       .from(documents)
       .innerJoin(applications, eq(documents.applicationId, applications.id))
-      .where(eq(applications.companyId, companyId))  // Application belongs to this company
+      .where(and(eq(applications.companyId, companyId), currentOnly))  // Application belongs to this company
       .orderBy(desc(documents.createdAt));
 
     console.log(`[STORAGE DEBUG] Found ${applicationDocuments.length} application documents`);
@@ -1660,6 +1894,14 @@ export class DatabaseStorage implements IStorage {
         isGlobal: documents.isGlobal,
         uploadedBy: documents.uploadedBy,
         filePath: documents.filePath,
+        checklistSlotId: documents.checklistSlotId,
+        scanStatus: documents.scanStatus,
+        scanDetail: documents.scanDetail,
+        documentGroupId: documents.documentGroupId,
+        version: documents.version,
+        isCurrentVersion: documents.isCurrentVersion,
+        supersededAt: documents.supersededAt,
+        supersededBy: documents.supersededBy,
         createdAt: documents.createdAt
       })
       .from(documents)
@@ -1667,7 +1909,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         eq(users.companyId, companyId),
         isNull(documents.companyId),
-        isNull(documents.applicationId)
+        isNull(documents.applicationId),
+        currentOnly
       ))
       .orderBy(desc(documents.createdAt));
 
@@ -1697,7 +1940,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(documents)
-      .where(and(eq(documents.isTemplate, true), eq(documents.isGlobal, true)))
+      .where(and(eq(documents.isTemplate, true), eq(documents.isGlobal, true), eq(documents.isCurrentVersion, true)))
       .orderBy(documents.originalName);
   }
 
@@ -1705,7 +1948,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(documents)
-      .where(eq(documents.isTemplate, true))
+      .where(and(eq(documents.isTemplate, true), eq(documents.isCurrentVersion, true)))
       .orderBy(documents.originalName);
   }
 
@@ -1715,7 +1958,113 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteDocument(id: number): Promise<void> {
-    await db.delete(documents).where(eq(documents.id, id));
+    const [deleted] = await db.delete(documents).where(eq(documents.id, id)).returning();
+    if (deleted?.isCurrentVersion) await this.restorePreviousVersion(deleted);
+  }
+
+  async updateDocumentScanResult(id: number, scanStatus: DocumentScanStatus, scanDetail: string | null = null): Promise<Document | undefined> {
+    const blocked = scanStatus === 'infected';
+    const [document] = await db
+      .update(documents)
+      .set({ scanStatus, scanDetail, scannedAt: new Date(), ...(blocked ? { isCurrentVersion: false } : {}) })
+      .where(eq(documents.id, id))
+      .returning();
+    // A blocked new version must not hide the version it tried to supersede
+    if (document && blocked && document.version > 1) await this.restorePreviousVersion(document);
+    return document;
+  }
+
+  // Documents still waiting for a scan, e.g. because the scanner was unreachable at upload time
+  async getQuarantinedDocuments(createdBefore: Date): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.scanStatus, 'pending'), lt(documents.createdAt, createdBefore)))
+      .orderBy(documents.createdAt);
+  }
+
+  // Attaches documents uploaded ahead of a message (chunked uploads) to it. Only the uploader's
+  // own documents that are not yet attached to a message are linked.
+  async linkDocumentsToMessage(documentIds: number[], messageId: number, userId: string): Promise<Document[]> {
+    if (documentIds.length === 0) return [];
+    return await db
+      .update(documents)
+      .set({ messageId })
+      .where(and(
+        inArray(documents.id, documentIds),
+        eq(documents.uploadedBy, userId),
+        isNull(documents.messageId)
+      ))
+      .returning();
+  }
+
+  // Every version of a logical document, newest first, with its uploader. Each version was
+  // superseded by the uploader of the next one.
+  async getDocumentVersions(documentGroupId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: documents.id,
+        documentGroupId: documents.documentGroupId,
+        version: documents.version,
+        isCurrentVersion: documents.isCurrentVersion,
+        originalName: documents.originalName,
+        mimeType: documents.mimeType,
+        size: documents.size,
+        documentType: documents.documentType,
+        scanStatus: documents.scanStatus,
+        uploadedBy: documents.uploadedBy,
+        createdAt: documents.createdAt,
+        supersededAt: documents.supersededAt,
+        supersededBy: documents.supersededBy,
+        uploader: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email
+        }
+      })
+      .from(documents)
+      .leftJoin(users, eq(documents.uploadedBy, users.id))
+      .where(eq(documents.documentGroupId, documentGroupId))
+      .orderBy(desc(documents.version));
+  }
+
+  // Chunked upload sessions
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> {
+    const [created] = await db.insert(uploadSessions).values(session).returning();
+    return created;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  async updateUploadSession(id: string, updates: Partial<InsertUploadSession>): Promise<UploadSession> {
+    const [session] = await db
+      .update(uploadSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // Only applies when the session is still in the given status, so concurrent requests cannot
+  // both move it on; undefined when it was not
+  async updateUploadSessionIfStatus(id: string, status: string, updates: Partial<InsertUploadSession>): Promise<UploadSession | undefined> {
+    const [session] = await db
+      .update(uploadSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(uploadSessions.id, id), eq(uploadSessions.status, status)))
+      .returning();
+    return session;
+  }
+
+  async getStaleUploadSessions(updatedBefore: Date): Promise<UploadSession[]> {
+    return await db
+      .select()
+      .from(uploadSessions)
+      .where(and(inArray(uploadSessions.status, ['uploading', 'completing']), lt(uploadSessions.updatedAt, updatedBefore)));
   }
 
   async deleteApplication(id: number): Promise<void> {
@@ -2041,6 +2390,10 @@ export class DatabaseStorage implements IStorage {
     allowContractorAssignment?: boolean;
     contractorFilterType?: string;
     requiredContractorActivities?: string[];
+    reviewSlaBusinessDays?: number | null;
+    reviewSlaWarningBusinessDays?: number | null;
+    autoAssignReviewers?: boolean;
+    maxUploadSizeMb?: number | null;
     updatedBy: string 
   }): Promise<ActivitySettings> {
     const [settings] = await db
@@ -2256,6 +2609,7 @@ export class DatabaseStorage implements IStorage {
       description: template.description || '', // Use actual description from form builder, not hardcoded text
       formFields: template.formFields || '[]', // form_templates uses 'formFields' field, not 'formData'
       fields: template.formFields ? JSON.parse(template.formFields) : [], // Parse for frontend
+      requiredDocuments: parseRequiredDocumentSlots(template.requiredDocuments),
       isRequired: true,
       prerequisiteTemplateId: null,
       isActive: template.isActive,
@@ -2357,48 +2711,49 @@ export class DatabaseStorage implements IStorage {
     
     console.log(`[STORAGE] Proceeding with activityTemplateSubmissions insert...`);
     
-    // Check if this is a resubmission of a previously rejected application
-    if (submission.status === 'submitted') {
-      console.log(`[STORAGE] Checking for resubmission scenario...`);
-      
-      // Get current application status to see if it was rejected/revision_required
-      const [application] = await db
-        .select({ status: applications.status })
-        .from(applications)
-        .where(eq(applications.id, submission.applicationId))
-        .limit(1);
-        
-      if (application && (application.status === 'revision_required' || application.status === 'rejected')) {
-        console.log(`[STORAGE] Resubmission detected - application status is '${application.status}', resetting to 'submitted'`);
-        
-        // Reset application status to allow normal workflow progression
-        await db
-          .update(applications)
-          .set({
-            status: 'submitted',
-            updatedAt: new Date()
-          })
-          .where(eq(applications.id, submission.applicationId));
+    // The submission, its version snapshot and any resubmission status change are written together,
+    // so a failure cannot leave a submission that a retry would then duplicate
+    const created = await db.transaction(async (tx) => {
+      // Check if this is a resubmission of a previously rejected application
+      if (submission.status === 'submitted') {
+        // Get current application status to see if it was rejected/needs_revision
+        const [application] = await tx
+          .select({ status: applications.status })
+          .from(applications)
+          .where(eq(applications.id, submission.applicationId))
+          .limit(1);
           
-        console.log(`[STORAGE] Application ${submission.applicationId} status reset to 'submitted' for resubmission`);
+        if (application && (application.status === 'needs_revision' || application.status === 'rejected')) {
+          console.log(`[STORAGE] Resubmission detected - application status is '${application.status}', resetting to 'submitted'`);
+          
+          // Reset application status to allow normal workflow progression
+          await this.updateApplicationStatus(submission.applicationId, { status: 'submitted', changedBy: submission.submittedBy, note: 'Resubmitted after revision' }, 'system', tx);
+        }
       }
-    }
-    
-    const [created] = await db
-      .insert(activityTemplateSubmissions)
-      .values({
-        applicationId: submission.applicationId,
-        activityTemplateId: submission.activityTemplateId,
-        submittedBy: submission.submittedBy,
-        status: submission.status || 'draft',
-        submittedAt: submission.submittedAt,
-        data: typeof submission.submissionData === 'string' ? JSON.parse(submission.submissionData) : (submission.submissionData || {}),
-        templateSnapshot: typeof submission.templateSnapshot === 'string' ? JSON.parse(submission.templateSnapshot) : (submission.templateSnapshot || {}),
-        approvalStatus: 'pending' // Reset approval status for new submission
-      })
-      .returning();
+      
+      const [inserted] = await tx
+        .insert(activityTemplateSubmissions)
+        .values({
+          applicationId: submission.applicationId,
+          activityTemplateId: submission.activityTemplateId,
+          submittedBy: submission.submittedBy,
+          status: submission.status || 'draft',
+          submittedAt: submission.submittedAt,
+          data: typeof submission.submissionData === 'string' ? JSON.parse(submission.submissionData) : (submission.submissionData || {}),
+          templateSnapshot: typeof submission.templateSnapshot === 'string' ? JSON.parse(submission.templateSnapshot) : (submission.templateSnapshot || {}),
+          approvalStatus: 'pending' // Reset approval status for new submission
+        })
+        .returning();
+      if (inserted.status === 'submitted') {
+        await this.recordSubmissionVersion(tx, inserted);
+      }
+      return inserted;
+    });
       
     console.log(`[STORAGE] Successfully created activity template submission: ${created.id}`);
+    if (created.status === 'submitted') {
+      await this.autoAssignReviewerSafely(created.id);
+    }
     return created;
   }
 
@@ -2410,6 +2765,169 @@ export class DatabaseStorage implements IStorage {
       .orderBy(activityTemplateSubmissions.submittedAt);
   }
 
+  async getActivityTemplateSubmissionById(id: number): Promise<ActivityTemplateSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(activityTemplateSubmissions)
+      .where(eq(activityTemplateSubmissions.id, id));
+    return submission;
+  }
+
+  // Field-level review comments
+  async createSubmissionFieldComment(comment: InsertSubmissionFieldComment): Promise<SubmissionFieldComment> {
+    const [created] = await db.insert(submissionFieldComments).values(comment).returning();
+    return created;
+  }
+
+  async getSubmissionFieldComment(id: number): Promise<SubmissionFieldComment | undefined> {
+    const [comment] = await db.select().from(submissionFieldComments).where(eq(submissionFieldComments.id, id));
+    return comment;
+  }
+
+  private fieldCommentSelection() {
+    return {
+      id: submissionFieldComments.id,
+      submissionId: submissionFieldComments.submissionId,
+      applicationId: submissionFieldComments.applicationId,
+      activityTemplateId: submissionFieldComments.activityTemplateId,
+      fieldId: submissionFieldComments.fieldId,
+      fieldLabel: submissionFieldComments.fieldLabel,
+      comment: submissionFieldComments.comment,
+      createdBy: submissionFieldComments.createdBy,
+      createdAt: submissionFieldComments.createdAt,
+      resolvedAt: submissionFieldComments.resolvedAt,
+      resolvedBy: submissionFieldComments.resolvedBy,
+      author: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email
+      }
+    };
+  }
+
+  async getSubmissionFieldComments(submissionId: number): Promise<any[]> {
+    return await db
+      .select(this.fieldCommentSelection())
+      .from(submissionFieldComments)
+      .leftJoin(users, eq(submissionFieldComments.createdBy, users.id))
+      .where(eq(submissionFieldComments.submissionId, submissionId))
+      .orderBy(submissionFieldComments.createdAt);
+  }
+
+  async getApplicationFieldComments(applicationId: number): Promise<any[]> {
+    return await db
+      .select(this.fieldCommentSelection())
+      .from(submissionFieldComments)
+      .leftJoin(users, eq(submissionFieldComments.createdBy, users.id))
+      .where(eq(submissionFieldComments.applicationId, applicationId))
+      .orderBy(submissionFieldComments.createdAt);
+  }
+
+  async getUnresolvedFieldCommentCount(applicationId: number, activityTemplateId: number): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(submissionFieldComments)
+      .where(and(
+        eq(submissionFieldComments.applicationId, applicationId),
+        eq(submissionFieldComments.activityTemplateId, activityTemplateId),
+        isNull(submissionFieldComments.resolvedAt)
+      ));
+    return Number(result?.total ?? 0);
+  }
+
+  // Pass null to reopen a resolved comment
+  async setSubmissionFieldCommentResolved(id: number, resolvedBy: string | null): Promise<SubmissionFieldComment> {
+    const [updated] = await db
+      .update(submissionFieldComments)
+      .set({ resolvedBy, resolvedAt: resolvedBy ? new Date() : null })
+      .where(eq(submissionFieldComments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSubmissionFieldComment(id: number): Promise<void> {
+    await db.delete(submissionFieldComments).where(eq(submissionFieldComments.id, id));
+  }
+
+  // Submission version history - one immutable row per submit of an application's template
+  async getSubmissionVersions(applicationId: number, activityTemplateId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: submissionVersions.id,
+        submissionId: submissionVersions.submissionId,
+        versionNumber: submissionVersions.versionNumber,
+        data: submissionVersions.data,
+        documents: submissionVersions.documents,
+        submittedBy: submissionVersions.submittedBy,
+        submittedAt: submissionVersions.submittedAt,
+        submitter: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email
+        }
+      })
+      .from(submissionVersions)
+      .leftJoin(users, eq(submissionVersions.submittedBy, users.id))
+      .where(and(
+        eq(submissionVersions.applicationId, applicationId),
+        eq(submissionVersions.activityTemplateId, activityTemplateId)
+      ))
+      .orderBy(submissionVersions.versionNumber);
+  }
+
+  // Snapshots the answers and the application's files as they stand at submit time. The
+  // application row is locked so concurrent submits cannot claim the same version number.
+  // It runs in the caller's transaction, so a submit is never saved without its version.
+  private async recordSubmissionVersion(tx: DbTransaction, submission: ActivityTemplateSubmission): Promise<SubmissionVersion> {
+    await tx
+      .select({ id: applications.id })
+      .from(applications)
+      .where(eq(applications.id, submission.applicationId))
+      .for('update');
+
+    const [latest] = await tx
+      .select({ versionNumber: sql<number>`max(${submissionVersions.versionNumber})` })
+      .from(submissionVersions)
+      .where(and(
+        eq(submissionVersions.applicationId, submission.applicationId),
+        eq(submissionVersions.activityTemplateId, submission.activityTemplateId)
+      ));
+
+    const attachedDocuments = await tx
+      .select({
+        id: documents.id,
+        originalName: documents.originalName,
+        mimeType: documents.mimeType,
+        size: documents.size,
+        documentType: documents.documentType,
+        documentGroupId: documents.documentGroupId,
+        version: documents.version,
+      })
+      .from(documents)
+      .where(and(
+        eq(documents.applicationId, submission.applicationId),
+        isNull(documents.messageId),
+        eq(documents.isCurrentVersion, true)
+      ))
+      .orderBy(documents.id);
+
+    const [version] = await tx
+      .insert(submissionVersions)
+      .values({
+        submissionId: submission.id,
+        applicationId: submission.applicationId,
+        activityTemplateId: submission.activityTemplateId,
+        versionNumber: Number(latest?.versionNumber ?? 0) + 1,
+        data: submission.data ?? {},
+        documents: attachedDocuments,
+        submittedBy: submission.submittedBy,
+      })
+      .returning();
+    return version;
+  }
+
   async updateActivityTemplateSubmission(id: number, updates: Partial<InsertActivityTemplateSubmission>): Promise<ActivityTemplateSubmission> {
     // If this is a resubmission (status changing to 'submitted'), reset approval status to 'pending'
     if (updates.status === 'submitted') {
@@ -2418,16 +2936,41 @@ export class DatabaseStorage implements IStorage {
       updates.reviewedBy = null;
       updates.reviewedAt = null;
       updates.reviewNotes = null;
+      // The review clock restarts, so the SLA monitor should flag it afresh
+      updates.slaState = null;
+      updates.slaEscalatedAt = null;
     }
     
-    const [updated] = await db
-      .update(activityTemplateSubmissions)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(activityTemplateSubmissions.id, id))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(activityTemplateSubmissions)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(activityTemplateSubmissions.id, id))
+        .returning();
+      if (row && updates.status === 'submitted') {
+        await this.recordSubmissionVersion(tx, row);
+      }
+      return row;
+    });
+    if (updates.status === 'submitted') {
+      await this.autoAssignReviewerSafely(id);
+    }
     return updated;
   }
 
+  // A failed auto-assignment leaves the submission in the unassigned queue rather than
+  // failing the applicant's submit
+  private async autoAssignReviewerSafely(submissionId: number): Promise<void> {
+    try {
+      const reviewerId = await this.autoAssignSubmissionReviewer(submissionId);
+      if (reviewerId) {
+        console.log(`[REVIEWER ASSIGNMENT] Submission ${submissionId} auto-assigned to ${reviewerId}`);
+      }
+    } catch (error) {
+      console.error(`[REVIEWER ASSIGNMENT] Auto-assignment failed for submission ${submissionId}:`, error);
+    }
+  }
+
   // Form template operations (legacy)
   async createFormTemplate(template: InsertFormTemplate): Promise<FormTemplate> {
     console.log('[STORAGE] Creating form template:', template);
@@ -2633,24 +3176,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async startApplicationPhase(applicationId: number, phase: string, userId: string): Promise<any> {
+  async startApplicationPhase(applicationId: number, phase: string, userId: string, actor: StatusActor = 'applicant'): Promise<any> {
     try {
-      // Update application status to reflect phase start
-      const statusMap: { [key: string]: string } = {
-        'pre_activity': 'under_review',
-        'post_activity': 'under_review'
-      };
-      
-      const newStatus = statusMap[phase] || 'under_review';
-      
-      const [updated] = await db
-        .update(applications)
-        .set({ 
-          status: newStatus as any,
-          updatedAt: new Date()
-        })
-        .where(eq(applications.id, applicationId))
-        .returning();
+      // Starting any phase means the applicant is working on the application;
+      // review statuses are only set by admins or the approval workflow
+      const updated = await this.updateApplicationStatus(applicationId, { status: 'in_progress', changedBy: userId }, actor);
       
       return { success: true, application: updated };
     } catch (error) {
@@ -2660,15 +3190,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Messaging operations
+  // Per-year counter incremented in a single upsert, so concurrent requests never share a number
   async generateTicketNumber(): Promise<string> {
-    const year = new Date().getFullYear().toString().slice(-2);
-    const existingTickets = await db.select().from(messages);
-    const nextNumber = String(existingTickets.length + 1).padStart(4, "0");
-    return `TKT-${year}-${nextNumber}`;
+    const year = new Date().getFullYear();
+    const [sequence] = await db
+      .insert(ticketNumberSequences)
+      .values({ year, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: ticketNumberSequences.year,
+        set: { lastNumber: sql`${ticketNumberSequences.lastNumber} + 1` }
+      })
+      .returning();
+    return `TKT-${String(year).slice(-2)}-${String(sequence.lastNumber).padStart(4, "0")}`;
   }
 
   async createMessage(messageData: any, providedTicketNumber?: string): Promise<Message> {
     let ticketNumber = providedTicketNumber;
+    let isNewTicket = false;
     
     console.log(`[STORAGE] CreateMessage called with ticketNumber: ${ticketNumber}, subject: "${messageData.subject}"`);
     
@@ -2708,13 +3246,14 @@ export class DatabaseStorage implements IStorage {
       // Generate new ticket number if no existing ticket found
       if (!ticketNumber) {
         ticketNumber = await this.generateTicketNumber();
+        isNewTicket = true;
         console.log(`[STORAGE] Generated new ticket: ${ticketNumber}`);
       }
     }
     
     // For replies, try to preserve the priority from the original ticket if not provided
     let messagePriority = messageData.priority;
-    if (!messagePriority && ticketNumber && ticketNumber !== await this.generateTicketNumber()) {
+    if (!messagePriority && ticketNumber && !isNewTicket) {
       // This is a reply - try to get the priority from the existing ticket
       try {
         const [existingMessage] = await db
@@ -2755,6 +3294,29 @@ export class DatabaseStorage implements IStorage {
       .returning();
     
     console.log(`[STORAGE] Message created with ticket: ${created.ticketNumber}`);
+
+    if (isNewTicket) {
+      await db
+        .insert(supportTickets)
+        .values({
+          ticketNumber: ticketNumber!,
+          subject: created.subject,
+          createdBy: created.fromUserId,
+          priority: created.priority || 'normal',
+          applicationId: created.applicationId,
+        })
+        .onConflictDoNothing();
+    } else if (ticketNumber) {
+      // The first admin reply stops the first-response SLA clock
+      await db
+        .update(supportTickets)
+        .set({
+          updatedAt: new Date(),
+          ...(created.isAdminMessage ? { firstResponseAt: sql`coalesce(${supportTickets.firstResponseAt}, now())` } : {})
+        })
+        .where(eq(supportTickets.ticketNumber, ticketNumber));
+    }
+
     return created;
   }
 
@@ -3080,6 +3642,17 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Everyone who has sent or received a message on the ticket
+  async getTicketParticipantIds(ticketNumber: string): Promise<string[]> {
+    const participants = await db
+      .select({ fromUserId: messages.fromUserId, toUserId: messages.toUserId })
+      .from(messages)
+      .where(eq(messages.ticketNumber, ticketNumber));
+    return Array.from(new Set(
+      participants.flatMap(p => [p.fromUserId, p.toUserId]).filter((id): id is string => !!id)
+    ));
+  }
+
   async resolveTicket(ticketNumber: string): Promise<void> {
     console.log(`[STORAGE] Resolving all messages for ticket: ${ticketNumber}`);
     
@@ -3104,6 +3677,15 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(messages.ticketNumber, ticketNumber));
 
+    await db
+      .update(supportTickets)
+      .set({
+        status: 'resolved',
+        resolvedAt: sql`coalesce(${supportTickets.resolvedAt}, now())`,
+        updatedAt: new Date()
+      })
+      .where(eq(supportTickets.ticketNumber, ticketNumber));
+
     // Create notification for the original user
     if (ticketMessages.length > 0) {
       const originalUser = ticketMessages[0].fromUserId;
@@ -3131,25 +3713,138 @@ export class DatabaseStorage implements IStorage {
         updatedAt: new Date() 
       })
       .where(eq(messages.ticketNumber, ticketNumber));
+    await db
+      .update(supportTickets)
+      .set({ priority, updatedAt: new Date() })
+      .where(eq(supportTickets.ticketNumber, ticketNumber));
     console.log(`[STORAGE] Ticket ${ticketNumber} priority updated to ${priority}`);
   }
 
-  async getAllMessagesForAdmin(): Promise<any[]> {
-    console.log('[STORAGE] Fetching all messages for admin dashboard');
-    return await db
+  // Support ticket operations
+  async getSupportTickets(): Promise<any[]> {
+    const tickets = await db
       .select({
-        id: messages.id,
-        fromUserId: messages.fromUserId,
-        toUserId: messages.toUserId,
-        subject: messages.subject,
-        message: messages.message,
-        isRead: messages.isRead,
-        isAdminMessage: messages.isAdminMessage,
-        isResolved: messages.isResolved,
-        isArchived: messages.isArchived,
-        isDeleted: messages.isDeleted,
-        status: messages.status,
-        priority: messages.priority,
+        id: supportTickets.id,
+        ticketNumber: supportTickets.ticketNumber,
+        subject: supportTickets.subject,
+        createdBy: supportTickets.createdBy,
+        assigneeId: supportTickets.assigneeId,
+        category: supportTickets.category,
+        status: supportTickets.status,
+        priority: supportTickets.priority,
+        applicationId: supportTickets.applicationId,
+        firstResponseAt: supportTickets.firstResponseAt,
+        resolvedAt: supportTickets.resolvedAt,
+        createdAt: supportTickets.createdAt,
+        updatedAt: supportTickets.updatedAt,
+        assignee: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        application: {
+          id: applications.id,
+          applicationId: applications.applicationId,
+          title: applications.title,
+          status: applications.status,
+          activityType: applications.activityType,
+          facilityName: facilities.name,
+        }
+      })
+      .from(supportTickets)
+      .leftJoin(users, eq(supportTickets.assigneeId, users.id))
+      .leftJoin(applications, eq(supportTickets.applicationId, applications.id))
+      .leftJoin(facilities, eq(applications.facilityId, facilities.id))
+      .orderBy(desc(supportTickets.updatedAt));
+
+    const now = new Date();
+    return tickets.map(ticket => ({ ...ticket, sla: getTicketSlaStatus(ticket, now) }));
+  }
+
+  async getSupportTicket(ticketNumber: string): Promise<SupportTicket | undefined> {
+    const [ticket] = await db
+      .select()
+      .from(supportTickets)
+      .where(eq(supportTickets.ticketNumber, ticketNumber));
+    return ticket;
+  }
+
+  async updateSupportTicket(
+    ticketNumber: string,
+    updates: Partial<Pick<SupportTicket, 'assigneeId' | 'category' | 'applicationId'>>
+  ): Promise<SupportTicket | undefined> {
+    const [updated] = await db
+      .update(supportTickets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(supportTickets.ticketNumber, ticketNumber))
+      .returning();
+    return updated;
+  }
+
+  async getTicketNotes(ticketId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: ticketNotes.id,
+        ticketId: ticketNotes.ticketId,
+        note: ticketNotes.note,
+        createdAt: ticketNotes.createdAt,
+        author: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        }
+      })
+      .from(ticketNotes)
+      .leftJoin(users, eq(ticketNotes.authorId, users.id))
+      .where(eq(ticketNotes.ticketId, ticketId))
+      .orderBy(ticketNotes.createdAt);
+  }
+
+  async createTicketNote(note: InsertTicketNote): Promise<TicketNote> {
+    const [created] = await db.insert(ticketNotes).values(note).returning();
+    return created;
+  }
+
+  async getCannedResponses(): Promise<CannedResponse[]> {
+    return await db.select().from(cannedResponses).orderBy(cannedResponses.title);
+  }
+
+  async createCannedResponse(response: InsertCannedResponse & { createdBy: string }): Promise<CannedResponse> {
+    const [created] = await db.insert(cannedResponses).values(response).returning();
+    return created;
+  }
+
+  async updateCannedResponse(id: number, updates: Partial<InsertCannedResponse>): Promise<CannedResponse | undefined> {
+    const [updated] = await db
+      .update(cannedResponses)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(cannedResponses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCannedResponse(id: number): Promise<void> {
+    await db.delete(cannedResponses).where(eq(cannedResponses.id, id));
+  }
+
+  async getAllMessagesForAdmin(): Promise<any[]> {
+    console.log('[STORAGE] Fetching all messages for admin dashboard');
+    return await db
+      .select({
+        id: messages.id,
+        fromUserId: messages.fromUserId,
+        toUserId: messages.toUserId,
+        subject: messages.subject,
+        message: messages.message,
+        isRead: messages.isRead,
+        isAdminMessage: messages.isAdminMessage,
+        isResolved: messages.isResolved,
+        isArchived: messages.isArchived,
+        isDeleted: messages.isDeleted,
+        status: messages.status,
+        priority: messages.priority,
         ticketNumber: messages.ticketNumber,
         parentMessageId: messages.parentMessageId,
         applicationId: messages.applicationId,
@@ -3241,13 +3936,6 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(messages.createdAt));
   }
 
-  async updateTicketPriority(ticketNumber: string, priority: string): Promise<void> {
-    await db
-      .update(messages)
-      .set({ priority, updatedAt: new Date() })
-      .where(eq(messages.ticketNumber, ticketNumber));
-  }
-
   // Get attachments for a message using the messageId field
   async getMessageAttachments(messageId: number, messageTimestamp: Date, applicationId?: number, companyId?: number): Promise<any[]> {
     console.log(`[STORAGE] Getting attachments for message ${messageId} (timestamp: ${messageTimestamp})`);
@@ -3495,77 +4183,8 @@ export class DatabaseStorage implements IStorage {
         console.log('Sending temporary password email...');
         
         try {
-          const { sendEmail } = await import('./sendgrid');
-          
-          // Get the correct base URL for login links
-          let baseUrl = process.env.FRONTEND_URL;
-          if (!baseUrl) {
-            if (process.env.REPLIT_DEV_DOMAIN) {
-              baseUrl = `https://${process.env.REPLIT_DEV_DOMAIN}`;
-            } else if (process.env.REPL_SLUG && process.env.REPL_OWNER) {
-              baseUrl = `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.replit.app`;
-            } else if (process.env.NODE_ENV === 'production') {
-              // Generic production environment - use Render deployment URL
-              baseUrl = 'https://semi-portal.onrender.com';
-            } else {
-              baseUrl = 'http://localhost:5000';
-            }
-          }
-          
-          const loginUrl = `${baseUrl}/auth`;
-          console.log(`[ADMIN USER EMAIL] Using login URL: ${loginUrl}`);
-          
-          const emailSent = await sendEmail({
-            to: user.email,
-            from: process.env.SENDGRID_FROM_EMAIL || 'donotreply@enerva.ca',
-            subject: 'SEMI Program - Your Account Setup Instructions',
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f8f9fa; padding: 20px;">
-                <div style="background-color: white; padding: 30px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-                  <div style="text-align: center; margin-bottom: 30px;">
-                    <h1 style="color: #2563eb; margin: 0; font-size: 28px;">SEMI Program</h1>
-                    <p style="color: #6b7280; margin: 5px 0 0 0; font-size: 16px;">Strategic Energy Management Initiative</p>
-                  </div>
-                  
-                  <h2 style="color: #333; margin-bottom: 20px;">Welcome to SEMI Program</h2>
-                  <p style="color: #555; line-height: 1.6; margin-bottom: 15px;">
-                    Your account has been created by a system administrator. You can now log in to the SEMI Program platform using the credentials below:
-                  </p>
-                  
-                  <div style="background-color: #f3f4f6; border: 1px solid #d1d5db; border-radius: 6px; padding: 20px; margin: 25px 0;">
-                    <h3 style="color: #374151; margin: 0 0 15px 0; font-size: 18px;">Login Information</h3>
-                    <p style="margin: 5px 0; color: #374151;">
-                      <strong>Email:</strong> ${user.email}
-                    </p>
-                    <p style="margin: 5px 0; color: #374151; font-family: monospace; font-size: 16px;">
-                      <strong>Temporary Password:</strong> ${userData.password}
-                    </p>
-                  </div>
-                  
-                  <div style="background-color: #fef3c7; border: 1px solid #f59e0b; border-radius: 6px; padding: 20px; margin: 25px 0;">
-                    <h3 style="color: #92400e; margin: 0 0 15px 0; font-size: 16px;">⚠️ Password Change Required</h3>
-                    <p style="margin: 0; color: #92400e; line-height: 1.6;">
-                      This is a temporary password. You'll be required to change it when you first log in for security purposes.
-                    </p>
-                  </div>
-                  
-                  <div style="text-align: center; margin: 30px 0;">
-                    <a href="${loginUrl}" 
-                       style="background-color: #2563eb; color: white; padding: 14px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; display: inline-block; font-size: 16px;">
-                      Log In to SEMI Program
-                    </a>
-                  </div>
-                  
-                  <div style="text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
-                    <p style="color: #6b7280; font-size: 14px; margin: 0;">
-                      SEMI Program - Strategic Energy Management Initiative<br>
-                      If you have any questions, please contact support.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            `,
-          });
+          const { sendAccountCreatedEmail } = await import('./email');
+          const emailSent = await sendAccountCreatedEmail(user.email!, userData.password);
 
           console.log('Temporary password email sent successfully:', emailSent);
         } catch (error) {
@@ -3942,6 +4561,8 @@ export class DatabaseStorage implements IStorage {
           isActive: user.isActive,
           isEmailVerified: user.isEmailVerified,
           emailVerifiedAt: user.emailVerifiedAt,
+          failedLoginAttempts: user.failedLoginAttempts,
+          lockedUntil: user.lockedUntil,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
           companyId: user.companyId,
@@ -4680,14 +5301,100 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Notification operations
-  async createNotification(notification: InsertNotification): Promise<Notification> {
+  // Delivers through the recipient's preferred channel for the event type: nothing is stored
+  // when it is off, 'email' also sends it right away, and 'digest' rows wait for the daily
+  // digest job. Callers that send their own email pass immediateEmail: false and check
+  // deliveryChannel on the returned row.
+  async createNotification(notification: InsertNotification, options: { immediateEmail?: boolean } = {}): Promise<Notification | null> {
+    const channel = await this.getNotificationChannel(notification.userId, notification.type);
+    if (channel === 'off') return null;
+
     const [created] = await db
       .insert(notifications)
-      .values(notification)
+      .values({ ...notification, deliveryChannel: channel })
       .returning();
+    publishToUsers([created.userId], { type: 'notification' });
+
+    if (channel === 'email' && options.immediateEmail !== false) {
+      this.emailNotification(created).catch(error => {
+        console.error(`[NOTIFICATIONS] Failed to email notification ${created.id}:`, error);
+      });
+    }
     return created;
   }
 
+  private async getNotificationChannel(userId: string, type: string): Promise<NotificationChannel> {
+    const eventType = getNotificationEventType(type);
+    if (!eventType) return 'in_app';
+
+    const [preference] = await db
+      .select({ channel: notificationPreferences.channel })
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.userId, userId), eq(notificationPreferences.eventType, eventType)))
+      .limit(1);
+    return isNotificationChannel(preference?.channel) ? preference.channel : NOTIFICATION_EVENTS[eventType].defaultChannel;
+  }
+
+  private async emailNotification(notification: Notification): Promise<void> {
+    const user = await this.getUser(notification.userId);
+    if (!user?.email || user.isActive === false) return;
+
+    const { sendNotificationEmail } = await import('./email');
+    if (await sendNotificationEmail({ to: user.email, firstName: user.firstName, notification })) {
+      await this.markNotificationsEmailed([notification.id]);
+    }
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+  }
+
+  async setNotificationPreferences(userId: string, preferences: Partial<Record<NotificationEventType, NotificationChannel>>): Promise<void> {
+    const rows = Object.entries(preferences).map(([eventType, channel]) => ({ userId, eventType, channel: channel! }));
+    if (rows.length === 0) return;
+
+    await db
+      .insert(notificationPreferences)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.eventType],
+        set: { channel: sql`excluded.channel`, updatedAt: new Date() },
+      });
+  }
+
+  // Unread digest notifications not yet emailed, grouped by recipient
+  async getPendingDigestNotifications(): Promise<{ user: User; notifications: Notification[] }[]> {
+    const rows = await db
+      .select({ notification: notifications, user: users })
+      .from(notifications)
+      .innerJoin(users, eq(notifications.userId, users.id))
+      .where(and(
+        eq(notifications.deliveryChannel, 'digest'),
+        eq(notifications.isRead, false),
+        isNull(notifications.emailedAt)
+      ))
+      .orderBy(notifications.userId, notifications.createdAt);
+
+    const byUser = new Map<string, { user: User; notifications: Notification[] }>();
+    for (const row of rows) {
+      const entry = byUser.get(row.user.id) ?? { user: row.user, notifications: [] };
+      entry.notifications.push(row.notification);
+      byUser.set(row.user.id, entry);
+    }
+    return Array.from(byUser.values());
+  }
+
+  async markNotificationsEmailed(notificationIds: number[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+    await db
+      .update(notifications)
+      .set({ emailedAt: new Date() })
+      .where(inArray(notifications.id, notificationIds));
+  }
+
   async getUserNotifications(userId: string): Promise<Notification[]> {
     return await db
       .select()
@@ -4787,20 +5494,444 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Enhanced application operations
-  async updateApplicationStatus(applicationId: number, updates: { status: string; reviewNotes?: string; reviewedBy?: string; reviewedAt?: Date }): Promise<any> {
-    const [updated] = await db
+  // Every application status change goes through here so the shared transition table is enforced
+  async updateApplicationStatus(applicationId: number, updates: { status: string; reviewNotes?: string; reviewedBy?: string; reviewedAt?: Date; changedBy?: string; note?: string }, actor: StatusActor = 'system', tx?: DbTransaction): Promise<any> {
+    if (!tx) {
+      return await db.transaction(tx => this.updateApplicationStatus(applicationId, updates, actor, tx));
+    }
+
+    // Locked until the transaction ends, so concurrent moves from the same status cannot both pass
+    const [current] = await tx
+      .select({ status: applications.status })
+      .from(applications)
+      .where(eq(applications.id, applicationId))
+      .for('update');
+
+    if (!current) {
+      throw new Error(`Application ${applicationId} not found`);
+    }
+
+    assertTransition(current.status, updates.status, actor);
+
+    const [updated] = await tx
       .update(applications)
       .set({ 
         status: updates.status as any,
         reviewNotes: updates.reviewNotes,
         reviewedBy: updates.reviewedBy,
-        reviewedAt: updates.reviewedAt
+        reviewedAt: updates.reviewedAt,
+        updatedAt: new Date()
       })
       .where(eq(applications.id, applicationId))
       .returning();
+
+    // Keep a permanent record of the move; repeated writes of the same status are only
+    // recorded when they carry a note (e.g. a second activity sent back for revision)
+    const note = updates.note ?? updates.reviewNotes;
+    if (current.status !== updates.status || note) {
+      await tx.insert(applicationStatusHistory).values({
+        applicationId,
+        fromStatus: current.status,
+        toStatus: updates.status as any,
+        changedBy: updates.changedBy ?? updates.reviewedBy ?? null,
+        actor,
+        note: note || null,
+      });
+    }
+
     return updated;
   }
 
+  async getApplicationStatusHistory(applicationId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: applicationStatusHistory.id,
+        applicationId: applicationStatusHistory.applicationId,
+        fromStatus: applicationStatusHistory.fromStatus,
+        toStatus: applicationStatusHistory.toStatus,
+        actor: applicationStatusHistory.actor,
+        note: applicationStatusHistory.note,
+        createdAt: applicationStatusHistory.createdAt,
+        changedBy: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          role: users.role
+        }
+      })
+      .from(applicationStatusHistory)
+      .leftJoin(users, eq(applicationStatusHistory.changedBy, users.id))
+      .where(eq(applicationStatusHistory.applicationId, applicationId))
+      .orderBy(desc(applicationStatusHistory.createdAt), desc(applicationStatusHistory.id));
+  }
+
+  // Audit log operations
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await db.insert(auditLogs).values(entry).returning();
+    return log;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<{ logs: AuditLog[]; total: number }> {
+    const conditions = [];
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+    if (filters.search) {
+      const term = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(auditLogs.actorEmail, term),
+        ilike(auditLogs.action, term),
+        ilike(auditLogs.entityId, term),
+        ilike(auditLogs.ipAddress, term),
+        sql`${auditLogs.before}::text ILIKE ${term}`,
+        sql`${auditLogs.after}::text ILIKE ${term}`
+      ));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(auditLogs).where(where);
+
+    let query = db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .$dynamic();
+    if (filters.limit !== undefined) query = query.limit(filters.limit);
+    if (filters.offset !== undefined) query = query.offset(filters.offset);
+
+    return { logs: await query, total: Number(total) };
+  }
+
+  async getAuditLogFacets(): Promise<{ actions: string[]; entityTypes: string[] }> {
+    const actions = await db.selectDistinct({ value: auditLogs.action }).from(auditLogs).orderBy(auditLogs.action);
+    const entityTypes = await db.selectDistinct({ value: auditLogs.entityType }).from(auditLogs).orderBy(auditLogs.entityType);
+    return {
+      actions: actions.map(a => a.value),
+      entityTypes: entityTypes.map(e => e.value),
+    };
+  }
+
+  // Login throttling
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    await db.insert(loginAttempts).values(attempt);
+  }
+
+  // Rejections by the throttle itself are left out, so they do not extend it (as with known users)
+  async getRecentFailedLogins(filter: { email: string } | { ipAddress: string }, since: Date): Promise<{ count: number; lastAttemptAt: Date | null }> {
+    const match = 'email' in filter ? eq(loginAttempts.email, filter.email) : eq(loginAttempts.ipAddress, filter.ipAddress);
+    const [result] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        lastAttemptAt: sql<Date | null>`max(${loginAttempts.createdAt})`,
+      })
+      .from(loginAttempts)
+      .where(and(
+        match,
+        eq(loginAttempts.successful, false),
+        notInArray(loginAttempts.failureReason, ['throttled', 'locked']),
+        gte(loginAttempts.createdAt, since)
+      ));
+    return {
+      count: result?.count ?? 0,
+      lastAttemptAt: result?.lastAttemptAt ? new Date(result.lastAttemptAt) : null,
+    };
+  }
+
+  // Decides and counts a sign-in attempt under the user row's lock, so parallel attempts are
+  // judged one after another and each sees the failures counted before it. An allowed attempt
+  // counts as a failure until the sign-in succeeds. Counts restart when the previous failure is
+  // older than resetBefore. undefined when canAttempt refused the attempt.
+  async claimLoginAttempt(userId: string, resetBefore: Date, canAttempt: (user: User) => boolean): Promise<{ before: User; after: User } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!before || !canAttempt(before)) return undefined;
+
+      const [after] = await tx
+        .update(users)
+        .set({
+          failedLoginAttempts: sql`CASE WHEN ${users.lastFailedLoginAt} IS NULL OR ${users.lastFailedLoginAt} < ${resetBefore} THEN 1 ELSE ${users.failedLoginAttempts} + 1 END`,
+          lastFailedLoginAt: new Date(),
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return { before, after };
+    });
+  }
+
+  // Takes back a claimed attempt that turned out not to be a failure, unless later attempts have
+  // been counted since
+  async releaseLoginAttempt(userId: string, claimed: { failedLoginAttempts: number; previousFailureAt: Date | null }): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: claimed.failedLoginAttempts - 1, lastFailedLoginAt: claimed.previousFailureAt })
+      .where(and(eq(users.id, userId), eq(users.failedLoginAttempts, claimed.failedLoginAttempts)));
+  }
+
+  async lockUserAccount(userId: string, lockedUntil: Date): Promise<void> {
+    await db.update(users).set({ lockedUntil }).where(eq(users.id, userId));
+  }
+
+  async clearFailedLogins(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  async recordLoginDevice(userId: string, device: { deviceId: string; ipAddress: string; userAgent: string | null }): Promise<{ firstLogin: boolean; newDevice: boolean; newIpAddress: boolean }> {
+    const known = await db
+      .select({ deviceId: knownLoginDevices.deviceId, ipAddress: knownLoginDevices.ipAddress })
+      .from(knownLoginDevices)
+      .where(eq(knownLoginDevices.userId, userId));
+
+    await db
+      .insert(knownLoginDevices)
+      .values({ userId, ...device })
+      .onConflictDoUpdate({
+        target: [knownLoginDevices.userId, knownLoginDevices.deviceId, knownLoginDevices.ipAddress],
+        set: { lastSeenAt: new Date(), userAgent: device.userAgent },
+      });
+
+    return {
+      firstLogin: known.length === 0,
+      newDevice: !known.some(entry => entry.deviceId === device.deviceId),
+      newIpAddress: !known.some(entry => entry.ipAddress === device.ipAddress),
+    };
+  }
+
+  async pruneLoginAttempts(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.createdAt, before))
+      .returning({ id: loginAttempts.id });
+    return deleted.length;
+  }
+
+  // Two-factor recovery codes and per-role requirements
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  // Marks the code used; false when it does not exist or was already used
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async getRecoveryCodeStatus(userId: string): Promise<{ total: number; remaining: number; generatedAt: Date | null }> {
+    const codes = await db
+      .select({ usedAt: twoFactorRecoveryCodes.usedAt, createdAt: twoFactorRecoveryCodes.createdAt })
+      .from(twoFactorRecoveryCodes)
+      .where(eq(twoFactorRecoveryCodes.userId, userId));
+    return {
+      total: codes.length,
+      remaining: codes.filter(code => !code.usedAt).length,
+      generatedAt: codes[0]?.createdAt ?? null,
+    };
+  }
+
+  async deleteRecoveryCodes(userId: string): Promise<void> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+  }
+
+  async getRoleSecurityPolicies(): Promise<RoleSecurityPolicy[]> {
+    return await db.select().from(roleSecurityPolicies);
+  }
+
+  // Every role gets a row, so switching a role off is recorded the same way as switching it on
+  async setTwoFactorRequiredRoles(roles: string[], updatedBy: string): Promise<RoleSecurityPolicy[]> {
+    const required = new Set(roles);
+    for (const role of roleEnum.enumValues) {
+      await db
+        .insert(roleSecurityPolicies)
+        .values({ role, requireTwoFactor: required.has(role), updatedBy })
+        .onConflictDoUpdate({
+          target: roleSecurityPolicies.role,
+          set: { requireTwoFactor: required.has(role), updatedBy, updatedAt: new Date() },
+        });
+    }
+    return this.getRoleSecurityPolicies();
+  }
+
+  async isTwoFactorRequiredForRole(role: string): Promise<boolean> {
+    const [policy] = await db
+      .select({ requireTwoFactor: roleSecurityPolicies.requireTwoFactor })
+      .from(roleSecurityPolicies)
+      .where(eq(roleSecurityPolicies.role, role as RoleSecurityPolicy['role']));
+    return policy?.requireTwoFactor ?? false;
+  }
+
+  // WebAuthn passkeys
+  async getWebauthnCredentials(userId: string): Promise<WebauthnCredential[]> {
+    return await db
+      .select()
+      .from(webauthnCredentials)
+      .where(eq(webauthnCredentials.userId, userId))
+      .orderBy(asc(webauthnCredentials.createdAt));
+  }
+
+  async getWebauthnCredentialByCredentialId(credentialId: string): Promise<WebauthnCredential | undefined> {
+    const [credential] = await db
+      .select()
+      .from(webauthnCredentials)
+      .where(eq(webauthnCredentials.credentialId, credentialId));
+    return credential;
+  }
+
+  async createWebauthnCredential(credential: InsertWebauthnCredential): Promise<WebauthnCredential> {
+    const [created] = await db.insert(webauthnCredentials).values(credential).returning();
+    return created;
+  }
+
+  async renameWebauthnCredential(userId: string, id: number, name: string): Promise<WebauthnCredential | undefined> {
+    const [updated] = await db
+      .update(webauthnCredentials)
+      .set({ name })
+      .where(and(eq(webauthnCredentials.id, id), eq(webauthnCredentials.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async recordWebauthnCredentialUse(id: number, counter: number): Promise<void> {
+    await db
+      .update(webauthnCredentials)
+      .set({ counter, lastUsedAt: new Date() })
+      .where(eq(webauthnCredentials.id, id));
+  }
+
+  async deleteWebauthnCredential(userId: string, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(webauthnCredentials)
+      .where(and(eq(webauthnCredentials.id, id), eq(webauthnCredentials.userId, userId)))
+      .returning({ id: webauthnCredentials.id });
+    return deleted.length > 0;
+  }
+
+  // Signed-in sessions. user_sessions is created by setupAuth rather than the schema, so these use raw SQL.
+  async getUserSessions(userId: string): Promise<{ sid: string; sess: Record<string, any>; expire: Date }[]> {
+    const result: any = await db.execute(sql`
+      SELECT sid, sess, expire
+      FROM user_sessions
+      WHERE sess->>'userId' = ${userId} AND expire > now()
+      ORDER BY expire DESC
+    `);
+    const rows = Array.isArray(result) ? result : result.rows || [];
+    return rows.map((row: any) => ({
+      sid: row.sid,
+      sess: typeof row.sess === 'string' ? JSON.parse(row.sess) : row.sess,
+      expire: new Date(row.expire),
+    }));
+  }
+
+  async deleteUserSession(userId: string, sid: string): Promise<boolean> {
+    const result: any = await db.execute(sql`
+      DELETE FROM user_sessions
+      WHERE sid = ${sid} AND sess->>'userId' = ${userId}
+      RETURNING sid
+    `);
+    const rows = Array.isArray(result) ? result : result.rows || [];
+    return rows.length > 0;
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<string[]> {
+    const result: any = await db.execute(sql`
+      DELETE FROM user_sessions
+      WHERE sess->>'userId' = ${userId} AND sid <> ${exceptSid ?? ''}
+      RETURNING sid
+    `);
+    const rows = Array.isArray(result) ? result : result.rows || [];
+    return rows.map((row: any) => row.sid);
+  }
+
+  // Company single sign-on (OpenID Connect)
+  async getCompanySsoConfig(companyId: number): Promise<CompanySsoConfig | undefined> {
+    const [config] = await db.select().from(companySsoConfigs).where(eq(companySsoConfigs.companyId, companyId));
+    return config;
+  }
+
+  async getCompanySsoConfigById(id: number): Promise<CompanySsoConfig | undefined> {
+    const [config] = await db.select().from(companySsoConfigs).where(eq(companySsoConfigs.id, id));
+    return config;
+  }
+
+  async getSsoConfigForEmailDomain(domain: string): Promise<CompanySsoConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(companySsoConfigs)
+      .where(and(
+        eq(companySsoConfigs.enabled, true),
+        sql`${domain.toLowerCase()} = ANY(${companySsoConfigs.allowedDomains})`
+      ));
+    return config;
+  }
+
+  // Domains already claimed by another company's configuration
+  async getSsoDomainConflicts(domains: string[], companyId: number): Promise<string[]> {
+    if (domains.length === 0) return [];
+    const others = await db
+      .select({ allowedDomains: companySsoConfigs.allowedDomains })
+      .from(companySsoConfigs)
+      .where(ne(companySsoConfigs.companyId, companyId));
+    const taken = new Set(others.flatMap(config => config.allowedDomains));
+    return domains.filter(domain => taken.has(domain));
+  }
+
+  async upsertCompanySsoConfig(companyId: number, config: Omit<InsertCompanySsoConfig, 'companyId'>): Promise<CompanySsoConfig> {
+    const [saved] = await db
+      .insert(companySsoConfigs)
+      .values({ ...config, companyId })
+      .onConflictDoUpdate({
+        target: companySsoConfigs.companyId,
+        set: { ...config, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteCompanySsoConfig(companyId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(companySsoConfigs)
+      .where(eq(companySsoConfigs.companyId, companyId))
+      .returning({ id: companySsoConfigs.id });
+    return deleted.length > 0;
+  }
+
+  async getUserBySsoIdentity(issuer: string, subject: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(userSsoIdentities)
+      .innerJoin(users, eq(users.id, userSsoIdentities.userId))
+      .where(and(eq(userSsoIdentities.issuer, issuer), eq(userSsoIdentities.subject, subject)));
+    return row?.user;
+  }
+
+  async linkSsoIdentity(identity: { userId: string; issuer: string; subject: string; email: string | null }): Promise<void> {
+    await db
+      .insert(userSsoIdentities)
+      .values({ ...identity, lastLoginAt: new Date() })
+      .onConflictDoUpdate({
+        target: [userSsoIdentities.issuer, userSsoIdentities.subject],
+        set: { email: identity.email, lastLoginAt: new Date() },
+      });
+  }
+
   // Contractor-specific operations
   async getContractorCompany(companyId: number): Promise<Company | undefined> {
     const [company] = await db
@@ -5603,7 +6734,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Approval system methods
-  async getPendingSubmissions(limit: number = 100, offset: number = 0): Promise<any[]> {
+  async getPendingSubmissions(filters: PendingSubmissionFilters = {}, limit: number = 100, offset: number = 0): Promise<any[]> {
     try {
       console.log("[APPROVALS] Getting ALL submissions for approval review (pending, approved, rejected)...");
       
@@ -5623,6 +6754,9 @@ export class DatabaseStorage implements IStorage {
           reviewNotes: applicationSubmissions.reviewNotes,
           createdAt: applicationSubmissions.createdAt,
           data: applicationSubmissions.data,
+          slaState: sql<string | null>`null`.as('sla_state'),
+          assignedReviewerId: sql<string | null>`null`.as('assigned_reviewer_id'),
+          assignedAt: sql<Date | null>`null`.as('assigned_at'),
           source: sql`'applicationSubmissions'`.as('source'),
           // Application data
           applicationData: {
@@ -5685,6 +6819,9 @@ export class DatabaseStorage implements IStorage {
           reviewNotes: activityTemplateSubmissions.reviewNotes,
           createdAt: activityTemplateSubmissions.createdAt,
           data: activityTemplateSubmissions.data,
+          slaState: activityTemplateSubmissions.slaState,
+          assignedReviewerId: activityTemplateSubmissions.assignedReviewerId,
+          assignedAt: activityTemplateSubmissions.assignedAt,
           source: sql`'activityTemplateSubmissions'`.as('source'),
           // Application data
           applicationData: {
@@ -5733,10 +6870,14 @@ export class DatabaseStorage implements IStorage {
         ));
 
       // Execute both queries in parallel for better performance
-      const [appSubmissions, activitySubmissions] = await Promise.all([
+      const [appSubmissions, activitySubmissions, slaSettings, reviewers] = await Promise.all([
         appSubmissionsQuery,
-        activitySubmissionsQuery
+        activitySubmissionsQuery,
+        this.getActivitySettings(),
+        this.getActiveSystemAdmins()
       ]);
+      const reviewersById = new Map(reviewers.map(reviewer => [reviewer.id, reviewer]));
+      const slaSettingsByActivity = new Map(slaSettings.map(setting => [setting.activityType as string, setting]));
       
       // Combine both sets of submissions and deduplicate by applicationId + formTemplateId
       const allSubmissions = [...appSubmissions, ...activitySubmissions];
@@ -5753,8 +6894,13 @@ export class DatabaseStorage implements IStorage {
         }
       }
       
-      // Sort by submission date and apply pagination
+      // Apply reviewer/activity filters, then sort by submission date and paginate
       const submissions = Array.from(uniqueSubmissions.values())
+        .filter(submission => {
+          if (filters.assignedReviewerId !== undefined && submission.assignedReviewerId !== filters.assignedReviewerId) return false;
+          if (filters.activityType && (submission.applicationData?.activityType || submission.template?.activityType) !== filters.activityType) return false;
+          return true;
+        })
         .sort((a, b) => {
           const dateA = new Date(a.submittedAt || a.createdAt);
           const dateB = new Date(b.submittedAt || b.createdAt);
@@ -5766,6 +6912,11 @@ export class DatabaseStorage implements IStorage {
 
       // Transform the enriched data to match the expected format
       const enrichedSubmissions = submissions.map(submission => {
+        const activityType = submission.applicationData?.activityType || submission.template?.activityType;
+        // Only items still waiting on a reviewer have a running SLA clock
+        const sla = (submission.approvalStatus || 'pending') === 'pending'
+          ? getReviewSlaStatus(submission.submittedAt, slaSettingsByActivity.get(activityType as string))
+          : null;
         return {
           id: submission.id,
           applicationId: submission.applicationId,
@@ -5790,7 +6941,17 @@ export class DatabaseStorage implements IStorage {
           companyName: submission.company?.name || 'Unknown Company',
           facilityName: submission.facility?.name || 'Unknown Facility',
           templateName: submission.template?.name || `Template ${submission.formTemplateId}`,
-          activityType: submission.applicationData?.activityType || submission.template?.activityType || 'Unknown'
+          activityType: activityType || 'Unknown',
+          slaState: submission.slaState,
+          sla,
+          assignedReviewerId: submission.assignedReviewerId,
+          assignedAt: submission.assignedAt,
+          assignedReviewer: submission.assignedReviewerId ? (() => {
+            const reviewer = reviewersById.get(submission.assignedReviewerId);
+            return reviewer
+              ? { id: reviewer.id, email: reviewer.email, firstName: reviewer.firstName, lastName: reviewer.lastName }
+              : { id: submission.assignedReviewerId, email: null, firstName: null, lastName: null };
+          })() : null
         };
       });
 
@@ -5802,6 +6963,158 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Submissions the SLA monitor needs to check: submitted, still pending review
+  async getSubmissionsAwaitingReview(): Promise<any[]> {
+    return await db
+      .select({
+        id: activityTemplateSubmissions.id,
+        applicationId: activityTemplateSubmissions.applicationId,
+        submittedAt: activityTemplateSubmissions.submittedAt,
+        slaState: activityTemplateSubmissions.slaState,
+        assignedReviewerId: activityTemplateSubmissions.assignedReviewerId,
+        activityType: applications.activityType,
+        applicationDisplayId: applications.applicationId,
+        templateName: activityTemplates.templateName
+      })
+      .from(activityTemplateSubmissions)
+      .innerJoin(applications, eq(activityTemplateSubmissions.applicationId, applications.id))
+      .leftJoin(activityTemplates, eq(activityTemplateSubmissions.activityTemplateId, activityTemplates.id))
+      .where(and(
+        eq(activityTemplateSubmissions.status, 'submitted'),
+        eq(activityTemplateSubmissions.approvalStatus, 'pending'),
+        isNotNull(activityTemplateSubmissions.submittedAt)
+      ));
+  }
+
+  // slaEscalatedAt records the last move up; a move down keeps it
+  async updateSubmissionSlaState(submissionId: number, slaState: string, escalated: boolean): Promise<void> {
+    await db
+      .update(activityTemplateSubmissions)
+      .set({ slaState, ...(escalated ? { slaEscalatedAt: new Date() } : {}) })
+      .where(eq(activityTemplateSubmissions.id, submissionId));
+  }
+
+  async getActiveSystemAdmins(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(eq(users.role, 'system_admin'), eq(users.isActive, true)))
+      .orderBy(users.id);
+  }
+
+  // Reviewer assignment
+  // Claiming only succeeds while the submission is unowned, so two admins can't both take it
+  async claimSubmission(submissionId: number, reviewerId: string): Promise<ActivityTemplateSubmission | undefined> {
+    const [claimed] = await db
+      .update(activityTemplateSubmissions)
+      .set({ assignedReviewerId: reviewerId, assignedAt: new Date(), assignedBy: reviewerId })
+      .where(and(
+        eq(activityTemplateSubmissions.id, submissionId),
+        isNull(activityTemplateSubmissions.assignedReviewerId)
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async assignSubmissionReviewer(submissionId: number, reviewerId: string | null, assignedBy: string): Promise<ActivityTemplateSubmission> {
+    const [updated] = await db
+      .update(activityTemplateSubmissions)
+      .set({
+        assignedReviewerId: reviewerId,
+        assignedAt: reviewerId ? new Date() : null,
+        assignedBy: reviewerId ? assignedBy : null
+      })
+      .where(eq(activityTemplateSubmissions.id, submissionId))
+      .returning();
+    return updated;
+  }
+
+  // Round-robin across active system admins, per activity type. The settings row is locked
+  // while the cursor moves so concurrent submissions don't land on the same reviewer.
+  async autoAssignSubmissionReviewer(submissionId: number): Promise<string | null> {
+    return await db.transaction(async (tx) => {
+      const [submission] = await tx
+        .select({
+          assignedReviewerId: activityTemplateSubmissions.assignedReviewerId,
+          activityType: applications.activityType
+        })
+        .from(activityTemplateSubmissions)
+        .innerJoin(applications, eq(activityTemplateSubmissions.applicationId, applications.id))
+        .where(eq(activityTemplateSubmissions.id, submissionId));
+
+      // Resubmissions stay with the reviewer who already owns them
+      if (!submission || submission.assignedReviewerId) return submission?.assignedReviewerId ?? null;
+
+      const [settings] = await tx
+        .select()
+        .from(activitySettings)
+        .where(eq(activitySettings.activityType, submission.activityType))
+        .for('update');
+      if (!settings?.autoAssignReviewers) return null;
+
+      const reviewers = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.role, 'system_admin'), eq(users.isActive, true)))
+        .orderBy(users.id);
+      if (reviewers.length === 0) return null;
+
+      const lastIndex = reviewers.findIndex(reviewer => reviewer.id === settings.lastAssignedReviewerId);
+      const next = reviewers[(lastIndex + 1) % reviewers.length];
+
+      await tx
+        .update(activitySettings)
+        .set({ lastAssignedReviewerId: next.id })
+        .where(eq(activitySettings.id, settings.id));
+      await tx
+        .update(activityTemplateSubmissions)
+        .set({ assignedReviewerId: next.id, assignedAt: new Date(), assignedBy: null })
+        .where(eq(activityTemplateSubmissions.id, submissionId));
+
+      return next.id;
+    });
+  }
+
+  // Open (pending) submissions per reviewer, including reviewers with nothing assigned
+  async getReviewerWorkload(): Promise<any[]> {
+    const [reviewers, openCounts] = await Promise.all([
+      this.getActiveSystemAdmins(),
+      db
+        .select({
+          reviewerId: activityTemplateSubmissions.assignedReviewerId,
+          openCount: count(),
+          breachedCount: sql<number>`count(*) filter (where ${activityTemplateSubmissions.slaState} = 'breached')`
+        })
+        .from(activityTemplateSubmissions)
+        .where(and(
+          eq(activityTemplateSubmissions.status, 'submitted'),
+          eq(activityTemplateSubmissions.approvalStatus, 'pending')
+        ))
+        .groupBy(activityTemplateSubmissions.assignedReviewerId)
+    ]);
+
+    const countsByReviewer = new Map(openCounts.map(row => [row.reviewerId, row]));
+    const workload = reviewers.map(reviewer => ({
+      reviewerId: reviewer.id,
+      email: reviewer.email,
+      firstName: reviewer.firstName,
+      lastName: reviewer.lastName,
+      openCount: Number(countsByReviewer.get(reviewer.id)?.openCount ?? 0),
+      breachedCount: Number(countsByReviewer.get(reviewer.id)?.breachedCount ?? 0)
+    }));
+
+    const unassigned = countsByReviewer.get(null);
+    workload.push({
+      reviewerId: null as any,
+      email: null,
+      firstName: null,
+      lastName: null,
+      openCount: Number(unassigned?.openCount ?? 0),
+      breachedCount: Number(unassigned?.breachedCount ?? 0)
+    });
+    return workload;
+  }
+
   // Get detailed submission information for comprehensive review
   async getSubmissionDetails(submissionId: number): Promise<any> {
     try {
@@ -5868,11 +7181,14 @@ export class DatabaseStorage implements IStorage {
         submitter = user;
       }
 
-      // Get all uploaded documents for this application
+      // Get the current version of every uploaded document for this application
       const applicationDocuments = await db
         .select()
         .from(documents)
-        .where(eq(documents.applicationId, submission.applicationId))
+        .where(and(
+          eq(documents.applicationId, submission.applicationId),
+          eq(documents.isCurrentVersion, true)
+        ))
         .orderBy(desc(documents.createdAt));
 
       // Get contractor assignments if any
@@ -5919,223 +7235,175 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async approveSubmission(submissionId: number, reviewedBy: string, reviewNotes?: string): Promise<any> {
+  // Pins the document versions a reviewer saw. shownDocumentIds are the versions the review page
+  // listed; if any document has a different current version now, the decision is refused rather
+  // than pinned to something the reviewer never opened. Quarantined and infected versions are left out.
+  private async getReviewedDocumentsSnapshot(tx: DbTransaction, applicationId: number, shownDocumentIds?: number[]) {
+    const current = await tx
+      .select({
+        id: documents.id,
+        documentGroupId: documents.documentGroupId,
+        version: documents.version,
+        originalName: documents.originalName,
+        scanStatus: documents.scanStatus,
+      })
+      .from(documents)
+      .where(and(
+        eq(documents.applicationId, applicationId),
+        isNull(documents.messageId),
+        eq(documents.isCurrentVersion, true)
+      ))
+      .orderBy(documents.id);
+
+    if (shownDocumentIds) {
+      const shown = new Set(shownDocumentIds);
+      if (current.length !== shown.size || current.some(document => !shown.has(document.id))) {
+        throw new ReviewedDocumentsChangedError();
+      }
+    }
+
+    return current
+      .filter(document => document.scanStatus === 'clean')
+      .map(({ scanStatus, ...document }) => document);
+  }
+
+  // Finds a submission in either submissions table; the legacy applicationSubmissions table wins
+  private async findReviewableSubmission(tx: DbTransaction, submissionId: number) {
+    const [appSubmission] = await tx
+      .select()
+      .from(applicationSubmissions)
+      .where(eq(applicationSubmissions.id, submissionId))
+      .limit(1);
+    if (appSubmission) return { table: applicationSubmissions, submission: appSubmission, isActivity: false };
+
+    const [activitySubmission] = await tx
+      .select()
+      .from(activityTemplateSubmissions)
+      .where(eq(activityTemplateSubmissions.id, submissionId))
+      .limit(1);
+    if (activitySubmission) return { table: activityTemplateSubmissions, submission: activitySubmission, isActivity: true };
+
+    throw new Error(`Submission ${submissionId} not found in either table`);
+  }
+
+  // The decision, the application's move and its history row are written together, and the move is
+  // checked before anything is written, so a disallowed move leaves the submission as it was
+  async approveSubmission(submissionId: number, reviewedBy: string, reviewNotes?: string, shownDocumentIds?: number[]): Promise<any> {
     console.log(`[APPROVAL] Approving submission ${submissionId} by user ${reviewedBy}`);
-    
-    // Try to update in applicationSubmissions table first
-    let submission = null;
-    try {
-      const [appSubmission] = await db
-        .update(applicationSubmissions)
+
+    return await db.transaction(async (tx) => {
+      const { table, submission: found, isActivity } = await this.findReviewableSubmission(tx, submissionId);
+
+      const [application] = await tx
+        .select()
+        .from(applications)
+        .where(eq(applications.id, found.applicationId))
+        .for('update');
+
+      // Determine next status based on workflow progression
+      let newStatus = 'approved';
+      let statusDescription = 'All Activities Approved';
+      if (application) {
+        // Get all available templates for this activity type to determine next activity
+        const availableTemplates = await this.getActivityTemplates(application.activityType);
+
+        // Approved activities, counting this one
+        const otherApproved = await tx
+          .select({ id: activityTemplateSubmissions.id })
+          .from(activityTemplateSubmissions)
+          .where(and(
+            eq(activityTemplateSubmissions.applicationId, found.applicationId),
+            eq(activityTemplateSubmissions.approvalStatus, 'approved'),
+            ne(activityTemplateSubmissions.id, submissionId)
+          ));
+        const approvedCount = otherApproved.length + (isActivity ? 1 : 0);
+        console.log(`[APPROVAL] Application has ${approvedCount} approved submissions out of ${availableTemplates.length} total templates`);
+
+        if (approvedCount < availableTemplates.length) {
+          // More activities available - application can progress to next activity
+          const nextTemplate = availableTemplates[approvedCount];
+          newStatus = 'in_progress';
+          statusDescription = nextTemplate ? `${nextTemplate.name} Available` : 'In Progress';
+        }
+
+        assertTransition(application.status, newStatus, 'system');
+      }
+
+      const [submission] = await tx
+        .update(table)
         .set({
           approvalStatus: 'approved',
           reviewedBy,
           reviewedAt: new Date(),
           reviewNotes: reviewNotes || 'Approved via admin dashboard',
+          ...(isActivity ? { reviewedDocuments: await this.getReviewedDocumentsSnapshot(tx, found.applicationId, shownDocumentIds) } : {}),
           updatedAt: new Date()
         })
-        .where(eq(applicationSubmissions.id, submissionId))
+        .where(eq(table.id, submissionId))
         .returning();
-      
-      if (appSubmission) {
-        submission = appSubmission;
-        console.log(`[APPROVAL] Successfully approved submission ${submissionId} in applicationSubmissions table`);
-      }
-    } catch (err) {
-      console.log(`[APPROVAL] Submission ${submissionId} not found in applicationSubmissions, trying activityTemplateSubmissions...`);
-    }
-    
-    // If not found in applicationSubmissions, try activityTemplateSubmissions
-    if (!submission) {
-      try {
-        const [activitySubmission] = await db
-          .update(activityTemplateSubmissions)
-          .set({
-            approvalStatus: 'approved',
-            reviewedBy,
-            reviewedAt: new Date(),
-            reviewNotes: reviewNotes || 'Approved via admin dashboard',
-            updatedAt: new Date()
-          })
-          .where(eq(activityTemplateSubmissions.id, submissionId))
-          .returning();
-        
-        if (activitySubmission) {
-          submission = activitySubmission;
-          console.log(`[APPROVAL] Successfully approved submission ${submissionId} in activityTemplateSubmissions table`);
-        }
-      } catch (err) {
-        console.error(`[APPROVAL] Error updating submission ${submissionId}:`, err);
-        throw new Error(`Submission ${submissionId} not found in either table`);
+      console.log(`[APPROVAL] Approved submission ${submissionId} in ${isActivity ? 'activityTemplateSubmissions' : 'applicationSubmissions'}`);
+
+      if (application) {
+        await this.updateApplicationStatus(found.applicationId, {
+          status: newStatus,
+          reviewedBy,
+          reviewedAt: new Date(),
+          reviewNotes,
+          note: reviewNotes || `Activity approved - ${statusDescription}`
+        }, 'system', tx);
+        console.log(`[APPROVAL] Updated application ${found.applicationId} status to '${newStatus}' (${statusDescription})`);
       }
-    }
-    
-    if (submission) {
-      console.log(`[APPROVAL] Processing workflow progression for application ${submission.applicationId}`);
-      
-      // Get application details to determine next steps
-      const [application] = await db
+
+      return submission;
+    });
+  }
+
+  async rejectSubmission(submissionId: number, reviewedBy: string, reviewNotes: string, shownDocumentIds?: number[]): Promise<any> {
+    console.log(`[REJECTION] Rejecting submission ${submissionId} by user ${reviewedBy}: ${reviewNotes}`);
+
+    return await db.transaction(async (tx) => {
+      const { table, submission: found, isActivity } = await this.findReviewableSubmission(tx, submissionId);
+
+      const [application] = await tx
         .select()
         .from(applications)
-        .where(eq(applications.id, submission.applicationId))
-        .limit(1);
-      
+        .where(eq(applications.id, found.applicationId))
+        .for('update');
+
+      // The application goes to "needs_revision" so the applicant can resubmit
       if (application) {
-        // Get all available templates for this activity type to determine next activity
-        const availableTemplates = await this.getActivityTemplates(application.activityType);
-        console.log(`[APPROVAL] Found ${availableTemplates.length} available templates for ${application.activityType}`);
-        
-        // Get all approved activities for this application
-        const approvedActivities = await db
-          .select()
-          .from(activityTemplateSubmissions)
-          .where(
-            and(
-              eq(activityTemplateSubmissions.applicationId, submission.applicationId),
-              eq(activityTemplateSubmissions.approvalStatus, 'approved')
-            )
-          );
-        
-        console.log(`[APPROVAL] Application has ${approvedActivities.length} approved submissions out of ${availableTemplates.length} total templates`);
-        
-        // Determine next status based on workflow progression
-        let newStatus: string;
-        let statusDescription: string;
-        
-        if (approvedActivities.length < availableTemplates.length) {
-          // More activities available - application can progress to next activity
-          const nextTemplateIndex = approvedActivities.length;
-          const nextTemplate = availableTemplates[nextTemplateIndex];
-          
-          if (nextTemplate) {
-            newStatus = 'in_progress';
-            statusDescription = `${nextTemplate.name} Available`;
-            console.log(`[APPROVAL] Application can progress to next activity: ${nextTemplate.name}`);
-          } else {
-            newStatus = 'in_progress';
-            statusDescription = 'In Progress';
-            console.log(`[APPROVAL] Application continues in progress`);
-          }
-        } else {
-          // All activities completed and approved - use lowercase "approved" status to match database enum
-          newStatus = 'approved';
-          statusDescription = 'All Activities Approved';
-          console.log(`[APPROVAL] All activities completed - Application marked as 'approved'`);
-        }
-        
-        // Update application with new workflow status
-        await db
-          .update(applications)
-          .set({
-            status: newStatus,
-            updatedAt: new Date()
-          })
-          .where(eq(applications.id, submission.applicationId));
-        
-        console.log(`[APPROVAL] Updated application ${submission.applicationId} status to '${newStatus}' (${statusDescription})`);
+        assertTransition(application.status, 'needs_revision', 'system');
+        assertTransitionNotes(application.status, 'needs_revision', 'system', reviewNotes);
       }
-    }
-    
-    return submission;
-  }
 
-  async rejectSubmission(submissionId: number, reviewedBy: string, reviewNotes: string): Promise<any> {
-    console.log(`[REJECTION] Rejecting submission ${submissionId} by user ${reviewedBy}: ${reviewNotes}`);
-    
-    // Try to update in applicationSubmissions table first
-    let submission = null;
-    try {
-      const [appSubmission] = await db
-        .update(applicationSubmissions)
+      // The submission goes back to draft so it can be modified and resubmitted
+      const [submission] = await tx
+        .update(table)
         .set({
           approvalStatus: 'rejected',
+          status: 'draft',
           reviewedBy,
           reviewedAt: new Date(),
           reviewNotes,
+          ...(isActivity ? { reviewedDocuments: await this.getReviewedDocumentsSnapshot(tx, found.applicationId, shownDocumentIds) } : {}),
           updatedAt: new Date()
         })
-        .where(eq(applicationSubmissions.id, submissionId))
+        .where(eq(table.id, submissionId))
         .returning();
-      
-      if (appSubmission) {
-        submission = appSubmission;
-        console.log(`[REJECTION] Successfully rejected submission ${submissionId} in applicationSubmissions table`);
-        
-        // Update submission status back to draft to allow resubmission
-        await db
-          .update(applicationSubmissions)
-          .set({
-            status: 'draft',
-            updatedAt: new Date()
-          })
-          .where(eq(applicationSubmissions.id, submissionId));
-      }
-    } catch (err) {
-      console.log(`[REJECTION] Submission ${submissionId} not found in applicationSubmissions, trying activityTemplateSubmissions...`);
-    }
-    
-    // If not found in applicationSubmissions, try activityTemplateSubmissions
-    if (!submission) {
-      try {
-        const [activitySubmission] = await db
-          .update(activityTemplateSubmissions)
-          .set({
-            approvalStatus: 'rejected',
-            reviewedBy,
-            reviewedAt: new Date(),
-            reviewNotes,
-            updatedAt: new Date()
-          })
-          .where(eq(activityTemplateSubmissions.id, submissionId))
-          .returning();
-        
-        if (activitySubmission) {
-          submission = activitySubmission;
-          console.log(`[REJECTION] Successfully rejected submission ${submissionId} in activityTemplateSubmissions table`);
-          
-          // Update submission status back to draft to allow resubmission
-          await db
-            .update(activityTemplateSubmissions)
-            .set({
-              status: 'draft',
-              updatedAt: new Date()
-            })
-            .where(eq(activityTemplateSubmissions.id, submissionId));
-            
-          console.log(`[REJECTION] Submission ${submissionId} status reverted to 'draft' for resubmission`);
-        }
-      } catch (err) {
-        console.error(`[REJECTION] Error updating submission ${submissionId}:`, err);
-        throw new Error(`Submission ${submissionId} not found in either table`);
-      }
-    }
-    
-    if (submission) {
-      console.log(`[REJECTION] Processing rejection workflow for application ${submission.applicationId}`);
-      
-      // Get application details
-      const [application] = await db
-        .select()
-        .from(applications)
-        .where(eq(applications.id, submission.applicationId))
-        .limit(1);
-      
+      console.log(`[REJECTION] Rejected submission ${submissionId} and reverted it to 'draft' for resubmission`);
+
       if (application) {
-        // Update application status to "revision_required" to indicate rejection but allow resubmission
-        await db
-          .update(applications)
-          .set({
-            status: 'revision_required',
-            updatedAt: new Date()
-          })
-          .where(eq(applications.id, submission.applicationId));
-        
-        console.log(`[REJECTION] Application ${submission.applicationId} marked as 'revision_required' status - user can resubmit`);
-        console.log(`[REJECTION] Submission ${submissionId} reverted to 'draft' status - user can modify and resubmit`);
+        await this.updateApplicationStatus(found.applicationId, {
+          status: 'needs_revision',
+          reviewedBy,
+          reviewedAt: new Date(),
+          reviewNotes
+        }, 'system', tx);
+        console.log(`[REJECTION] Application ${found.applicationId} marked as 'needs_revision' status - user can resubmit`);
       }
-    }
-    
-    return submission;
+
+      return submission;
+    });
   }
 
 
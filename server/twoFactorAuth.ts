@@ -1,5 +1,6 @@
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
+import { createHash, randomInt } from 'crypto';
 
 export interface TwoFactorSetup {
   secret: string;
@@ -43,4 +44,30 @@ export function generateTwoFactorToken(secret: string): string {
     secret: secret,
     encoding: 'base32',
   });
-}
\ No newline at end of file
+}
+
+// ========================================
+// RECOVERY CODES
+// ========================================
+// One-time codes shown once at enrollment (and on regeneration) for signing in without the
+// authenticator app. They are random, so a plain SHA-256 is enough to store them.
+export const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // no 0/o, 1/l/i
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+// Case, spaces and the dash are ignored, so codes can be typed however they were written down
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+// Authenticator codes are six digits; anything else entered at the 2FA prompt is a recovery code
+export function isTotpCode(code: string): boolean {
+  return /^\d{6}$/.test(code.trim());
+}
@@ -0,0 +1,398 @@
+import net from 'net';
+import path from 'path';
+import { createHash } from 'crypto';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { storage } from './storage';
+import { fileStore, locateFile, newUploadKey, storeUpload } from './file-store';
+import type { Document, InsertDocument } from '@shared/schema';
+import type { DocumentScanStatus } from '@shared/document-scan';
+
+// ============================================================================
+// UPLOAD PIPELINE - content checks, storage and virus scanning for user uploads
+// ============================================================================
+// 1. inspectUpload() runs in the request: the declared type must be on the allow-list and the
+//    file's magic bytes must match it, and executables and macro-enabled Office files are
+//    refused outright.
+// 2. saveDocumentUpload() stores the file and creates the document row in quarantine
+//    ("pending") when a ClamAV daemon is configured (CLAMAV_HOST), or "clean" when it is not.
+// 3. The scan runs after the response. Clean files are released; infected files are deleted
+//    from the file store. If clamd is unreachable the file stays quarantined and the rescan
+//    job retries it.
+
+export class UploadRejectedError extends Error {
+  constructor(public fileName: string, reason: string) {
+    super(`${fileName}: ${reason}`);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+// ============================================================================
+// CONTENT-TYPE VERIFICATION
+// ============================================================================
+
+type SniffedKind = 'pdf' | 'png' | 'jpeg' | 'gif' | 'webp' | 'zip' | 'ole' | 'executable' | 'text' | 'unknown';
+
+const BLOCKED_EXTENSIONS = new Set([
+  // Executables and scripts
+  '.exe', '.dll', '.com', '.scr', '.msi', '.msp', '.bat', '.cmd', '.ps1', '.vbs', '.vbe',
+  '.js', '.jse', '.wsf', '.wsh', '.hta', '.cpl', '.jar', '.sh', '.app', '.apk', '.lnk',
+  // Macro-enabled Office formats
+  '.docm', '.dotm', '.xlsm', '.xltm', '.xlam', '.xlsb', '.pptm', '.potm', '.ppsm', '.ppam',
+]);
+
+// Allow-list of declared MIME types -> byte signatures each may carry. Anything else (HTML,
+// SVG, scripts...) is refused; application/octet-stream is handled separately below.
+const EXPECTED_KINDS: Record<string, SniffedKind[]> = {
+  'application/pdf': ['pdf'],
+  'image/png': ['png'],
+  'image/jpeg': ['jpeg'],
+  'image/jpg': ['jpeg'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'application/msword': ['ole'],
+  // Windows browsers report .csv files as Excel
+  'application/vnd.ms-excel': ['ole', 'text'],
+  'application/vnd.ms-powerpoint': ['ole'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['zip'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['zip'],
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['zip'],
+  'application/zip': ['zip'],
+  'application/x-zip-compressed': ['zip'],
+  'text/plain': ['text'],
+  'text/csv': ['text'],
+};
+
+// MIME type to record when the browser only sent a generic type
+const KIND_MIME_TYPES: Partial<Record<SniffedKind, string>> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Types a browser may render inline from the app's origin. Everything else is served as a
+// download, so a stored file can never run script in the app.
+const INLINE_SAFE_MIME_TYPES = new Set(['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/gif', 'image/webp']);
+
+export const isInlineSafeMimeType = (mimeType: string | null | undefined) =>
+  INLINE_SAFE_MIME_TYPES.has((mimeType || '').toLowerCase());
+
+const startsWithBytes = (buffer: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+function sniffKind(buffer: Buffer): SniffedKind {
+  if (buffer.subarray(0, 1024).includes('%PDF-')) return 'pdf';
+  if (startsWithBytes(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWithBytes(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (buffer.subarray(0, 6).toString('latin1').match(/^GIF8[79]a$/)) return 'gif';
+  if (buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP') return 'webp';
+  if (startsWithBytes(buffer, [0x50, 0x4b, 0x03, 0x04]) || startsWithBytes(buffer, [0x50, 0x4b, 0x05, 0x06])) return 'zip';
+  if (startsWithBytes(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'ole';
+
+  // Windows PE, ELF, Mach-O (32/64-bit, both byte orders, universal) and scripts with a shebang
+  if (
+    startsWithBytes(buffer, [0x4d, 0x5a]) ||
+    startsWithBytes(buffer, [0x7f, 0x45, 0x4c, 0x46]) ||
+    [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe], [0xca, 0xfe, 0xba, 0xbe]]
+      .some(signature => startsWithBytes(buffer, signature)) ||
+    startsWithBytes(buffer, [0x23, 0x21])
+  ) {
+    return 'executable';
+  }
+
+  // Text has no signature; treat anything without NUL bytes in the first 8 KB as text
+  return buffer.subarray(0, 8192).includes(0) ? 'unknown' : 'text';
+}
+
+// OOXML packages keep macros in a vbaProject.bin part; part names are stored uncompressed in
+// the zip headers. Legacy OLE documents name their VBA storage _VBA_PROJECT (UTF-16LE).
+const MACRO_MARKERS: Partial<Record<SniffedKind, Buffer>> = {
+  zip: Buffer.from('vbaProject.bin'),
+  ole: Buffer.from('_VBA_PROJECT', 'utf16le'),
+};
+
+const MACROS_REJECTED = 'documents containing macros are not accepted. Save it without macros and upload it again';
+
+function containsMacros(buffer: Buffer, kind: SniffedKind): boolean {
+  const marker = MACRO_MARKERS[kind];
+  return !!marker && buffer.includes(marker);
+}
+
+// Name-only check, so chunked uploads can be refused before any bytes are sent
+export function inspectFileName(fileName: string) {
+  const extension = path.extname(fileName).toLowerCase();
+  if (BLOCKED_EXTENSIONS.has(extension)) {
+    throw new UploadRejectedError(fileName, `${extension} files are not accepted`);
+  }
+}
+
+// The checks that only need the start of the file: executables, the declared type against the
+// allow-list and the content's signature. Returns the MIME type to record.
+function inspectHead(fileName: string, declaredMimeType: string, head: Buffer): { mimeType: string; kind: SniffedKind } {
+  const kind = sniffKind(head);
+  if (kind === 'executable') {
+    throw new UploadRejectedError(fileName, 'executable files are not accepted');
+  }
+
+  const declared = (declaredMimeType || 'application/octet-stream').toLowerCase();
+  const expected = EXPECTED_KINDS[declared];
+  if (!expected && declared !== 'application/octet-stream') {
+    throw new UploadRejectedError(fileName, `${declared} files are not accepted`);
+  }
+  if (expected && !expected.includes(kind)) {
+    throw new UploadRejectedError(fileName, `the file content does not match its type (${declared})`);
+  }
+
+  const mimeType = declared === 'application/octet-stream' ? KIND_MIME_TYPES[kind] ?? declared : declared;
+  return { mimeType, kind };
+}
+
+// Checks an upload before it is stored. Returns the MIME type to record, or throws
+// UploadRejectedError with a reason the uploader can act on.
+export function inspectUpload(file: Express.Multer.File): { mimeType: string } {
+  inspectFileName(file.originalname);
+  if (!file.buffer || file.size === 0) {
+    throw new UploadRejectedError(file.originalname, 'the file is empty');
+  }
+
+  const { mimeType, kind } = inspectHead(file.originalname, file.mimetype, file.buffer);
+  if (containsMacros(file.buffer, kind)) {
+    throw new UploadRejectedError(file.originalname, MACROS_REJECTED);
+  }
+  return { mimeType };
+}
+
+// ============================================================================
+// CLAMAV
+// ============================================================================
+
+const DEFAULT_CLAMAV_PORT = 3310;
+const DEFAULT_CLAMAV_TIMEOUT_MS = 60 * 1000;
+const CLAMAV_CHUNK_SIZE = 64 * 1024;
+
+export const isVirusScanEnabled = () => !!process.env.CLAMAV_HOST;
+
+type ScanResult = { infected: false } | { infected: true; signature: string };
+
+// Streams the file to clamd with the INSTREAM command: length-prefixed chunks ended by a
+// zero-length chunk. clamd answers "stream: OK" or "stream: <signature> FOUND".
+function scanWithClamAv(content: Buffer | Readable): Promise<ScanResult> {
+  const host = process.env.CLAMAV_HOST!;
+  const port = parseInt(process.env.CLAMAV_PORT || '', 10) || DEFAULT_CLAMAV_PORT;
+  const timeoutMs = parseInt(process.env.CLAMAV_TIMEOUT_MS || '', 10) || DEFAULT_CLAMAV_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    const response: Buffer[] = [];
+
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`ClamAV scan timed out after ${timeoutMs}ms`)));
+    socket.on('error', reject);
+    socket.on('data', chunk => response.push(chunk));
+    socket.on('end', () => {
+      const reply = Buffer.concat(response).toString('utf8').replace(/\0/g, '').trim();
+      const found = reply.match(/^stream: (.+) FOUND$/);
+      if (reply === 'stream: OK') resolve({ infected: false });
+      else if (found) resolve({ infected: true, signature: found[1] });
+      else reject(new Error(`Unexpected ClamAV response: ${reply || '(empty)'}`));
+    });
+
+    socket.on('connect', async () => {
+      try {
+        socket.write('zINSTREAM\0');
+        for await (const part of Buffer.isBuffer(content) ? [content] : content) {
+          const data = Buffer.from(part);
+          for (let offset = 0; offset < data.length; offset += CLAMAV_CHUNK_SIZE) {
+            const chunk = data.subarray(offset, offset + CLAMAV_CHUNK_SIZE);
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(chunk.length);
+            socket.write(length);
+            if (!socket.write(chunk)) await once(socket, 'drain');
+          }
+        }
+        socket.end(Buffer.alloc(4));
+      } catch (error) {
+        socket.destroy(error as Error);
+      }
+    });
+  });
+}
+
+// Scans a quarantined document and records the outcome. Scanner failures leave the document
+// pending for the rescan job.
+export async function scanDocument(document: Document, content: Buffer | Readable): Promise<DocumentScanStatus> {
+  let result: ScanResult;
+  try {
+    result = await scanWithClamAv(content);
+  } catch (error) {
+    console.error(`[UPLOAD SCAN] Could not scan document ${document.id}; it stays quarantined:`, error);
+    return 'pending';
+  }
+
+  if (!result.infected) {
+    await storage.updateDocumentScanResult(document.id, 'clean');
+    return 'clean';
+  }
+
+  console.warn(`[UPLOAD SCAN] Document ${document.id} (${document.originalName}) is infected: ${result.signature}`);
+  try {
+    const { store, key } = locateFile(document.filePath);
+    await store.delete(key);
+  } catch (error) {
+    console.error(`[UPLOAD SCAN] Failed to delete infected file ${document.filePath}:`, error);
+  }
+  await storage.updateDocumentScanResult(document.id, 'infected', `Malware detected: ${result.signature}`);
+  return 'infected';
+}
+
+// ============================================================================
+// STORING DOCUMENTS
+// ============================================================================
+
+type DocumentUploadFields = Omit<InsertDocument, 'filename' | 'originalName' | 'mimeType' | 'size' | 'filePath' | 'scanStatus'>;
+
+const recordDocument = (fields: DocumentUploadFields, file: { filePath: string; originalName: string; mimeType: string; size: number }) =>
+  storage.createDocument({
+    ...fields,
+    filename: path.basename(file.filePath),
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    size: file.size,
+    filePath: file.filePath,
+    scanStatus: isVirusScanEnabled() ? 'pending' : 'clean',
+  });
+
+// Verifies, stores and records one uploaded file. The scan (when enabled) runs after this
+// resolves, so callers can respond while the document is still quarantined.
+export async function saveDocumentUpload(file: Express.Multer.File, folderPath: string, fields: DocumentUploadFields): Promise<Document> {
+  const { mimeType } = inspectUpload(file);
+  const filePath = await storeUpload({ ...file, mimetype: mimeType }, folderPath);
+  const document = await recordDocument(fields, { filePath, originalName: file.originalname, mimeType, size: file.size });
+
+  if (isVirusScanEnabled()) {
+    scanDocument(document, file.buffer).catch(error =>
+      console.error(`[UPLOAD SCAN] Scan of document ${document.id} failed:`, error));
+  }
+  return document;
+}
+
+export interface StreamedUpload {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  chunks: AsyncIterable<Buffer>; // the file's bytes in order
+}
+
+// saveDocumentUpload for files too large to hold in memory (chunked uploads): the same checks run
+// while the chunks stream into the file store, and the scan reads the stored copy back. Also
+// returns the file's SHA-256.
+export async function saveStreamedDocumentUpload(upload: StreamedUpload, folderPath: string, fields: DocumentUploadFields): Promise<{ document: Document; checksum: string }> {
+  inspectFileName(upload.originalname);
+  const chunks = upload.chunks[Symbol.asyncIterator]();
+  const first = await chunks.next();
+  if (first.done || first.value.length === 0) {
+    throw new UploadRejectedError(upload.originalname, 'the file is empty');
+  }
+  const { mimeType, kind } = inspectHead(upload.originalname, upload.mimetype, first.value);
+
+  const marker = MACRO_MARKERS[kind];
+  const hash = createHash('sha256');
+  // Errors from the chunk source or the macro check, rather than whatever the store reports
+  let sourceError: unknown;
+  async function* checkedChunks() {
+    try {
+      // The end of the previous chunk, so a marker split across two chunks is still found
+      let tail = Buffer.alloc(0);
+      for (let next = first; !next.done; next = await chunks.next()) {
+        const chunk = next.value;
+        if (marker && (chunk.includes(marker) || Buffer.concat([tail, chunk.subarray(0, marker.length - 1)]).includes(marker))) {
+          throw new UploadRejectedError(upload.originalname, MACROS_REJECTED);
+        }
+        if (marker) tail = Buffer.from(chunk.subarray(-(marker.length - 1)));
+        hash.update(chunk);
+        yield chunk;
+      }
+    } catch (error) {
+      sourceError = error;
+      throw error;
+    }
+  }
+
+  const filePath = newUploadKey(upload, folderPath);
+  try {
+    await fileStore.put(filePath, Readable.from(checkedChunks()), { contentType: mimeType, size: upload.size });
+  } catch (error) {
+    await fileStore.delete(filePath).catch(() => {});
+    throw sourceError ?? error;
+  }
+  console.log(`[FILE STORE] Stored ${upload.originalname} as ${filePath} (${fileStore.driver})`);
+
+  const document = await recordDocument(fields, { filePath, originalName: upload.originalname, mimeType, size: upload.size });
+  if (isVirusScanEnabled()) {
+    fileStore.get(filePath)
+      .then(({ body }) => scanDocument(document, body))
+      .catch(error => console.error(`[UPLOAD SCAN] Scan of document ${document.id} failed:`, error));
+  }
+  return { document, checksum: hash.digest('hex') };
+}
+
+// ============================================================================
+// QUARANTINE RESCAN - retries documents whose scan could not complete
+// ============================================================================
+
+const DEFAULT_RESCAN_INTERVAL_MS = 5 * 60 * 1000;
+// Leave freshly uploaded documents to their in-request scan
+const RESCAN_MIN_AGE_MS = 2 * 60 * 1000;
+
+let rescanTimer: NodeJS.Timeout | null = null;
+
+export async function rescanQuarantinedDocuments(now: Date = new Date()): Promise<{ checked: number; clean: number; infected: number }> {
+  const quarantined = await storage.getQuarantinedDocuments(new Date(now.getTime() - RESCAN_MIN_AGE_MS));
+  const counts = { checked: quarantined.length, clean: 0, infected: 0 };
+
+  for (const document of quarantined) {
+    let content: Readable;
+    try {
+      const { store, key } = locateFile(document.filePath);
+      content = (await store.get(key)).body;
+    } catch (error) {
+      console.error(`[UPLOAD SCAN] Could not read quarantined document ${document.id}:`, error);
+      continue;
+    }
+
+    const status = await scanDocument(document, content);
+    if (status === 'clean') counts.clean++;
+    if (status === 'infected') counts.infected++;
+    // Stop early while the scanner is down rather than failing every document in turn
+    if (status === 'pending') break;
+  }
+
+  return counts;
+}
+
+export function startQuarantineRescan() {
+  if (rescanTimer) return;
+  if (!isVirusScanEnabled()) {
+    console.log('[UPLOAD SCAN] CLAMAV_HOST not set - uploads are content-checked but not virus scanned');
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.QUARANTINE_RESCAN_INTERVAL_MS || '', 10) || DEFAULT_RESCAN_INTERVAL_MS;
+
+  const tick = async () => {
+    try {
+      const { checked, clean, infected } = await rescanQuarantinedDocuments();
+      if (checked > 0) {
+        console.log(`[UPLOAD SCAN] Rescanned quarantined documents: ${clean} clean, ${infected} infected, ${checked - clean - infected} still pending`);
+      }
+    } catch (error) {
+      console.error('[UPLOAD SCAN] Rescan failed:', error);
+    }
+  };
+
+  rescanTimer = setInterval(tick, intervalMs);
+  rescanTimer.unref();
+  console.log(`[UPLOAD SCAN] Scanning uploads with ClamAV at ${process.env.CLAMAV_HOST} (rescanning quarantine every ${Math.round(intervalMs / 1000)}s)`);
+}
@@ -0,0 +1,157 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Store } from "express-session";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { describeUserAgent, getClientIp } from "./login-throttle";
+import { closeEventStreams } from "./realtime";
+
+// ============================================================================
+// ACTIVE SESSIONS - device list and remote sign-out
+// ============================================================================
+// Each signed-in session keeps a small `device` record in its session data: where it signed in
+// from and when it was last used. Users see their sessions by a hash of the session id (the id
+// itself is the cookie value) and can end any of them; admins can end all of a user's sessions.
+// Ending a session deletes its row, and the ids are remembered for a while so a request already
+// in flight on that session cannot write the row back when it finishes.
+
+// Last activity is only written back this often, so most requests do not re-save the session
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+// Longer than any request on a session stays open
+const REVOKED_SESSION_RETENTION_MS = 60 * 60 * 1000;
+
+const revokedSessions = new Map<string, number>();
+
+function markRevoked(sids: string[]) {
+  const now = Date.now();
+  revokedSessions.forEach((revokedAt, sid) => {
+    if (now - revokedAt > REVOKED_SESSION_RETENTION_MS) revokedSessions.delete(sid);
+  });
+  for (const sid of sids) revokedSessions.set(sid, now);
+}
+
+function isRevoked(sid: string) {
+  const revokedAt = revokedSessions.get(sid);
+  return revokedAt !== undefined && Date.now() - revokedAt <= REVOKED_SESSION_RETENTION_MS;
+}
+
+// Makes the session store drop saves of ended sessions instead of recreating their rows
+export function guardRevokedSessions(store: Store) {
+  const set = store.set.bind(store);
+  store.set = (sid, sess, callback) => {
+    if (isRevoked(sid)) return callback?.();
+    set(sid, sess, callback);
+  };
+  if (store.touch) {
+    const touch = store.touch.bind(store);
+    store.touch = (sid, sess, callback) => {
+      if (isRevoked(sid)) return callback?.();
+      touch(sid, sess, callback);
+    };
+  }
+}
+
+interface SessionDevice {
+  signedInAt: string;
+  lastActivityAt: string;
+  ipAddress: string;
+  userAgent: string | null;
+  location: string | null;
+}
+
+export interface ActiveSession {
+  id: string;
+  current: boolean;
+  device: string;
+  ipAddress: string | null;
+  location: string | null;
+  signedInAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: Date;
+}
+
+const PRIVATE_IP = /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|::1$|f[cd][0-9a-f]{2}:|fe80:)/i;
+
+// Not stored anywhere else, so an id cannot be turned back into a usable session cookie
+const toPublicId = (sid: string) => createHash('sha256').update(sid).digest('hex').slice(0, 32);
+
+// A rough place for the IP: private addresses are the local network, otherwise the country from
+// a CDN header (Cloudflare, Vercel) when the app sits behind one
+function locationHint(req: Request, ipAddress: string): string | null {
+  if (PRIVATE_IP.test(ipAddress.replace(/^::ffff:/, ''))) return 'Local network';
+  const country = req.get('cf-ipcountry') || req.get('x-vercel-ip-country');
+  if (!country || !/^[A-Z]{2}$/i.test(country)) return null;
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(country.toUpperCase()) ?? country;
+  } catch {
+    return country;
+  }
+}
+
+// Called when a session signs in
+export function startSessionTracking(req: Request) {
+  const now = new Date().toISOString();
+  const ipAddress = getClientIp(req);
+  const device: SessionDevice = {
+    signedInAt: now,
+    lastActivityAt: now,
+    ipAddress,
+    userAgent: req.get('user-agent') || null,
+    location: locationHint(req, ipAddress),
+  };
+  (req.session as any).device = device;
+}
+
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  const session = req.session as any;
+  if (session?.userId) {
+    const device: SessionDevice | undefined = session.device;
+    if (!device) {
+      // Signed in before sessions were tracked
+      startSessionTracking(req);
+    } else if (Date.now() - Date.parse(device.lastActivityAt) > ACTIVITY_WRITE_INTERVAL_MS) {
+      device.lastActivityAt = new Date().toISOString();
+      device.ipAddress = getClientIp(req);
+      device.location = locationHint(req, device.ipAddress);
+    }
+  }
+  next();
+}
+
+// The user's unexpired sessions, the current one first and then by most recent activity
+export async function listUserSessions(req: Request, userId: string): Promise<ActiveSession[]> {
+  const rows = await storage.getUserSessions(userId);
+  const sessions = rows.map(({ sid, sess, expire }): ActiveSession => {
+    const device: Partial<SessionDevice> = sess.device ?? {};
+    return {
+      id: toPublicId(sid),
+      current: sid === req.sessionID,
+      device: describeUserAgent(device.userAgent),
+      ipAddress: device.ipAddress ?? null,
+      location: device.location ?? null,
+      signedInAt: device.signedInAt ?? null,
+      lastActivityAt: device.lastActivityAt ?? null,
+      expiresAt: expire,
+    };
+  });
+  return sessions.sort((a, b) =>
+    Number(b.current) - Number(a.current) || (b.lastActivityAt ?? '').localeCompare(a.lastActivityAt ?? ''));
+}
+
+// Ends one of the user's sessions by its public id; 'current' when it is the caller's own
+export async function revokeUserSession(req: Request, userId: string, id: string): Promise<'revoked' | 'current' | 'not_found'> {
+  const target = (await storage.getUserSessions(userId)).find(row => toPublicId(row.sid) === id);
+  if (!target) return 'not_found';
+  if (target.sid === req.sessionID) return 'current';
+  if (!await storage.deleteUserSession(userId, target.sid)) return 'not_found';
+  markRevoked([target.sid]);
+  closeEventStreams(userId, { sessionId: target.sid });
+  return 'revoked';
+}
+
+// Every session of the user except, optionally, the one making the request
+export async function revokeAllUserSessions(userId: string, exceptSid?: string) {
+  const revoked = await storage.deleteUserSessions(userId, exceptSid);
+  markRevoked(revoked);
+  closeEventStreams(userId, { exceptSessionId: exceptSid });
+  return revoked.length;
+}
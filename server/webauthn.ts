@@ -0,0 +1,220 @@
+import type { Request } from "express";
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { storage } from "./storage";
+import { getAppBaseUrl } from "./email";
+import type { User, WebauthnCredential } from "@shared/schema";
+
+// ============================================================================
+// WEBAUTHN PASSKEYS - registration, second-factor and passwordless sign-in
+// ============================================================================
+// Challenges live in the session and are single use. A passkey is accepted either as the second
+// step after a correct password (the session then remembers which user passed it) or on its own,
+// in which case the authenticator must have verified the user with a PIN or biometric.
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// How long after a correct password (or organization sign-in) the second factor may be completed
+const PENDING_SECOND_FACTOR_TTL_MS = 5 * 60 * 1000;
+
+type ChallengePurpose = 'registration' | 'authentication';
+
+interface StoredChallenge {
+  challenge: string;
+  purpose: ChallengePurpose;
+  userId: string | null;
+  expiresAt: number;
+}
+
+export class WebauthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebauthnVerificationError';
+  }
+}
+
+// WEBAUTHN_ORIGIN and WEBAUTHN_RP_ID default to the app's own URL
+function getRelyingParty() {
+  const origin = new URL(process.env.WEBAUTHN_ORIGIN || getAppBaseUrl()).origin;
+  return {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'SEMI Program',
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+    origin,
+  };
+}
+
+const toDescriptor = (credential: WebauthnCredential) => ({
+  id: credential.credentialId,
+  transports: (credential.transports ?? undefined) as AuthenticatorTransportFuture[] | undefined,
+});
+
+function storeChallenge(req: Request, purpose: ChallengePurpose, challenge: string, userId: string | null) {
+  const stored: StoredChallenge = { challenge, purpose, userId, expiresAt: Date.now() + CHALLENGE_TTL_MS };
+  (req.session as any).webauthnChallenge = stored;
+}
+
+// Removes the challenge whatever the outcome, so each one can only be answered once
+function takeChallenge(req: Request, purpose: ChallengePurpose): StoredChallenge {
+  const stored: StoredChallenge | undefined = (req.session as any).webauthnChallenge;
+  delete (req.session as any).webauthnChallenge;
+  if (!stored || stored.purpose !== purpose || stored.expiresAt < Date.now()) {
+    throw new WebauthnVerificationError('The passkey request has expired. Please try again.');
+  }
+  return stored;
+}
+
+// Set by the login route once the password is right (or by the SSO callback once the identity
+// provider has signed the user in) and a second factor is still needed
+export function setPendingSecondFactor(req: Request, userId: string, via: 'password' | 'sso' = 'password') {
+  (req.session as any).pendingSecondFactor = { userId, via, expiresAt: Date.now() + PENDING_SECOND_FACTOR_TTL_MS };
+}
+
+export function clearPendingSecondFactor(req: Request) {
+  delete (req.session as any).pendingSecondFactor;
+}
+
+// With via, only a sign-in that got its first factor that way counts
+export function getPendingSecondFactorUserId(req: Request, via?: 'password' | 'sso'): string | null {
+  const pending = (req.session as any).pendingSecondFactor;
+  if (!pending || pending.expiresAt <= Date.now()) return null;
+  if (via && (pending.via ?? 'password') !== via) return null;
+  return pending.userId;
+}
+
+export async function createRegistrationOptions(req: Request, user: User): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const { rpName, rpID } = getRelyingParty();
+  const existing = await storage.getWebauthnCredentials(user.id);
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userID: new TextEncoder().encode(user.id),
+    userName: user.email || user.id,
+    userDisplayName: displayName || user.email || '',
+    attestationType: 'none',
+    excludeCredentials: existing.map(toDescriptor),
+    // Discoverable where possible, so the passkey also works without typing an email
+    authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+  });
+  storeChallenge(req, 'registration', options.challenge, user.id);
+  return options;
+}
+
+export async function verifyRegistration(req: Request, user: User, response: RegistrationResponseJSON, name: string): Promise<WebauthnCredential> {
+  const stored = takeChallenge(req, 'registration');
+  if (stored.userId !== user.id) {
+    throw new WebauthnVerificationError('The passkey request has expired. Please try again.');
+  }
+
+  const { rpID, origin } = getRelyingParty();
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: stored.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    console.error('[WEBAUTHN] Registration verification failed:', error);
+    throw new WebauthnVerificationError('The passkey could not be verified.');
+  }
+  if (!verification.verified || !verification.registrationInfo) {
+    throw new WebauthnVerificationError('The passkey could not be verified.');
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+  if (await storage.getWebauthnCredentialByCredentialId(credential.id)) {
+    throw new WebauthnVerificationError('This passkey is already registered.');
+  }
+  return await storage.createWebauthnCredential({
+    userId: user.id,
+    credentialId: credential.id,
+    publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+    counter: credential.counter,
+    transports: credential.transports ?? null,
+    name,
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+  });
+}
+
+// Limited to the pending user's passkeys for the step after a password, otherwise any
+// discoverable passkey
+export async function createAuthenticationOptions(req: Request, secondFactor: boolean): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  const { rpID } = getRelyingParty();
+  const pendingUserId = secondFactor ? getPendingSecondFactorUserId(req) : null;
+  if (secondFactor && !pendingUserId) {
+    throw new WebauthnVerificationError('Your sign-in has expired. Please sign in again.');
+  }
+  const allowCredentials = pendingUserId
+    ? (await storage.getWebauthnCredentials(pendingUserId)).map(toDescriptor)
+    : undefined;
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    allowCredentials,
+    userVerification: pendingUserId ? 'preferred' : 'required',
+  });
+  storeChallenge(req, 'authentication', options.challenge, pendingUserId);
+  return options;
+}
+
+// The credential that signed the response, after checking it belongs to expectedUserId when
+// one is given. Passwordless sign-in (no expectedUserId) also requires user verification.
+export async function verifyAuthentication(req: Request, response: AuthenticationResponseJSON, expectedUserId: string | null): Promise<WebauthnCredential> {
+  const stored = takeChallenge(req, 'authentication');
+  if (stored.userId !== expectedUserId) {
+    throw new WebauthnVerificationError('The passkey request has expired. Please try again.');
+  }
+
+  const credential = await storage.getWebauthnCredentialByCredentialId(response.id);
+  if (!credential || (expectedUserId && credential.userId !== expectedUserId)) {
+    throw new WebauthnVerificationError('This passkey is not registered to your account.');
+  }
+
+  const { rpID, origin } = getRelyingParty();
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: stored.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      credential: {
+        id: credential.credentialId,
+        publicKey: new Uint8Array(Buffer.from(credential.publicKey, 'base64url')),
+        counter: credential.counter,
+        transports: toDescriptor(credential).transports,
+      },
+      requireUserVerification: !expectedUserId,
+    });
+  } catch (error) {
+    console.error('[WEBAUTHN] Authentication verification failed:', error);
+    throw new WebauthnVerificationError('The passkey could not be verified.');
+  }
+  if (!verification.verified) {
+    throw new WebauthnVerificationError('The passkey could not be verified.');
+  }
+
+  await storage.recordWebauthnCredentialUse(credential.id, verification.authenticationInfo.newCounter);
+  return credential;
+}
+
+// The account a passwordless response claims to be for, so it can be throttled before verifying
+export async function getPasskeyOwner(response: AuthenticationResponseJSON): Promise<User | undefined> {
+  const credential = await storage.getWebauthnCredentialByCredentialId(response.id);
+  return credential ? await storage.getUser(credential.userId) : undefined;
+}
+
+export const hasPasskeys = async (userId: string) => (await storage.getWebauthnCredentials(userId)).length > 0;
@@ -0,0 +1,115 @@
+// Application status workflow - single source of truth for allowed status transitions
+// Shared by the server (enforcement) and the client (which actions to show)
+
+export const APPLICATION_STATUS_VALUES = [
+  "draft",
+  "in_progress",
+  "submitted",
+  "under_review",
+  "approved",
+  "rejected",
+  "needs_revision",
+  "completed",
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUS_VALUES[number];
+
+// Who is triggering a transition. "system" covers automatic moves made by the
+// submission/approval workflow rather than by a person clicking a button.
+export type StatusActor = "applicant" | "contractor" | "admin" | "system";
+
+export interface StatusTransition {
+  from: ApplicationStatus;
+  to: ApplicationStatus;
+  action: string; // Button label shown to users who may trigger it
+  actors: StatusActor[];
+  requiresNotes?: boolean;
+}
+
+export const APPLICATION_STATUS_TRANSITIONS: StatusTransition[] = [
+  // Applicant work
+  { from: "draft", to: "in_progress", action: "Start Application", actors: ["applicant", "contractor", "system"] },
+  { from: "draft", to: "submitted", action: "Submit", actors: ["system"] },
+  { from: "in_progress", to: "submitted", action: "Submit", actors: ["system"] },
+  { from: "submitted", to: "in_progress", action: "Continue Activities", actors: ["applicant", "contractor", "system"] },
+
+  // Review
+  { from: "submitted", to: "under_review", action: "Start Review", actors: ["admin", "system"] },
+  { from: "in_progress", to: "under_review", action: "Start Review", actors: ["admin", "system"] },
+  { from: "under_review", to: "in_progress", action: "Approve Activity", actors: ["system"] },
+  { from: "under_review", to: "approved", action: "Approve", actors: ["admin", "system"] },
+  { from: "under_review", to: "needs_revision", action: "Request Revision", actors: ["admin", "system"], requiresNotes: true },
+  { from: "under_review", to: "rejected", action: "Reject", actors: ["admin"], requiresNotes: true },
+
+  // Activity approvals/rejections happen while the application is still in progress
+  { from: "in_progress", to: "approved", action: "Approve", actors: ["system"] },
+  { from: "in_progress", to: "needs_revision", action: "Request Revision", actors: ["system"] },
+  { from: "submitted", to: "approved", action: "Approve", actors: ["system"] },
+  { from: "submitted", to: "needs_revision", action: "Request Revision", actors: ["system"] },
+
+  // Revision and resubmission
+  { from: "needs_revision", to: "in_progress", action: "Start Revision", actors: ["applicant", "contractor", "system"] },
+  { from: "needs_revision", to: "submitted", action: "Resubmit", actors: ["system"] },
+  { from: "rejected", to: "submitted", action: "Resubmit", actors: ["system"] },
+
+  // Close-out
+  { from: "approved", to: "completed", action: "Mark Completed", actors: ["admin", "system"] },
+];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  draft: "Draft",
+  in_progress: "In Progress",
+  submitted: "Submitted",
+  under_review: "Under Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  needs_revision: "Needs Revision",
+  completed: "Completed",
+};
+
+// Map a user role onto the actor used by the transition table
+export function getStatusActor(role: string | null | undefined): StatusActor {
+  if (role === "system_admin") return "admin";
+  if (role?.startsWith("contractor_")) return "contractor";
+  return "applicant";
+}
+
+export function getAllowedTransitions(from: string, actor: StatusActor): StatusTransition[] {
+  return APPLICATION_STATUS_TRANSITIONS.filter(
+    (transition) => transition.from === from && transition.actors.includes(actor)
+  );
+}
+
+// Staying in the same status is always allowed so repeated workflow writes are harmless
+export function canTransition(from: string, to: string, actor: StatusActor): boolean {
+  if (from === to) return true;
+  return getAllowedTransitions(from, actor).some((transition) => transition.to === to);
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: string, public to: string, public actor: StatusActor) {
+    super(`Cannot move application from '${from}' to '${to}'`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export function assertTransition(from: string, to: string, actor: StatusActor): void {
+  if (!canTransition(from, to, actor)) {
+    throw new InvalidStatusTransitionError(from, to, actor);
+  }
+}
+
+// Transitions such as Request Revision carry the reviewer's reasons
+export class TransitionNotesRequiredError extends Error {
+  constructor(public transition: StatusTransition) {
+    super(`Notes are required to ${transition.action.toLowerCase()}`);
+    this.name = "TransitionNotesRequiredError";
+  }
+}
+
+export function assertTransitionNotes(from: string, to: string, actor: StatusActor, notes: string | null | undefined): void {
+  const transition = getAllowedTransitions(from, actor).find((candidate) => candidate.to === to);
+  if (transition?.requiresNotes && !String(notes ?? "").trim()) {
+    throw new TransitionNotesRequiredError(transition);
+  }
+}
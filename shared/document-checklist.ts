@@ -0,0 +1,123 @@
+// Required-document checklists. Each activity template can list document slots an application
+// must fill before the template can be submitted, e.g. "Utility bills (12 months)" or "Signed
+// participant agreement". Applicants upload into a slot (documents.checklistSlotId), the
+// application page shows the checklist, and /api/activity-template-submissions refuses to
+// submit until every slot is satisfied.
+
+export interface RequiredDocumentSlot {
+  id: string;
+  name: string;
+  description?: string | null;
+  acceptedTypes: string[]; // file extensions such as ".pdf"; empty accepts any type
+  minCount: number;
+  maxCount?: number | null; // null = no upper limit
+  templateFieldId?: string | null; // file_download field of the same template with a blank to fill in
+}
+
+export interface ChecklistDocument {
+  id: number;
+  originalName: string;
+  checklistSlotId?: string | null;
+}
+
+export interface ChecklistItem {
+  slot: RequiredDocumentSlot;
+  documents: ChecklistDocument[];
+  satisfied: boolean;
+  error: string | null;
+}
+
+export interface ChecklistResult {
+  items: ChecklistItem[];
+  satisfied: boolean;
+  errors: Record<string, string>; // slot id -> message
+}
+
+export const MAX_CHECKLIST_SLOTS = 50;
+
+const normalizeExtension = (type: string) => {
+  const trimmed = type.trim().toLowerCase();
+  if (!trimmed) return "";
+  return trimmed.startsWith(".") ? trimmed : `.${trimmed}`;
+};
+
+export function isAcceptedFileType(slot: Pick<RequiredDocumentSlot, "acceptedTypes">, fileName: string): boolean {
+  if (slot.acceptedTypes.length === 0) return true;
+  const name = fileName.toLowerCase();
+  return slot.acceptedTypes.some(type => name.endsWith(type));
+}
+
+// Slots as stored (jsonb) or posted by the form builder. Throws with a readable message when
+// a slot is unusable, so the admin sees why the template was not saved.
+export function normalizeRequiredDocumentSlots(value: unknown): RequiredDocumentSlot[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error("Required documents must be a list");
+  if (value.length > MAX_CHECKLIST_SLOTS) throw new Error(`At most ${MAX_CHECKLIST_SLOTS} required documents per template`);
+
+  const ids = new Set<string>();
+  return value.map((raw: any, index) => {
+    const name = typeof raw?.name === "string" ? raw.name.trim() : "";
+    if (!name) throw new Error(`Required document ${index + 1} needs a name`);
+
+    const id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `slot_${index + 1}`;
+    if (ids.has(id)) throw new Error(`Duplicate required document id "${id}"`);
+    ids.add(id);
+
+    const minCount = Number.isInteger(raw.minCount) && raw.minCount >= 0 ? raw.minCount : 1;
+    const maxCount = raw.maxCount === null || raw.maxCount === undefined || raw.maxCount === "" ? null : Number(raw.maxCount);
+    if (maxCount !== null && (!Number.isInteger(maxCount) || maxCount < 1)) {
+      throw new Error(`${name}: maximum must be a whole number of at least 1`);
+    }
+    if (maxCount !== null && maxCount < minCount) {
+      throw new Error(`${name}: maximum cannot be lower than the minimum`);
+    }
+
+    const acceptedTypes = Array.isArray(raw.acceptedTypes)
+      ? Array.from(new Set(raw.acceptedTypes.map((type: unknown) => normalizeExtension(String(type))).filter(Boolean))) as string[]
+      : [];
+
+    return {
+      id,
+      name: name.slice(0, 255),
+      description: typeof raw.description === "string" && raw.description.trim() ? raw.description.trim() : null,
+      acceptedTypes,
+      minCount,
+      maxCount,
+      templateFieldId: typeof raw.templateFieldId === "string" && raw.templateFieldId ? raw.templateFieldId : null,
+    };
+  });
+}
+
+// Lenient read for stored slots: a template saved before a rule changed should still load
+export function parseRequiredDocumentSlots(value: unknown): RequiredDocumentSlot[] {
+  try {
+    return normalizeRequiredDocumentSlots(value);
+  } catch {
+    return [];
+  }
+}
+
+export function evaluateDocumentChecklist(slots: RequiredDocumentSlot[], documents: ChecklistDocument[]): ChecklistResult {
+  const errors: Record<string, string> = {};
+
+  const items = slots.map(slot => {
+    const slotDocuments = documents.filter(doc => doc.checklistSlotId === slot.id);
+    let error: string | null = null;
+
+    const rejected = slotDocuments.find(doc => !isAcceptedFileType(slot, doc.originalName));
+    if (slotDocuments.length < slot.minCount) {
+      error = slot.minCount === 1
+        ? `${slot.name} is required`
+        : `${slot.name} needs at least ${slot.minCount} files (${slotDocuments.length} uploaded)`;
+    } else if (slot.maxCount && slotDocuments.length > slot.maxCount) {
+      error = `${slot.name} allows at most ${slot.maxCount} file${slot.maxCount !== 1 ? "s" : ""}`;
+    } else if (rejected) {
+      error = `${rejected.originalName} is not an accepted file type for ${slot.name} (${slot.acceptedTypes.join(", ")})`;
+    }
+
+    if (error) errors[slot.id] = error;
+    return { slot, documents: slotDocuments, satisfied: !error, error };
+  });
+
+  return { items, satisfied: Object.keys(errors).length === 0, errors };
+}
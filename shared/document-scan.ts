@@ -0,0 +1,15 @@
+// Upload scanning - every uploaded document starts in quarantine ("pending") while the virus
+// scanner checks it, and can only be downloaded once it is "clean". Infected files are
+// deleted from the file store and the row is kept so the uploader can see why.
+
+export const DOCUMENT_SCAN_STATUSES = ["pending", "clean", "infected"] as const;
+export type DocumentScanStatus = typeof DOCUMENT_SCAN_STATUSES[number];
+
+export const DOCUMENT_SCAN_STATUS_LABELS: Record<DocumentScanStatus, string> = {
+  pending: "Scanning",
+  clean: "Clean",
+  infected: "Blocked",
+};
+
+export const isDocumentAvailable = (document: { scanStatus?: string | null }) =>
+  !document.scanStatus || document.scanStatus === "clean";
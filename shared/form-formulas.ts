@@ -0,0 +1,291 @@
+// Calculated fields for form builder templates. A calculated field holds a formula over other
+// fields of the same template, e.g. "{annualSavingsKwh} * {tariff}" or "{projectCost} - {incentive}".
+// The applicant form evaluates it live and the submission endpoint recomputes it, so stored
+// values always match the formula. Formulas are parsed here rather than eval'd.
+//
+// Supported syntax: numbers, {fieldId} references, + - * /, parentheses and the functions
+// min(), max(), abs() and round(value, decimals).
+
+import { stripHiddenFieldValues, type VisibilityField } from "./form-visibility";
+
+export interface CalculatedFieldConfig {
+  formula?: string;
+  unit?: string; // shown after the value, e.g. "kWh" or "$"
+  decimals?: number | null; // rounding applied to the stored value
+}
+
+export interface FormulaField extends CalculatedFieldConfig {
+  id: string;
+  type: string;
+}
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "ref"; fieldId: string }
+  | { kind: "unary"; operand: FormulaNode }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: FormulaFunction; args: FormulaNode[] };
+
+type FormulaFunction = "min" | "max" | "abs" | "round";
+const FUNCTIONS: FormulaFunction[] = ["min", "max", "abs", "round"];
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "ref"; value: string }
+  | { type: "name"; value: string }
+  | { type: "symbol"; value: string };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < formula.length) {
+    const char = formula[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(formula.slice(index));
+      if (!match) throw new FormulaError(`Invalid number at position ${index + 1}`);
+      tokens.push({ type: "number", value: parseFloat(match[0]) });
+      index += match[0].length;
+    } else if (char === "{") {
+      const end = formula.indexOf("}", index);
+      if (end === -1) throw new FormulaError("Missing closing } in field reference");
+      const fieldId = formula.slice(index + 1, end).trim();
+      if (!fieldId) throw new FormulaError("Empty field reference {}");
+      tokens.push({ type: "ref", value: fieldId });
+      index = end + 1;
+    } else if (/[a-z]/i.test(char)) {
+      const match = /^[a-z]+/i.exec(formula.slice(index))!;
+      tokens.push({ type: "name", value: match[0].toLowerCase() });
+      index += match[0].length;
+    } else if ("+-*/(),".includes(char)) {
+      tokens.push({ type: "symbol", value: char });
+      index++;
+    } else {
+      throw new FormulaError(`Unexpected character "${char}"`);
+    }
+  }
+  return tokens;
+}
+
+// Recursive-descent parser: expression > term > factor > primary
+export function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.type === "symbol" && peek()!.value === value;
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new FormulaError(`Expected "${value}"`);
+    position++;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isSymbol("+") || isSymbol("-")) {
+      const operator = tokens[position++].value as "+" | "-";
+      node = { kind: "binary", operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseFactor();
+    while (isSymbol("*") || isSymbol("/")) {
+      const operator = tokens[position++].value as "*" | "/";
+      node = { kind: "binary", operator, left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  const parseFactor = (): FormulaNode => {
+    if (isSymbol("-")) {
+      position++;
+      return { kind: "unary", operand: parseFactor() };
+    }
+    if (isSymbol("+")) {
+      position++;
+      return parseFactor();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new FormulaError("Formula ends unexpectedly");
+    position++;
+
+    if (token.type === "number") return { kind: "number", value: token.value };
+    if (token.type === "ref") return { kind: "ref", fieldId: token.value };
+    if (token.type === "name") {
+      if (!FUNCTIONS.includes(token.value as FormulaFunction)) {
+        throw new FormulaError(`Unknown function "${token.value}"`);
+      }
+      expectSymbol("(");
+      const args = [parseExpression()];
+      while (isSymbol(",")) {
+        position++;
+        args.push(parseExpression());
+      }
+      expectSymbol(")");
+      return { kind: "call", name: token.value as FormulaFunction, args };
+    }
+    if (token.value === "(") {
+      const node = parseExpression();
+      expectSymbol(")");
+      return node;
+    }
+    throw new FormulaError(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new FormulaError("Formula is empty");
+  const root = parseExpression();
+  if (position < tokens.length) throw new FormulaError(`Unexpected "${tokens[position].value}"`);
+  return root;
+}
+
+export function getFormulaReferences(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case "ref":
+      return [node.fieldId];
+    case "unary":
+      return getFormulaReferences(node.operand);
+    case "binary":
+      return [...getFormulaReferences(node.left), ...getFormulaReferences(node.right)];
+    case "call":
+      return node.args.flatMap(getFormulaReferences);
+    default:
+      return [];
+  }
+}
+
+// Returns null when any referenced value is missing or not a number, or on division by zero
+function evaluate(node: FormulaNode, resolve: (fieldId: string) => number | null): number | null {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "ref":
+      return resolve(node.fieldId);
+    case "unary": {
+      const value = evaluate(node.operand, resolve);
+      return value === null ? null : -value;
+    }
+    case "binary": {
+      const left = evaluate(node.left, resolve);
+      const right = evaluate(node.right, resolve);
+      if (left === null || right === null) return null;
+      if (node.operator === "+") return left + right;
+      if (node.operator === "-") return left - right;
+      if (node.operator === "*") return left * right;
+      return right === 0 ? null : left / right;
+    }
+    case "call": {
+      const args = node.args.map(arg => evaluate(arg, resolve));
+      if (args.some(arg => arg === null)) return null;
+      const values = args as number[];
+      if (node.name === "min") return Math.min(...values);
+      if (node.name === "max") return Math.max(...values);
+      if (node.name === "abs") return Math.abs(values[0]);
+      return roundTo(values[0], values[1] ?? 0);
+    }
+  }
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, Math.max(0, Math.min(10, Math.trunc(decimals))));
+  return Math.round(value * factor) / factor;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const number = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""));
+  return Number.isFinite(number) ? number : null;
+};
+
+// Checks a formula in the builder: syntax, unknown references and self-reference
+export function getFormulaError(formula: string | undefined, fieldId: string, fieldIds: string[]): string | null {
+  if (!formula?.trim()) return "Enter a formula";
+  try {
+    const references = getFormulaReferences(parseFormula(formula));
+    if (references.includes(fieldId)) return "A field cannot reference itself";
+    const unknown = references.find(reference => !fieldIds.includes(reference));
+    return unknown ? `Unknown field {${unknown}}` : null;
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : "Invalid formula";
+  }
+}
+
+// Returns a copy of the answers with every calculated field recomputed. Client-supplied values
+// for calculated fields are always overwritten. Calculated fields may reference each other;
+// circular or invalid formulas produce null.
+export function applyCalculatedFields<T extends Record<string, unknown>>(fields: FormulaField[], data: T): T {
+  const calculated = new Map(fields.filter(field => field.type === "calculated").map(field => [field.id, field]));
+  if (calculated.size === 0) return data;
+
+  const results = new Map<string, number | null>();
+  const evaluating = new Set<string>();
+
+  const compute = (fieldId: string): number | null => {
+    if (results.has(fieldId)) return results.get(fieldId)!;
+    const field = calculated.get(fieldId)!;
+    if (evaluating.has(fieldId)) return null;
+
+    evaluating.add(fieldId);
+    let value: number | null = null;
+    try {
+      value = evaluate(parseFormula(field.formula || ""), reference =>
+        calculated.has(reference) ? compute(reference) : toNumber(data[reference])
+      );
+    } catch {
+      value = null;
+    }
+    evaluating.delete(fieldId);
+
+    if (value !== null && !Number.isFinite(value)) value = null;
+    if (value !== null && typeof field.decimals === "number") value = roundTo(value, field.decimals);
+    results.set(fieldId, value);
+    return value;
+  };
+
+  const output: Record<string, unknown> = { ...data };
+  for (const fieldId of Array.from(calculated.keys())) {
+    output[fieldId] = compute(fieldId);
+  }
+  return output as T;
+}
+
+export function formatCalculatedValue(value: unknown, field: CalculatedFieldConfig): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const number = Number(value);
+  if (!Number.isFinite(number)) return "—";
+  const formatted = number.toLocaleString(undefined, {
+    minimumFractionDigits: typeof field.decimals === "number" ? field.decimals : 0,
+    maximumFractionDigits: typeof field.decimals === "number" ? field.decimals : 10,
+  });
+  if (!field.unit) return formatted;
+  return field.unit === "$" ? `$${formatted}` : `${formatted} ${field.unit}`;
+}
+
+// Like applyCalculatedFields, but answers to hidden fields do not feed any formula. Visibility is
+// judged with calculated values in place, since show/hide rules may test them. Hidden answers are
+// kept in the result; strip them again when submitting, as the calculated values may change what
+// is shown.
+export function applyVisibleCalculatedFields<T extends Record<string, unknown>>(
+  fields: (FormulaField & VisibilityField)[],
+  data: T
+): T {
+  const visibleAnswers = stripHiddenFieldValues(fields, applyCalculatedFields(fields, data));
+  const calculated: Record<string, unknown> = applyCalculatedFields(fields, visibleAnswers);
+  const output: Record<string, unknown> = { ...data };
+  for (const field of fields) {
+    if (field.type === "calculated") output[field.id] = calculated[field.id];
+  }
+  return output as T;
+}
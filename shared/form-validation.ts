@@ -0,0 +1,148 @@
+// Validation for form builder submissions. The applicant form runs this before submitting and
+// /api/activity-template-submissions runs it again on the stored template, so anything that
+// passes in the browser passes on the server. Rules live on each field in formFields JSON.
+
+import { getVisibleFieldIds, type VisibilityField } from "./form-visibility";
+
+export interface FieldValidationRules {
+  minLength?: number | null;
+  maxLength?: number | null;
+  min?: number | null; // numbers
+  max?: number | null;
+  pattern?: string | null; // regular expression the whole answer must match
+  patternMessage?: string | null;
+  minDate?: string | null; // YYYY-MM-DD, inclusive
+  maxDate?: string | null;
+  minFiles?: number | null;
+  maxFiles?: number | null;
+}
+
+export interface ValidatableField extends VisibilityField {
+  label: string;
+  required?: boolean;
+  options?: (string | { value: string; label: string })[];
+  fileTypes?: string[];
+  multiple?: boolean;
+  validation?: FieldValidationRules | null;
+}
+
+export interface SubmittedFile {
+  name: string;
+}
+
+export type FieldErrors = Record<string, string>;
+
+// Uploads are stored per application and document type rather than per field, so every file
+// field in a template is checked against the files uploaded under the template's type
+export function getTemplateDocumentType(templateName: string): string {
+  const name = templateName.toLowerCase();
+  return name === "preactivity" ? "pre_activity" : name === "post" ? "post_activity" : "other";
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+const hasValue = (limit: number | null | undefined): limit is number =>
+  typeof limit === "number" && !Number.isNaN(limit);
+
+const optionValue = (option: string | { value: string }) => (typeof option === "string" ? option : option.value);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateField(field: ValidatableField, value: unknown, files: SubmittedFile[]): string | null {
+  const rules = field.validation || {};
+
+  if (field.type === "file") {
+    const minFiles = Math.max(rules.minFiles ?? 0, field.required ? 1 : 0);
+    const maxFiles = field.multiple === false ? 1 : rules.maxFiles;
+    if (files.length < minFiles) {
+      return minFiles === 1 ? `${field.label} requires a file upload` : `${field.label} requires at least ${minFiles} files`;
+    }
+    if (hasValue(maxFiles) && files.length > maxFiles) {
+      return `${field.label} allows at most ${maxFiles} file${maxFiles !== 1 ? "s" : ""}`;
+    }
+    const accepted = (field.fileTypes || []).map(type => type.trim().toLowerCase()).filter(Boolean);
+    if (accepted.length > 0) {
+      const rejected = files.find(file => !accepted.some(type => file.name.toLowerCase().endsWith(type)));
+      if (rejected) return `${rejected.name} is not an accepted file type (${accepted.join(", ")})`;
+    }
+    return null;
+  }
+
+  if (field.type === "checkbox") {
+    const checked = value === true || value === "true" || (Array.isArray(value) && value.length > 0);
+    return field.required && !checked ? `${field.label} must be checked` : null;
+  }
+
+  if (isBlank(value)) {
+    return field.required ? `${field.label} is required` : null;
+  }
+
+  const text = String(value).trim();
+
+  switch (field.type) {
+    case "number":
+    case "calculated": {
+      const number = Number(text);
+      if (Number.isNaN(number)) return `${field.label} must be a number`;
+      if (hasValue(rules.min) && number < rules.min) return `${field.label} must be at least ${rules.min}`;
+      if (hasValue(rules.max) && number > rules.max) return `${field.label} must be at most ${rules.max}`;
+      break;
+    }
+    case "date": {
+      if (!DATE_PATTERN.test(text) || Number.isNaN(new Date(text).getTime())) return `${field.label} must be a valid date`;
+      // ISO dates compare correctly as strings
+      if (rules.minDate && text < rules.minDate) return `${field.label} must be on or after ${rules.minDate}`;
+      if (rules.maxDate && text > rules.maxDate) return `${field.label} must be on or before ${rules.maxDate}`;
+      break;
+    }
+    case "select":
+    case "radio": {
+      const options = (field.options || []).map(optionValue);
+      if (options.length > 0 && !options.includes(text)) return `${field.label} must be one of the listed options`;
+      break;
+    }
+  }
+
+  if (field.type === "text" || field.type === "textarea") {
+    if (hasValue(rules.minLength) && text.length < rules.minLength) {
+      return `${field.label} must be at least ${rules.minLength} characters`;
+    }
+    if (hasValue(rules.maxLength) && text.length > rules.maxLength) {
+      return `${field.label} must be at most ${rules.maxLength} characters`;
+    }
+  }
+
+  if (rules.pattern) {
+    let pattern: RegExp | null = null;
+    try {
+      pattern = new RegExp(`^(?:${rules.pattern})$`);
+    } catch {
+      // An invalid pattern in the template should not block applicants
+    }
+    if (pattern && !pattern.test(text)) {
+      return rules.patternMessage || `${field.label} is not in the expected format`;
+    }
+  }
+
+  return null;
+}
+
+// Validates the answers of every visible field. Hidden fields are skipped entirely.
+export function validateFormSubmission(
+  fields: ValidatableField[],
+  data: Record<string, unknown>,
+  files: SubmittedFile[] = []
+): FieldErrors {
+  const visible = getVisibleFieldIds(fields, data);
+  const errors: FieldErrors = {};
+
+  for (const field of fields) {
+    if (!visible.has(field.id) || field.type === "file_download") continue;
+    const error = validateField(field, data[field.id], files);
+    if (error) errors[field.id] = error;
+  }
+
+  return errors;
+}
@@ -0,0 +1,123 @@
+// Conditional visibility for form builder fields. Rules are stored on each field in the
+// template's formFields JSON and evaluated identically by the applicant form, the builder
+// preview and the submission endpoint, so a hidden answer is never accepted by the server.
+
+export type VisibilityOperator =
+  | "equals"
+  | "not_equals"
+  | "checked"
+  | "not_checked"
+  | "not_empty"
+  | "empty"
+  | "greater_than"
+  | "less_than";
+
+export interface VisibilityCondition {
+  fieldId: string; // controlling field
+  operator: VisibilityOperator;
+  value?: string; // compared value for equals / not_equals / greater_than / less_than
+}
+
+export interface VisibilityRule {
+  match: "all" | "any";
+  conditions: VisibilityCondition[];
+}
+
+// Minimal field shape needed to evaluate rules; builder fields carry more properties
+export interface VisibilityField {
+  id: string;
+  type: string;
+  visibility?: VisibilityRule | null;
+}
+
+export const VISIBILITY_OPERATOR_LABELS: Record<VisibilityOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  checked: "is checked",
+  not_checked: "is not checked",
+  not_empty: "has a value",
+  empty: "is empty",
+  greater_than: "is greater than",
+  less_than: "is less than",
+};
+
+export const VALUELESS_OPERATORS: VisibilityOperator[] = ["checked", "not_checked", "not_empty", "empty"];
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+
+const isChecked = (value: unknown) =>
+  value === true || value === "true" || value === "on" || (Array.isArray(value) && value.length > 0);
+
+function evaluateCondition(condition: VisibilityCondition, value: unknown): boolean {
+  const expected = condition.value ?? "";
+  switch (condition.operator) {
+    case "equals":
+      return Array.isArray(value) ? value.map(String).includes(expected) : String(value ?? "") === expected;
+    case "not_equals":
+      return Array.isArray(value) ? !value.map(String).includes(expected) : String(value ?? "") !== expected;
+    case "checked":
+      return isChecked(value);
+    case "not_checked":
+      return !isChecked(value);
+    case "not_empty":
+      return !isEmptyValue(value);
+    case "empty":
+      return isEmptyValue(value);
+    case "greater_than":
+    case "less_than": {
+      if (isEmptyValue(value)) return false;
+      const actual = Number(value);
+      const threshold = Number(expected);
+      if (Number.isNaN(actual) || Number.isNaN(threshold)) return false;
+      return condition.operator === "greater_than" ? actual > threshold : actual < threshold;
+    }
+    default:
+      return true;
+  }
+}
+
+// Returns the ids of every visible field. A field controlled by a hidden field sees that
+// field as empty, so chains of rules collapse together; circular rules resolve to hidden.
+export function getVisibleFieldIds(fields: VisibilityField[], data: Record<string, unknown>): Set<string> {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const resolved = new Map<string, boolean>();
+  const resolving = new Set<string>();
+
+  const isVisible = (fieldId: string): boolean => {
+    const cached = resolved.get(fieldId);
+    if (cached !== undefined) return cached;
+    const field = byId.get(fieldId);
+    if (!field) return false;
+    if (resolving.has(fieldId)) return false;
+
+    const rule = field.visibility;
+    if (!rule || !rule.conditions?.length) {
+      resolved.set(fieldId, true);
+      return true;
+    }
+
+    resolving.add(fieldId);
+    const results = rule.conditions.map(condition => {
+      const value = isVisible(condition.fieldId) ? data[condition.fieldId] : undefined;
+      return evaluateCondition(condition, value);
+    });
+    resolving.delete(fieldId);
+
+    const visible = rule.match === "any" ? results.some(Boolean) : results.every(Boolean);
+    resolved.set(fieldId, visible);
+    return visible;
+  };
+
+  return new Set(fields.filter(field => isVisible(field.id)).map(field => field.id));
+}
+
+// Drops answers to fields that are hidden under the current answers. Keys that do not
+// belong to any template field are left alone (legacy data, uploaded file references).
+export function stripHiddenFieldValues<T extends Record<string, unknown>>(fields: VisibilityField[], data: T): T {
+  const visible = getVisibleFieldIds(fields, data);
+  const knownIds = new Set(fields.map(field => field.id));
+  return Object.fromEntries(
+    Object.entries(data).filter(([key]) => !knownIds.has(key) || visible.has(key))
+  ) as T;
+}
@@ -0,0 +1,92 @@
+// Notification preferences - how each user receives each kind of notification.
+// Every event type has one channel: shown in the portal only, also emailed right away,
+// collected into the daily digest email, or turned off entirely.
+
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "digest", "off"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app only",
+  email: "In-app + immediate email",
+  digest: "In-app + daily digest",
+  off: "Off",
+};
+
+export interface NotificationEventDefinition {
+  label: string;
+  description: string;
+  defaultChannel: NotificationChannel;
+  adminOnly?: boolean;
+}
+
+export const NOTIFICATION_EVENTS = {
+  admin_reply: {
+    label: "Support replies",
+    description: "Support staff reply to one of your tickets.",
+    defaultChannel: "email",
+  },
+  ticket_resolved: {
+    label: "Ticket resolved",
+    description: "One of your support tickets is marked resolved.",
+    defaultChannel: "in_app",
+  },
+  ticket_updated: {
+    label: "Ticket assignments",
+    description: "A support ticket is assigned to you.",
+    defaultChannel: "in_app",
+    adminOnly: true,
+  },
+  review_assigned: {
+    label: "Review assignments",
+    description: "A submission is assigned to you for review.",
+    defaultChannel: "in_app",
+    adminOnly: true,
+  },
+  review_sla: {
+    label: "Review SLA alerts",
+    description: "A submission you review is approaching or past its review SLA.",
+    defaultChannel: "in_app",
+    adminOnly: true,
+  },
+} satisfies Record<string, NotificationEventDefinition>;
+
+export type NotificationEventType = keyof typeof NOTIFICATION_EVENTS;
+
+export const NOTIFICATION_EVENT_TYPES = Object.keys(NOTIFICATION_EVENTS) as NotificationEventType[];
+
+export function isNotificationChannel(value: unknown): value is NotificationChannel {
+  return typeof value === "string" && (NOTIFICATION_CHANNELS as readonly string[]).includes(value);
+}
+
+export function isNotificationEventType(value: unknown): value is NotificationEventType {
+  return typeof value === "string" && value in NOTIFICATION_EVENTS;
+}
+
+// Maps a notification's type to its preference key; review_sla_approaching and
+// review_sla_breached share one setting. Unknown types have no preference and stay in-app.
+export function getNotificationEventType(type: string): NotificationEventType | null {
+  if (type.startsWith("review_sla_")) return "review_sla";
+  return isNotificationEventType(type) ? type : null;
+}
+
+// Event types a user can configure
+export function getNotificationEventsForRole(role: string | null | undefined): NotificationEventType[] {
+  return NOTIFICATION_EVENT_TYPES.filter(type => {
+    const event: NotificationEventDefinition = NOTIFICATION_EVENTS[type];
+    return !event.adminOnly || role === "system_admin";
+  });
+}
+
+// Effective channel for every configurable event, with stored choices over the defaults
+export function resolveNotificationPreferences(
+  stored: { eventType: string; channel: string }[],
+  role: string | null | undefined
+): Record<NotificationEventType, NotificationChannel> {
+  const choices = new Map(stored.map(preference => [preference.eventType, preference.channel]));
+  const resolved = {} as Record<NotificationEventType, NotificationChannel>;
+  for (const type of getNotificationEventsForRole(role)) {
+    const choice = choices.get(type);
+    resolved[type] = isNotificationChannel(choice) ? choice : NOTIFICATION_EVENTS[type].defaultChannel;
+  }
+  return resolved;
+}
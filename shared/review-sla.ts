@@ -0,0 +1,72 @@
+// Review SLA calculation - shared by the background monitor, the pending-submissions API
+// and the approval dashboard so everyone agrees on what "overdue" means.
+// SLAs are counted in business days (Monday-Friday); public holidays are not excluded.
+
+export type ReviewSlaState = "on_track" | "approaching" | "breached";
+
+// Escalation order; the monitor only notifies when a submission moves up this list
+export const REVIEW_SLA_STATE_RANK: Record<ReviewSlaState, number> = {
+  on_track: 0,
+  approaching: 1,
+  breached: 2,
+};
+
+export const REVIEW_SLA_STATE_LABELS: Record<ReviewSlaState, string> = {
+  on_track: "On Track",
+  approaching: "Due Soon",
+  breached: "Overdue",
+};
+
+export const DEFAULT_REVIEW_SLA_WARNING_DAYS = 2;
+
+export interface ReviewSlaConfig {
+  reviewSlaBusinessDays: number | null;
+  reviewSlaWarningBusinessDays?: number | null;
+}
+
+export interface ReviewSlaStatus {
+  state: ReviewSlaState;
+  dueAt: Date;
+  businessDaysAllowed: number;
+  hoursRemaining: number; // negative once breached
+}
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+export function addBusinessDays(start: Date, days: number): Date {
+  const result = new Date(start);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    if (!isWeekend(result)) remaining--;
+  }
+  return result;
+}
+
+export function getReviewSlaStatus(
+  submittedAt: Date | string | null | undefined,
+  config: ReviewSlaConfig | null | undefined,
+  now: Date = new Date()
+): ReviewSlaStatus | null {
+  if (!submittedAt || !config?.reviewSlaBusinessDays) return null;
+
+  const start = new Date(submittedAt);
+  const dueAt = addBusinessDays(start, config.reviewSlaBusinessDays);
+  const warningDays = config.reviewSlaWarningBusinessDays ?? DEFAULT_REVIEW_SLA_WARNING_DAYS;
+  const warningAt = addBusinessDays(start, Math.max(config.reviewSlaBusinessDays - warningDays, 0));
+
+  const state: ReviewSlaState = now >= dueAt ? "breached" : now >= warningAt ? "approaching" : "on_track";
+
+  return {
+    state,
+    dueAt,
+    businessDaysAllowed: config.reviewSlaBusinessDays,
+    hoursRemaining: Math.round((dueAt.getTime() - now.getTime()) / (60 * 60 * 1000)),
+  };
+}
+
+export function formatSlaTimeRemaining(hoursRemaining: number): string {
+  const absolute = Math.abs(hoursRemaining);
+  const amount = absolute >= 48 ? `${Math.floor(absolute / 24)}d` : `${absolute}h`;
+  return hoursRemaining < 0 ? `${amount} overdue` : `${amount} left`;
+}
@@ -31,7 +31,8 @@ export const sessions = pgTable(
 export const roleEnum = pgEnum("role", ["team_member", "company_admin", "contractor_individual", "contractor_team_member", "contractor_account_owner", "contractor_manager", "system_admin"]);
 export const permissionLevelEnum = pgEnum("permission_level", ["viewer", "editor", "manager", "owner"]);
 export const activityTypeEnum = pgEnum("activity_type", ["FRA", "SEM", "EAA", "EMIS", "CR"]);
-export const applicationStatusEnum = pgEnum("application_status", ["draft", "in_progress", "submitted", "under_review", "approved", "rejected", "needs_revision", "completed", "revision_required"]);
+// Allowed moves between these statuses live in shared/application-workflow.ts
+export const applicationStatusEnum = pgEnum("application_status", ["draft", "in_progress", "submitted", "under_review", "approved", "rejected", "needs_revision", "completed"]);
 export const approvalStatusEnum = pgEnum("approval_status", ["pending", "approved", "rejected", "needs_revision"]);
 export const documentTypeEnum = pgEnum("document_type", ["pre_activity", "post_activity", "supporting", "template", "other"]);
 export const typeOfOperationEnum = pgEnum("type_of_operation", ["continuous", "semi_continuous", "batch"]);
@@ -62,6 +63,10 @@ export const users = pgTable("users", {
   isTemporaryPassword: boolean("is_temporary_password").default(false),
   twoFactorSecret: varchar("two_factor_secret"),
   twoFactorEnabled: boolean("two_factor_enabled").default(false),
+  // Consecutive failed logins (password or 2FA code) since the last successful one; see server/login-throttle.ts
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -216,6 +221,20 @@ export const applications = pgTable("applications", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Application Status History - append-only record of every status transition
+export const applicationStatusHistory = pgTable("application_status_history", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull(),
+  fromStatus: applicationStatusEnum("from_status"),
+  toStatus: applicationStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by"), // null when the workflow moved the application without a user
+  actor: varchar("actor", { length: 20 }).notNull(), // 'applicant', 'contractor', 'admin', 'system'
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_application_status_history_application").on(table.applicationId),
+]);
+
 // Documents
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
@@ -231,8 +250,47 @@ export const documents = pgTable("documents", {
   isGlobal: boolean("is_global").default(false),
   uploadedBy: varchar("uploaded_by").notNull(),
   filePath: varchar("file_path", { length: 500 }).notNull(),
+  checklistSlotId: varchar("checklist_slot_id", { length: 64 }), // required-document slot this file fills
+  // Upload scan state (see shared/document-scan.ts); rows from before scanning count as clean
+  scanStatus: varchar("scan_status", { length: 20 }).default("clean").notNull(),
+  scanDetail: text("scan_detail"),
+  scannedAt: timestamp("scanned_at"),
+  // Versions of one logical document share documentGroupId (the id of its first version).
+  // Uploading a new version supersedes the current one; lists show current versions only.
+  documentGroupId: integer("document_group_id"),
+  version: integer("version").default(1).notNull(),
+  isCurrentVersion: boolean("is_current_version").default(true).notNull(),
+  supersededAt: timestamp("superseded_at"),
+  supersededBy: varchar("superseded_by"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_documents_group").on(table.documentGroupId, table.version),
+]);
+
+// Resumable chunked uploads (see server/chunked-uploads.ts). Chunks are stored in the file
+// store under upload-sessions/<id>/ until the upload completes and becomes a document.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: varchar("id", { length: 32 }).primaryKey(),
+  userId: varchar("user_id").notNull(),
+  purpose: varchar("purpose", { length: 20 }).notNull(), // 'document' or 'message'
+  applicationId: integer("application_id"),
+  companyId: integer("company_id"),
+  documentType: documentTypeEnum("document_type").notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  chunkSize: integer("chunk_size").notNull(),
+  chunkChecksums: text("chunk_checksums").array().default([]).notNull(), // SHA-256 hex per received chunk, by index
+  checksum: varchar("checksum", { length: 64 }), // SHA-256 of the assembled file
+  status: varchar("status", { length: 20 }).default("uploading").notNull(), // 'uploading', 'completing', 'complete', 'aborted'
+  documentId: integer("document_id"),
+  supersedesDocumentId: integer("supersedes_document_id"), // set when uploading a new version of a document
+  checklistSlotId: varchar("checklist_slot_id", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_upload_sessions_status_updated").on(table.status, table.updatedAt),
+]);
 
 // Contractor details
 export const contractorDetails = pgTable("contractor_details", {
@@ -285,6 +343,14 @@ export const activitySettings = pgTable("activity_settings", {
   allowContractorAssignment: boolean("allow_contractor_assignment").default(false),
   contractorFilterType: varchar("contractor_filter_type", { length: 20 }).default("all"),
   requiredContractorActivities: text("required_contractor_activities").array(),
+  // Review SLA - business days an admin has to review a submission (null = no SLA)
+  reviewSlaBusinessDays: integer("review_sla_business_days"),
+  reviewSlaWarningBusinessDays: integer("review_sla_warning_business_days").default(2),
+  // Reviewer assignment - round-robin new submissions across active system admins
+  autoAssignReviewers: boolean("auto_assign_reviewers").default(false),
+  lastAssignedReviewerId: varchar("last_assigned_reviewer_id"), // round-robin cursor
+  // Largest file accepted for this activity's uploads (null = DEFAULT_MAX_UPLOAD_MB)
+  maxUploadSizeMb: integer("max_upload_size_mb"),
   updatedBy: varchar("updated_by"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -328,6 +394,7 @@ export const formTemplates = pgTable("form_templates", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   formFields: text("form_fields"), // JSON string containing form field definitions
+  requiredDocuments: jsonb("required_documents"), // RequiredDocumentSlot[] checklist (shared/document-checklist.ts)
   order: integer("order").default(1), // Display order for templates
   isActive: boolean("is_active").default(true),
   createdBy: varchar("created_by").notNull(),
@@ -368,7 +435,49 @@ export const activityTemplateSubmissions = pgTable("activity_template_submission
   reviewedBy: varchar("reviewed_by"),
   reviewedAt: timestamp("reviewed_at"),
   reviewNotes: text("review_notes"),
-});
+  slaState: varchar("sla_state", { length: 20 }), // last state flagged by the SLA monitor: 'on_track', 'approaching', 'breached'
+  slaEscalatedAt: timestamp("sla_escalated_at"),
+  assignedReviewerId: varchar("assigned_reviewer_id"), // system admin who owns the review
+  assignedAt: timestamp("assigned_at"),
+  assignedBy: varchar("assigned_by"), // null when auto-assigned
+  reviewedDocuments: jsonb("reviewed_documents"), // [{ id, documentGroupId, version, originalName }] clean versions the reviewer saw when approving/rejecting
+}, (table) => [
+  index("IDX_activity_template_submissions_reviewer").on(table.assignedReviewerId),
+]);
+
+// Submission Field Comments - reviewer feedback attached to individual answers of a submission
+export const submissionFieldComments = pgTable("submission_field_comments", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(), // activity_template_submissions.id
+  applicationId: integer("application_id").notNull(),
+  activityTemplateId: integer("activity_template_id").notNull(),
+  fieldId: varchar("field_id", { length: 255 }).notNull(), // key in the submission's data / templateSnapshot
+  fieldLabel: varchar("field_label", { length: 255 }),
+  comment: text("comment").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by"),
+}, (table) => [
+  index("IDX_submission_field_comments_submission").on(table.submissionId),
+  index("IDX_submission_field_comments_application").on(table.applicationId, table.activityTemplateId),
+]);
+
+// Submission Versions - immutable snapshot of every submit of a template, so reviewers can
+// compare a resubmission against what they previously reviewed
+export const submissionVersions = pgTable("submission_versions", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(), // activity_template_submissions.id at submit time
+  applicationId: integer("application_id").notNull(),
+  activityTemplateId: integer("activity_template_id").notNull(),
+  versionNumber: integer("version_number").notNull(), // 1-based per application + template
+  data: jsonb("data").notNull(),
+  documents: jsonb("documents").notNull(), // [{ id, originalName, mimeType, size, documentType }] attached at submit time
+  submittedBy: varchar("submitted_by").notNull(),
+  submittedAt: timestamp("submitted_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_submission_versions_number").on(table.applicationId, table.activityTemplateId, table.versionNumber),
+]);
 
 // Application Submissions - Legacy table for backward compatibility
 export const applicationSubmissions = pgTable("application_submissions", {
@@ -419,6 +528,51 @@ export const messages = pgTable("messages", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Support tickets - one row per ticket; the conversation itself stays on messages.ticketNumber
+export const supportTickets = pgTable("support_tickets", {
+  id: serial("id").primaryKey(),
+  ticketNumber: varchar("ticket_number", { length: 50 }).notNull().unique(),
+  subject: varchar("subject", { length: 255 }).notNull(),
+  createdBy: varchar("created_by").notNull(),
+  assigneeId: varchar("assignee_id"), // system admin handling the ticket
+  category: varchar("category", { length: 30 }).default("general").notNull(), // see TICKET_CATEGORIES in shared/support-sla.ts
+  status: varchar("status", { length: 20 }).default("open").notNull(), // 'open', 'resolved'
+  priority: varchar("priority", { length: 20 }).default("normal").notNull(),
+  applicationId: integer("application_id"),
+  firstResponseAt: timestamp("first_response_at"), // first admin reply
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_support_tickets_assignee").on(table.assigneeId),
+]);
+
+// Last issued ticket number per year; incremented atomically by generateTicketNumber
+export const ticketNumberSequences = pgTable("ticket_number_sequences", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull(),
+});
+
+// Internal notes on a ticket - visible to system admins only, never sent to the requester
+export const ticketNotes = pgTable("ticket_notes", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull().references(() => supportTickets.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").notNull(),
+  note: text("note").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Canned responses - reusable reply text for the support dashboard
+export const cannedResponses = pgTable("canned_responses", {
+  id: serial("id").primaryKey(),
+  title: varchar("title", { length: 255 }).notNull(),
+  body: text("body").notNull(),
+  category: varchar("category", { length: 30 }), // null = any category
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Notifications - System notifications for status changes
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
@@ -429,9 +583,23 @@ export const notifications = pgTable("notifications", {
   isRead: boolean("is_read").default(false),
   applicationId: integer("application_id"), // optional link to specific application
   messageId: integer("message_id"), // optional link to specific message
+  deliveryChannel: varchar("delivery_channel", { length: 20 }).default("in_app").notNull(), // recipient's channel when created: 'in_app', 'email', 'digest'
+  emailedAt: timestamp("emailed_at"), // set once sent by immediate email or in a digest
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Per-user delivery channel for each notification event type (see shared/notification-preferences.ts).
+// Events without a row use their default channel.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  eventType: varchar("event_type", { length: 50 }).notNull(),
+  channel: varchar("channel", { length: 20 }).notNull(), // 'in_app', 'email', 'digest', 'off'
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_notification_preferences_user_event").on(table.userId, table.eventType),
+]);
+
 // System Announcements - Platform-wide announcements created by system admin
 export const systemAnnouncements = pgTable("system_announcements", {
   id: serial("id").primaryKey(),
@@ -542,6 +710,120 @@ export const contractorTeamApplicationAssignments = pgTable("contractor_team_app
   unique().on(table.applicationId, table.assignedUserId) // Each user can only be assigned once per application
 ]);
 
+// Audit Logs - platform-wide record of admin and security actions
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: varchar("actor_id"), // null for unauthenticated actions
+  actorEmail: varchar("actor_email"), // kept so entries survive user deletion
+  action: varchar("action", { length: 100 }).notNull(), // e.g. 'user.delete', 'company.bulk_delete'
+  entityType: varchar("entity_type", { length: 50 }).notNull(), // 'user', 'company', 'facility_activity', ...
+  entityId: varchar("entity_id", { length: 100 }),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  metadata: jsonb("metadata"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_logs_created_at").on(table.createdAt),
+  index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_logs_actor").on(table.actorId),
+]);
+
+// Login attempts - every password/2FA attempt, used for per-IP throttling and unknown-email backoff
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull(), // lowercased as entered; may not match a user
+  userId: varchar("user_id"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  successful: boolean("successful").notNull(),
+  failureReason: varchar("failure_reason", { length: 50 }), // 'invalid_password', 'invalid_2fa', 'throttled', 'locked', ...
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_login_attempts_email").on(table.email, table.createdAt),
+  index("IDX_login_attempts_ip").on(table.ipAddress, table.createdAt),
+]);
+
+// Devices and IPs each user has signed in from; a login from one not seen before sends an alert
+export const knownLoginDevices = pgTable("known_login_devices", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  deviceId: varchar("device_id", { length: 64 }).notNull(), // random id kept in a long-lived cookie
+  ipAddress: varchar("ip_address", { length: 64 }).notNull(),
+  userAgent: text("user_agent"),
+  firstSeenAt: timestamp("first_seen_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.deviceId, table.ipAddress),
+]);
+
+// One-time 2FA recovery codes, stored as SHA-256 hashes; used codes are kept with usedAt set
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_two_factor_recovery_codes_user").on(table.userId),
+]);
+
+// Security requirements per role, set by system admins; roles without a row have none
+export const roleSecurityPolicies = pgTable("role_security_policies", {
+  role: roleEnum("role").primaryKey(),
+  requireTwoFactor: boolean("require_two_factor").default(false).notNull(),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// WebAuthn passkeys registered by a user; usable as a second factor or to sign in without a password
+export const webauthnCredentials = pgTable("webauthn_credentials", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  credentialId: varchar("credential_id", { length: 512 }).notNull().unique(), // base64url
+  publicKey: text("public_key").notNull(), // base64url COSE key
+  counter: integer("counter").default(0).notNull(),
+  transports: text("transports").array(),
+  name: varchar("name", { length: 100 }).notNull(),
+  deviceType: varchar("device_type", { length: 20 }), // 'singleDevice' or 'multiDevice'
+  backedUp: boolean("backed_up").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => [
+  index("IDX_webauthn_credentials_user").on(table.userId),
+]);
+
+// Per-company OpenID Connect sign-in. Staff whose email domain is listed sign in through the
+// company's identity provider; unknown users are created in the company on first sign-in.
+export const companySsoConfigs = pgTable("company_sso_configs", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().unique(),
+  enabled: boolean("enabled").default(true).notNull(),
+  issuerUrl: varchar("issuer_url", { length: 500 }).notNull(),
+  clientId: varchar("client_id", { length: 255 }).notNull(),
+  clientSecret: text("client_secret"), // null for public clients, which rely on PKCE alone
+  allowedDomains: text("allowed_domains").array().notNull(), // lowercase, e.g. {"example.com"}
+  defaultPermissionLevel: permissionLevelEnum("default_permission_level").default("viewer").notNull(),
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Identity provider accounts (issuer + subject) linked to users, so a changed email still signs in
+export const userSsoIdentities = pgTable("user_sso_identities", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  issuer: varchar("issuer", { length: 500 }).notNull(),
+  subject: varchar("subject", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+}, (table) => [
+  unique().on(table.issuer, table.subject),
+  index("IDX_user_sso_identities_user").on(table.userId),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   company: one(companies, {
@@ -598,6 +880,18 @@ export const applicationsRelations = relations(applications, ({ one, many }) =>
   }),
   documents: many(documents),
   assignments: many(applicationAssignments),
+  statusHistory: many(applicationStatusHistory),
+}));
+
+export const applicationStatusHistoryRelations = relations(applicationStatusHistory, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationStatusHistory.applicationId],
+    references: [applications.id],
+  }),
+  changedByUser: one(users, {
+    fields: [applicationStatusHistory.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const documentsRelations = relations(documents, ({ one }) => ({
@@ -762,8 +1056,18 @@ export const insertApplicationSchema = createInsertSchema(applications).omit({
   updatedAt: true,
 });
 
+export const insertApplicationStatusHistorySchema = createInsertSchema(applicationStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
+  scanDetail: true,
+  scannedAt: true,
+  isCurrentVersion: true,
+  supersededAt: true,
+  supersededBy: true,
   createdAt: true,
 });
 
@@ -808,6 +1112,18 @@ export const insertActivityTemplateSubmissionSchema = createInsertSchema(activit
   updatedAt: true,
 });
 
+export const insertSubmissionVersionSchema = createInsertSchema(submissionVersions).omit({
+  id: true,
+  submittedAt: true,
+});
+
+export const insertSubmissionFieldCommentSchema = createInsertSchema(submissionFieldComments).omit({
+  id: true,
+  createdAt: true,
+  resolvedAt: true,
+  resolvedBy: true,
+});
+
 export const insertFormTemplateSchema = createInsertSchema(formTemplates).omit({
   id: true,
   createdAt: true,
@@ -839,8 +1155,22 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   updatedAt: true,
 });
 
+export const insertTicketNoteSchema = createInsertSchema(ticketNotes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCannedResponseSchema = createInsertSchema(cannedResponses).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
+  deliveryChannel: true,
+  emailedAt: true,
   createdAt: true,
 });
 
@@ -872,6 +1202,11 @@ export const insertContractorJoinRequestSchema = createInsertSchema(contractorJo
   updatedAt: true,
 });
 
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -882,7 +1217,11 @@ export type Facility = typeof facilities.$inferSelect;
 export type InsertFacility = z.infer<typeof insertFacilitySchema>;
 export type Application = typeof applications.$inferSelect;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
+export type ApplicationStatusHistory = typeof applicationStatusHistory.$inferSelect;
+export type InsertApplicationStatusHistory = z.infer<typeof insertApplicationStatusHistorySchema>;
 export type Document = typeof documents.$inferSelect;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = typeof uploadSessions.$inferInsert;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type ContractorDetails = typeof contractorDetails.$inferSelect;
 export type InsertContractorDetails = z.infer<typeof insertContractorDetailsSchema>;
@@ -897,6 +1236,10 @@ export type ActivityTemplate = typeof activityTemplates.$inferSelect;
 export type InsertActivityTemplate = z.infer<typeof insertActivityTemplateSchema>;
 export type ActivityTemplateSubmission = typeof activityTemplateSubmissions.$inferSelect;
 export type InsertActivityTemplateSubmission = z.infer<typeof insertActivityTemplateSubmissionSchema>;
+export type SubmissionFieldComment = typeof submissionFieldComments.$inferSelect;
+export type InsertSubmissionFieldComment = z.infer<typeof insertSubmissionFieldCommentSchema>;
+export type SubmissionVersion = typeof submissionVersions.$inferSelect;
+export type InsertSubmissionVersion = z.infer<typeof insertSubmissionVersionSchema>;
 export type FormTemplate = typeof formTemplates.$inferSelect;
 export type InsertFormTemplate = z.infer<typeof insertFormTemplateSchema>;
 export type FormField = typeof formFields.$inferSelect;
@@ -907,8 +1250,14 @@ export type FormResponse = typeof formResponses.$inferSelect;
 export type InsertFormResponse = z.infer<typeof insertFormResponseSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type SupportTicket = typeof supportTickets.$inferSelect;
+export type TicketNote = typeof ticketNotes.$inferSelect;
+export type InsertTicketNote = z.infer<typeof insertTicketNoteSchema>;
+export type CannedResponse = typeof cannedResponses.$inferSelect;
+export type InsertCannedResponse = z.infer<typeof insertCannedResponseSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
 export type SystemAnnouncement = typeof systemAnnouncements.$inferSelect;
 export type InsertSystemAnnouncement = z.infer<typeof insertSystemAnnouncementSchema>;
 export type AnnouncementAcknowledgment = typeof announcementAcknowledgments.$inferSelect;
@@ -918,6 +1267,17 @@ export type InsertAnnouncementRead = z.infer<typeof insertAnnouncementReadSchema
 export type TeamInvitation = typeof teamInvitations.$inferSelect;
 export type InsertTeamInvitation = z.infer<typeof insertTeamInvitationSchema>;
 export type ContractorJoinRequest = typeof contractorJoinRequests.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+export type KnownLoginDevice = typeof knownLoginDevices.$inferSelect;
+export type RoleSecurityPolicy = typeof roleSecurityPolicies.$inferSelect;
+export type WebauthnCredential = typeof webauthnCredentials.$inferSelect;
+export type InsertWebauthnCredential = typeof webauthnCredentials.$inferInsert;
+export type CompanySsoConfig = typeof companySsoConfigs.$inferSelect;
+export type InsertCompanySsoConfig = typeof companySsoConfigs.$inferInsert;
+export type UserSsoIdentity = typeof userSsoIdentities.$inferSelect;
 export type InsertContractorJoinRequest = z.infer<typeof insertContractorJoinRequestSchema>;
 
 // Recognition System Tables
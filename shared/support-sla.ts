@@ -0,0 +1,75 @@
+// Support ticket SLAs - targets for the first admin response and for resolution, by priority.
+// Unlike review SLAs these run on the clock (support is answered around the week), and the
+// clock stops at firstResponseAt / resolvedAt.
+
+import type { ReviewSlaState } from "./review-sla";
+
+export type TicketPriority = "low" | "normal" | "high";
+
+export const TICKET_CATEGORIES = ["general", "application", "documents", "technical", "account"] as const;
+export type TicketCategory = typeof TICKET_CATEGORIES[number];
+
+export const TICKET_CATEGORY_LABELS: Record<TicketCategory, string> = {
+  general: "General",
+  application: "Application",
+  documents: "Documents",
+  technical: "Technical",
+  account: "Account",
+};
+
+export const TICKET_SLA_HOURS: Record<TicketPriority, { firstResponse: number; resolution: number }> = {
+  high: { firstResponse: 4, resolution: 24 },
+  normal: { firstResponse: 24, resolution: 72 },
+  low: { firstResponse: 48, resolution: 168 },
+};
+
+// Share of the target after which a running clock counts as "approaching"
+const TICKET_SLA_WARNING_RATIO = 0.75;
+
+export interface TicketSlaTarget {
+  state: ReviewSlaState;
+  dueAt: Date;
+  hoursRemaining: number; // negative once breached
+  met: boolean; // clock stopped (responded / resolved)
+}
+
+export interface TicketSlaStatus {
+  firstResponse: TicketSlaTarget;
+  resolution: TicketSlaTarget;
+}
+
+export interface TicketSlaInput {
+  priority: string | null;
+  createdAt: Date | string;
+  firstResponseAt?: Date | string | null;
+  resolvedAt?: Date | string | null;
+}
+
+function getTarget(createdAt: Date, hours: number, stoppedAt: Date | null, now: Date): TicketSlaTarget {
+  const dueAt = new Date(createdAt.getTime() + hours * 60 * 60 * 1000);
+  const end = stoppedAt ?? now;
+  const elapsedHours = (end.getTime() - createdAt.getTime()) / (60 * 60 * 1000);
+  const state: ReviewSlaState = end >= dueAt
+    ? "breached"
+    : !stoppedAt && elapsedHours >= hours * TICKET_SLA_WARNING_RATIO ? "approaching" : "on_track";
+
+  return {
+    state,
+    dueAt,
+    hoursRemaining: Math.round((dueAt.getTime() - end.getTime()) / (60 * 60 * 1000)),
+    met: !!stoppedAt,
+  };
+}
+
+export function getTicketSlaStatus(ticket: TicketSlaInput, now: Date = new Date()): TicketSlaStatus {
+  const hours = TICKET_SLA_HOURS[(ticket.priority as TicketPriority)] ?? TICKET_SLA_HOURS.normal;
+  const createdAt = new Date(ticket.createdAt);
+  const resolvedAt = ticket.resolvedAt ? new Date(ticket.resolvedAt) : null;
+  // A ticket resolved without a reply still stops the first-response clock
+  const firstResponseAt = ticket.firstResponseAt ? new Date(ticket.firstResponseAt) : resolvedAt;
+
+  return {
+    firstResponse: getTarget(createdAt, hours.firstResponse, firstResponseAt, now),
+    resolution: getTarget(createdAt, hours.resolution, resolvedAt, now),
+  };
+}
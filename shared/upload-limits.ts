@@ -0,0 +1,15 @@
+// Upload size limits. Files are sent in UPLOAD_CHUNK_SIZE pieces, so the only ceiling is the
+// per-activity-type limit admins set in activity settings (maxUploadSizeMb), which also applies
+// to the single-request upload route. Uploads not tied to an application use the default.
+// MAX_UPLOAD_SIZE_MB bounds what admins can set.
+
+export const UPLOAD_CHUNK_SIZE = 2 * 1024 * 1024;
+export const DEFAULT_MAX_UPLOAD_MB = 10;
+export const MAX_UPLOAD_SIZE_MB = 250;
+
+const MB = 1024 * 1024;
+
+export function getMaxUploadBytes(setting?: { maxUploadSizeMb?: number | null } | null): number {
+  const limitMb = setting?.maxUploadSizeMb ?? DEFAULT_MAX_UPLOAD_MB;
+  return Math.min(Math.max(limitMb, 1), MAX_UPLOAD_SIZE_MB) * MB;
+}